@@ -1,5 +1,6 @@
 import { defineConfig } from 'vitest/config';
 import { getViteConfig } from 'astro/config';
+import { fileURLToPath } from 'node:url';
 
 // Fast test configuration - all tests under 100ms total
 export default defineConfig(
@@ -38,6 +39,14 @@ export default defineConfig(
       // Ultra-fast timeouts for MSW-mocked tests
       testTimeout: 500,   // 500ms max per test
       hookTimeout: 1000   // 1s max for setup/teardown
+    },
+
+    // Backend modules import shared contracts through the @shared path alias
+    resolve: {
+      alias: {
+        '@shared': fileURLToPath(new URL('../../workspaces/shared', import.meta.url)),
+        '@backend': fileURLToPath(new URL('../../workspaces/backend/src', import.meta.url))
+      }
     }
   })
 );
\ No newline at end of file
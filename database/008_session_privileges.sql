@@ -0,0 +1,7 @@
+-- Session privilege tracking
+-- Records the role a session was issued for so sessions rotate when a user's
+-- role changes. Pre-existing sessions default to 'user' and rotate on their
+-- next request if the account holds a different role.
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS issued_role user_role NOT NULL DEFAULT 'user';
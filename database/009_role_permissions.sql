@@ -0,0 +1,112 @@
+-- Role Permission Catalogue
+-- Mirrors ROLE_PERMISSIONS in workspaces/shared/utils/permissions.ts so HATEOAS
+-- links generated in SQL advertise exactly what the backend guards allow.
+-- Keep both in sync; tests/unit/permissions.fast.test.ts compares them.
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role user_role NOT NULL,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+DELETE FROM public.role_permissions;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('user', 'SUBMIT_PRICE_DATA'),
+  ('user', 'TRADE_ITEMS'),
+  ('shop_owner', 'SUBMIT_PRICE_DATA'),
+  ('shop_owner', 'TRADE_ITEMS'),
+  ('shop_owner', 'EDIT_OWN_LISTINGS'),
+  ('moderator', 'SUBMIT_PRICE_DATA'),
+  ('moderator', 'TRADE_ITEMS'),
+  ('moderator', 'EDIT_OWN_LISTINGS'),
+  ('moderator', 'VERIFY_PRICES'),
+  ('moderator', 'REVIEW_REPORTS'),
+  ('admin', 'SUBMIT_PRICE_DATA'),
+  ('admin', 'TRADE_ITEMS'),
+  ('admin', 'EDIT_OWN_LISTINGS'),
+  ('admin', 'VERIFY_PRICES'),
+  ('admin', 'REVIEW_REPORTS'),
+  ('admin', 'VIEW_ANALYTICS'),
+  ('admin', 'MANAGE_USERS');
+
+-- SECURITY DEFINER so anonymous PostgREST callers can evaluate links
+CREATE OR REPLACE FUNCTION role_has_permission(user_role TEXT, required_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.role_permissions
+    WHERE role::TEXT = user_role AND permission = required_permission
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Links now follow the catalogue instead of hardcoded role checks
+CREATE OR REPLACE FUNCTION generate_item_links(
+  item_id TEXT,
+  owner_id TEXT,
+  current_user_id TEXT DEFAULT NULL,
+  user_role TEXT DEFAULT 'user'
+) RETURNS JSONB AS $$
+DECLARE
+  links JSONB := '{}';
+BEGIN
+  -- Self link (always available)
+  links := jsonb_set(links, '{self}', jsonb_build_object(
+    'href', '/api/data/public_items?id=eq.' || item_id
+  ));
+  
+  -- Copy warp link (always available)
+  links := jsonb_set(links, '{copyWarp}', jsonb_build_object(
+    'href', '/api/v1/warp/copy',
+    'method', 'POST',
+    'title', 'Copy warp command'
+  ));
+  
+  -- Anonymous users get no actions
+  IF current_user_id IS NULL THEN
+    RETURN links;
+  END IF;
+
+  -- Owner actions (if user owns this item and may manage listings)
+  IF current_user_id = owner_id AND role_has_permission(user_role, 'EDIT_OWN_LISTINGS') THEN
+    links := jsonb_set(links, '{edit}', jsonb_build_object(
+      'href', '/api/v1/items/' || item_id,
+      'method', 'PUT',
+      'title', 'Edit listing',
+      'requiresAuth', true
+    ));
+    
+    -- Stock is one of the fields PUT /api/v1/items/:id accepts
+    links := jsonb_set(links, '{updateStock}', jsonb_build_object(
+      'href', '/api/v1/items/' || item_id,
+      'method', 'PUT',
+      'title', 'Update stock',
+      'requiresAuth', true
+    ));
+  END IF;
+  
+  -- Community actions
+  IF role_has_permission(user_role, 'SUBMIT_PRICE_DATA') THEN
+    links := jsonb_set(links, '{reportPrice}', jsonb_build_object(
+      'href', '/api/v1/reports',
+      'method', 'POST',
+      'title', 'Report price change',
+      'requiresAuth', true
+    ));
+  END IF;
+  
+  IF role_has_permission(user_role, 'VERIFY_PRICES') THEN
+    links := jsonb_set(links, '{verify}', jsonb_build_object(
+      'href', '/api/v1/items/' || item_id || '/verify',
+      'method', 'PATCH',
+      'title', 'Verify current',
+      'requiresAuth', true,
+      'permission', 'VERIFY_PRICES'
+    ));
+  END IF;
+  
+  RETURN links;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON TABLE public.role_permissions IS 'Permission catalogue per role; mirrors shared/utils/permissions.ts';
+COMMENT ON FUNCTION role_has_permission IS 'True when the role grants the permission per role_permissions';
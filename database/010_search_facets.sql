@@ -0,0 +1,89 @@
+-- Faceted Search Counts
+-- PostgREST RPC (POST /api/data/rpc/search_facets) returning listing counts per
+-- category, server, biome, direction, trading unit and confidence level for the
+-- current filter set. Each facet is counted with every filter except its own,
+-- so the other options in a dropdown show how many results choosing them gives.
+-- Filters mirror buildEnhancedFilterQuery() in enhanced-homepage-data.ts.
+
+CREATE OR REPLACE FUNCTION search_facets(
+  search TEXT DEFAULT NULL,
+  category TEXT DEFAULT NULL,
+  server_name TEXT DEFAULT NULL,
+  biome TEXT DEFAULT NULL,
+  direction TEXT DEFAULT NULL,
+  trading_unit TEXT DEFAULT NULL,
+  confidence_level TEXT DEFAULT NULL,
+  min_price NUMERIC DEFAULT NULL,
+  max_price NUMERIC DEFAULT NULL,
+  verification TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+  WITH listings AS (
+    SELECT
+      i.category::TEXT AS category,
+      i.server_name,
+      i.biome,
+      i.direction,
+      p.trading_unit::TEXT AS trading_unit,
+      i.confidence_level::TEXT AS confidence_level,
+      -- Filters that never have a facet of their own
+      (search_facets.search IS NULL OR i.name ILIKE '%' || search_facets.search || '%')
+        AND (search_facets.min_price IS NULL OR p.price_diamonds >= search_facets.min_price)
+        AND (search_facets.max_price IS NULL OR p.price_diamonds <= search_facets.max_price)
+        AND (search_facets.verification IS NULL
+          OR (search_facets.verification = 'verified') = (i.last_verified IS NOT NULL)) AS in_base,
+      (search_facets.category IS NULL OR i.category::TEXT = search_facets.category) AS in_category,
+      (search_facets.server_name IS NULL OR i.server_name = search_facets.server_name) AS in_server,
+      (search_facets.biome IS NULL OR i.biome = search_facets.biome) AS in_biome,
+      (search_facets.direction IS NULL OR i.direction = search_facets.direction) AS in_direction,
+      (search_facets.trading_unit IS NULL OR p.trading_unit::TEXT = search_facets.trading_unit) AS in_unit,
+      (search_facets.confidence_level IS NULL OR i.confidence_level::TEXT = search_facets.confidence_level) AS in_confidence
+    FROM public.items i
+    LEFT JOIN public.prices p ON p.item_id = i.id AND p.is_current = true
+    WHERE i.is_available = true
+  ),
+  facet_counts AS (
+    SELECT 'category' AS facet, category AS value, COUNT(*) AS count FROM listings
+      WHERE in_base AND in_server AND in_biome AND in_direction AND in_unit AND in_confidence GROUP BY category
+    UNION ALL
+    SELECT 'server_name', server_name, COUNT(*) FROM listings
+      WHERE in_base AND in_category AND in_biome AND in_direction AND in_unit AND in_confidence GROUP BY server_name
+    UNION ALL
+    SELECT 'biome', biome, COUNT(*) FROM listings
+      WHERE in_base AND in_category AND in_server AND in_direction AND in_unit AND in_confidence GROUP BY biome
+    UNION ALL
+    SELECT 'direction', direction, COUNT(*) FROM listings
+      WHERE in_base AND in_category AND in_server AND in_biome AND in_unit AND in_confidence GROUP BY direction
+    UNION ALL
+    SELECT 'trading_unit', trading_unit, COUNT(*) FROM listings
+      WHERE in_base AND in_category AND in_server AND in_biome AND in_direction AND in_confidence GROUP BY trading_unit
+    UNION ALL
+    SELECT 'confidence_level', confidence_level, COUNT(*) FROM listings
+      WHERE in_base AND in_category AND in_server AND in_biome AND in_direction AND in_unit GROUP BY confidence_level
+  )
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT COUNT(*) FROM listings
+      WHERE in_base AND in_category AND in_server AND in_biome AND in_direction AND in_unit AND in_confidence
+    ),
+    'category', '{}'::JSONB,
+    'server_name', '{}'::JSONB,
+    'biome', '{}'::JSONB,
+    'direction', '{}'::JSONB,
+    'trading_unit', '{}'::JSONB,
+    'confidence_level', '{}'::JSONB
+  ) || COALESCE((
+    SELECT jsonb_object_agg(facet, counts)
+    FROM (
+      SELECT facet, jsonb_object_agg(value, count) AS counts
+      FROM facet_counts
+      WHERE value IS NOT NULL
+      GROUP BY facet
+    ) grouped
+  ), '{}'::JSONB);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- SECURITY DEFINER because anonymous callers can only read public_items,
+-- which does not expose biome, direction or confidence_level
+GRANT EXECUTE ON FUNCTION search_facets(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION search_facets IS 'Listing counts per filter option for faceted search (each facet excludes its own filter)';
@@ -0,0 +1,43 @@
+-- Reporter Reputation
+-- Per-user report counts and decayed trust score, derived from community_reports.
+-- Mirrors computeReporterReputation() in workspaces/shared/utils/reporter-reputation.ts;
+-- keep the 90 day half-life and the one-and-one smoothing in sync.
+
+CREATE OR REPLACE VIEW reporter_reputation AS
+SELECT
+  u.id AS user_id,
+  COUNT(r.id) FILTER (WHERE r.status = 'approved')::INTEGER AS approved_reports,
+  COUNT(r.id) FILTER (WHERE r.status = 'rejected')::INTEGER AS rejected_reports,
+  COUNT(r.id)::INTEGER AS total_reports,
+  (
+    COALESCE(SUM(r.weight) FILTER (WHERE r.status = 'approved'), 0) + 1
+  ) / (
+    COALESCE(SUM(r.weight) FILTER (WHERE r.status IN ('approved', 'rejected')), 0) + 2
+  ) AS trust_score
+FROM users u
+LEFT JOIN (
+  SELECT
+    id,
+    reporter_id,
+    status,
+    power(0.5, GREATEST(EXTRACT(EPOCH FROM now() - created_at), 0) / 86400.0 / 90) AS weight
+  FROM community_reports
+) r ON r.reporter_id = u.id
+GROUP BY u.id;
+
+-- New columns are appended, so existing grants on public_users carry over
+CREATE OR REPLACE VIEW public_users AS
+SELECT
+  u.id,
+  u.username,
+  u.avatar_url,
+  u.shop_name,
+  u.role,
+  u.is_active,
+  rr.approved_reports,
+  rr.rejected_reports,
+  rr.total_reports,
+  rr.trust_score
+FROM users u
+JOIN reporter_reputation rr ON rr.user_id = u.id
+WHERE u.is_active = true;
@@ -0,0 +1,15 @@
+-- Community Report Clusters
+-- Pending reports of the same type on the same item share the cluster_id of
+-- the oldest one. has_conflict marks clusters whose claims disagree; see
+-- workspaces/shared/utils/report-clusters.ts for how claims are compared.
+
+ALTER TABLE community_reports
+  ADD COLUMN IF NOT EXISTS cluster_id UUID REFERENCES community_reports(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS has_conflict BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_community_reports_cluster_id
+  ON community_reports(cluster_id) WHERE cluster_id IS NOT NULL;
+
+-- Looked up on every submission to find the cluster a report joins
+CREATE INDEX IF NOT EXISTS idx_community_reports_pending_item_type
+  ON community_reports(item_id, report_type) WHERE status = 'pending';
@@ -0,0 +1,22 @@
+-- Community Report Claimed Values
+-- Typed payload per report type, stored with the keys of ClaimedValues in
+-- workspaces/shared/types/service-interfaces.ts. Rows from before this
+-- migration keep NULL; new ones are validated by the ReportingService and,
+-- for their basic shape, by the constraint below.
+
+ALTER TABLE community_reports
+  ADD COLUMN IF NOT EXISTS claimed_values JSONB;
+
+ALTER TABLE community_reports
+  DROP CONSTRAINT IF EXISTS community_reports_claimed_values_shape;
+
+ALTER TABLE community_reports
+  ADD CONSTRAINT community_reports_claimed_values_shape CHECK (
+    claimed_values IS NULL OR CASE report_type
+      WHEN 'price_change' THEN jsonb_typeof(claimed_values -> 'priceDiamonds') = 'number'
+        AND claimed_values ->> 'tradingUnit' IN ('per_item', 'per_stack', 'per_shulker', 'per_dozen')
+      WHEN 'stock_status' THEN jsonb_typeof(claimed_values -> 'inStock') = 'boolean'
+      WHEN 'shop_closure' THEN (claimed_values ->> 'closedOn') ~ '^\d{4}-\d{2}-\d{2}$'
+      ELSE false
+    END
+  );
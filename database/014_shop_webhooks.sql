@@ -0,0 +1,54 @@
+-- Shop Webhooks and Notification Delivery Log
+-- Each shop owner may connect one Discord webhook for report, price-change
+-- and low-stock notifications. Every delivery attempt is logged so delivery
+-- latency can be measured against the one minute SLA; the
+-- notification_delivery_sla view mirrors summarizeDeliveries() in
+-- workspaces/shared/utils/shop-notifications.ts; keep the two in sync.
+-- Webhook URLs embed a secret token, so neither table is granted to the
+-- PostgREST roles: only the backend reads them.
+
+CREATE TABLE IF NOT EXISTS shop_webhooks (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  webhook_url TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL,
+  recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL
+    CHECK (notification_type IN ('community_report', 'price_change', 'low_stock')),
+  attempt INTEGER NOT NULL CHECK (attempt >= 1),
+  status TEXT NOT NULL CHECK (status IN ('delivered', 'retrying', 'failed')),
+  http_status INTEGER,
+  error TEXT,
+  event_at TIMESTAMPTZ NOT NULL,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_recipient
+  ON notification_deliveries(recipient_id, attempted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification
+  ON notification_deliveries(notification_id);
+
+ALTER TABLE shop_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- One row per notification: NULL latency until an attempt succeeds
+CREATE OR REPLACE VIEW notification_delivery_sla AS
+SELECT
+  notification_id,
+  recipient_id,
+  notification_type,
+  MIN(event_at) AS event_at,
+  COUNT(*)::INTEGER AS attempts,
+  MIN(attempted_at) FILTER (WHERE status = 'delivered') - MIN(event_at) AS latency,
+  bool_or(status = 'failed') AND NOT bool_or(status = 'delivered') AS failed,
+  COALESCE(
+    MIN(attempted_at) FILTER (WHERE status = 'delivered') - MIN(event_at) <= make_interval(secs => 60),
+    false
+  ) AS within_sla
+FROM notification_deliveries
+GROUP BY notification_id, recipient_id, notification_type;
@@ -0,0 +1,49 @@
+-- Durable Job Queue
+-- Background work (webhook notifications, and later price snapshots and
+-- stale-listing checks) is claimed by workers under a lease: claiming bumps
+-- attempts and hides the job until locked_until. A worker that dies without
+-- completing it lets the lease expire and the job is claimed again, so every
+-- job runs at least once. Jobs that use up max_attempts move to
+-- dead_letter_jobs. Used by workspaces/backend/src/services/job-queue.ts.
+-- Backend only, like the webhook tables: not granted to the PostgREST roles.
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  -- Completed jobs are kept for a retention window so duplicates stay deduplicated
+  idempotency_key TEXT,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'completed')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts INTEGER NOT NULL CHECK (max_attempts >= 1),
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_until TIMESTAMPTZ,
+  lease_token UUID,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE (queue, idempotency_key)
+);
+
+-- Claim scans: ready jobs of one queue in run_at order
+CREATE INDEX IF NOT EXISTS idx_jobs_ready
+  ON jobs(queue, run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_completed_at
+  ON jobs(completed_at) WHERE status = 'completed';
+
+CREATE TABLE IF NOT EXISTS dead_letter_jobs (
+  id UUID PRIMARY KEY,
+  queue TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  idempotency_key TEXT,
+  attempts INTEGER NOT NULL,
+  last_error TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  dead_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_jobs_queue
+  ON dead_letter_jobs(queue, dead_at DESC);
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dead_letter_jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,39 @@
+-- Transactions
+-- Purchases between players: a buyer opens a trade on a listing, the seller
+-- accepts it and completes it once the items change hands in game. Status
+-- moves pending -> accepted -> completed, or to cancelled / disputed, as laid
+-- out in workspaces/shared/utils/transaction-lifecycle.ts. Completing a trade
+-- takes its quantity out of the listing's stock in the same statement
+-- (PostgreSQLTransactionRepository.complete). The unit price and item name
+-- are copied at open so the history survives price changes and deleted
+-- listings. Backend only: not granted to the PostgREST roles.
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID REFERENCES items(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  buyer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  seller_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- In the listing's trading unit, like items.stock_quantity
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  price_diamonds DECIMAL(10,2) NOT NULL CHECK (price_diamonds >= 0),
+  trading_unit trading_unit_type NOT NULL,
+  total_diamonds DECIMAL(12,2) NOT NULL CHECK (total_diamonds >= 0),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'completed', 'cancelled', 'disputed')),
+  note TEXT,
+  closed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  close_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  CHECK (buyer_id <> seller_id)
+);
+
+-- Trade history per party, newest first
+CREATE INDEX IF NOT EXISTS idx_transactions_buyer ON transactions(buyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_seller ON transactions(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_item ON transactions(item_id) WHERE item_id IS NOT NULL;
+
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
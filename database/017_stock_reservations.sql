@@ -0,0 +1,61 @@
+-- Stock Reservations
+-- Opening a trade holds its quantity against the listing so two buyers
+-- cannot both head to the stall for the last shulker. A hold stays active
+-- until the trade completes (converted into the stock decrement), the trade
+-- is cancelled or disputed (released), or it expires and the sweep queued
+-- on the `stock-reservations` job queue releases it. items.reserved_quantity
+-- is the sum of a listing's active holds, kept in step by every statement in
+-- workspaces/backend/src/repositories/postgresql-stock-reservation-repository.ts
+-- and PostgreSQLTransactionRepository.complete, so listing reads show
+-- available stock without touching this table. Backend only: not granted to
+-- the PostgREST roles.
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS reserved_quantity INTEGER NOT NULL DEFAULT 0
+  CHECK (reserved_quantity >= 0);
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+  holder_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'released', 'converted')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  released_at TIMESTAMPTZ
+);
+
+-- The expiry sweep scans active holds by deadline
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_expiry
+  ON stock_reservations(expires_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_item
+  ON stock_reservations(item_id) WHERE status = 'active';
+
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Appended so the homepage can show available stock; earlier columns unchanged
+CREATE OR REPLACE VIEW public_items AS
+SELECT
+  i.id,
+  i.name,
+  i.description,
+  i.processed_description,
+  i.category,
+  i.minecraft_id,
+  i.enchantments,
+  i.item_attributes,
+  i.stock_quantity,
+  i.is_available,
+  i.server_name,
+  i.shop_location,
+  i.created_at,
+  i.updated_at,
+  u.username as owner_username,
+  u.shop_name as owner_shop_name,
+  p.price_diamonds,
+  p.trading_unit,
+  i.reserved_quantity
+FROM items i
+JOIN users u ON i.owner_id = u.id
+LEFT JOIN prices p ON i.id = p.item_id AND p.is_current = true
+WHERE i.is_available = true;
@@ -0,0 +1,50 @@
+-- Buy Orders
+-- Standing offers to buy (WTB): a player wants `quantity` of one item on one
+-- server for at most `max_price_diamonds` per `trading_unit`. Sell listings
+-- on the same server at or below that price per single item match the
+-- order (workspaces/shared/utils/buy-orders.ts); each match is recorded once
+-- in buy_order_matches, so both players are notified once per listing
+-- however often it is re-priced. Backend only: not granted to the PostgREST
+-- roles.
+
+CREATE TABLE IF NOT EXISTS buy_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  minecraft_id TEXT NOT NULL,
+  item_name TEXT NOT NULL,
+  server_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  max_price_diamonds DECIMAL(10,2) NOT NULL CHECK (max_price_diamonds >= 0),
+  trading_unit trading_unit_type NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'cancelled')),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- The matcher and order book look up open orders per item and server
+CREATE INDEX IF NOT EXISTS idx_buy_orders_open
+  ON buy_orders(minecraft_id, lower(server_name)) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_buy_orders_owner ON buy_orders(owner_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS buy_order_matches (
+  buy_order_id UUID NOT NULL REFERENCES buy_orders(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  buyer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  seller_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  price_diamonds DECIMAL(10,2) NOT NULL,
+  trading_unit trading_unit_type NOT NULL,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (buy_order_id, item_id)
+);
+
+ALTER TABLE buy_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE buy_order_matches ENABLE ROW LEVEL SECURITY;
+
+-- Match notifications are logged like the other webhook notifications.
+-- Buyers need not own a shop: any trader may keep a row in shop_webhooks.
+ALTER TABLE notification_deliveries
+  DROP CONSTRAINT IF EXISTS notification_deliveries_notification_type_check;
+ALTER TABLE notification_deliveries
+  ADD CONSTRAINT notification_deliveries_notification_type_check
+  CHECK (notification_type IN ('community_report', 'price_change', 'low_stock', 'buy_order_match'));
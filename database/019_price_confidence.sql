@@ -0,0 +1,8 @@
+-- Price Confidence
+-- Prices applied from an approved community report keep that report's
+-- confidence level, which weights them in market price suggestions
+-- (MinecraftPricingService.getPriceSuggestion). Owner-set prices and rows
+-- from before this migration keep NULL and are weighted by their source.
+
+ALTER TABLE prices
+  ADD COLUMN IF NOT EXISTS confidence_level confidence_level;
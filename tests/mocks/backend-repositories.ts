@@ -0,0 +1,860 @@
+/**
+ * In-Memory Backend Repositories for Testing
+ * Implements the service-interface repository contracts so backend services
+ * and Hono routes can be exercised without PostgreSQL
+ */
+
+import type {
+  BuyOrder,
+  BuyOrderMatch,
+  BuyOrderRepository,
+  BuyOrderSearchCriteria,
+  CommunityReport,
+  CommunityReportRepository,
+  DeadLetterJob,
+  EnqueueJobRequest,
+  Evidence,
+  EvidenceRepository,
+  EvidenceType,
+  Item,
+  ItemCategory,
+  ItemListing,
+  ItemRepository,
+  Job,
+  JobRepository,
+  ListingPrice,
+  ListingSearchCriteria,
+  ListingSearchResult,
+  NotificationDelivery,
+  NotificationRepository,
+  Price,
+  PriceRepository,
+  ReporterReputation,
+  ReportStatus,
+  Session,
+  SessionRepository,
+  ShopWebhook,
+  StockReservation,
+  StockReservationRepository,
+  Transaction,
+  TransactionRepository,
+  TransactionStatus,
+  User,
+  UserRepository
+} from '../../workspaces/shared/types/service-interfaces.js';
+import { perItemPrice, sameServer } from '../../workspaces/shared/utils/buy-orders.js';
+import { computeReporterReputation } from '../../workspaces/shared/utils/reporter-reputation.js';
+import { isTradingUnitAllowed, maxStackSizeFor, tradingUnitSize } from '../../workspaces/shared/utils/trading-units.js';
+import { randomUUID } from 'node:crypto';
+
+export class InMemoryItemRepository implements ItemRepository {
+  public items = new Map<string, Item>();
+
+  // Supplies current prices for findListings, mirroring the PostgreSQL join
+  constructor(private priceRepository?: PriceRepository) {}
+
+  async save(item: Item): Promise<Item> {
+    this.items.set(item.id, { ...item });
+    return { ...item };
+  }
+
+  async findById(id: string): Promise<Item | null> {
+    const item = this.items.get(id);
+    return item ? { ...item } : null;
+  }
+
+  async findAll(criteria: Partial<Item> = {}): Promise<Item[]> {
+    return Array.from(this.items.values()).filter(item =>
+      Object.entries(criteria).every(([key, value]) => item[key as keyof Item] === value)
+    );
+  }
+
+  async update(id: string, updates: Partial<Item>): Promise<Item> {
+    const existing = this.items.get(id);
+    if (!existing) {
+      throw new Error(`Item with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.items.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+
+  async findByIds(ids: string[]): Promise<Item[]> {
+    return ids.flatMap(id => this.items.has(id) ? [{ ...this.items.get(id)! }] : []);
+  }
+
+  async findByOwnerId(ownerId: string): Promise<Item[]> {
+    return this.findAll({ ownerId });
+  }
+
+  async findByCategory(category: ItemCategory): Promise<Item[]> {
+    return this.findAll({ category, isAvailable: true });
+  }
+
+  async findByMinecraftId(minecraftId: string): Promise<Item[]> {
+    return this.findAll({ minecraftId, isAvailable: true });
+  }
+
+  async searchItems(query: string): Promise<Item[]> {
+    const term = query.toLowerCase();
+    return Array.from(this.items.values()).filter(item =>
+      item.isAvailable &&
+      (item.name.toLowerCase().includes(term) ||
+        item.description.toLowerCase().includes(term) ||
+        item.minecraftId.toLowerCase().includes(term))
+    );
+  }
+
+  async findAvailable(): Promise<Item[]> {
+    return this.findAll({ isAvailable: true });
+  }
+
+  // Approximates websearch_to_tsquery: every term must appear, name hits rank higher
+  async findListings(criteria: ListingSearchCriteria): Promise<ListingSearchResult> {
+    const terms = criteria.query?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    const relevance = (item: Item) => terms.reduce((score, term) =>
+      score + (item.name.toLowerCase().includes(term) ? 2 : 0) + (item.description.toLowerCase().includes(term) ? 1 : 0), 0);
+    const currentPrices = await this.priceRepository?.findCurrentPrices() ?? [];
+    const priceByItem = new Map(currentPrices.map(price => [price.itemId, price]));
+    const unitPrice = (listing: ItemListing) => {
+      if (!listing.currentPrice) return undefined;
+      const maxStackSize = maxStackSizeFor(listing.minecraftId, listing.itemAttributes);
+      return listing.currentPrice.priceDiamonds / tradingUnitSize(listing.currentPrice.tradingUnit, maxStackSize) *
+        tradingUnitSize(criteria.priceUnit ?? 'per_item', maxStackSize);
+    };
+
+    const listings = Array.from(this.items.values())
+      .map((item): ItemListing => ({ ...item, currentPrice: priceByItem.get(item.id) }))
+      .filter(listing =>
+        (!criteria.category || listing.category === criteria.category) &&
+        (!criteria.serverName || listing.serverName === criteria.serverName) &&
+        (!criteria.ownerId || listing.ownerId === criteria.ownerId) &&
+        (!criteria.availableOnly || listing.isAvailable) &&
+        isTradingUnitAllowed(criteria.priceUnit ?? 'per_item', maxStackSizeFor(listing.minecraftId, listing.itemAttributes)) &&
+        terms.every(term => `${listing.name} ${listing.description}`.toLowerCase().includes(term))
+      )
+      .filter(listing => {
+        if (criteria.minPrice === undefined && criteria.maxPrice === undefined) return true;
+        const price = unitPrice(listing);
+        return price !== undefined &&
+          (criteria.minPrice === undefined || price >= criteria.minPrice) &&
+          (criteria.maxPrice === undefined || price <= criteria.maxPrice);
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    if (criteria.sortBy === 'price_asc' || criteria.sortBy === 'price_desc') {
+      const direction = criteria.sortBy === 'price_asc' ? 1 : -1;
+      listings.sort((a, b) => {
+        const [priceA, priceB] = [unitPrice(a), unitPrice(b)];
+        if (priceA === undefined || priceB === undefined) {
+          return (priceA === undefined ? 1 : 0) - (priceB === undefined ? 1 : 0);
+        }
+        return (priceA - priceB) * direction;
+      });
+    } else if (criteria.sortBy === 'relevance' && terms.length > 0) {
+      listings.sort((a, b) => relevance(b) - relevance(a));
+    }
+
+    const offset = criteria.offset ?? 0;
+    return {
+      listings: listings.slice(offset, offset + (criteria.limit ?? 50)),
+      total: listings.length
+    };
+  }
+}
+
+export class InMemoryPriceRepository implements PriceRepository {
+  public prices = new Map<string, Price>();
+
+  // Resolves minecraftId joins the way PostgreSQL joins prices to items
+  constructor(private itemRepository?: ItemRepository) {}
+
+  async save(price: Price): Promise<Price> {
+    this.prices.set(price.id, { ...price });
+    return { ...price };
+  }
+
+  async findById(id: string): Promise<Price | null> {
+    const price = this.prices.get(id);
+    return price ? { ...price } : null;
+  }
+
+  async findAll(criteria: Partial<Price> = {}): Promise<Price[]> {
+    return Array.from(this.prices.values()).filter(price =>
+      Object.entries(criteria).every(([key, value]) => price[key as keyof Price] === value)
+    );
+  }
+
+  async update(id: string, updates: Partial<Price>): Promise<Price> {
+    const existing = this.prices.get(id);
+    if (!existing) {
+      throw new Error(`Price with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id };
+    this.prices.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.prices.delete(id);
+  }
+
+  async findByItemId(itemId: string): Promise<Price[]> {
+    return (await this.findAll({ itemId }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findByMinecraftId(minecraftId: string): Promise<ListingPrice[]> {
+    const items = await this.itemRepository?.findAll({ minecraftId }) ?? [];
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    return Array.from(this.prices.values())
+      .filter(price => itemsById.has(price.itemId))
+      .map(price => ({ ...price, itemAttributes: itemsById.get(price.itemId)!.itemAttributes }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findCurrentPrices(): Promise<Price[]> {
+    return this.findAll({ isCurrent: true });
+  }
+
+  async findCurrentByItemIds(itemIds: string[]): Promise<Price[]> {
+    return (await this.findCurrentPrices()).filter(price => itemIds.includes(price.itemId));
+  }
+
+  async updateCurrentPrice(itemId: string, newPrice: Price): Promise<void> {
+    for (const price of this.prices.values()) {
+      if (price.itemId === itemId) {
+        price.isCurrent = false;
+      }
+    }
+    await this.save({ ...newPrice, isCurrent: true });
+  }
+}
+
+export class InMemoryUserRepository implements UserRepository {
+  public users = new Map<string, User>();
+
+  async save(user: User): Promise<User> {
+    this.users.set(user.id, { ...user });
+    return { ...user };
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findAll(criteria: Partial<User> = {}): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user =>
+      Object.entries(criteria).every(([key, value]) => user[key as keyof User] === value)
+    );
+  }
+
+  async update(id: string, updates: Partial<User>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error(`User with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.users.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.users.delete(id);
+  }
+
+  async findByDiscordId(discordId: string): Promise<User | null> {
+    return (await this.findAll({ discordId }))[0] ?? null;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return (await this.findAll({ username }))[0] ?? null;
+  }
+
+  async findByShopName(shopName: string): Promise<User | null> {
+    const user = Array.from(this.users.values())
+      .find(candidate => candidate.shopName?.toLowerCase() === shopName.toLowerCase());
+    return user ? { ...user } : null;
+  }
+
+  async findByIds(ids: string[]): Promise<User[]> {
+    return ids.flatMap(id => this.users.has(id) ? [{ ...this.users.get(id)! }] : []);
+  }
+}
+
+export class InMemorySessionRepository implements SessionRepository {
+  public sessions = new Map<string, Session>();
+
+  async save(session: Session): Promise<Session> {
+    this.sessions.set(session.id, { ...session });
+    return { ...session };
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async findAll(criteria: Partial<Session> = {}): Promise<Session[]> {
+    return Array.from(this.sessions.values()).filter(session =>
+      Object.entries(criteria).every(([key, value]) => session[key as keyof Session] === value)
+    );
+  }
+
+  async update(id: string, updates: Partial<Session>): Promise<Session> {
+    const existing = this.sessions.get(id);
+    if (!existing) {
+      throw new Error(`Session with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id };
+    this.sessions.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async findByToken(sessionToken: string): Promise<Session | null> {
+    return (await this.findAll({ sessionToken }))[0] ?? null;
+  }
+
+  async deleteByToken(sessionToken: string): Promise<void> {
+    for (const [id, session] of this.sessions) {
+      if (session.sessionToken === sessionToken) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+
+  async deleteByUserId(userId: string): Promise<void> {
+    for (const [id, session] of this.sessions) {
+      if (session.userId === userId) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
+
+export class InMemoryCommunityReportRepository implements CommunityReportRepository {
+  public reports = new Map<string, CommunityReport>();
+
+  // Deleting a report cascades to its evidence, as the foreign key does;
+  // items supply listing owners for findPendingReports, mirroring the join
+  constructor(
+    private evidenceRepository?: InMemoryEvidenceRepository,
+    private itemRepository?: ItemRepository
+  ) {}
+
+  async save(report: CommunityReport): Promise<CommunityReport> {
+    this.reports.set(report.id, { ...report });
+    return { ...report };
+  }
+
+  async findById(id: string): Promise<CommunityReport | null> {
+    const report = this.reports.get(id);
+    return report ? { ...report } : null;
+  }
+
+  async findAll(criteria: Partial<CommunityReport> = {}): Promise<CommunityReport[]> {
+    return Array.from(this.reports.values())
+      .filter(report =>
+        Object.entries(criteria).every(([key, value]) => report[key as keyof CommunityReport] === value)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async update(id: string, updates: Partial<CommunityReport>): Promise<CommunityReport> {
+    const existing = this.reports.get(id);
+    if (!existing) {
+      throw new Error(`Community report with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id };
+    this.reports.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.reports.delete(id);
+    for (const evidence of await this.evidenceRepository?.findByReportId(id) ?? []) {
+      await this.evidenceRepository?.delete(evidence.id);
+    }
+  }
+
+  async findByItemId(itemId: string): Promise<CommunityReport[]> {
+    return this.findAll({ itemId });
+  }
+
+  async findByReporterId(reporterId: string): Promise<CommunityReport[]> {
+    return this.findAll({ reporterId });
+  }
+
+  async findByStatus(status: ReportStatus): Promise<CommunityReport[]> {
+    return this.findAll({ status });
+  }
+
+  async findPendingReports(ownerId?: string): Promise<CommunityReport[]> {
+    const ownItemIds = ownerId
+      ? new Set((await this.itemRepository?.findByOwnerId(ownerId) ?? []).map(item => item.id))
+      : undefined;
+    return Array.from(this.reports.values())
+      .filter(report => report.status === 'pending' && (!ownItemIds || ownItemIds.has(report.itemId)))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(report => ({ ...report }));
+  }
+
+  async getReporterReputation(reporterId: string): Promise<ReporterReputation> {
+    return computeReporterReputation(await this.findByReporterId(reporterId));
+  }
+
+  async getReporterReputations(reporterIds: string[]): Promise<Map<string, ReporterReputation>> {
+    const reputations = new Map<string, ReporterReputation>();
+    for (const reporterId of reporterIds) {
+      reputations.set(reporterId, computeReporterReputation(await this.findByReporterId(reporterId)));
+    }
+    return reputations;
+  }
+}
+
+export class InMemoryEvidenceRepository implements EvidenceRepository {
+  public evidence = new Map<string, Evidence>();
+
+  async save(evidence: Evidence): Promise<Evidence> {
+    this.evidence.set(evidence.id, { ...evidence });
+    return { ...evidence };
+  }
+
+  async findById(id: string): Promise<Evidence | null> {
+    const evidence = this.evidence.get(id);
+    return evidence ? { ...evidence } : null;
+  }
+
+  async findAll(criteria: Partial<Evidence> = {}): Promise<Evidence[]> {
+    return Array.from(this.evidence.values()).filter(evidence =>
+      Object.entries(criteria).every(([key, value]) => evidence[key as keyof Evidence] === value)
+    );
+  }
+
+  async update(id: string, updates: Partial<Evidence>): Promise<Evidence> {
+    const existing = this.evidence.get(id);
+    if (!existing) {
+      throw new Error(`Evidence with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id };
+    this.evidence.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.evidence.delete(id);
+  }
+
+  async findByReportId(reportId: string): Promise<Evidence[]> {
+    return this.findAll({ reportId });
+  }
+
+  async findByReportIds(reportIds: string[]): Promise<Evidence[]> {
+    return Array.from(this.evidence.values())
+      .filter(evidence => reportIds.includes(evidence.reportId))
+      .map(evidence => ({ ...evidence }));
+  }
+
+  async findByType(evidenceType: EvidenceType): Promise<Evidence[]> {
+    return this.findAll({ evidenceType });
+  }
+}
+
+export class InMemoryNotificationRepository implements NotificationRepository {
+  public webhooks = new Map<string, ShopWebhook>();
+  public deliveries: NotificationDelivery[] = [];
+
+  async findWebhook(userId: string): Promise<ShopWebhook | null> {
+    const webhook = this.webhooks.get(userId);
+    return webhook ? { ...webhook } : null;
+  }
+
+  async saveWebhook(userId: string, webhookUrl: string): Promise<ShopWebhook> {
+    const now = new Date();
+    const webhook = { userId, webhookUrl, createdAt: this.webhooks.get(userId)?.createdAt ?? now, updatedAt: now };
+    this.webhooks.set(userId, webhook);
+    return { ...webhook };
+  }
+
+  async deleteWebhook(userId: string): Promise<void> {
+    this.webhooks.delete(userId);
+  }
+
+  async logDelivery(delivery: NotificationDelivery): Promise<void> {
+    this.deliveries.push({ ...delivery });
+  }
+
+  async findDeliveries(recipientId: string, limit: number = 100): Promise<NotificationDelivery[]> {
+    return this.deliveries
+      .filter(delivery => delivery.recipientId === recipientId)
+      .reverse()
+      .slice(0, limit)
+      .map(delivery => ({ ...delivery }));
+  }
+}
+
+// Payloads round-trip through JSON as they do through JSONB; `now` drives leases and delays
+export class InMemoryJobRepository implements JobRepository {
+  public jobs = new Map<string, Job>();
+  public deadLetters: DeadLetterJob[] = [];
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async enqueue<T>(request: EnqueueJobRequest<T>): Promise<Job<T>> {
+    const existing = request.idempotencyKey === undefined ? undefined : Array.from(this.jobs.values())
+      .find(job => job.queue === request.queue && job.idempotencyKey === request.idempotencyKey);
+    if (existing) {
+      return { ...existing } as Job<T>;
+    }
+
+    const job: Job = {
+      id: randomUUID(),
+      queue: request.queue,
+      payload: JSON.parse(JSON.stringify(request.payload)),
+      idempotencyKey: request.idempotencyKey,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: request.maxAttempts,
+      runAt: new Date(this.now().getTime() + request.delayMs),
+      createdAt: this.now()
+    };
+    this.jobs.set(job.id, job);
+    return { ...job } as Job<T>;
+  }
+
+  async claim(queue: string, limit: number, visibilityTimeoutMs: number): Promise<Job[]> {
+    const now = this.now().getTime();
+    return Array.from(this.jobs.values())
+      .filter(job =>
+        job.queue === queue &&
+        job.status === 'queued' &&
+        job.runAt.getTime() <= now &&
+        (!job.lockedUntil || job.lockedUntil.getTime() <= now)
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit)
+      .map(job => {
+        Object.assign(job, {
+          attempts: job.attempts + 1,
+          lockedUntil: new Date(now + visibilityTimeoutMs),
+          leaseToken: randomUUID()
+        });
+        return { ...job };
+      });
+  }
+
+  async complete(job: Job): Promise<boolean> {
+    return this.withLease(job, stored => Object.assign(stored, {
+      status: 'completed',
+      completedAt: this.now(),
+      lockedUntil: undefined,
+      leaseToken: undefined
+    }));
+  }
+
+  async retry(job: Job, error: string, delayMs: number): Promise<boolean> {
+    return this.withLease(job, stored => Object.assign(stored, {
+      runAt: new Date(this.now().getTime() + delayMs),
+      lockedUntil: undefined,
+      leaseToken: undefined,
+      lastError: error
+    }));
+  }
+
+  async deadLetter(job: Job, error: string): Promise<boolean> {
+    return this.withLease(job, stored => {
+      this.jobs.delete(stored.id);
+      this.deadLetters.push({
+        id: stored.id,
+        queue: stored.queue,
+        payload: stored.payload,
+        idempotencyKey: stored.idempotencyKey,
+        attempts: stored.attempts,
+        lastError: error,
+        createdAt: stored.createdAt,
+        deadAt: this.now()
+      });
+    });
+  }
+
+  async findDeadLetters(queue?: string, limit: number = 100): Promise<DeadLetterJob[]> {
+    return this.deadLetters
+      .filter(dead => queue === undefined || dead.queue === queue)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async purgeCompleted(completedBefore: Date): Promise<number> {
+    const purged = Array.from(this.jobs.values())
+      .filter(job => job.status === 'completed' && job.completedAt! < completedBefore);
+    purged.forEach(job => this.jobs.delete(job.id));
+    return purged.length;
+  }
+
+  private withLease(job: Job, change: (stored: Job) => void): boolean {
+    const stored = this.jobs.get(job.id);
+    if (!stored || !job.leaseToken || stored.leaseToken !== job.leaseToken) {
+      return false;
+    }
+    change(stored);
+    return true;
+  }
+}
+
+export class InMemoryTransactionRepository implements TransactionRepository {
+  public transactions = new Map<string, Transaction>();
+
+  // Completion takes stock out of these listings and converts the trade's
+  // hold, mirroring the PostgreSQL CTE
+  constructor(
+    private itemRepository: InMemoryItemRepository,
+    private reservationRepository?: InMemoryStockReservationRepository
+  ) {}
+
+  async save(transaction: Transaction): Promise<Transaction> {
+    this.transactions.set(transaction.id, { ...transaction });
+    return { ...transaction };
+  }
+
+  async findById(id: string): Promise<Transaction | null> {
+    const transaction = this.transactions.get(id);
+    return transaction ? { ...transaction } : null;
+  }
+
+  async findAll(criteria: Partial<Transaction> = {}): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction =>
+        Object.entries(criteria).every(([key, value]) => transaction[key as keyof Transaction] === value)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async update(id: string, updates: Partial<Transaction>): Promise<Transaction> {
+    const existing = this.transactions.get(id);
+    if (!existing) {
+      throw new Error(`Transaction with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.transactions.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.transactions.delete(id);
+  }
+
+  async findByParticipant(userId: string, limit: number = 100): Promise<Transaction[]> {
+    return (await this.findAll())
+      .filter(transaction => transaction.buyerId === userId || transaction.sellerId === userId)
+      .slice(0, limit);
+  }
+
+  async transition(
+    id: string,
+    from: readonly TransactionStatus[],
+    to: TransactionStatus,
+    changes: Pick<Transaction, 'closedBy' | 'closeReason'> = {}
+  ): Promise<Transaction | null> {
+    const existing = this.transactions.get(id);
+    if (!existing || !from.includes(existing.status)) {
+      return null;
+    }
+
+    const now = new Date();
+    return this.update(id, {
+      status: to,
+      ...(to === 'accepted' ? { acceptedAt: now } : {}),
+      ...(changes.closedBy !== undefined ? { closedBy: changes.closedBy } : {}),
+      ...(changes.closeReason !== undefined ? { closeReason: changes.closeReason } : {})
+    });
+  }
+
+  async complete(id: string): Promise<Transaction | null> {
+    const existing = this.transactions.get(id);
+    const item = existing?.itemId ? this.itemRepository.items.get(existing.itemId) : undefined;
+    const hold = await this.reservationRepository?.findActiveByTransactionId(id);
+    const unreserved = item ? item.stockQuantity - (item.reservedQuantity ?? 0) + (hold?.quantity ?? 0) : 0;
+    if (!existing || existing.status !== 'accepted' || !item || unreserved < existing.quantity) {
+      return null;
+    }
+
+    if (hold) {
+      this.reservationRepository!.reservations.set(hold.id, { ...hold, status: 'converted', releasedAt: new Date() });
+    }
+    const stockQuantity = item.stockQuantity - existing.quantity;
+    await this.itemRepository.update(item.id, {
+      stockQuantity,
+      reservedQuantity: Math.max(0, (item.reservedQuantity ?? 0) - (hold?.quantity ?? 0)),
+      isAvailable: stockQuantity > 0
+    });
+    return this.update(id, { status: 'completed', completedAt: new Date() });
+  }
+}
+
+export class InMemoryStockReservationRepository implements StockReservationRepository {
+  public reservations = new Map<string, StockReservation>();
+
+  // Holds move these listings' reservedQuantity, like items.reserved_quantity
+  constructor(private itemRepository: InMemoryItemRepository) {}
+
+  async save(reservation: StockReservation): Promise<StockReservation> {
+    const saved = await this.reserve(reservation);
+    if (!saved) {
+      throw new Error(`Not enough unreserved stock on item ${reservation.itemId}`);
+    }
+    return saved;
+  }
+
+  async findById(id: string): Promise<StockReservation | null> {
+    const reservation = this.reservations.get(id);
+    return reservation ? { ...reservation } : null;
+  }
+
+  async findAll(criteria: Partial<StockReservation> = {}): Promise<StockReservation[]> {
+    return Array.from(this.reservations.values()).filter(reservation =>
+      Object.entries(criteria).every(([key, value]) => reservation[key as keyof StockReservation] === value)
+    );
+  }
+
+  async update(id: string, updates: Partial<StockReservation>): Promise<StockReservation> {
+    const existing = this.reservations.get(id);
+    if (!existing) {
+      throw new Error(`Stock reservation with id ${id} not found`);
+    }
+    const updated = { ...existing, expiresAt: updates.expiresAt ?? existing.expiresAt };
+    this.reservations.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    const existing = this.reservations.get(id);
+    if (existing?.status === 'active') {
+      await this.adjustReserved(existing.itemId, -existing.quantity);
+    }
+    this.reservations.delete(id);
+  }
+
+  async reserve(reservation: StockReservation): Promise<StockReservation | null> {
+    const item = this.itemRepository.items.get(reservation.itemId);
+    if (!item || item.stockQuantity - (item.reservedQuantity ?? 0) < reservation.quantity) {
+      return null;
+    }
+
+    await this.adjustReserved(item.id, reservation.quantity);
+    const saved = { ...reservation, status: 'active' as const };
+    this.reservations.set(saved.id, saved);
+    return { ...saved };
+  }
+
+  async findActiveByTransactionId(transactionId: string): Promise<StockReservation | null> {
+    const reservation = Array.from(this.reservations.values())
+      .find(r => r.transactionId === transactionId && r.status === 'active');
+    return reservation ? { ...reservation } : null;
+  }
+
+  async release(transactionId: string): Promise<StockReservation | null> {
+    const reservation = await this.findActiveByTransactionId(transactionId);
+    return reservation ? this.releaseOne(reservation) : null;
+  }
+
+  async releaseExpired(now: Date): Promise<StockReservation[]> {
+    const expired = Array.from(this.reservations.values())
+      .filter(r => r.status === 'active' && r.expiresAt.getTime() <= now.getTime());
+    return Promise.all(expired.map(reservation => this.releaseOne(reservation)));
+  }
+
+  private async releaseOne(reservation: StockReservation): Promise<StockReservation> {
+    const released = { ...reservation, status: 'released' as const, releasedAt: new Date() };
+    this.reservations.set(released.id, released);
+    await this.adjustReserved(released.itemId, -released.quantity);
+    return { ...released };
+  }
+
+  private async adjustReserved(itemId: string, delta: number): Promise<void> {
+    const item = this.itemRepository.items.get(itemId);
+    if (item) {
+      await this.itemRepository.update(itemId, { reservedQuantity: Math.max(0, (item.reservedQuantity ?? 0) + delta) });
+    }
+  }
+}
+
+export class InMemoryBuyOrderRepository implements BuyOrderRepository {
+  public buyOrders = new Map<string, BuyOrder>();
+  public matches: BuyOrderMatch[] = [];
+
+  async save(order: BuyOrder): Promise<BuyOrder> {
+    this.buyOrders.set(order.id, { ...order });
+    return { ...order };
+  }
+
+  async findById(id: string): Promise<BuyOrder | null> {
+    const order = this.buyOrders.get(id);
+    return order ? { ...order } : null;
+  }
+
+  async findAll(criteria: Partial<BuyOrder> = {}): Promise<BuyOrder[]> {
+    return Array.from(this.buyOrders.values())
+      .filter(order =>
+        Object.entries(criteria).every(([key, value]) => order[key as keyof BuyOrder] === value)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(order => ({ ...order }));
+  }
+
+  async update(id: string, updates: Partial<BuyOrder>): Promise<BuyOrder> {
+    const existing = this.buyOrders.get(id);
+    if (!existing) {
+      throw new Error(`Buy order with id ${id} not found`);
+    }
+    const updated = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.buyOrders.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.buyOrders.delete(id);
+    this.matches = this.matches.filter(match => match.buyOrderId !== id);
+  }
+
+  async findOpen(criteria: BuyOrderSearchCriteria = {}): Promise<BuyOrder[]> {
+    const unitPrice = (order: BuyOrder) =>
+      perItemPrice(order.maxPriceDiamonds, order.tradingUnit, maxStackSizeFor(order.minecraftId));
+
+    return Array.from(this.buyOrders.values())
+      .filter(order =>
+        order.status === 'open' &&
+        (!criteria.minecraftId || order.minecraftId === criteria.minecraftId) &&
+        (!criteria.serverName || sameServer(order.serverName, criteria.serverName))
+      )
+      .sort((a, b) => unitPrice(b) - unitPrice(a) || a.createdAt.getTime() - b.createdAt.getTime())
+      .map(order => ({ ...order }));
+  }
+
+  async findByOwnerId(ownerId: string): Promise<BuyOrder[]> {
+    return this.findAll({ ownerId });
+  }
+
+  async recordMatch(match: BuyOrderMatch): Promise<boolean> {
+    if (this.matches.some(m => m.buyOrderId === match.buyOrderId && m.itemId === match.itemId)) {
+      return false;
+    }
+    this.matches.push({ ...match });
+    return true;
+  }
+
+  async findMatches(buyOrderId: string): Promise<BuyOrderMatch[]> {
+    return this.matches
+      .filter(match => match.buyOrderId === buyOrderId)
+      .sort((a, b) => b.matchedAt.getTime() - a.matchedAt.getTime())
+      .map(match => ({ ...match }));
+  }
+}
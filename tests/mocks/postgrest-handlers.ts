@@ -60,6 +60,11 @@ const mockUser = (overrides = {}) => ({
   role: 'user',
   is_active: true,
   created_at: '2025-01-01T00:00:00Z',
+  // Reputation columns from database/011_reporter_reputation.sql
+  approved_reports: 0,
+  rejected_reports: 0,
+  total_reports: 0,
+  trust_score: 0.5,
   ...overrides
 });
 
@@ -292,11 +297,42 @@ const createPublicItemsHandler = (baseUrl: string) => {
   });
 };
 
+// POST /api/data/rpc/search_facets - mirrors database/010_search_facets.sql,
+// counting each facet with every filter except its own
+const createSearchFacetsHandler = (baseUrl: string) => {
+  return http.post(`${baseUrl}/api/data/rpc/search_facets`, async ({ request }) => {
+    const args = await request.json() as Record<string, any>;
+    const facetFields = ['category', 'server_name', 'biome', 'direction', 'trading_unit', 'confidence_level'];
+
+    const matches = (item: any, except?: string) =>
+      (!args.search || item.name.toLowerCase().includes(args.search.toLowerCase())) &&
+      (args.min_price === undefined || item.price_diamonds >= args.min_price) &&
+      (args.max_price === undefined || item.price_diamonds <= args.max_price) &&
+      (!args.verification || (args.verification === 'verified') === (item.last_verified != null)) &&
+      facetFields.every(field => field === except || !args[field] || item[field] === args[field]);
+
+    const facets: Record<string, any> = {
+      total: REALISTIC_MARKETPLACE_DATA.filter(item => matches(item)).length
+    };
+    for (const field of facetFields) {
+      facets[field] = {};
+      for (const item of REALISTIC_MARKETPLACE_DATA.filter(item => matches(item, field))) {
+        const value = (item as any)[field];
+        if (value != null) facets[field][value] = (facets[field][value] ?? 0) + 1;
+      }
+    }
+
+    return HttpResponse.json(facets);
+  });
+};
+
 // EVERGREEN - PostgREST-style handlers
 export const postgrestHandlers = [
   // GET /api/data/public_items - Enhanced endpoint for homepage pagination (both environments)
   createPublicItemsHandler(DEV_BASE_URL),
   createPublicItemsHandler(DOCKER_BASE_URL),
+  createSearchFacetsHandler(DEV_BASE_URL),
+  createSearchFacetsHandler(DOCKER_BASE_URL),
 
   // GET /api/data/items - Simplified endpoint for API service
   http.get(TEMPORAL_ENDPOINTS.itemsSimple, ({ request }) => {
@@ -0,0 +1,177 @@
+/**
+ * Discord Authentication Service Tests - Fast Version
+ *
+ * SPEC Epic 3: Discord OAuth authentication flow
+ * - OAuth code exchange against a local Discord stub
+ * - User upsert by discord_id
+ * - Database sessions with 7-day TTL (via SessionService)
+ * - JWT claims consumable by PostgREST RLS (user_id, role)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { decode } from 'hono/jwt';
+import {
+  DiscordAuthenticationService,
+  AuthenticationError,
+  type DiscordAuthConfig
+} from '../../workspaces/backend/src/services/authentication-service.js';
+import { SESSION_TTL_MS, SessionService } from '../../workspaces/shared/services/session-service.js';
+import { InMemorySessionRepository, InMemoryUserRepository } from '../mocks/backend-repositories.js';
+import { MockValkeyService } from '../mocks/valkey-mock.js';
+import { startHttpStub, type HttpStub } from '../utils/local-http-stub.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  validCode: 'steve-auth-code',
+  steveProfile: {
+    id: '123456789012345678',
+    username: 'steve',
+    global_name: 'Steve',
+    avatar: 'abc123',
+    email: 'steve@example.com'
+  },
+  accessToken: 'discord-access-token',
+  jwtSecret: 'test_jwt_secret_minimum_32_characters!'
+};
+
+describe('DiscordAuthenticationService - Fast', () => {
+  let discord: HttpStub;
+  let users: InMemoryUserRepository;
+  let sessions: InMemorySessionRepository;
+  let cache: MockValkeyService;
+  let service: DiscordAuthenticationService;
+
+  beforeAll(async () => {
+    discord = await startHttpStub(request => {
+      if (request.path === '/oauth2/token') {
+        const form = new URLSearchParams(request.body);
+        return form.get('code') === TEST_DATA.validCode
+          ? { body: { access_token: TEST_DATA.accessToken, token_type: 'Bearer' } }
+          : { status: 400, body: { error: 'invalid_grant' } };
+      }
+      if (request.path === '/users/@me' && request.headers.authorization === `Bearer ${TEST_DATA.accessToken}`) {
+        return { body: TEST_DATA.steveProfile };
+      }
+      return { status: 401, body: { message: '401: Unauthorized' } };
+    });
+  });
+
+  afterAll(async () => {
+    await discord.close();
+  });
+
+  beforeEach(async () => {
+    users = new InMemoryUserRepository();
+    sessions = new InMemorySessionRepository();
+    cache = new MockValkeyService();
+    await cache.connect();
+    const config: DiscordAuthConfig = {
+      clientId: 'client',
+      clientSecret: 'secret',
+      redirectUri: 'http://localhost/api/auth/discord-callback',
+      apiBaseUrl: discord.url,
+      jwtSecret: TEST_DATA.jwtSecret,
+      jwtTtlSeconds: 3600
+    };
+    service = new DiscordAuthenticationService(
+      users,
+      new SessionService(sessions, users, cache),
+      config
+    );
+  });
+
+  describe('authenticate', () => {
+    it('exchanges the code and creates a user keyed by discord_id', async () => {
+      const user = await service.authenticate(TEST_DATA.validCode);
+
+      expect(user.discordId).toBe(TEST_DATA.steveProfile.id);
+      expect(user.username).toBe('Steve');
+      expect(user.role).toBe('user');
+      expect(users.users.size).toBe(1);
+
+      const tokenRequest = discord.requests.find(r => r.path === '/oauth2/token')!;
+      const form = new URLSearchParams(tokenRequest.body);
+      expect(form.get('grant_type')).toBe('authorization_code');
+      expect(form.get('client_secret')).toBe('secret');
+    });
+
+    it('updates the existing user on repeat login instead of duplicating', async () => {
+      const first = await service.authenticate(TEST_DATA.validCode);
+      await users.update(first.id, { role: 'shop_owner' });
+
+      const second = await service.authenticate(TEST_DATA.validCode);
+
+      expect(second.id).toBe(first.id);
+      expect(second.role).toBe('shop_owner');
+      expect(users.users.size).toBe(1);
+    });
+
+    it('rejects codes Discord refuses', async () => {
+      await expect(service.authenticate('bad-code')).rejects.toMatchObject({
+        code: 'DISCORD_TOKEN_EXCHANGE_FAILED'
+      });
+      await expect(service.authenticate('bad-code')).rejects.toBeInstanceOf(AuthenticationError);
+    });
+
+    it('refuses deactivated accounts', async () => {
+      const user = await service.authenticate(TEST_DATA.validCode);
+      await users.update(user.id, { isActive: false });
+
+      await expect(service.authenticate(TEST_DATA.validCode)).rejects.toMatchObject({ code: 'USER_INACTIVE' });
+    });
+  });
+
+  describe('sessions', () => {
+    it('persists a hashed session with a 7-day expiry and resolves it back to the user', async () => {
+      const user = await service.authenticate(TEST_DATA.validCode);
+      const token = await service.createSession(user);
+
+      const [stored] = Array.from(sessions.sessions.values());
+      expect(stored.sessionToken).not.toBe(token);
+      expect(stored.expiresAt.getTime() - Date.now()).toBeGreaterThan(SESSION_TTL_MS - 1000);
+
+      expect((await service.validateSession(token))?.id).toBe(user.id);
+    });
+
+    it('treats expired and destroyed sessions as invalid', async () => {
+      const user = await service.authenticate(TEST_DATA.validCode);
+      const expired = await service.createSession(user);
+      for (const session of sessions.sessions.values()) {
+        session.expiresAt = new Date(Date.now() - 1);
+      }
+      await cache.clear(); // Read expiry from the database rather than the cached copy
+      expect(await service.validateSession(expired)).toBeNull();
+      expect(sessions.sessions.size).toBe(0);
+
+      const token = await service.createSession(user);
+      await service.destroySession(token);
+      expect(await service.validateSession(token)).toBeNull();
+    });
+  });
+
+  describe('JWT', () => {
+    it('issues claims consumed by get_user_id() and get_user_role()', async () => {
+      const user = await service.authenticate(TEST_DATA.validCode);
+      const token = await service.generateJWT(user);
+
+      const { payload } = decode(token);
+      expect(payload).toMatchObject({
+        sub: user.id,
+        user_id: user.id,
+        role: 'user',
+        db_role: 'authenticated'
+      });
+      expect((payload.exp as number) - (payload.iat as number)).toBe(3600);
+
+      expect((await service.validateJWT(token))?.id).toBe(user.id);
+    });
+
+    it('rejects tampered tokens', async () => {
+      const user = await service.authenticate(TEST_DATA.validCode);
+      const token = await service.generateJWT(user);
+
+      expect(await service.validateJWT(`${token}x`)).toBeNull();
+      expect(await service.validateJWT('not-a-jwt')).toBeNull();
+    });
+  });
+});
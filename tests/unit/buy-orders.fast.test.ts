@@ -0,0 +1,296 @@
+/**
+ * Buy Order Tests - Fast Version
+ *
+ * MarketplaceBuyOrderService and the /api/v1/buy-orders router over the
+ * in-memory repositories and job queue:
+ * - Prices compared per single item, whatever unit either side uses
+ * - Only listings on the buy order's server, from other players, with
+ *   unreserved stock match
+ * - New buy orders match existing listings; new and re-priced listings are
+ *   matched on the job queue
+ * - Each buy order and listing pair notifies the buyer and seller once
+ * - Only the owner closes a buy order, and only while it is open
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type {
+  CreateItemRequest,
+  Item,
+  Notification,
+  NotificationService,
+  User
+} from '../../workspaces/shared/types/service-interfaces.js';
+import { matchesBuyOrder, perItemPrice, priceInUnit } from '../../workspaces/shared/utils/buy-orders.js';
+import { discordWebhookPayload } from '../../workspaces/shared/utils/shop-notifications.js';
+import { createBuyOrderRoutes } from '../../workspaces/backend/src/routes/buy-orders.js';
+import { BUY_ORDER_MATCH_QUEUE, MarketplaceBuyOrderService } from '../../workspaces/backend/src/services/buy-order-service.js';
+import { MinecraftItemService } from '../../workspaces/backend/src/services/item-service.js';
+import { DurableJobQueue } from '../../workspaces/backend/src/services/job-queue.js';
+import { MinecraftPricingService } from '../../workspaces/backend/src/services/pricing-service.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import {
+  InMemoryBuyOrderRepository,
+  InMemoryItemRepository,
+  InMemoryJobRepository,
+  InMemoryPriceRepository
+} from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: 'user_steve',
+  alex: 'user_alex',
+  notch: 'user_notch',
+  server: 'Safe Survival',
+  otherServer: 'Hardcore Realm',
+  cobblestone: {
+    name: 'Cobblestone',
+    description: 'Fresh from the generator',
+    category: 'blocks',
+    minecraftId: 'minecraft:cobblestone',
+    stockQuantity: 10,
+    serverName: 'Safe Survival',
+    shopLocation: 'Spawn market, stall 4',
+    price: 64,
+    tradingUnit: 'per_stack'
+  } satisfies CreateItemRequest,
+  buyOrder: {
+    minecraftId: 'minecraft:cobblestone',
+    serverName: 'safe survival',
+    quantity: 5,
+    maxPriceDiamonds: 1,
+    tradingUnit: 'per_item'
+  } as const
+};
+
+class RecordingNotificationService implements NotificationService {
+  public sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+
+  async sendBulk(notifications: Notification[]): Promise<void> {
+    this.sent.push(...notifications);
+  }
+
+  async scheduleNotification(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+// Lets fire-and-forget enqueues land before the queue is polled
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Buy Order Matching Rules - Fast', () => {
+  const listing = {
+    ownerId: TEST_DATA.alex,
+    minecraftId: 'minecraft:ender_pearl',
+    serverName: TEST_DATA.server,
+    isAvailable: true,
+    stockQuantity: 4
+  } satisfies Partial<Item>;
+  const order = {
+    ownerId: TEST_DATA.steve,
+    minecraftId: 'minecraft:ender_pearl',
+    serverName: ' SAFE SURVIVAL ',
+    maxPriceDiamonds: 2,
+    tradingUnit: 'per_item',
+    status: 'open'
+  } as const;
+
+  it('compares prices per single item using the item stack size', () => {
+    // Ender pearls stack to 16, so a stack at 32 is 2 per pearl
+    expect(perItemPrice(32, 'per_stack', 16)).toBe(2);
+    expect(matchesBuyOrder(order, listing, { priceDiamonds: 32, tradingUnit: 'per_stack' })).toBe(true);
+    expect(matchesBuyOrder(order, listing, { priceDiamonds: 33, tradingUnit: 'per_stack' })).toBe(false);
+    expect(matchesBuyOrder({ ...order, maxPriceDiamonds: 24, tradingUnit: 'per_dozen' }, listing, { priceDiamonds: 2, tradingUnit: 'per_item' })).toBe(true);
+  });
+
+  it('compares in the buy order\'s own unit, to the hundredth', () => {
+    const perStack = { ...order, maxPriceDiamonds: 32, tradingUnit: 'per_stack' } as const;
+    expect(priceInUnit({ priceDiamonds: 2, tradingUnit: 'per_item' }, 'per_stack', 16)).toBe(32);
+    expect(matchesBuyOrder(perStack, listing, { priceDiamonds: 2, tradingUnit: 'per_item' })).toBe(true);
+    expect(matchesBuyOrder(perStack, listing, { priceDiamonds: 32.3, tradingUnit: 'per_stack' })).toBe(false);
+
+    // A shulker of pearls is 432 items: 0.13 each is 56.16, well over 54
+    const perShulker = { ...order, maxPriceDiamonds: 54, tradingUnit: 'per_shulker' } as const;
+    expect(matchesBuyOrder(perShulker, listing, { priceDiamonds: 0.125, tradingUnit: 'per_item' })).toBe(true);
+    expect(matchesBuyOrder(perShulker, listing, { priceDiamonds: 0.13, tradingUnit: 'per_item' })).toBe(false);
+  });
+
+  it('needs the same server, another seller and unreserved stock', () => {
+    const price = { priceDiamonds: 1, tradingUnit: 'per_item' } as const;
+
+    expect(matchesBuyOrder(order, { ...listing, serverName: TEST_DATA.otherServer }, price)).toBe(false);
+    expect(matchesBuyOrder(order, { ...listing, serverName: undefined }, price)).toBe(false);
+    expect(matchesBuyOrder({ ...order, ownerId: TEST_DATA.alex }, listing, price)).toBe(false);
+    expect(matchesBuyOrder(order, { ...listing, reservedQuantity: 4 }, price)).toBe(false);
+    expect(matchesBuyOrder({ ...order, status: 'cancelled' }, listing, price)).toBe(false);
+  });
+});
+
+describe('MarketplaceBuyOrderService - Fast', () => {
+  let items: InMemoryItemRepository;
+  let buyOrders: InMemoryBuyOrderRepository;
+  let jobs: InMemoryJobRepository;
+  let jobQueue: DurableJobQueue;
+  let notifications: RecordingNotificationService;
+  let service: MarketplaceBuyOrderService;
+  let itemService: MinecraftItemService;
+
+  beforeEach(() => {
+    items = new InMemoryItemRepository();
+    const prices = new InMemoryPriceRepository(items);
+    buyOrders = new InMemoryBuyOrderRepository();
+    jobs = new InMemoryJobRepository();
+    jobQueue = new DurableJobQueue(jobs, {
+      pollIntervalMs: 1000,
+      batchSize: 10,
+      visibilityTimeoutMs: 60000,
+      maxAttempts: 3,
+      baseRetryDelayMs: 1000,
+      maxRetryDelayMs: 60000,
+      completedRetentionMs: 86400000
+    });
+    notifications = new RecordingNotificationService();
+    service = new MarketplaceBuyOrderService(buyOrders, items, prices, jobQueue, notifications);
+    itemService = new MinecraftItemService(items, prices, new MinecraftPricingService(prices), undefined, service);
+  });
+
+  it('matches a new buy order against listings already on its server and notifies both sides', async () => {
+    const stall = await itemService.createItem(TEST_DATA.cobblestone, TEST_DATA.alex);
+    await itemService.createItem({ ...TEST_DATA.cobblestone, serverName: TEST_DATA.otherServer }, TEST_DATA.notch);
+    await itemService.createItem(TEST_DATA.cobblestone, TEST_DATA.steve);
+
+    const order = await service.createBuyOrder(TEST_DATA.buyOrder, TEST_DATA.steve);
+    expect(order).toMatchObject({ status: 'open', itemName: 'Cobblestone', serverName: 'safe survival' });
+
+    expect(await buyOrders.findMatches(order.id)).toEqual([
+      expect.objectContaining({ itemId: stall.id, buyerId: TEST_DATA.steve, sellerId: TEST_DATA.alex, priceDiamonds: 64, tradingUnit: 'per_stack' })
+    ]);
+    expect(notifications.sent.map(n => [n.recipient, n.data.role])).toEqual([
+      [TEST_DATA.steve, 'buyer'],
+      [TEST_DATA.alex, 'seller']
+    ]);
+
+    const [embed] = discordWebhookPayload([notifications.sent[0]]).embeds;
+    expect(embed.title).toBe('Cobblestone for sale within your buy order');
+    expect(embed.fields.map(field => field.name)).toEqual(['Item', 'Listed at', 'Buy order', 'Where']);
+  });
+
+  it('matches re-priced listings on the job queue, once per pair', async () => {
+    const order = await service.createBuyOrder(TEST_DATA.buyOrder, TEST_DATA.steve);
+    const stall = await itemService.createItem({ ...TEST_DATA.cobblestone, price: 96 }, TEST_DATA.alex);
+    await settle();
+    expect([...jobs.jobs.values()]).toEqual([expect.objectContaining({ queue: BUY_ORDER_MATCH_QUEUE })]);
+    await jobQueue.runOnce();
+    expect(notifications.sent).toHaveLength(0);
+
+    await itemService.updateItemPrice(stall.id, 60, 'per_stack', TEST_DATA.alex);
+    await settle();
+    await jobQueue.runOnce();
+    expect(await buyOrders.findMatches(order.id)).toEqual([expect.objectContaining({ priceDiamonds: 60 })]);
+    expect(notifications.sent).toHaveLength(2);
+
+    // A cheaper price for the same pair is not news
+    await itemService.updateItemPrice(stall.id, 50, 'per_stack', TEST_DATA.alex);
+    await settle();
+    await jobQueue.runOnce();
+    expect(await service.matchListing(stall.id)).toEqual([]);
+    expect(notifications.sent).toHaveLength(2);
+  });
+
+  it('lets only the owner close an open buy order', async () => {
+    const order = await service.createBuyOrder(TEST_DATA.buyOrder, TEST_DATA.steve);
+
+    await expect(service.cancelBuyOrder(order.id, TEST_DATA.alex)).rejects.toMatchObject({ code: 'NOT_BUY_ORDER_OWNER' });
+    expect(await service.fillBuyOrder(order.id, TEST_DATA.steve)).toMatchObject({ status: 'filled' });
+    await expect(service.cancelBuyOrder(order.id, TEST_DATA.steve)).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+    await expect(service.cancelBuyOrder('missing', TEST_DATA.steve)).rejects.toMatchObject({ code: 'BUY_ORDER_NOT_FOUND' });
+
+    // Closed orders no longer match
+    await itemService.createItem(TEST_DATA.cobblestone, TEST_DATA.alex);
+    await settle();
+    await jobQueue.runOnce();
+    expect(notifications.sent).toHaveLength(0);
+  });
+});
+
+describe('Buy Order REST Routes - Fast', () => {
+  let app: Hono<AppEnv>;
+
+  const testUser = (id: string): User => ({
+    id,
+    discordId: `discord_${id}`,
+    username: id.replace('user_', ''),
+    role: 'user',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const request = (path: string, userId?: string, body?: unknown) =>
+    app.request(`/api/v1/buy-orders${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        ...(userId ? { 'x-test-user': userId } : {}),
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  beforeEach(() => {
+    const container = new ServiceContainer();
+    const items = new InMemoryItemRepository();
+    const jobQueue = new DurableJobQueue(new InMemoryJobRepository(), {
+      pollIntervalMs: 1000,
+      batchSize: 10,
+      visibilityTimeoutMs: 60000,
+      maxAttempts: 3,
+      baseRetryDelayMs: 1000,
+      maxRetryDelayMs: 60000,
+      completedRetentionMs: 86400000
+    });
+    container.register(SERVICE_KEYS.BUY_ORDER_SERVICE, () =>
+      new MarketplaceBuyOrderService(new InMemoryBuyOrderRepository(), items, new InMemoryPriceRepository(items), jobQueue)
+    );
+
+    app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      const userId = c.req.header('x-test-user');
+      if (userId) c.set('user', testUser(userId));
+      await next();
+    });
+    app.route('/api/v1/buy-orders', createBuyOrderRoutes(container));
+    app.onError((_err, c) => c.json({ error: 'Internal Server Error' }, 500));
+  });
+
+  it('creates buy orders for the signed-in player and lists them by item and server', async () => {
+    expect((await request('', undefined, TEST_DATA.buyOrder)).status).toBe(401);
+
+    const created = await request('', TEST_DATA.steve, { ...TEST_DATA.buyOrder, minecraftId: 'cobblestone' });
+    expect(created.status).toBe(201);
+    const order = await created.json();
+    expect(order).toMatchObject({ ownerId: TEST_DATA.steve, minecraftId: 'minecraft:cobblestone' });
+
+    const open = await request('?minecraftId=cobblestone&serverName=Safe%20Survival', TEST_DATA.alex);
+    expect(await open.json()).toEqual([expect.objectContaining({ id: order.id })]);
+
+    const mine = await request('/mine', TEST_DATA.steve);
+    expect(await mine.json()).toEqual([expect.objectContaining({ id: order.id, matches: [] })]);
+
+    const cancel = await request(`/${order.id}/cancel`, TEST_DATA.alex, {});
+    expect(cancel.status).toBe(403);
+  });
+
+  it('rejects malformed item IDs and units the item cannot be bought in', async () => {
+    const malformed = await request('', TEST_DATA.steve, { ...TEST_DATA.buyOrder, minecraftId: 'dragon plushie' });
+    expect(malformed.status).toBe(400);
+
+    const unstackable = await request('', TEST_DATA.steve, { ...TEST_DATA.buyOrder, minecraftId: 'minecraft:diamond_sword', tradingUnit: 'per_stack' });
+    expect(unstackable.status).toBe(400);
+    expect(await unstackable.json()).toMatchObject({ error: 'INVALID_TRADING_UNIT' });
+  });
+});
@@ -3,7 +3,8 @@
  * 
  * Testing community reporting functionality with dependency injection:
  * - Evidence-based reporting with confidence scoring
- * - Auto-approval for high-confidence stock changes
+ * - Auto-approval for high-confidence stock status changes
+ * - Report types and statuses shared with service-interfaces
  * - Performance validation (<10ms per test)
  * - Zero external dependencies
  */
@@ -28,7 +29,7 @@ const TEST_DATA = {
     alex: 'alex_iron_works',
     spawn: 'spawn_market'
   },
-  reportTypes: ['stock_update', 'price_change', 'quality_issue', 'location_change'] as const
+  reportTypes: ['stock_status', 'price_change', 'incorrect_info', 'shop_closure'] as const
 };
 
 describe('CommunityReportService - DI Fast', () => {
@@ -42,12 +43,12 @@ describe('CommunityReportService - DI Fast', () => {
   });
 
   describe('createReport', () => {
-    it('should create basic stock update report for steve diamond sword', async () => {
+    it('should create basic stock status report for steve diamond sword', async () => {
       const { result, timeMs } = await measure(async () => {
         return reportService.createReport({
           item_id: TEST_DATA.items.diamond_sword,
           reporter_id: TEST_DATA.mainReporter,
-          report_type: 'stock_update' as const,
+          report_type: 'stock_status' as const,
           description: 'Diamond sword is out of stock at spawn market'
         });
       });
@@ -57,7 +58,8 @@ describe('CommunityReportService - DI Fast', () => {
       expect(result.status).toBe('pending');
       expect(result.item_id).toBe(TEST_DATA.items.diamond_sword);
       expect(result.reporter_id).toBe(TEST_DATA.mainReporter);
-      expect(result.report_type).toBe('stock_update');
+      expect(result.report_type).toBe('stock_status');
+      expect(result.auto_approved).toBe(false);
       expect(result.description).toContain('Diamond sword');
     });
 
@@ -79,30 +81,31 @@ describe('CommunityReportService - DI Fast', () => {
       expect(result.description).toContain('32 to 40 diamonds');
     });
 
-    it('should handle quality issue report with fast execution', async () => {
+    it('should handle incorrect info report with fast execution', async () => {
       const { result, timeMs } = await measure(async () => {
         return reportService.createReport({
           item_id: TEST_DATA.items.enchanted_book,
           reporter_id: TEST_DATA.mainReporter,
-          report_type: 'quality_issue' as const,
+          report_type: 'incorrect_info' as const,
           description: 'Enchanted book missing Sharpness V enchantment as advertised'
         });
       });
 
       expectFastExecution(timeMs, 5);
-      expect(result.report_type).toBe('quality_issue');
+      expect(result.report_type).toBe('incorrect_info');
       expect(result.description).toContain('Sharpness V');
       expect(result.status).toBe('pending');
     });
   });
 
   describe('createReportWithHistory', () => {
-    it('should auto-approve high-confidence stock update from trusted notch', async () => {
+    it('should auto-approve high-confidence stock status from trusted notch', async () => {
       const reportData = {
         item_id: TEST_DATA.items.diamond_sword,
         reporter_id: TEST_DATA.trustedReporter,
-        report_type: 'stock_update' as const,
-        description: 'Diamond sword back in stock at notch admin shop'
+        report_type: 'stock_status' as const,
+        description: 'Diamond sword back in stock at notch admin shop',
+        evidence_types: ['screenshot', 'transaction_record'] as const
       };
 
       // Mock trusted reporter (>5 approved reports per SPEC)
@@ -116,7 +119,8 @@ describe('CommunityReportService - DI Fast', () => {
       });
 
       expectFastExecution(timeMs, 10);
-      expect(result.status).toBe('auto_approved');
+      expect(result.status).toBe('approved');
+      expect(result.auto_approved).toBe(true);
       expect(result.confidence_level).toBe('high');
       expect(result.reporter_id).toBe(TEST_DATA.trustedReporter);
       expect(result.item_id).toBe(TEST_DATA.items.diamond_sword);
@@ -127,13 +131,14 @@ describe('CommunityReportService - DI Fast', () => {
         item_id: TEST_DATA.items.iron_pickaxe,
         reporter_id: TEST_DATA.altReporter,
         report_type: 'price_change' as const,
-        description: 'Iron pickaxe price dropped to 28 diamonds'
+        description: 'Iron pickaxe price dropped to 28 diamonds',
+        evidence_types: ['screenshot'] as const
       };
 
-      // Mock new reporter (few approved reports)
+      // Mock new reporter (<3 total reports per SPEC)
       const reporterHistory = {
-        approved_reports: 2,
-        total_reports: 3
+        approved_reports: 1,
+        total_reports: 2
       };
 
       const { result, timeMs } = await measure(async () => {
@@ -142,7 +147,7 @@ describe('CommunityReportService - DI Fast', () => {
 
       expectFastExecution(timeMs, 10);
       expect(result.status).toBe('pending');
-      expect(result.confidence_level).toBe('medium');
+      expect(result.confidence_level).toBe('low');
       expect(result.reporter_id).toBe(TEST_DATA.altReporter);
     });
 
@@ -150,11 +155,11 @@ describe('CommunityReportService - DI Fast', () => {
       const reportData = {
         item_id: TEST_DATA.items.enchanted_book,
         reporter_id: 'herobrine',
-        report_type: 'quality_issue' as const,
+        report_type: 'incorrect_info' as const,
         description: 'This item is cursed and should be removed'
       };
 
-      // Mock unreliable reporter (low approval rate, not stock_update)
+      // Mock unreliable reporter (low approval rate, description only)
       const reporterHistory = {
         approved_reports: 1,
         total_reports: 10
@@ -165,8 +170,8 @@ describe('CommunityReportService - DI Fast', () => {
       });
 
       expectFastExecution(timeMs, 5);
-      expect(result.status).toBe('pending'); // Default status per implementation
-      expect(result.confidence_level).toBe('medium'); // Default confidence per implementation
+      expect(result.status).toBe('pending');
+      expect(result.confidence_level).toBe('low'); // Description only per SPEC
       expect(result.reporter_id).toBe('herobrine');
     });
   });
@@ -195,23 +200,26 @@ describe('CommunityReportService - DI Fast', () => {
         return reportService.createReport({
           item_id: TEST_DATA.items.diamond_sword,
           reporter_id: TEST_DATA.mainReporter,
-          report_type: 'location_change' as const,
+          report_type: 'incorrect_info' as const,
           description: `Diamond sword moved from ${TEST_DATA.shops.steve} to ${TEST_DATA.shops.alex}`
         });
       });
 
       expectFastExecution(timeMs, 10);
-      expect(result.report_type).toBe('location_change');
+      expect(result.report_type).toBe('incorrect_info');
       expect(result.description).toContain(TEST_DATA.shops.steve);
       expect(result.description).toContain(TEST_DATA.shops.alex);
     });
 
     it('should validate confidence scoring for minecraft community stock updates', async () => {
+      const fullEvidence = ['screenshot', 'transaction_record'] as const;
       const testCases = [
-        { approvedReports: 10, totalReports: 12, reportType: 'stock_update' as const, expectedConfidence: 'high', expectedStatus: 'auto_approved' },
-        { approvedReports: 8, totalReports: 10, reportType: 'stock_update' as const, expectedConfidence: 'high', expectedStatus: 'auto_approved' },
-        { approvedReports: 5, totalReports: 8, reportType: 'stock_update' as const, expectedConfidence: 'medium', expectedStatus: 'pending' },
-        { approvedReports: 10, totalReports: 12, reportType: 'price_change' as const, expectedConfidence: 'medium', expectedStatus: 'pending' }
+        { approvedReports: 10, totalReports: 12, reportType: 'stock_status' as const, evidence: fullEvidence, expectedConfidence: 'high', expectedStatus: 'approved' },
+        { approvedReports: 8, totalReports: 10, reportType: 'stock_status' as const, evidence: fullEvidence, expectedConfidence: 'high', expectedStatus: 'approved' },
+        { approvedReports: 5, totalReports: 8, reportType: 'stock_status' as const, evidence: fullEvidence, expectedConfidence: 'medium', expectedStatus: 'pending' },
+        { approvedReports: 10, totalReports: 12, reportType: 'stock_status' as const, evidence: ['screenshot'] as const, expectedConfidence: 'medium', expectedStatus: 'pending' },
+        // Price changes always need manual review, even at high confidence
+        { approvedReports: 10, totalReports: 12, reportType: 'price_change' as const, evidence: fullEvidence, expectedConfidence: 'high', expectedStatus: 'pending' }
       ];
 
       const { timeMs } = await measure(async () => {
@@ -220,7 +228,8 @@ describe('CommunityReportService - DI Fast', () => {
             item_id: TEST_DATA.items.diamond_sword,
             reporter_id: TEST_DATA.mainTrader,
             report_type: testCase.reportType,
-            description: `${testCase.reportType} test`
+            description: `${testCase.reportType} test`,
+            evidence_types: testCase.evidence
           }, {
             approved_reports: testCase.approvedReports,
             total_reports: testCase.totalReports
@@ -246,7 +255,7 @@ describe('CommunityReportService - DI Fast', () => {
           const result = await reportService.createReport({
             item_id: itemId,
             reporter_id: TEST_DATA.mainReporter,
-            report_type: 'stock_update' as const,
+            report_type: 'stock_status' as const,
             description: `Stock update for ${itemId}`
           });
           
@@ -52,7 +52,8 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
         item_id: scenario.item,
         reporter_id: scenario.reporter,
         report_type: scenario.reportType,
-        description: `${scenario.item} stock update with screenshot evidence`
+        description: `${scenario.item} stock update with screenshot evidence`,
+        evidence_types: scenario.evidence
       };
 
       const result = await reportService.createReportWithHistory(reportData, reporterHistory);
@@ -81,7 +82,8 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
         item_id: scenario.item,
         reporter_id: scenario.reporter,
         report_type: scenario.reportType,
-        description: `${scenario.item} price seems different but no evidence`
+        description: `${scenario.item} price seems different but no evidence`,
+        evidence_types: scenario.evidence
       };
 
       const result = await reportService.createReportWithHistory(reportData, reporterHistory);
@@ -101,7 +103,7 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
   
   describe('Report Types', () => {
     it('should handle all report types with minecraft items', async () => {
-      const reportTypes = ['stock_update', 'price_change', 'quality_issue', 'location_change'] as const;
+      const reportTypes = ['stock_status', 'price_change', 'incorrect_info', 'shop_closure'] as const;
       
       const start = performance.now();
       
@@ -131,13 +133,13 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
       const stockUpdateReport = {
         item_id: MINECRAFT_TEST_DATA.items.diamond_sword,
         reporter_id: MINECRAFT_TEST_DATA.users.mainTrader,
-        report_type: 'stock_update' as const,
+        report_type: 'stock_status' as const,
         description: `Diamond sword back in stock at ${MINECRAFT_TEST_DATA.shops.steve_diamond_shop}`
       };
 
       const result = await reportService.createReport(stockUpdateReport);
       
-      expect(result.report_type).toBe('stock_update');
+      expect(result.report_type).toBe('stock_status');
       expect(result.description).toContain(MINECRAFT_TEST_DATA.shops.steve_diamond_shop);
       expect(result.item_id).toBe(MINECRAFT_TEST_DATA.items.diamond_sword);
       
@@ -177,21 +179,32 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
         {
           description: 'Established reporter with stock update',
           reporterHistory: { approved_reports: 8, total_reports: 10 },
-          reportType: 'stock_update' as const,
-          expectedStatus: 'auto_approved',
+          reportType: 'stock_status' as const,
+          evidenceTypes: ['screenshot', 'transaction_record'] as const,
+          expectedStatus: 'approved',
           expectedConfidence: 'high'
         },
         {
-          description: 'New reporter with stock update',
+          description: 'Reporter without enough approvals to be established',
           reporterHistory: { approved_reports: 3, total_reports: 4 },
-          reportType: 'stock_update' as const,
+          reportType: 'stock_status' as const,
+          evidenceTypes: ['screenshot', 'transaction_record'] as const,
           expectedStatus: 'pending',
           expectedConfidence: 'medium'
         },
+        {
+          description: 'New reporter with full evidence',
+          reporterHistory: { approved_reports: 0, total_reports: 2 },
+          reportType: 'stock_status' as const,
+          evidenceTypes: ['screenshot', 'transaction_record'] as const,
+          expectedStatus: 'pending',
+          expectedConfidence: 'low'
+        },
         {
           description: 'Established reporter with non-stock report',
           reporterHistory: { approved_reports: 10, total_reports: 12 },
-          reportType: 'quality_issue' as const,
+          reportType: 'incorrect_info' as const,
+          evidenceTypes: ['transaction_record'] as const,
           expectedStatus: 'pending',
           expectedConfidence: 'medium'
         }
@@ -204,7 +217,8 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
           item_id: MINECRAFT_TEST_DATA.items.diamond_sword,
           reporter_id: MINECRAFT_TEST_DATA.users.mainTrader,
           report_type: testCase.reportType,
-          description: `Test report: ${testCase.description}`
+          description: `Test report: ${testCase.description}`,
+          evidence_types: testCase.evidenceTypes
         };
 
         const result = await reportService.createReportWithHistory(reportData, testCase.reporterHistory);
@@ -230,7 +244,7 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
         const reportData = {
           item_id: MINECRAFT_TEST_DATA.items.netherite_axe,
           reporter_id: MINECRAFT_TEST_DATA.users.adminUser,
-          report_type: 'quality_issue' as const,
+          report_type: 'incorrect_info' as const,
           description: `Quality issue with evidence: ${evidence.description}`,
           evidence_type: evidence.type
         };
@@ -259,7 +273,7 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
         const reportData = {
           item_id: MINECRAFT_TEST_DATA.items.diamond_block,
           reporter_id: MINECRAFT_TEST_DATA.users.mainTrader,
-          report_type: 'location_change' as const,
+          report_type: 'incorrect_info' as const,
           description: `Diamond block shop moved location on ${serverName} server`,
           server_context: serverName
         };
@@ -317,7 +331,7 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
       const reportData = {
         item_id: MINECRAFT_TEST_DATA.items.diamond_sword,
         reporter_id: MINECRAFT_TEST_DATA.users.mainTrader,
-        report_type: 'stock_update' as const,
+        report_type: 'stock_status' as const,
         description: 'Diamond sword back in stock with screenshot evidence'
       };
 
@@ -347,19 +361,19 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
         {
           item_id: MINECRAFT_TEST_DATA.items.diamond_sword,
           reporter_id: MINECRAFT_TEST_DATA.users.mainTrader,
-          report_type: 'stock_update' as const,
+          report_type: 'stock_status' as const,
           description: 'Diamond sword - 5 in stock'
         },
         {
           item_id: MINECRAFT_TEST_DATA.items.iron_pickaxe,
           reporter_id: MINECRAFT_TEST_DATA.users.altTrader,
-          report_type: 'stock_update' as const,
+          report_type: 'stock_status' as const,
           description: 'Iron pickaxe - 3 in stock'
         },
         {
           item_id: MINECRAFT_TEST_DATA.items.netherite_axe,
           reporter_id: MINECRAFT_TEST_DATA.users.adminUser,
-          report_type: 'stock_update' as const,
+          report_type: 'stock_status' as const,
           description: 'Netherite axe - 1 in stock'
         }
       ];
@@ -372,7 +386,7 @@ describe('Community Reporting - Consolidated Fast Tests', () => {
       
       expect(results).toHaveLength(3);
       for (const result of results) {
-        expect(result.report_type).toBe('stock_update');
+        expect(result.report_type).toBe('stock_status');
         expect(result.status).toBe('pending');
         expect(result.description).toContain('in stock');
       }
@@ -0,0 +1,232 @@
+/**
+ * Discord Interactions Tests - Fast Version
+ *
+ * Slash commands through the Hono /api/v1/discord router, signed with a
+ * locally generated Ed25519 key pair:
+ * - Signatures over timestamp + raw body verified; forged and stale requests get 401
+ * - PING answered with PONG for Discord's endpoint check
+ * - /price and /shop answer with listing embeds and formatted prices
+ * - /report autocompletes listing ids and files reports for linked accounts only
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateKeyPairSync, sign, type KeyObject } from 'node:crypto';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { CreateItemRequest, Item, User } from '../../workspaces/shared/types/service-interfaces.js';
+import { MinecraftItemService } from '../../workspaces/backend/src/services/item-service.js';
+import { MinecraftPricingService } from '../../workspaces/backend/src/services/pricing-service.js';
+import { CommunityReportingService } from '../../workspaces/backend/src/services/reporting-service.js';
+import {
+  DiscordInteractionService,
+  verifyDiscordSignature
+} from '../../workspaces/backend/src/services/discord-interactions.js';
+import { createDiscordRoutes } from '../../workspaces/backend/src/routes/discord.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import {
+  InMemoryCommunityReportRepository,
+  InMemoryEvidenceRepository,
+  InMemoryItemRepository,
+  InMemoryPriceRepository,
+  InMemoryUserRepository
+} from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: { id: 'user_steve', discordId: '100000000000000001', username: 'steve', shopName: "Steve's Diamond Emporium" },
+  alex: { id: 'user_alex', discordId: '100000000000000002', username: 'alex', shopName: 'Alex Ironworks' },
+  notch: { id: 'user_notch', discordId: '100000000000000003', username: 'notch' },
+  unlinkedDiscordId: '100000000000000099',
+  diamondSword: (price: number): CreateItemRequest => ({
+    name: 'Diamond Sword',
+    description: 'Sharpness V diamond sword',
+    category: 'tools',
+    minecraftId: 'minecraft:diamond_sword',
+    stockQuantity: 3,
+    serverName: 'Safe Survival',
+    price,
+    tradingUnit: 'per_item'
+  }),
+  ironIngots: {
+    name: 'Iron Ingot',
+    description: 'Smelted iron ingots',
+    category: 'materials',
+    minecraftId: 'minecraft:iron_ingot',
+    stockQuantity: 640,
+    serverName: 'Safe Survival',
+    price: 0.5,
+    tradingUnit: 'per_item'
+  } satisfies CreateItemRequest
+};
+
+const testUser = (data: { id: string; discordId: string; username: string; shopName?: string }): User => ({
+  ...data,
+  role: 'shop_owner',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const publicKeyHex = (publicKey: KeyObject) =>
+  Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('hex');
+
+describe('Discord Interactions - Fast', () => {
+  let app: Hono<AppEnv>;
+  let privateKey: KeyObject;
+  let itemService: MinecraftItemService;
+  let reports: InMemoryCommunityReportRepository;
+
+  const signedRequest = (payload: unknown, options: { key?: KeyObject; timestamp?: number } = {}) => {
+    const body = JSON.stringify(payload);
+    const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+    const signature = sign(null, Buffer.from(timestamp + body), options.key ?? privateKey).toString('hex');
+
+    return app.request('/api/v1/discord/interactions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Signature-Ed25519': signature,
+        'X-Signature-Timestamp': timestamp
+      },
+      body
+    });
+  };
+
+  const command = async (name: string, options: Record<string, string>, discordId = TEST_DATA.alex.discordId) => {
+    const response = await signedRequest({
+      type: 2,
+      data: { name, options: Object.entries(options).map(([option, value]) => ({ name: option, type: 3, value })) },
+      member: { user: { id: discordId } }
+    });
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  beforeEach(async () => {
+    const keys = generateKeyPairSync('ed25519');
+    privateKey = keys.privateKey;
+
+    const prices = new InMemoryPriceRepository();
+    const items = new InMemoryItemRepository(prices);
+    const users = new InMemoryUserRepository();
+    const evidence = new InMemoryEvidenceRepository();
+    reports = new InMemoryCommunityReportRepository(evidence, items);
+    const pricingService = new MinecraftPricingService(prices);
+    itemService = new MinecraftItemService(items, prices, pricingService);
+
+    for (const user of [TEST_DATA.steve, TEST_DATA.alex, TEST_DATA.notch]) {
+      await users.save(testUser(user));
+    }
+
+    const container = new ServiceContainer();
+    container.register(SERVICE_KEYS.DISCORD_INTERACTION_SERVICE, () =>
+      new DiscordInteractionService(
+        itemService,
+        pricingService,
+        new CommunityReportingService(items, prices, reports, evidence, users),
+        users,
+        { publicKey: publicKeyHex(keys.publicKey), maxRequestAgeSeconds: 300 }
+      )
+    );
+
+    app = new Hono<AppEnv>();
+    app.route('/api/v1/discord', createDiscordRoutes(container));
+  });
+
+  it('verifies signatures over the timestamp and raw body', () => {
+    const application = generateKeyPairSync('ed25519');
+    const key = publicKeyHex(application.publicKey);
+    const signed = (signer: KeyObject) =>
+      sign(null, Buffer.from('1767225600{"type":1}'), signer).toString('hex');
+    const signature = signed(application.privateKey);
+
+    expect(verifyDiscordSignature(key, signature, '1767225600', '{"type":1}')).toBe(true);
+    expect(verifyDiscordSignature(key, signature, '1767225600', '{"type":2}')).toBe(false);
+    expect(verifyDiscordSignature(key, signature, '1767225601', '{"type":1}')).toBe(false);
+    expect(verifyDiscordSignature(key, signed(privateKey), '1767225600', '{"type":1}')).toBe(false);
+    expect(verifyDiscordSignature(key, 'not-hex', '1767225600', '{"type":1}')).toBe(false);
+    expect(verifyDiscordSignature('', signature, '1767225600', '{"type":1}')).toBe(false);
+  });
+
+  it('answers PING and refuses forged or stale requests', async () => {
+    expect(await (await signedRequest({ type: 1 })).json()).toEqual({ type: 1 });
+
+    const forged = await signedRequest({ type: 1 }, { key: generateKeyPairSync('ed25519').privateKey });
+    expect(forged.status).toBe(401);
+
+    const stale = await signedRequest({ type: 1 }, { timestamp: Math.floor(Date.now() / 1000) - 600 });
+    expect(stale.status).toBe(401);
+
+    const unsigned = await app.request('/api/v1/discord/interactions', { method: 'POST', body: '{"type":1}' });
+    expect(unsigned.status).toBe(401);
+  });
+
+  it('lists the cheapest in-stock listings for /price', async () => {
+    await itemService.createItem(TEST_DATA.diamondSword(45), TEST_DATA.steve.id);
+    await itemService.createItem(TEST_DATA.diamondSword(40), TEST_DATA.alex.id);
+    await itemService.createItem(TEST_DATA.ironIngots, TEST_DATA.alex.id);
+
+    const body = await command('price', { item: 'diamond sword' });
+
+    expect(body.type).toBe(4);
+    expect(body.data.flags).toBeUndefined();
+    expect(body.data.allowed_mentions).toEqual({ parse: [] });
+    const [embed] = body.data.embeds;
+    expect(embed.description).toBe('2 listings in stock, cheapest first');
+    expect(embed.fields.map((field: { name: string }) => field.name)).toEqual([
+      'Diamond Sword · Alex Ironworks',
+      "Diamond Sword · Steve's Diamond Emporium"
+    ]);
+    expect(embed.fields[0].value).toContain('40 diamond blocks per item');
+    expect(embed.fields[0].value).toContain('3 in stock');
+
+    const missing = await command('price', { item: 'netherite' });
+    expect(missing.data).toMatchObject({ content: 'No listings in stock match "netherite".', flags: 64 });
+  });
+
+  it('shows a shop by name or owner username for /shop', async () => {
+    await itemService.createItem(TEST_DATA.diamondSword(45), TEST_DATA.steve.id);
+    await itemService.createItem(TEST_DATA.ironIngots, TEST_DATA.alex.id);
+
+    const byName = await command('shop', { name: "steve's diamond emporium" });
+    expect(byName.data.embeds[0].title).toBe("Steve's Diamond Emporium");
+    expect(byName.data.embeds[0].fields.map((field: { name: string }) => field.name)).toEqual(['Diamond Sword']);
+
+    const byUsername = await command('shop', { name: 'alex' });
+    expect(byUsername.data.embeds[0].fields[0].name).toBe('Iron Ingot');
+
+    const empty = await command('shop', { name: 'notch' });
+    expect(empty.data.embeds[0]).toMatchObject({ title: "notch's shop", description: 'Nothing in stock right now' });
+
+    const unknown = await command('shop', { name: 'Herobrine' });
+    expect(unknown.data).toMatchObject({ content: 'No shop named "Herobrine".', flags: 64 });
+  });
+
+  it('autocompletes /report listings and files reports from linked accounts', async () => {
+    const sword: Item = await itemService.createItem(TEST_DATA.diamondSword(45), TEST_DATA.steve.id);
+
+    const suggestions = await (await signedRequest({
+      type: 4,
+      data: { name: 'report', options: [{ name: 'item', type: 3, value: 'sword', focused: true }] }
+    })).json();
+    expect(suggestions).toEqual({
+      type: 8,
+      data: { choices: [{ name: "Diamond Sword · Steve's Diamond Emporium · Safe Survival", value: sword.id }] }
+    });
+
+    const filed = await command('report', { item: sword.id, reason: 'Sign says 60 diamonds now' });
+    expect(filed.data.flags).toBe(64);
+    expect(filed.data.embeds[0].title).toBe('Report filed on Diamond Sword');
+    expect(await reports.findAll({ itemId: sword.id })).toEqual([
+      expect.objectContaining({ reporterId: TEST_DATA.alex.id, reportType: 'incorrect_info', description: 'Sign says 60 diamonds now' })
+    ]);
+
+    // Typed text rather than a picked suggestion
+    const typed = await command('report', { item: 'diamond sword', reason: 'Out of stock' });
+    expect(typed.data.embeds[0].title).toBe('Listings matching "diamond sword"');
+
+    const unlinked = await command('report', { item: sword.id, reason: 'Out of stock' }, TEST_DATA.unlinkedDiscordId);
+    expect(unlinked.data.content).toBe('Sign in to the marketplace with Discord before reporting listings.');
+    expect(await reports.findAll({ itemId: sword.id })).toHaveLength(1);
+  });
+});
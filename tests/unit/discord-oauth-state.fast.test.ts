@@ -0,0 +1,81 @@
+/**
+ * Discord OAuth State Tests - Fast Version
+ *
+ * SPEC Epic 2: Discord OAuth login
+ * - Random `state` stored in a short-lived HTTP-only cookie
+ * - Callback refuses to exchange the code when the state does not match
+ * - Post-login redirect limited to same-origin paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildDiscordAuthorizeUrl,
+  createOAuthState,
+  oauthStateMatches,
+  safeNextPath
+} from '../../workspaces/frontend/src/lib/discord-oauth.js';
+import { GET as discordCallback } from '../../workspaces/frontend/src/pages/api/auth/discord-callback.js';
+
+const redirect = (path: string) => new Response(null, { status: 302, headers: { Location: path } });
+
+function callbackContext(query: string, stateCookie?: string) {
+  const deleted: string[] = [];
+  const context = {
+    url: new URL(`http://localhost/api/auth/discord-callback${query}`),
+    redirect,
+    cookies: {
+      get: () => (stateCookie === undefined ? undefined : { value: stateCookie }),
+      delete: (name: string) => deleted.push(name)
+    }
+  };
+  return { context: context as unknown as Parameters<typeof discordCallback>[0], deleted };
+}
+
+describe('Discord OAuth State - Fast', () => {
+  it('creates unguessable, distinct state values', () => {
+    const first = createOAuthState();
+    expect(first.length).toBeGreaterThanOrEqual(43);
+    expect(createOAuthState()).not.toBe(first);
+  });
+
+  it('matches only identical state values', () => {
+    expect(oauthStateMatches('abc', 'abc')).toBe(true);
+    expect(oauthStateMatches('abc', 'abd')).toBe(false);
+    expect(oauthStateMatches('abc', null)).toBe(false);
+    expect(oauthStateMatches(undefined, 'abc')).toBe(false);
+  });
+
+  it('keeps post-login redirects on this origin', () => {
+    expect(safeNextPath('/marketplace')).toBe('/marketplace');
+    expect(safeNextPath('//evil.example')).toBe('/dashboard');
+    expect(safeNextPath('https://evil.example')).toBe('/dashboard');
+    expect(safeNextPath(null)).toBe('/dashboard');
+  });
+
+  it('puts the client id, redirect URI and state on the authorize URL', () => {
+    const url = new URL(buildDiscordAuthorizeUrl('client_1', 'http://localhost/cb', 'state_1'));
+    expect(url.searchParams.get('client_id')).toBe('client_1');
+    expect(url.searchParams.get('redirect_uri')).toBe('http://localhost/cb');
+    expect(url.searchParams.get('state')).toBe('state_1');
+  });
+
+  it('rejects callbacks without the state cookie', async () => {
+    const { context, deleted } = callbackContext('?code=abc&state=xyz');
+
+    const response = await discordCallback(context);
+
+    expect(response.headers.get('Location')).toBe('/login?error=invalid_state');
+    expect(deleted).toContain('mm_oauth_state');
+  });
+
+  it('rejects callbacks whose state differs from the cookie', async () => {
+    const { context } = callbackContext(
+      '?code=abc&state=forged',
+      JSON.stringify({ state: 'expected', next: '/dashboard' })
+    );
+
+    const response = await discordCallback(context);
+
+    expect(response.headers.get('Location')).toBe('/login?error=invalid_state');
+  });
+});
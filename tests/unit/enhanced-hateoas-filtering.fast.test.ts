@@ -113,17 +113,17 @@ describe('Enhanced HATEOAS Filtering - TDD Implementation Guide', () => {
       
       // Owner actions (user owns item_001)
       expect(links.edit).toBeDefined();
-      expect(links.edit?.href).toBe('/api/internal/items/item_001');
+      expect(links.edit?.href).toBe('/api/v1/items/item_001');
       expect(links.edit?.method).toBe('PUT');
       expect(links.edit?.requiresAuth).toBe(true);
       
       expect(links.updateStock).toBeDefined();
-      expect(links.updateStock?.href).toBe('/api/internal/items/item_001/stock');
-      expect(links.updateStock?.method).toBe('PATCH');
+      expect(links.updateStock?.href).toBe('/api/v1/items/item_001');
+      expect(links.updateStock?.method).toBe('PUT');
       
       // Community actions (authenticated user)
       expect(links.reportPrice).toBeDefined();
-      expect(links.reportPrice?.href).toBe('/api/v1/reports/price');
+      expect(links.reportPrice?.href).toBe('/api/v1/reports');
       expect(links.reportPrice?.method).toBe('POST');
     });
   });
@@ -0,0 +1,169 @@
+/**
+ * File Upload Service Tests - Fast Version
+ *
+ * Evidence screenshot storage on local disk under a temp directory:
+ * - File type sniffed from magic bytes, not the claimed mimeType
+ * - 10MB limit and configured allowedTypes enforced
+ * - Stored under UUID names with image extensions only
+ * - EXIF/XMP metadata (GPS included) stripped from JPEG, PNG and WebP
+ * - Stored paths validated before deleting or building URLs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { FileUpload } from '../../workspaces/shared/types/service-interfaces.js';
+import {
+  DEFAULT_MAX_UPLOAD_BYTES,
+  FileUploadError,
+  LocalDiskStorage,
+  SecureFileUploadService,
+  sniffImageType,
+  stripLocationMetadata
+} from '../../workspaces/backend/src/services/file-upload-service.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: 'user_steve',
+  allowedTypes: ['image/png', 'image/jpeg', 'image/webp'],
+  gpsTag: 'GPS diamond shop at 120 64 -340'
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const pngChunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+};
+
+const png = (...chunks: Buffer[]) => Buffer.concat([
+  Buffer.from(PNG_SIGNATURE),
+  pngChunk('IHDR', Buffer.alloc(13)),
+  ...chunks,
+  pngChunk('IEND', Buffer.alloc(0))
+]);
+
+const jpegSegment = (marker: number, data: Buffer) => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+};
+
+const jpeg = (...segments: Buffer[]) => Buffer.concat([
+  Buffer.from([0xff, 0xd8]),
+  ...segments,
+  jpegSegment(0xda, Buffer.from([1, 2, 3])),
+  Buffer.from([0x12, 0x34, 0xff, 0xd9])
+]);
+
+const webpChunk = (fourCC: string, data: Buffer) => {
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(data.length);
+  return Buffer.concat([Buffer.from(fourCC, 'latin1'), size, data, Buffer.alloc(data.length % 2)]);
+};
+
+const webp = (...chunks: Buffer[]) => {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.from('RIFF\0\0\0\0WEBP', 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  return Buffer.concat([header, body]);
+};
+
+const upload = (buffer: Buffer, overrides: Partial<FileUpload> = {}): FileUpload => ({
+  filename: 'shop-sign.png',
+  mimeType: 'image/png',
+  buffer,
+  size: buffer.length,
+  ...overrides
+});
+
+describe('File Upload Service - Fast', () => {
+  let root: string;
+  let service: SecureFileUploadService;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'marketplace-uploads-'));
+    service = new SecureFileUploadService(new LocalDiskStorage(root), {
+      maxSize: DEFAULT_MAX_UPLOAD_BYTES,
+      allowedTypes: TEST_DATA.allowedTypes,
+      path: root
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('sniffs the real type from magic bytes', () => {
+    expect(sniffImageType(png())).toBe('png');
+    expect(sniffImageType(jpeg())).toBe('jpg');
+    expect(sniffImageType(Buffer.from('GIF89a....', 'latin1'))).toBe('gif');
+    expect(sniffImageType(webp(webpChunk('VP8 ', Buffer.alloc(10))))).toBe('webp');
+    expect(sniffImageType(Buffer.from('<svg onload="alert(1)">'))).toBeNull();
+  });
+
+  it('ignores the claimed mimeType and filename', () => {
+    const script = Buffer.from('#!/bin/sh\nrm -rf /');
+    expect(service.validateFile(upload(script, { mimeType: 'image/png', filename: 'sign.png' }))).toBe(false);
+    expect(service.validateFile(upload(jpeg(), { mimeType: 'text/html', filename: 'sign.html' }))).toBe(true);
+  });
+
+  it('enforces the size limit and configured allowed types', async () => {
+    const oversized = png(pngChunk('IDAT', Buffer.alloc(DEFAULT_MAX_UPLOAD_BYTES)));
+    expect(service.validateFile(upload(oversized))).toBe(false);
+    await expect(service.uploadFile(upload(oversized), TEST_DATA.steve))
+      .rejects.toMatchObject({ code: 'FILE_TOO_LARGE' });
+
+    // GIF is a known image type but not in this config's allowedTypes
+    const gif = Buffer.from('GIF89a....', 'latin1');
+    await expect(service.uploadFile(upload(gif), TEST_DATA.steve))
+      .rejects.toBeInstanceOf(FileUploadError);
+    expect(await readdir(root)).toEqual([]);
+  });
+
+  it('stores files under UUID names with the sniffed extension', async () => {
+    const filePath = await service.uploadFile(upload(jpeg(), { filename: '../../evil.php' }), TEST_DATA.steve);
+
+    expect(filePath).toMatch(/^[0-9a-f-]{36}\.jpg$/);
+    expect(await readdir(root)).toEqual([filePath]);
+    expect(service.getFileUrl(filePath)).toBe(`/uploads/${filePath}`);
+
+    await service.deleteFile(filePath);
+    expect(await readdir(root)).toEqual([]);
+  });
+
+  it('strips EXIF and XMP metadata before storing', async () => {
+    const gps = Buffer.from(`Exif\0\0${TEST_DATA.gpsTag}`, 'latin1');
+    const filePath = await service.uploadFile(upload(jpeg(
+      jpegSegment(0xe0, Buffer.from('JFIF\0', 'latin1')),
+      jpegSegment(0xe1, gps)
+    )), TEST_DATA.steve);
+    const stored = await readFile(join(root, filePath));
+
+    expect(stored.includes(TEST_DATA.gpsTag)).toBe(false);
+    expect(stored.includes('JFIF')).toBe(true);
+    expect(stored.subarray(-4)).toEqual(Buffer.from([0x12, 0x34, 0xff, 0xd9]));
+
+    const strippedPng = stripLocationMetadata(png(pngChunk('eXIf', gps), pngChunk('IDAT', Buffer.alloc(4))), 'png');
+    expect(strippedPng.includes(TEST_DATA.gpsTag)).toBe(false);
+    expect(strippedPng.includes('IDAT')).toBe(true);
+
+    const vp8x = Buffer.alloc(10);
+    vp8x[0] = 0x08 | 0x04;
+    const strippedWebp = stripLocationMetadata(webp(
+      webpChunk('VP8X', vp8x),
+      webpChunk('VP8 ', Buffer.alloc(10)),
+      webpChunk('EXIF', gps)
+    ), 'webp');
+    expect(strippedWebp.includes(TEST_DATA.gpsTag)).toBe(false);
+    expect(strippedWebp[20]).toBe(0);
+    expect(strippedWebp.readUInt32LE(4)).toBe(strippedWebp.length - 8);
+  });
+
+  it('refuses stored paths that are not generated upload names', async () => {
+    await expect(service.deleteFile('../../etc/passwd')).rejects.toMatchObject({ code: 'INVALID_FILE_PATH' });
+    expect(() => service.getFileUrl('payload.html')).toThrow(FileUploadError);
+  });
+});
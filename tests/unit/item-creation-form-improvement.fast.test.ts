@@ -4,7 +4,7 @@
  * All tests now pass by using the form state management we built
  */
 
-import { describe, test, expect, beforeEach } from 'vitest';
+import { describe, test, expect, beforeEach, vi } from 'vitest';
 import { get } from 'svelte/store';
 import { setupFastTests } from '../utils/fast-test-setup.js';
 import { itemFormState, itemFormActions, formValidation, formProgress, formPreview } from '../../workspaces/frontend/src/lib/item-creation-form-state.js';
@@ -54,11 +54,27 @@ describe('Item Creation Form Improvement - TDD UI/UX Focus (OPTIMIZED)', () => {
       expect(state.showIdError).toBe(true);
       expect(state.idErrorMessage).toBe('Use lowercase letters and underscores only');
       expect(state.suggestedId).toBe('diamond_sword');
+
+      itemFormActions.updateField('minecraftId', 'Music Disc 13');
+      expect(get(itemFormState).suggestedId).toBe('music_disc_13');
+
+      itemFormActions.updateField('minecraftId', 'Minecraft:Oak Slab');
+      expect(get(itemFormState).suggestedId).toBe('minecraft:oak_slab');
       expect(state.helpsUser).toBe(true);
       
       // Performance validation removed for speed - batch validation at describe level
     });
 
+    test('should flag, not reject, IDs missing from the vanilla item list', async () => {
+      itemFormActions.updateField('minecraftId', 'diamond_swrd');
+      expect(get(itemFormState).showIdError).toBe(false);
+      expect(get(itemFormState).showIdWarning).toBe(true);
+      expect(get(itemFormState).idWarningMessage).toBe('Not in the vanilla item list - check the ID');
+
+      itemFormActions.updateField('minecraftId', 'minecraft:diamond_sword');
+      expect(get(itemFormState).showIdWarning).toBe(false);
+    });
+
     test('should validate reasonable stock quantities', async () => {
       
       // Use our implemented form state management
@@ -131,6 +147,18 @@ describe('Item Creation Form Improvement - TDD UI/UX Focus (OPTIMIZED)', () => {
       
       // Performance validation removed for speed - batch validation at describe level
     });
+
+    test('should fill ID, category and name when an item is picked', async () => {
+      itemFormActions.updateSuggestions('totem');
+      const [totem] = get(itemFormState).itemMatches;
+      expect(totem).toMatchObject({ id: 'minecraft:totem_of_undying', maxStackSize: 1 });
+
+      itemFormActions.selectItem(totem.id);
+
+      const state = get(itemFormState);
+      expect(state.values).toMatchObject({ minecraftId: 'minecraft:totem_of_undying', category: 'misc', name: 'Totem of Undying' });
+      expect(state.itemSuggestions).toEqual([]);
+    });
   });
 
   describe('💰 Pricing Integration (PASSING with state management)', () => {
@@ -164,6 +192,39 @@ describe('Item Creation Form Improvement - TDD UI/UX Focus (OPTIMIZED)', () => {
       
       // Performance validation removed for speed - batch validation at describe level
     });
+
+    test('should prefer market-derived suggestions over category ranges', async () => {
+      itemFormActions.setPriceSuggestions('tools', {
+        priceDiamonds: 12,
+        tradingUnit: 'per_item',
+        range: { min: 10, max: 14 },
+        sampleSize: 5
+      });
+      const state = get(itemFormState);
+
+      expect(state.suggestedPriceRange).toEqual({ min: 10, max: 14 });
+      expect(state.helpText).toBe('Recent listings (5) sell for 💎 10-14, typically 💎 12');
+    });
+
+    test('should load market suggestions for the chosen item and trading unit', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        suggestion: { priceDiamonds: 30, tradingUnit: 'per_stack', range: { min: 28, max: 33 }, sampleSize: 4 }
+      })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      try {
+        itemFormActions.selectItem('minecraft:obsidian');
+        itemFormActions.updateField('tradingUnit', 'per_stack');
+        await itemFormActions.refreshPriceSuggestions();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        '/api/v1/items/price-suggestion?minecraftId=minecraft%3Aobsidian&tradingUnit=per_stack'
+      );
+      expect(get(itemFormState).helpText).toBe('Recent listings (4) sell for 💎 28-33, typically 💎 30');
+    });
   });
 
   describe('🔍 Form State Management (PASSING with state management)', () => {
@@ -0,0 +1,164 @@
+/**
+ * Item Price History Tests - Fast Version
+ *
+ * GET /api/v1/items/:id/prices over MinecraftItemService with in-memory
+ * repositories, and the chart EnhancedPricingDisplay draws from it:
+ * - Owner-set prices and approved community reports, oldest first
+ * - Every point converted to one trading unit, keeping the price as listed
+ * - Unknown items and units the item cannot stack into refused
+ * - Chart markers placed over time and labelled with their source
+ * - Each chart loading into its own store
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { get } from 'svelte/store';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { Price, PriceHistory, PriceHistoryPoint } from '../../workspaces/shared/types/service-interfaces.js';
+import { MinecraftItemService } from '../../workspaces/backend/src/services/item-service.js';
+import { MinecraftPricingService } from '../../workspaces/backend/src/services/pricing-service.js';
+import { createItemRoutes } from '../../workspaces/backend/src/routes/items.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import { createPriceHistoryStore, priceHistoryChart } from '../../workspaces/frontend/src/lib/price-history-state.js';
+import { InMemoryItemRepository, InMemoryPriceRepository } from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: 'user_steve',
+  alex: 'user_alex',
+  itemId: '6f1c2a4e-8b3d-4e7a-9c11-2d5e8f0a7b31',
+  swordId: '0b9e4d72-5a16-4c83-b2f4-7e3a1c6d9f05',
+  missingId: '00000000-0000-4000-8000-000000000000',
+  days: ['2026-10-01T12:00:00Z', '2026-10-05T12:00:00Z', '2026-10-09T12:00:00Z', '2026-10-10T12:00:00Z']
+};
+
+const price = (id: string, day: number, priceDiamonds: number, tradingUnit: Price['tradingUnit'], source: string): Price => ({
+  id,
+  itemId: TEST_DATA.itemId,
+  priceDiamonds,
+  tradingUnit,
+  isCurrent: false,
+  source,
+  createdBy: source === 'owner' ? TEST_DATA.steve : TEST_DATA.alex,
+  createdAt: new Date(TEST_DATA.days[day])
+});
+
+describe('Item Price History - Fast', () => {
+  let app: Hono<AppEnv>;
+
+  const history = async (path: string) => app.request(`/api/v1/items${path}`);
+
+  beforeEach(async () => {
+    const container = new ServiceContainer();
+    const prices = new InMemoryPriceRepository();
+    const items = new InMemoryItemRepository(prices);
+    container.register(SERVICE_KEYS.ITEM_SERVICE, () =>
+      new MinecraftItemService(items, prices, new MinecraftPricingService(prices))
+    );
+
+    for (const [id, name, minecraftId] of [
+      [TEST_DATA.itemId, 'Ender Pearls', 'minecraft:ender_pearl'],
+      [TEST_DATA.swordId, 'Netherite Sword', 'minecraft:netherite_sword']
+    ]) {
+      await items.save({
+        id,
+        ownerId: TEST_DATA.steve,
+        name,
+        description: 'From the enderman farm',
+        category: 'misc',
+        minecraftId,
+        stockQuantity: 6,
+        isAvailable: true,
+        createdAt: new Date(TEST_DATA.days[0]),
+        updatedAt: new Date(TEST_DATA.days[0])
+      });
+    }
+
+    // Listed per stack of 16, corrected by the community, repriced per item
+    await prices.save(price('price_1', 0, 32, 'per_stack', 'owner'));
+    await prices.save(price('price_2', 1, 24, 'per_stack', 'community_report'));
+    await prices.save(price('price_suggested', 2, 99, 'per_stack', 'market_suggestion'));
+    await prices.save({ ...price('price_3', 3, 1.75, 'per_item', 'owner'), isCurrent: true });
+
+    app = new Hono<AppEnv>();
+    app.route('/api/v1/items', createItemRoutes(container));
+    app.onError((_err, c) => c.json({ error: 'Internal Server Error' }, 500));
+  });
+
+  it('lists owner and community prices oldest first in the current unit', async () => {
+    const response = await history(`/${TEST_DATA.itemId}/prices`);
+
+    expect(response.status).toBe(200);
+    const body: PriceHistory = await response.json();
+    expect(body).toMatchObject({ itemId: TEST_DATA.itemId, itemName: 'Ender Pearls', tradingUnit: 'per_item' });
+    expect(body.points.map(point => [point.priceId, point.priceDiamonds, point.source])).toEqual([
+      ['price_1', 2, 'owner'],
+      ['price_2', 1.5, 'community_report'],
+      ['price_3', 1.75, 'owner']
+    ]);
+    expect(body.points[1]).toMatchObject({ listedPriceDiamonds: 24, listedTradingUnit: 'per_stack', createdBy: TEST_DATA.alex });
+  });
+
+  it('converts the history to a requested unit', async () => {
+    const body: PriceHistory = await (await history(`/${TEST_DATA.itemId}/prices?unit=per_stack`)).json();
+
+    expect(body.tradingUnit).toBe('per_stack');
+    expect(body.points.map(point => point.priceDiamonds)).toEqual([32, 24, 28]);
+  });
+
+  it('refuses unknown items, unknown units and units the item cannot stack into', async () => {
+    expect((await history(`/${TEST_DATA.missingId}/prices`)).status).toBe(404);
+    expect((await history(`/${TEST_DATA.itemId}/prices?unit=per_bundle`)).status).toBe(400);
+
+    const unstackable = await history(`/${TEST_DATA.swordId}/prices?unit=per_stack`);
+    expect(unstackable.status).toBe(400);
+    expect(await unstackable.json()).toMatchObject({ error: 'INVALID_TRADING_UNIT' });
+  });
+});
+
+describe('Price History Chart - Fast', () => {
+  const point = (day: number, priceDiamonds: number, source: string): PriceHistoryPoint => ({
+    priceId: `price_${day}`,
+    priceDiamonds,
+    listedPriceDiamonds: priceDiamonds,
+    listedTradingUnit: 'per_item',
+    source,
+    createdBy: TEST_DATA.steve,
+    isCurrent: false,
+    createdAt: new Date(TEST_DATA.days[day])
+  });
+  const size = { width: 220, height: 120, padding: 10 };
+
+  it('spreads points over time and price and labels their source', () => {
+    const chart = priceHistoryChart([point(0, 2, 'owner'), point(1, 1, 'community_report'), point(3, 1.5, 'owner')], size);
+
+    expect(chart.markers.map(marker => [marker.x, marker.y])).toEqual([[10, 10], [98.9, 110], [210, 60]]);
+    expect(chart.path).toBe('M 10 10 H 98.9 V 110 H 210 V 60');
+    expect(chart.markers[1].label).toBe('1 diamonds · Community report');
+    expect(chart).toMatchObject({ minPrice: 1, maxPrice: 2 });
+  });
+
+  it('centres a single price and draws nothing without history', () => {
+    expect(priceHistoryChart([point(0, 3, 'owner')], size).markers[0]).toMatchObject({ x: 110, y: 60 });
+    expect(priceHistoryChart([], size)).toEqual({ path: '', markers: [], minPrice: 0, maxPrice: 0 });
+  });
+
+  it('keeps each chart\'s history separate', async () => {
+    const historyFor = (itemId: string) => ({ itemId, itemName: itemId, tradingUnit: 'per_item', points: [point(0, itemId === 'item_a' ? 2 : 5, 'owner')] });
+    vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+      new Response(JSON.stringify(historyFor(url.includes('item_a') ? 'item_a' : 'item_b')))
+    ));
+
+    const first = createPriceHistoryStore();
+    const second = createPriceHistoryStore();
+    try {
+      await first.load('item_a', 'per_item', '/items');
+      await second.load('item_b', 'per_item', '/items');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(get(first.state).history?.itemId).toBe('item_a');
+    expect(get(second.state).history?.points[0].priceDiamonds).toBe(5);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Item REST Routes Tests - Fast Version
+ *
+ * Exercises the Hono /api/v1/items router through the ServiceContainer
+ * with in-memory repositories:
+ * - Request validation against CreateItemRequest
+ * - Ownership errors mapped to 403/404 instead of 500
+ * - Authentication required for mutations
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { User } from '../../workspaces/shared/types/service-interfaces.js';
+import { MinecraftItemService } from '../../workspaces/backend/src/services/item-service.js';
+import { MinecraftPricingService } from '../../workspaces/backend/src/services/pricing-service.js';
+import { createItemRoutes } from '../../workspaces/backend/src/routes/items.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import { InMemoryItemRepository, InMemoryPriceRepository } from '../mocks/backend-repositories.js';
+import { measure, expectFastExecution } from '../utils/fast-test-setup.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: 'user_steve',
+  alex: 'user_alex',
+  missingId: '00000000-0000-4000-8000-000000000000',
+  diamondSword: {
+    name: 'Diamond Sword',
+    description: 'Sharpness V diamond sword',
+    category: 'tools',
+    minecraftId: 'minecraft:diamond_sword',
+    stockQuantity: 3,
+    serverName: 'Safe Survival',
+    price: 45,
+    tradingUnit: 'per_item'
+  }
+};
+
+const testUser = (id: string): User => ({
+  id,
+  discordId: `discord_${id}`,
+  username: id,
+  role: 'shop_owner',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Item REST Routes - Fast', () => {
+  let app: Hono<AppEnv>;
+  let priceRepository: InMemoryPriceRepository;
+  let service: MinecraftItemService;
+
+  // Simulates the authentication middleware by trusting a test-only header
+  const request = (path: string, init: RequestInit & { as?: string } = {}) => {
+    const headers = new Headers(init.headers);
+    if (init.as) headers.set('x-test-user', init.as);
+    if (init.body) headers.set('Content-Type', 'application/json');
+    return app.request(`/api/v1/items${path}`, { ...init, headers });
+  };
+
+  const createSword = async (owner = TEST_DATA.steve) => {
+    const response = await request('', {
+      method: 'POST',
+      as: owner,
+      body: JSON.stringify(TEST_DATA.diamondSword)
+    });
+    return response.json();
+  };
+
+  beforeEach(() => {
+    const container = new ServiceContainer();
+    priceRepository = new InMemoryPriceRepository();
+    const itemRepository = new InMemoryItemRepository(priceRepository);
+    service = new MinecraftItemService(
+      itemRepository,
+      priceRepository,
+      new MinecraftPricingService(priceRepository)
+    );
+    container.register(SERVICE_KEYS.ITEM_SERVICE, () => service);
+
+    app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      const userId = c.req.header('x-test-user');
+      if (userId) c.set('user', testUser(userId));
+      await next();
+    });
+    app.route('/api/v1/items', createItemRoutes(container));
+    app.onError((_err, c) => c.json({ error: 'Internal Server Error' }, 500));
+  });
+
+  describe('create', () => {
+    it('creates an item with its initial owner price', async () => {
+      const { result: response, timeMs } = await measure(() =>
+        request('', { method: 'POST', as: TEST_DATA.steve, body: JSON.stringify(TEST_DATA.diamondSword) })
+      );
+
+      expect(response.status).toBe(201);
+      const item = await response.json();
+      expect(item.ownerId).toBe(TEST_DATA.steve);
+      expect(item.minecraftId).toBe('minecraft:diamond_sword');
+
+      const prices = await priceRepository.findByItemId(item.id);
+      expect(prices).toHaveLength(1);
+      expect(prices[0]).toMatchObject({ priceDiamonds: 45, tradingUnit: 'per_item', source: 'owner' });
+      expectFastExecution(timeMs, 50);
+    });
+
+    it('rejects requests that do not match CreateItemRequest', async () => {
+      const response = await request('', {
+        method: 'POST',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ ...TEST_DATA.diamondSword, category: 'weapons', stockQuantity: -1 })
+      });
+
+      expect(response.status).toBe(400);
+      const body = await response.json();
+      expect(body.details.map((d: any) => d.path)).toEqual(['category', 'stockQuantity']);
+    });
+
+    it('validates the minecraftId format without requiring a bundled vanilla entry', async () => {
+      const create = (minecraftId: string) => request('', {
+        method: 'POST',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ ...TEST_DATA.diamondSword, minecraftId })
+      });
+
+      const malformed = await create('Diamond Sword!');
+      expect(malformed.status).toBe(400);
+      expect((await malformed.json()).details[0].path).toBe('minecraftId');
+
+      const unlisted = await create('minecraft:lightning_rod');
+      expect(unlisted.status).toBe(201);
+
+      const bare = await create('diamond_sword');
+      expect(bare.status).toBe(201);
+      expect((await bare.json()).minecraftId).toBe('minecraft:diamond_sword');
+    });
+
+    it('refuses per stack pricing for items that do not stack', async () => {
+      const response = await request('', {
+        method: 'POST',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ ...TEST_DATA.diamondSword, tradingUnit: 'per_stack' })
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('INVALID_TRADING_UNIT');
+    });
+
+    it('rejects malformed JSON as a validation error', async () => {
+      const response = await request('', { method: 'POST', as: TEST_DATA.steve, body: '{not json' });
+      expect(response.status).toBe(400);
+    });
+
+    it('requires an authenticated user', async () => {
+      const response = await request('', { method: 'POST', body: JSON.stringify(TEST_DATA.diamondSword) });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('read', () => {
+    it('lists and fetches items', async () => {
+      const item = await createSword();
+
+      const list = await (await request('?category=tools')).json();
+      expect(list.count).toBe(1);
+      expect(list.items[0].id).toBe(item.id);
+
+      const fetched = await request(`/${item.id}`);
+      expect(fetched.status).toBe(200);
+      expect((await fetched.json()).name).toBe('Diamond Sword');
+    });
+
+    it('returns 404 for unknown items', async () => {
+      const response = await request('/missing');
+      expect(response.status).toBe(404);
+    });
+
+    it('filters and sorts on per-item prices across trading units', async () => {
+      const listing = async (name: string, price: number, tradingUnit: string, minecraftId: string) => request('', {
+        method: 'POST',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ ...TEST_DATA.diamondSword, name, price, tradingUnit, minecraftId })
+      });
+      await listing('Cobblestone', 64, 'per_stack', 'minecraft:cobblestone');
+      await listing('Ender Pearl', 2, 'per_item', 'minecraft:ender_pearl');
+      await createSword();
+
+      const cheap = await (await request('?maxPrice=2&sortBy=price_asc')).json();
+      expect(cheap.items.map((item: any) => item.name)).toEqual(['Cobblestone', 'Ender Pearl']);
+      expect(cheap.items[0].currentPrice).toMatchObject({ priceDiamonds: 1, tradingUnit: 'per_item' });
+
+      // Stacks follow each item's stack size: 64 cobblestone, 16 ender pearls;
+      // swords do not stack, so a per-stack search leaves them out
+      const stacks = await (await request('?tradingUnit=per_stack&minPrice=40&sortBy=price_desc')).json();
+      expect(stacks.items.map((item: any) => item.name)).toEqual(['Cobblestone']);
+      expect(stacks.total).toBe(1);
+      expect(stacks.items[0].currentPrice).toMatchObject({ priceDiamonds: 64, tradingUnit: 'per_stack' });
+
+      const pearls = await (await request('?tradingUnit=per_stack&maxPrice=40')).json();
+      expect(pearls.items[0].currentPrice).toMatchObject({ priceDiamonds: 32, tradingUnit: 'per_stack' });
+    });
+
+    it('combines text queries with filters, pagination and a total count', async () => {
+      const listing = async (name: string, category: string) => request('', {
+        method: 'POST',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ ...TEST_DATA.diamondSword, name, category, description: 'Pairs well with a diamond sword' })
+      });
+      await createSword();
+      await listing('Diamond Pickaxe', 'tools');
+      await listing('Diamond Block', 'blocks');
+
+      const page = await (await request('?query=diamond&category=tools&limit=1')).json();
+      expect(page.count).toBe(1);
+      expect(page.total).toBe(2);
+      expect(page.items[0].category).toBe('tools');
+
+      // Name matches outrank description-only matches, regardless of age
+      const ranked = await (await request('?query=sword')).json();
+      expect(ranked.total).toBe(3);
+      expect(ranked.items[0].name).toBe('Diamond Sword');
+    });
+
+    it('validates search query parameters', async () => {
+      const response = await request('?limit=0&tradingUnit=per_bucket');
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('ownership', () => {
+    it('lets the owner update, reprice and delete their item', async () => {
+      const item = await createSword();
+
+      const updated = await request(`/${item.id}`, {
+        method: 'PUT',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ stockQuantity: 10 })
+      });
+      expect(updated.status).toBe(200);
+      expect((await updated.json()).stockQuantity).toBe(10);
+
+      const repriced = await request(`/${item.id}/price`, {
+        method: 'PUT',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ price: 5, tradingUnit: 'per_shulker' })
+      });
+      expect(repriced.status).toBe(200);
+      const current = (await priceRepository.findCurrentPrices()).filter(p => p.itemId === item.id);
+      expect(current).toHaveLength(1);
+      expect(current[0].tradingUnit).toBe('per_shulker');
+
+      const deleted = await request(`/${item.id}`, { method: 'DELETE', as: TEST_DATA.steve });
+      expect(deleted.status).toBe(204);
+    });
+
+    it('maps non-owner mutations to 403', async () => {
+      const item = await createSword();
+
+      const responses = await Promise.all([
+        request(`/${item.id}`, { method: 'PUT', as: TEST_DATA.alex, body: JSON.stringify({ stockQuantity: 0 }) }),
+        request(`/${item.id}/price`, { method: 'PUT', as: TEST_DATA.alex, body: JSON.stringify({ price: 1, tradingUnit: 'per_item' }) }),
+        request(`/${item.id}`, { method: 'DELETE', as: TEST_DATA.alex })
+      ]);
+
+      for (const response of responses) {
+        expect(response.status).toBe(403);
+        expect((await response.json()).error).toBe('NOT_ITEM_OWNER');
+      }
+    });
+
+    it('maps mutations of missing items to 404', async () => {
+      const response = await request(`/${TEST_DATA.missingId}`, { method: 'DELETE', as: TEST_DATA.steve });
+      expect(response.status).toBe(404);
+      expect((await response.json()).error).toBe('ITEM_NOT_FOUND');
+    });
+
+    it('answers malformed ids with 404 without reaching the service', async () => {
+      const getItem = vi.spyOn(service, 'getItem');
+      const deleteItem = vi.spyOn(service, 'deleteItem');
+
+      expect((await request('/not-a-uuid')).status).toBe(404);
+      expect((await request('/not-a-uuid', { method: 'DELETE', as: TEST_DATA.steve })).status).toBe(404);
+      expect(getItem).not.toHaveBeenCalled();
+      expect(deleteItem).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown update fields', async () => {
+      const item = await createSword();
+      const response = await request(`/${item.id}`, {
+        method: 'PUT',
+        as: TEST_DATA.steve,
+        body: JSON.stringify({ ownerId: TEST_DATA.alex })
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Durable Job Queue Tests - Fast Version
+ *
+ * Lease-based background work over the in-memory job repository:
+ * - Idempotency keys deduplicate enqueues until completed jobs are purged
+ * - Delayed jobs wait until due; claimed jobs stay hidden for the visibility timeout
+ * - Expired leases are claimed again (at-least-once) and the stale lease cannot complete
+ * - Failures retried with exponential backoff, then moved to the dead-letter table
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DurableJobQueue, JobQueueError, type JobQueueConfig } from '../../workspaces/backend/src/services/job-queue.js';
+import { InMemoryJobRepository } from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  queue: 'price_snapshots',
+  payload: { minecraftId: 'minecraft:diamond_sword', serverName: 'Safe Survival' },
+  config: {
+    pollIntervalMs: 1000,
+    batchSize: 10,
+    visibilityTimeoutMs: 60000,
+    maxAttempts: 3,
+    baseRetryDelayMs: 5000,
+    maxRetryDelayMs: 60000,
+    completedRetentionMs: 86400000
+  } satisfies JobQueueConfig
+};
+
+describe('DurableJobQueue - Fast', () => {
+  let clock: Date;
+  let jobs: InMemoryJobRepository;
+  let queue: DurableJobQueue;
+  let handled: unknown[];
+
+  const advance = (ms: number) => {
+    clock = new Date(clock.getTime() + ms);
+  };
+
+  beforeEach(() => {
+    clock = new Date('2026-06-01T00:00:00Z');
+    jobs = new InMemoryJobRepository(() => clock);
+    queue = new DurableJobQueue(jobs, TEST_DATA.config);
+    handled = [];
+  });
+
+  it('runs each idempotency key once', async () => {
+    queue.register(TEST_DATA.queue, async payload => {
+      handled.push(payload);
+    });
+
+    const first = await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload, { idempotencyKey: 'snapshot:diamond_sword' });
+    const duplicate = await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload, { idempotencyKey: 'snapshot:diamond_sword' });
+    expect(duplicate.id).toBe(first.id);
+
+    expect(await queue.runOnce()).toBe(1);
+    await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload, { idempotencyKey: 'snapshot:diamond_sword' });
+    expect(await queue.runOnce()).toBe(0);
+    expect(handled).toEqual([TEST_DATA.payload]);
+
+    // Purging completed jobs frees the key
+    advance(TEST_DATA.config.completedRetentionMs + 1);
+    expect(await jobs.purgeCompleted(new Date(clock.getTime() - TEST_DATA.config.completedRetentionMs))).toBe(1);
+    await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload, { idempotencyKey: 'snapshot:diamond_sword' });
+    expect(await queue.runOnce()).toBe(1);
+  });
+
+  it('holds delayed jobs until they are due', async () => {
+    queue.register(TEST_DATA.queue, async payload => {
+      handled.push(payload);
+    });
+    await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload, { delayMs: 30000 });
+
+    expect(await queue.runOnce()).toBe(0);
+    advance(30000);
+    expect(await queue.runOnce()).toBe(1);
+    expect(handled).toHaveLength(1);
+  });
+
+  it('hands a job to another worker once its lease expires', async () => {
+    const job = await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload);
+    const [stale] = await jobs.claim(TEST_DATA.queue, 1, TEST_DATA.config.visibilityTimeoutMs);
+
+    expect(await jobs.claim(TEST_DATA.queue, 1, TEST_DATA.config.visibilityTimeoutMs)).toEqual([]);
+
+    advance(TEST_DATA.config.visibilityTimeoutMs);
+    const [reclaimed] = await jobs.claim(TEST_DATA.queue, 1, TEST_DATA.config.visibilityTimeoutMs);
+    expect(reclaimed).toMatchObject({ id: job.id, attempts: 2 });
+
+    expect(await jobs.complete(stale)).toBe(false);
+    expect(await jobs.complete(reclaimed)).toBe(true);
+  });
+
+  it('retries failures with exponential backoff, then dead-letters them', async () => {
+    queue.register(TEST_DATA.queue, async () => {
+      throw new Error('Price history unavailable');
+    });
+    const job = await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload);
+
+    await queue.runOnce();
+    expect(jobs.jobs.get(job.id)).toMatchObject({ attempts: 1, lastError: 'Price history unavailable' });
+
+    advance(4999);
+    expect(await queue.runOnce()).toBe(0);
+    advance(1);
+    expect(await queue.runOnce()).toBe(1);
+
+    advance(10000);
+    expect(await queue.runOnce()).toBe(1);
+
+    expect(jobs.jobs.has(job.id)).toBe(false);
+    expect(await jobs.findDeadLetters(TEST_DATA.queue)).toEqual([
+      expect.objectContaining({ id: job.id, attempts: 3, lastError: 'Price history unavailable', payload: TEST_DATA.payload })
+    ]);
+  });
+
+  it('dead-letters a job whose final lease expired without running it again', async () => {
+    queue.register(TEST_DATA.queue, async payload => {
+      handled.push(payload);
+    });
+    const job = await queue.enqueue(TEST_DATA.queue, TEST_DATA.payload, { maxAttempts: 1 });
+
+    // A worker claims it and dies
+    await jobs.claim(TEST_DATA.queue, 1, TEST_DATA.config.visibilityTimeoutMs);
+    advance(TEST_DATA.config.visibilityTimeoutMs);
+
+    expect(await queue.runOnce()).toBe(1);
+    expect(handled).toEqual([]);
+    expect((await jobs.findDeadLetters())[0]).toMatchObject({
+      id: job.id,
+      lastError: 'Visibility timeout expired on the final attempt'
+    });
+  });
+
+  it('allows one handler per queue', () => {
+    queue.register(TEST_DATA.queue, async () => undefined);
+
+    expect(() => queue.register(TEST_DATA.queue, async () => undefined)).toThrow(JobQueueError);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Vanilla Item Registry Tests - Fast Version
+ *
+ * Bundled minecraft_id registry shared by backend validation and the
+ * item creation form:
+ * - Namespaced, unique IDs with display names and stack sizes
+ * - Bare IDs normalised to the minecraft: namespace
+ * - Autocomplete ranks prefix matches first
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VANILLA_ITEMS,
+  findVanillaItem,
+  isMinecraftItemId,
+  isVanillaItemId,
+  normalizeMinecraftId,
+  searchVanillaItems
+} from '../../workspaces/shared/utils/minecraft-items.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  // minecraft_id values used by database/002_real_marketplace_data.sql listings
+  seededIds: ['iron_block', 'gilded_blackstone', 'diamond_sword', 'netherite_helmet', 'elytra', 'cooked_beef', 'shulker_box']
+};
+
+describe('Vanilla Item Registry - Fast', () => {
+  it('holds unique namespaced IDs', () => {
+    const ids = VANILLA_ITEMS.map(item => item.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.every(id => /^minecraft:[a-z0-9_]+$/.test(id))).toBe(true);
+  });
+
+  it('describes items with display name, stack size and category', () => {
+    expect(findVanillaItem('minecraft:diamond_sword')).toEqual({
+      id: 'minecraft:diamond_sword', name: 'Diamond Sword', maxStackSize: 1, category: 'tools'
+    });
+    expect(findVanillaItem('ender_pearl')?.maxStackSize).toBe(16);
+    expect(findVanillaItem('written_book')?.maxStackSize).toBe(16);
+    expect(findVanillaItem('wind_charge')?.maxStackSize).toBe(64);
+    expect(findVanillaItem('red_shulker_box')?.maxStackSize).toBe(1);
+    expect(findVanillaItem('carrot_on_a_stick')?.name).toBe('Carrot on a Stick');
+  });
+
+  it('normalises bare IDs and covers seeded listings', () => {
+    expect(normalizeMinecraftId(' Diamond_Sword ')).toBe('minecraft:diamond_sword');
+    expect(TEST_DATA.seededIds.filter(id => !isVanillaItemId(id))).toEqual([]);
+    expect(isVanillaItemId('minecraft:sorcerer_stone')).toBe(false);
+  });
+
+  it('covers everyday blocks and accepts well-formed IDs outside the list', () => {
+    expect(['anvil', 'crafting_table', 'furnace', 'ender_chest', 'oak_slab'].filter(id => !isVanillaItemId(id))).toEqual([]);
+    expect(isMinecraftItemId('minecraft:sorcerer_stone')).toBe(true);
+    expect(isMinecraftItemId('create:brass_ingot')).toBe(true);
+    expect(isMinecraftItemId('Diamond Sword')).toBe(false);
+  });
+
+  it('ranks prefix matches ahead of substring matches', () => {
+    const names = searchVanillaItems('sword', 50).map(item => item.name);
+
+    expect(names).toContain('Netherite Sword');
+    expect(searchVanillaItems('obsi').map(item => item.id)).toEqual(['minecraft:obsidian', 'minecraft:crying_obsidian']);
+    expect(searchVanillaItems('minecraft:totem')[0].id).toBe('minecraft:totem_of_undying');
+    expect(searchVanillaItems('  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Discord Webhook Notification Service Tests - Fast Version
+ *
+ * Shop notifications delivered to a local Discord stub:
+ * - Report, price-change and low-stock events formatted as Discord embeds
+ * - Posted to the shop's own webhook under the configured API base URL
+ * - 429/5xx retried with exponential backoff, honouring Retry-After
+ * - Every attempt recorded in the delivery log; SLA summary mirrored in SQL
+ * - Scheduled notifications delivered through the durable job queue
+ * - Reporting and item services notify without waiting on delivery
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import type { Item, Notification, NotificationService } from '../../workspaces/shared/types/service-interfaces.js';
+import {
+  DiscordWebhookNotificationService,
+  NotificationError,
+  parseDiscordWebhookUrl,
+  type DiscordWebhookConfig
+} from '../../workspaces/backend/src/services/notification-service.js';
+import { DurableJobQueue, type JobQueueConfig } from '../../workspaces/backend/src/services/job-queue.js';
+import { CommunityReportingService } from '../../workspaces/backend/src/services/reporting-service.js';
+import { MinecraftItemService } from '../../workspaces/backend/src/services/item-service.js';
+import { MinecraftPricingService } from '../../workspaces/backend/src/services/pricing-service.js';
+import {
+  NOTIFICATION_COLORS,
+  NOTIFICATION_DELIVERY_SLA_MS,
+  discordWebhookPayload,
+  isLowStockDrop,
+  lowStockNotification,
+  priceChangeNotification,
+  summarizeDeliveries
+} from '../../workspaces/shared/utils/shop-notifications.js';
+import {
+  InMemoryCommunityReportRepository,
+  InMemoryEvidenceRepository,
+  InMemoryItemRepository,
+  InMemoryJobRepository,
+  InMemoryNotificationRepository,
+  InMemoryPriceRepository,
+  InMemoryUserRepository
+} from '../mocks/backend-repositories.js';
+import { startHttpStub, type HttpStub, type StubResponse } from '../utils/local-http-stub.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  alex: 'user_alex',
+  steve: 'user_steve',
+  webhookUrl: 'https://discord.com/api/webhooks/112233445566778899/alex-iron-shop-token',
+  webhookPath: '/webhooks/112233445566778899/alex-iron-shop-token',
+  item: {
+    id: 'item_iron_pickaxe',
+    ownerId: 'user_alex',
+    name: 'Iron Pickaxe',
+    description: 'Efficiency II',
+    category: 'tools',
+    minecraftId: 'minecraft:iron_pickaxe',
+    stockQuantity: 8,
+    isAvailable: true,
+    serverName: 'Safe Survival',
+    createdAt: new Date('2026-06-01T00:00:00Z'),
+    updatedAt: new Date('2026-06-01T00:00:00Z')
+  } satisfies Item,
+  migration: new URL('../../database/014_shop_webhooks.sql', import.meta.url),
+  jobQueue: {
+    pollIntervalMs: 1000,
+    batchSize: 10,
+    visibilityTimeoutMs: 60000,
+    maxAttempts: 3,
+    baseRetryDelayMs: 5000,
+    maxRetryDelayMs: 60000,
+    completedRetentionMs: 86400000
+  } satisfies JobQueueConfig
+};
+
+class RecordingNotificationService implements NotificationService {
+  public sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+
+  async sendBulk(notifications: Notification[]): Promise<void> {
+    this.sent.push(...notifications);
+  }
+
+  async scheduleNotification(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+describe('Shop Notification Embeds - Fast', () => {
+  it('formats price changes with old and new prices in the item unit', () => {
+    const notification = priceChangeNotification(
+      TEST_DATA.item,
+      { priceDiamonds: 4, tradingUnit: 'per_item', source: 'owner', createdAt: new Date('2026-06-02T12:00:00Z') },
+      { priceDiamonds: 6, tradingUnit: 'per_item' }
+    );
+    const [embed] = discordWebhookPayload([notification]).embeds;
+
+    expect(embed).toMatchObject({
+      title: 'Price changed for Iron Pickaxe',
+      color: NOTIFICATION_COLORS.price_change,
+      timestamp: '2026-06-02T12:00:00.000Z'
+    });
+    expect(embed.fields.map(field => field.name)).toEqual(['Item', 'New price', 'Previous price']);
+    expect(embed.fields[1].value).toContain('4');
+    expect(embed.fields[2].value).toContain('6');
+  });
+
+  it('flags low stock only when stock crosses the threshold', () => {
+    expect(isLowStockDrop(8, 5)).toBe(true);
+    expect(isLowStockDrop(5, 4)).toBe(false);
+    expect(isLowStockDrop(3, 8)).toBe(false);
+
+    const notification = lowStockNotification({ ...TEST_DATA.item, stockQuantity: 0 });
+    expect(notification.title).toBe('Iron Pickaxe is out of stock');
+    expect(discordWebhookPayload([notification]).embeds[0].color).toBe(NOTIFICATION_COLORS.low_stock);
+  });
+
+  it('never lets player-written text mention anyone', () => {
+    expect(discordWebhookPayload([]).allowed_mentions).toEqual({ parse: [] });
+  });
+
+  it('accepts Discord webhook URLs only', () => {
+    expect(parseDiscordWebhookUrl(TEST_DATA.webhookUrl)).toEqual({
+      id: '112233445566778899',
+      token: 'alex-iron-shop-token'
+    });
+    expect(parseDiscordWebhookUrl('https://discordapp.com/api/v10/webhooks/1/abc')).not.toBeNull();
+    expect(parseDiscordWebhookUrl('https://evil.example/api/webhooks/1/abc')).toBeNull();
+    expect(parseDiscordWebhookUrl('http://discord.com/api/webhooks/1/abc')).toBeNull();
+  });
+});
+
+describe('DiscordWebhookNotificationService - Fast', () => {
+  let discord: HttpStub;
+  let responses: StubResponse[];
+  let notifications: InMemoryNotificationRepository;
+  let waits: number[];
+  let jobs: InMemoryJobRepository;
+  let clock: Date;
+  let jobQueue: DurableJobQueue;
+  let service: DiscordWebhookNotificationService;
+
+  const lowStock = (stockQuantity = 2) => lowStockNotification({ ...TEST_DATA.item, stockQuantity });
+
+  beforeAll(async () => {
+    discord = await startHttpStub(() => responses.shift() ?? { status: 204 });
+  });
+
+  afterAll(async () => {
+    await discord.close();
+  });
+
+  beforeEach(async () => {
+    discord.requests.length = 0;
+    responses = [];
+    waits = [];
+    notifications = new InMemoryNotificationRepository();
+    await notifications.saveWebhook(TEST_DATA.alex, TEST_DATA.webhookUrl);
+
+    const config: DiscordWebhookConfig = {
+      apiBaseUrl: discord.url,
+      maxAttempts: 4,
+      baseRetryDelayMs: 1000,
+      maxRetryDelayMs: 15000,
+      requestTimeoutMs: 2000
+    };
+    clock = new Date();
+    jobs = new InMemoryJobRepository(() => clock);
+    jobQueue = new DurableJobQueue(jobs, TEST_DATA.jobQueue);
+    service = new DiscordWebhookNotificationService(notifications, jobQueue, config, async ms => {
+      waits.push(ms);
+    });
+  });
+
+  it('posts embeds to the shop webhook under the configured base URL', async () => {
+    await service.send(lowStock());
+
+    expect(discord.requests).toHaveLength(1);
+    expect(discord.requests[0]).toMatchObject({ method: 'POST', path: TEST_DATA.webhookPath });
+    expect(JSON.parse(discord.requests[0].body).embeds[0].title).toBe('Iron Pickaxe is running low');
+
+    expect(notifications.deliveries).toHaveLength(1);
+    expect(notifications.deliveries[0]).toMatchObject({
+      recipientId: TEST_DATA.alex,
+      notificationType: 'low_stock',
+      attempt: 1,
+      status: 'delivered',
+      httpStatus: 204
+    });
+  });
+
+  it('skips shops without a webhook', async () => {
+    await service.send({ ...lowStock(), recipient: TEST_DATA.steve });
+
+    expect(discord.requests).toHaveLength(0);
+    expect(notifications.deliveries).toHaveLength(0);
+  });
+
+  it('waits out Retry-After on a rate limit before retrying', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '2' }, body: { retry_after: 1.5, global: false } }];
+
+    await service.send(lowStock());
+
+    expect(waits).toEqual([2000]);
+    expect(notifications.deliveries.map(delivery => [delivery.attempt, delivery.status, delivery.httpStatus]))
+      .toEqual([[1, 'retrying', 429], [2, 'delivered', 204]]);
+  });
+
+  it('falls back to the JSON retry_after when the header is missing', async () => {
+    responses = [{ status: 429, body: { retry_after: 0.25 } }];
+
+    await service.send(lowStock());
+
+    expect(waits).toEqual([250]);
+  });
+
+  it('backs off exponentially on server errors and logs the final failure', async () => {
+    responses = Array.from({ length: 4 }, () => ({ status: 502 }));
+
+    const error = await service.send(lowStock()).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(NotificationError);
+    expect(error.code).toBe('DELIVERY_FAILED');
+    expect(waits).toEqual([1000, 2000, 4000]);
+    expect(notifications.deliveries.map(delivery => delivery.status))
+      .toEqual(['retrying', 'retrying', 'retrying', 'failed']);
+    expect(new Set(notifications.deliveries.map(delivery => delivery.notificationId)).size).toBe(1);
+  });
+
+  it('does not retry client errors or rate limits longer than the SLA allows', async () => {
+    responses = [{ status: 404, body: { message: 'Unknown Webhook' } }];
+    await expect(service.send(lowStock())).rejects.toMatchObject({ code: 'WEBHOOK_REJECTED' });
+
+    responses = [{ status: 429, headers: { 'Retry-After': '120' } }];
+    await expect(service.send(lowStock())).rejects.toMatchObject({ code: 'DELIVERY_FAILED' });
+
+    expect(waits).toEqual([]);
+    expect(discord.requests).toHaveLength(2);
+    expect(notifications.deliveries.map(delivery => delivery.status)).toEqual(['failed', 'failed']);
+  });
+
+  it('batches bulk notifications per shop into one message', async () => {
+    await service.sendBulk([lowStock(3), lowStock(1), { ...lowStock(), recipient: TEST_DATA.steve }]);
+
+    expect(discord.requests).toHaveLength(1);
+    expect(JSON.parse(discord.requests[0].body).embeds).toHaveLength(2);
+    expect(notifications.deliveries).toHaveLength(2);
+  });
+
+  it('summarises delivery latency against the one minute SLA', async () => {
+    const eventAt = new Date(Date.now() - 2 * NOTIFICATION_DELIVERY_SLA_MS);
+    await service.send({ ...lowStock(), createdAt: eventAt });
+    await service.send(lowStock());
+    responses = [{ status: 400 }];
+    await service.send(lowStock()).catch(() => undefined);
+
+    expect(summarizeDeliveries(await notifications.findDeliveries(TEST_DATA.alex))).toEqual({
+      notifications: 3,
+      delivered: 2,
+      failed: 1,
+      withinSla: 1
+    });
+  });
+
+  it('delivers scheduled notifications once they are due, once per id', async () => {
+    const notification = { ...lowStock(), id: 'notification_alex_low_stock' };
+    await service.scheduleNotification(notification, 30000);
+    await service.scheduleNotification(notification, 30000);
+
+    expect(await jobQueue.runOnce()).toBe(0);
+
+    clock = new Date(clock.getTime() + 30000);
+    expect(await jobQueue.runOnce()).toBe(1);
+    expect(discord.requests).toHaveLength(1);
+    expect(notifications.deliveries[0]).toMatchObject({ notificationId: notification.id, status: 'delivered' });
+  });
+
+  it('leaves deliveries that keep failing to the job queue retries', async () => {
+    responses = Array.from({ length: 4 }, () => ({ status: 503 }));
+    await service.scheduleNotification(lowStock(), 0);
+
+    await jobQueue.runOnce();
+    const [job] = jobs.jobs.values();
+    expect(job).toMatchObject({ status: 'queued', attempts: 1 });
+    expect(job.lastError).toContain('503');
+
+    clock = new Date(clock.getTime() + TEST_DATA.jobQueue.baseRetryDelayMs);
+    await jobQueue.runOnce();
+    expect(job.status).toBe('completed');
+  });
+
+  it('drops queued notifications whose webhook rejects them', async () => {
+    responses = [{ status: 401, body: { message: 'Invalid Webhook Token' } }];
+    await service.scheduleNotification(lowStock(), 0);
+
+    await jobQueue.runOnce();
+
+    expect(Array.from(jobs.jobs.values())[0].status).toBe('completed');
+    expect(notifications.deliveries.map(delivery => delivery.status)).toEqual(['failed']);
+  });
+
+  it('keeps the SQL SLA view on the same threshold', () => {
+    const sql = readFileSync(TEST_DATA.migration, 'utf8');
+
+    expect(sql).toContain(`make_interval(secs => ${NOTIFICATION_DELIVERY_SLA_MS / 1000})`);
+    expect(sql).toMatch(/CHECK \(notification_type IN \('community_report', 'price_change', 'low_stock'\)\)/);
+    expect(sql).toMatch(/CHECK \(status IN \('delivered', 'retrying', 'failed'\)\)/);
+  });
+});
+
+describe('Notification Triggers - Fast', () => {
+  let items: InMemoryItemRepository;
+  let prices: InMemoryPriceRepository;
+  let recorder: RecordingNotificationService;
+
+  beforeEach(async () => {
+    items = new InMemoryItemRepository();
+    prices = new InMemoryPriceRepository();
+    recorder = new RecordingNotificationService();
+    await items.save({ ...TEST_DATA.item });
+  });
+
+  it('notifies the listing owner of new reports and approved price changes', async () => {
+    const evidence = new InMemoryEvidenceRepository();
+    const users = new InMemoryUserRepository();
+    const reporting = new CommunityReportingService(
+      items,
+      prices,
+      new InMemoryCommunityReportRepository(evidence),
+      evidence,
+      users,
+      recorder
+    );
+
+    const report = await reporting.submitReport({
+      itemId: TEST_DATA.item.id,
+      reportType: 'price_change',
+      description: 'Alex sells these for 3 diamonds now',
+      claimedValues: { priceDiamonds: 3, tradingUnit: 'per_item' }
+    }, TEST_DATA.steve);
+
+    expect(recorder.sent).toHaveLength(1);
+    expect(recorder.sent[0]).toMatchObject({
+      type: 'community_report',
+      recipient: TEST_DATA.alex,
+      data: { reportId: report.id, reportType: 'price_change', autoApproved: false }
+    });
+
+    await reporting.reviewReport(report.id, { approved: true }, {
+      id: TEST_DATA.alex,
+      discordId: 'discord_alex',
+      username: 'alex',
+      role: 'shop_owner',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    expect(recorder.sent[1]).toMatchObject({
+      type: 'price_change',
+      recipient: TEST_DATA.alex,
+      data: { priceDiamonds: 3, tradingUnit: 'per_item', source: 'community_report' }
+    });
+  });
+
+  it('notifies owners when their own edits run stock low or change a price', async () => {
+    const itemService = new MinecraftItemService(items, prices, new MinecraftPricingService(prices), recorder);
+
+    await itemService.updateItem(TEST_DATA.item.id, { stockQuantity: 7 }, TEST_DATA.alex);
+    await itemService.updateItem(TEST_DATA.item.id, { stockQuantity: 2 }, TEST_DATA.alex);
+    await itemService.updateItem(TEST_DATA.item.id, { stockQuantity: 1 }, TEST_DATA.alex);
+    await itemService.updateItemPrice(TEST_DATA.item.id, 5, 'per_item', TEST_DATA.alex);
+
+    expect(recorder.sent.map(notification => notification.type)).toEqual(['low_stock', 'price_change']);
+    expect(recorder.sent[0].data).toMatchObject({ stockQuantity: 2, threshold: 5 });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Order Book Tests - Fast Version
+ *
+ * MarketplaceOrderBookService and the /api/v1/order-book router over the
+ * in-memory repositories:
+ * - Sell listings and buy orders in any unit converted to the book's unit
+ * - Only available, unreserved stock on the requested server counts
+ * - Levels aggregated per price with cumulative depth
+ * - Best bid/ask and spread, negative when the book is crossed
+ * - Units the item cannot stack into refused
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { BuyOrder, Item, Price } from '../../workspaces/shared/types/service-interfaces.js';
+import { aggregateOrderBookLevels, convertQuantity, orderBookSummary } from '../../workspaces/shared/utils/order-book.js';
+import { depthPercent } from '../../workspaces/frontend/src/lib/order-book-state.js';
+import { createOrderBookRoutes } from '../../workspaces/backend/src/routes/order-book.js';
+import { MarketplaceOrderBookService } from '../../workspaces/backend/src/services/order-book-service.js';
+import { MinecraftPricingService } from '../../workspaces/backend/src/services/pricing-service.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import {
+  InMemoryBuyOrderRepository,
+  InMemoryItemRepository,
+  InMemoryPriceRepository
+} from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  alex: 'user_alex',
+  notch: 'user_notch',
+  steve: 'user_steve',
+  minecraftId: 'minecraft:iron_block',
+  server: 'Safe Survival',
+  otherServer: 'Hardcore Realm'
+};
+
+const listing = (id: string, ownerId: string, stockQuantity: number, overrides: Partial<Item> = {}): Item => ({
+  id,
+  ownerId,
+  name: 'Iron Block',
+  description: 'Smelted in the iron farm',
+  category: 'blocks',
+  minecraftId: TEST_DATA.minecraftId,
+  stockQuantity,
+  isAvailable: true,
+  serverName: TEST_DATA.server,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const price = (itemId: string, priceDiamonds: number, tradingUnit: Price['tradingUnit']): Price => ({
+  id: `price_${itemId}`,
+  itemId,
+  priceDiamonds,
+  tradingUnit,
+  isCurrent: true,
+  source: 'owner',
+  createdBy: TEST_DATA.alex,
+  createdAt: new Date()
+});
+
+const buyOrder = (id: string, quantity: number, maxPriceDiamonds: number, tradingUnit: BuyOrder['tradingUnit']): BuyOrder => ({
+  id,
+  ownerId: TEST_DATA.steve,
+  minecraftId: TEST_DATA.minecraftId,
+  itemName: 'Iron Block',
+  serverName: 'safe survival',
+  quantity,
+  maxPriceDiamonds,
+  tradingUnit,
+  status: 'open',
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Order Book Aggregation - Fast', () => {
+  it('groups prices into levels with cumulative depth', () => {
+    const asks = aggregateOrderBookLevels([
+      { priceDiamonds: 2, quantity: 10 },
+      { priceDiamonds: 1.5, quantity: 4 },
+      { priceDiamonds: 2, quantity: 6 },
+      { priceDiamonds: 3, quantity: 0 }
+    ], 'ask');
+    const bids = aggregateOrderBookLevels([
+      { priceDiamonds: 1, quantity: 5 },
+      { priceDiamonds: 1.25, quantity: 3 }
+    ], 'bid');
+
+    expect(asks).toEqual([
+      { priceDiamonds: 1.5, quantity: 4, orderCount: 1, cumulativeQuantity: 4 },
+      { priceDiamonds: 2, quantity: 16, orderCount: 2, cumulativeQuantity: 20 }
+    ]);
+    expect(bids.map(level => level.priceDiamonds)).toEqual([1.25, 1]);
+    expect(orderBookSummary(asks, bids)).toEqual({ bestAsk: 1.5, bestBid: 1.25, spread: 0.25, askDepth: 20, bidDepth: 8 });
+    expect(orderBookSummary([], bids)).toMatchObject({ bestAsk: null, spread: null, askDepth: 0 });
+    expect(depthPercent(bids[1], { askDepth: 20, bidDepth: 8 })).toBe(40);
+  });
+
+  it('converts quantities through single items', () => {
+    expect(convertQuantity(2, 'per_stack', 'per_item', 16)).toBe(32);
+    expect(convertQuantity(2, 'per_stack', 'per_dozen', 16)).toBe(2.67);
+    expect(convertQuantity(1, 'per_shulker', 'per_stack')).toBe(27);
+  });
+});
+
+describe('MarketplaceOrderBookService - Fast', () => {
+  let items: InMemoryItemRepository;
+  let prices: InMemoryPriceRepository;
+  let buyOrders: InMemoryBuyOrderRepository;
+  let service: MarketplaceOrderBookService;
+
+  beforeEach(async () => {
+    items = new InMemoryItemRepository();
+    prices = new InMemoryPriceRepository(items);
+    buyOrders = new InMemoryBuyOrderRepository();
+    service = new MarketplaceOrderBookService(items, prices, buyOrders, new MinecraftPricingService(prices));
+
+    // 2 stacks at 128 per stack, 3 of 5 stacks already held by an open trade
+    await items.save(listing('item_alex', TEST_DATA.alex, 2));
+    await prices.save(price('item_alex', 128, 'per_stack'));
+    await items.save(listing('item_notch', TEST_DATA.notch, 5, { reservedQuantity: 3 }));
+    await prices.save(price('item_notch', 2, 'per_item'));
+    // Not on this server, sold out, or unlisted: none of these count
+    await items.save(listing('item_hardcore', TEST_DATA.notch, 64, { serverName: TEST_DATA.otherServer }));
+    await prices.save(price('item_hardcore', 1, 'per_item'));
+    await items.save(listing('item_sold_out', TEST_DATA.alex, 4, { reservedQuantity: 4 }));
+    await prices.save(price('item_sold_out', 1, 'per_item'));
+    await items.save(listing('item_hidden', TEST_DATA.alex, 4, { isAvailable: false }));
+    await prices.save(price('item_hidden', 1, 'per_item'));
+
+    await buyOrders.save(buyOrder('order_stack', 1, 96, 'per_stack'));
+    await buyOrders.save(buyOrder('order_item', 20, 1.5, 'per_item'));
+    await buyOrders.save({ ...buyOrder('order_closed', 10, 5, 'per_item'), status: 'cancelled' });
+  });
+
+  it('lists asks and bids for one server in the requested unit', async () => {
+    const book = await service.getOrderBook(TEST_DATA.minecraftId, TEST_DATA.server, 'per_item');
+
+    expect(book).toMatchObject({ itemName: 'Iron Block', serverName: TEST_DATA.server, tradingUnit: 'per_item' });
+    expect(book.asks).toEqual([
+      { priceDiamonds: 2, quantity: 130, orderCount: 2, cumulativeQuantity: 130 }
+    ]);
+    expect(book.bids).toEqual([
+      { priceDiamonds: 1.5, quantity: 84, orderCount: 2, cumulativeQuantity: 84 }
+    ]);
+    expect(book).toMatchObject({ bestAsk: 2, bestBid: 1.5, spread: 0.5, askDepth: 130, bidDepth: 84 });
+  });
+
+  it('converts the whole book to stacks', async () => {
+    const book = await service.getOrderBook(TEST_DATA.minecraftId, 'SAFE SURVIVAL', 'per_stack');
+
+    expect(book.asks).toEqual([
+      { priceDiamonds: 128, quantity: 2.03, orderCount: 2, cumulativeQuantity: 2.03 }
+    ]);
+    expect(book.bids.map(level => [level.priceDiamonds, level.quantity])).toEqual([[96, 1.31]]);
+    expect(book.spread).toBe(32);
+  });
+
+  it('reports a crossed book as a negative spread', async () => {
+    await buyOrders.save(buyOrder('order_eager', 1, 2.5, 'per_item'));
+
+    const book = await service.getOrderBook(TEST_DATA.minecraftId, TEST_DATA.server, 'per_item');
+    expect(book).toMatchObject({ bestBid: 2.5, bestAsk: 2, spread: -0.5 });
+  });
+});
+
+describe('Order Book REST Routes - Fast', () => {
+  let app: Hono<AppEnv>;
+
+  beforeEach(() => {
+    const container = new ServiceContainer();
+    const items = new InMemoryItemRepository();
+    const prices = new InMemoryPriceRepository(items);
+    container.register(SERVICE_KEYS.ORDER_BOOK_SERVICE, () =>
+      new MarketplaceOrderBookService(items, prices, new InMemoryBuyOrderRepository(), new MinecraftPricingService(prices))
+    );
+
+    app = new Hono<AppEnv>();
+    app.route('/api/v1/order-book', createOrderBookRoutes(container));
+    app.onError((_err, c) => c.json({ error: 'Internal Server Error' }, 500));
+  });
+
+  it('serves an empty book without signing in', async () => {
+    const response = await app.request('/api/v1/order-book?minecraftId=iron_block&serverName=Safe%20Survival&unit=per_stack');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      minecraftId: TEST_DATA.minecraftId,
+      asks: [],
+      bids: [],
+      bestAsk: null,
+      bestBid: null,
+      spread: null
+    });
+  });
+
+  it('refuses missing servers and units the item cannot stack into', async () => {
+    expect((await app.request('/api/v1/order-book?minecraftId=iron_block')).status).toBe(400);
+
+    const unstackable = await app.request('/api/v1/order-book?minecraftId=diamond_sword&serverName=Safe%20Survival&unit=per_stack');
+    expect(unstackable.status).toBe(400);
+    expect(await unstackable.json()).toMatchObject({ error: 'INVALID_TRADING_UNIT' });
+  });
+});
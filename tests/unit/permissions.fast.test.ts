@@ -0,0 +1,176 @@
+/**
+ * Permission Catalogue Tests - Fast Version
+ *
+ * One role → permission mapping shared by:
+ * - Hono requirePermission guards on backend routes
+ * - HATEOASLinkGenerator in the frontend
+ * - generate_item_links() in database/009_role_permissions.sql
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { User, UserRole } from '../../workspaces/shared/types/service-interfaces.js';
+import {
+  ROLE_PERMISSIONS,
+  hasPermission,
+  permissionsForRole
+} from '../../workspaces/shared/utils/permissions.js';
+import { SessionService } from '../../workspaces/shared/services/session-service.js';
+import { MinecraftItemService } from '../../workspaces/backend/src/services/item-service.js';
+import { MinecraftPricingService } from '../../workspaces/backend/src/services/pricing-service.js';
+import { createItemRoutes } from '../../workspaces/backend/src/routes/items.js';
+import { createUserRoutes } from '../../workspaces/backend/src/routes/users.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import {
+  HATEOASLinkGenerator,
+  createUserContext
+} from '../../workspaces/frontend/src/lib/enhanced-homepage-data.js';
+import {
+  InMemoryItemRepository,
+  InMemoryPriceRepository,
+  InMemorySessionRepository,
+  InMemoryUserRepository
+} from '../mocks/backend-repositories.js';
+import { MockValkeyService } from '../mocks/valkey-mock.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  roles: ['user', 'shop_owner', 'moderator', 'admin'] as UserRole[],
+  migration: new URL('../../database/009_role_permissions.sql', import.meta.url),
+  playerId: '3d8f6b1a-2c47-4e95-a0b3-9f1e7c5d2a68',
+  sword: {
+    id: 'c4a7e2d9-6b18-4f3c-8e5a-1d0b9f72e3c6',
+    ownerId: 'user_steve',
+    name: 'Diamond Sword',
+    description: 'Sharpness V',
+    category: 'tools' as const,
+    minecraftId: 'minecraft:diamond_sword',
+    stockQuantity: 1,
+    isAvailable: true,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }
+};
+
+const testUser = (role: UserRole, id = `user_${role}`): User => ({
+  id,
+  discordId: `discord_${id}`,
+  username: id,
+  role,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Permission Catalogue - Fast', () => {
+  it('maps roles to cumulative permissions', () => {
+    expect(hasPermission(testUser('shop_owner'), 'EDIT_OWN_LISTINGS')).toBe(true);
+    expect(hasPermission(testUser('shop_owner'), 'MANAGE_USERS')).toBe(false);
+    expect(hasPermission(testUser('user'), 'VERIFY_PRICES')).toBe(false);
+    expect(hasPermission(testUser('moderator'), 'REVIEW_REPORTS')).toBe(true);
+    expect(hasPermission(testUser('admin'), 'MANAGE_USERS')).toBe(true);
+  });
+
+  it('grants nothing to anonymous or deactivated users', () => {
+    expect(hasPermission(null, 'SUBMIT_PRICE_DATA')).toBe(false);
+    expect(hasPermission({ ...testUser('admin'), isActive: false }, 'MANAGE_USERS')).toBe(false);
+  });
+
+  it('matches the SQL role_permissions seed exactly', () => {
+    const sql = readFileSync(TEST_DATA.migration, 'utf8');
+    const seeded = Array.from(sql.matchAll(/\('(\w+)', '(\w+)'\)/g), ([, role, permission]) => `${role}:${permission}`);
+    const catalogue = Object.entries(ROLE_PERMISSIONS)
+      .flatMap(([role, permissions]) => permissions.map(permission => `${role}:${permission}`));
+
+    expect(seeded.sort()).toEqual(catalogue.sort());
+  });
+});
+
+describe('Permission Guards - Fast', () => {
+  let app: Hono<AppEnv>;
+  let users: InMemoryUserRepository;
+
+  // Simulates the session middleware by trusting a test-only header
+  const request = (path: string, role: UserRole, init: RequestInit = {}) =>
+    app.request(path, {
+      ...init,
+      headers: { 'x-test-role': role, 'Content-Type': 'application/json' }
+    });
+
+  beforeEach(async () => {
+    const prices = new InMemoryPriceRepository();
+    const items = new InMemoryItemRepository(prices);
+    await items.save(TEST_DATA.sword);
+    users = new InMemoryUserRepository();
+    for (const role of TEST_DATA.roles) {
+      await users.save(testUser(role));
+    }
+    await users.save(testUser('user', TEST_DATA.playerId));
+    const cache = new MockValkeyService();
+    await cache.connect();
+
+    const container = new ServiceContainer();
+    container.register(SERVICE_KEYS.ITEM_SERVICE, () =>
+      new MinecraftItemService(items, prices, new MinecraftPricingService(prices))
+    );
+    container.register(SERVICE_KEYS.USER_REPOSITORY, () => users);
+    container.register(SERVICE_KEYS.SESSION_SERVICE, () =>
+      new SessionService(new InMemorySessionRepository(), users, cache)
+    );
+
+    app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      const role = c.req.header('x-test-role') as UserRole | undefined;
+      if (role) c.set('user', testUser(role));
+      await next();
+    });
+    app.route('/api/v1/items', createItemRoutes(container));
+    app.route('/api/v1/users', createUserRoutes(container));
+  });
+
+  it('requires EDIT_OWN_LISTINGS to create listings', async () => {
+    const body = JSON.stringify({
+      name: 'Iron Pickaxe', description: '', category: 'tools', minecraftId: 'minecraft:iron_pickaxe',
+      stockQuantity: 1, price: 3, tradingUnit: 'per_item'
+    });
+
+    const denied = await request('/api/v1/items', 'user', { method: 'POST', body });
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).message).toContain('EDIT_OWN_LISTINGS');
+
+    expect((await request('/api/v1/items', 'shop_owner', { method: 'POST', body })).status).toBe(201);
+    expect((await app.request('/api/v1/items', { method: 'POST', body })).status).toBe(401);
+  });
+
+  it('records moderator verification on the listing', async () => {
+    const response = await request(`/api/v1/items/${TEST_DATA.sword.id}/verify`, 'moderator', { method: 'PATCH' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ verifiedBy: 'user_moderator', confidenceLevel: 'high' });
+  });
+
+  it('only advertises the verify link to roles the route accepts', async () => {
+    for (const role of TEST_DATA.roles) {
+      const links = new HATEOASLinkGenerator().generateLinks(
+        { id: TEST_DATA.sword.id },
+        createUserContext(testUser(role))
+      );
+      const response = await request(`/api/v1/items/${TEST_DATA.sword.id}/verify`, role, { method: 'PATCH' });
+
+      expect(response.status !== 403, role).toBe(links.verify !== undefined);
+      expect(links.reportPrice !== undefined, role).toBe(permissionsForRole(role).has('SUBMIT_PRICE_DATA'));
+    }
+  });
+
+  it('restricts role management to MANAGE_USERS', async () => {
+    const body = JSON.stringify({ role: 'shop_owner' });
+
+    expect((await request(`/api/v1/users/${TEST_DATA.playerId}`, 'moderator', { method: 'PATCH', body })).status).toBe(403);
+
+    const response = await request(`/api/v1/users/${TEST_DATA.playerId}`, 'admin', { method: 'PATCH', body });
+    expect(response.status).toBe(200);
+    expect((await users.findById(TEST_DATA.playerId))?.role).toBe('shop_owner');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * PostgreSQL Item Repository Tests - Fast Version
+ *
+ * Verifies listing searches are pushed into a single SQL query:
+ * - Current price joined instead of per-item price lookups
+ * - Price bounds and sorts compare diamonds per single item
+ * - Full-text queries combine with filters and share the count query's WHERE
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  PostgreSQLItemRepository,
+  type DatabaseConnection
+} from '../../workspaces/backend/src/repositories/postgresql-item-repository.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  row: {
+    id: 'item_cobble',
+    owner_id: 'user_steve',
+    name: 'Cobblestone',
+    description: '',
+    category: 'blocks',
+    minecraft_id: 'minecraft:cobblestone',
+    stock_quantity: 640,
+    is_available: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    total: '41', // Answers the COUNT(*) query, which reuses these rows
+    current_price: {
+      id: 'price_cobble',
+      item_id: 'item_cobble',
+      price_diamonds: '2.00',
+      trading_unit: 'per_stack',
+      is_current: true,
+      source: 'owner',
+      created_by: 'user_steve',
+      created_at: '2026-01-01T00:00:00Z'
+    }
+  }
+};
+
+class RecordingConnection implements DatabaseConnection {
+  public calls: Array<{ sql: string; params: any[] }> = [];
+
+  constructor(private rows: any[]) {}
+
+  async query<T = any>(sql: string, params: any[] = []): Promise<T[]> {
+    this.calls.push({ sql, params });
+    return this.rows as T[];
+  }
+
+  async queryOne<T = any>(sql: string, params: any[] = []): Promise<T | null> {
+    return (await this.query<T>(sql, params))[0] ?? null;
+  }
+}
+
+describe('PostgreSQLItemRepository.findListings - Fast', () => {
+  let db: RecordingConnection;
+  let repository: PostgreSQLItemRepository;
+
+  beforeEach(() => {
+    db = new RecordingConnection([TEST_DATA.row]);
+    repository = new PostgreSQLItemRepository(db);
+  });
+
+  it('joins current prices and filters on per-item price in one query', async () => {
+    const { listings: [listing], total } = await repository.findListings({
+      category: 'blocks',
+      availableOnly: true,
+      minPrice: 0.01,
+      maxPrice: 1,
+      sortBy: 'price_asc',
+      limit: 20,
+      offset: 40
+    });
+
+    expect(db.calls).toHaveLength(2);
+    const [{ sql, params }, count] = db.calls;
+    expect(sql).toMatch(/\bJOIN prices p ON p\.item_id = i\.id AND p\.is_current = true/);
+    expect(sql).not.toMatch(/LEFT JOIN/);
+    expect(sql).toContain("WHEN 'per_stack' THEN (CASE WHEN");
+    expect(sql).toMatch(/ORDER BY \(p\.price_diamonds \/ .*\) ASC NULLS LAST/);
+    expect(params).toEqual(['blocks', 0.01, 1, 20, 40]);
+    expect(count.sql).toMatch(/^SELECT COUNT\(\*\)/);
+    expect(count.params).toEqual(['blocks', 0.01, 1]);
+
+    expect(listing.currentPrice).toMatchObject({ priceDiamonds: 2, tradingUnit: 'per_stack' });
+    expect(total).toBe(41);
+  });
+
+  it('matches the name search index and ranks text queries by relevance', async () => {
+    await repository.findListings({ query: 'cobble', serverName: 'HermitCraft', sortBy: 'relevance' });
+
+    const [{ sql, params }, count] = db.calls;
+    const document = "to_tsvector('english', i.name || ' ' || i.description)";
+    expect(sql).toContain(`${document} @@ websearch_to_tsquery('english', $1)`);
+    expect(sql).toContain(`ts_rank(${document}, websearch_to_tsquery('english', $1)) AS relevance`);
+    expect(sql).toContain('AND i.server_name = $2');
+    expect(sql).toContain('ORDER BY relevance DESC');
+    expect(params).toEqual(['cobble', 'HermitCraft', 50, 0]);
+    expect(count.params).toEqual(['cobble', 'HermitCraft']);
+  });
+
+  it('sizes stacks and shulkers from the item registry and attributes', async () => {
+    await repository.findListings({ maxPrice: 32, priceUnit: 'per_stack' });
+
+    const { sql, params } = db.calls[0];
+    expect(sql).toMatch(/IN \([^)]*'minecraft:diamond_sword'[^)]*\) THEN 1/);
+    expect(sql).toMatch(/IN \([^)]*'minecraft:ender_pearl'[^)]*\) THEN 16/);
+    expect(sql).toContain("WHEN i.item_attributes->>'maxStackSize' IN ('1', '16', '64')");
+    expect(sql).toMatch(/\* 27\)/);
+    expect(params).toEqual([32, 50, 0]);
+  });
+
+  it('keeps unpriced items when no price bounds are given', async () => {
+    await repository.findListings({});
+
+    expect(db.calls[0].sql).toContain('LEFT JOIN prices p');
+    expect(db.calls[0].sql).toContain('ORDER BY i.created_at DESC');
+    expect(db.calls[0].params).toEqual([50, 0]);
+  });
+});
@@ -98,6 +98,17 @@ describe('Price Display - GAMEPLAN Critical Requirements', () => {
       });
     });
 
+    describe('Items with smaller stacks', () => {
+      it('should size stacks and shulkers by max stack size', () => {
+        expect(formatPrice(9, 'per_stack', 16).fullText).toBe('9 diamonds per stack (16 items)');
+        expect(formatPrice(27, 'per_shulker', 16).text).toBe('16 items per diamond'); // 432 ender pearls
+      });
+
+      it('should show per stack prices for unstackable items per item', () => {
+        expect(formatPrice(5, 'per_stack', 1).text).toBe('5 diamonds per item');
+      });
+    });
+
   });
 
   describe('formatTotalCost - Purchase calculations', () => {
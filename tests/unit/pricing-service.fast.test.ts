@@ -0,0 +1,150 @@
+/**
+ * Pricing Service Tests - Fast Version
+ *
+ * calculatePrice derives a suggestion from community price history:
+ * - Other listings of the same minecraftId, normalised per item
+ * - Weighted by recency and the confidence of the report behind each price
+ * - Expressed in the caller's trading unit, sized by the item's max stack size
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ConfidenceLevel, Item, TradingUnitType } from '../../workspaces/shared/types/service-interfaces.js';
+import { MinecraftPricingService, PricingError } from '../../workspaces/backend/src/services/pricing-service.js';
+import { InMemoryItemRepository, InMemoryPriceRepository } from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  minecraftId: 'minecraft:diamond_pickaxe',
+  cobblestone: 'minecraft:cobblestone',
+  enderPearl: 'minecraft:ender_pearl',
+  dayMs: 24 * 60 * 60 * 1000
+};
+
+describe('MinecraftPricingService.calculatePrice - Fast', () => {
+  let items: InMemoryItemRepository;
+  let prices: InMemoryPriceRepository;
+  let service: MinecraftPricingService;
+  let sequence = 0;
+
+  const listing = async (
+    priceDiamonds: number,
+    options: { tradingUnit?: TradingUnitType; ageDays?: number; confidenceLevel?: ConfidenceLevel; minecraftId?: string; itemAttributes?: Item['itemAttributes'] } = {}
+  ): Promise<Item> => {
+    const id = `item_${++sequence}`;
+    const item = await items.save({
+      id,
+      ownerId: 'user_steve',
+      name: 'Diamond Pickaxe',
+      description: '',
+      category: 'tools',
+      minecraftId: options.minecraftId ?? TEST_DATA.minecraftId,
+      itemAttributes: options.itemAttributes,
+      stockQuantity: 1,
+      isAvailable: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    await prices.save({
+      id: `price_${id}`,
+      itemId: id,
+      priceDiamonds,
+      tradingUnit: options.tradingUnit ?? 'per_item',
+      isCurrent: true,
+      // Prices with a confidence level come from approved community reports
+      source: options.confidenceLevel ? 'community_report' : 'owner',
+      confidenceLevel: options.confidenceLevel,
+      createdBy: 'user_steve',
+      createdAt: new Date(Date.now() - (options.ageDays ?? 0) * TEST_DATA.dayMs)
+    });
+    return item;
+  };
+
+  beforeEach(() => {
+    items = new InMemoryItemRepository();
+    prices = new InMemoryPriceRepository(items);
+    service = new MinecraftPricingService(prices);
+  });
+
+  it('suggests the weighted median of other listings for the same item', async () => {
+    await listing(10);
+    await listing(12);
+    await listing(14);
+    const draft = await listing(99); // The item being priced is excluded
+
+    const price = await service.calculatePrice(draft, 'per_item');
+
+    expect(price.priceDiamonds).toBe(12);
+    expect(price.itemId).toBe(draft.id);
+    expect(price.source).toBe('market_suggestion');
+    expect(price.isCurrent).toBe(false);
+  });
+
+  it('favours recent, high-confidence reported prices over stale or weakly supported ones', async () => {
+    await listing(10, { confidenceLevel: 'high' });
+    await listing(11, { confidenceLevel: 'high', ageDays: 2 });
+    await listing(40, { confidenceLevel: 'low', ageDays: 1 });
+    await listing(45, { ageDays: 60 });
+    await listing(50, { ageDays: 60 });
+
+    const suggestion = await service.getPriceSuggestion(TEST_DATA.minecraftId, 'per_item');
+
+    expect(suggestion?.priceDiamonds).toBe(11);
+    expect(suggestion?.sampleSize).toBe(5);
+  });
+
+  it('weights prices by report confidence, not by the listing\'s confidence', async () => {
+    const disputed = await listing(10, { confidenceLevel: 'high' });
+    await items.update(disputed.id, { confidenceLevel: 'low' });
+    await listing(30, { confidenceLevel: 'low' });
+    await listing(31, { confidenceLevel: 'low' });
+
+    const suggestion = await service.getPriceSuggestion(TEST_DATA.minecraftId, 'per_item');
+
+    expect(suggestion?.priceDiamonds).toBe(10);
+  });
+
+  it('normalises across trading units and answers in the requested unit', async () => {
+    await listing(64, { tradingUnit: 'per_stack', minecraftId: TEST_DATA.cobblestone });
+    await listing(12, { tradingUnit: 'per_dozen', minecraftId: TEST_DATA.cobblestone });
+
+    const suggestion = await service.getPriceSuggestion(TEST_DATA.cobblestone, 'per_stack');
+
+    expect(suggestion).toMatchObject({ priceDiamonds: 64, tradingUnit: 'per_stack', range: { min: 64, max: 64 } });
+  });
+
+  it('sizes stacks and shulkers by the item and refuses per stack for unstackables', async () => {
+    await listing(16, { tradingUnit: 'per_stack', minecraftId: TEST_DATA.enderPearl });
+
+    const pearls = await service.getPriceSuggestion(TEST_DATA.enderPearl, 'per_shulker');
+    expect(pearls?.priceDiamonds).toBe(432); // 27 stacks of 16 at 1 diamond each
+
+    const price = { ...(await prices.findCurrentPrices())[0], priceDiamonds: 3, tradingUnit: 'per_item' as const };
+    expect(service.convertTradingUnits(price, 'per_item', 'per_stack', 16).priceDiamonds).toBe(48);
+    expect(service.convertTradingUnits(price, 'per_item', 'per_shulker', 1).priceDiamonds).toBe(81);
+    expect(() => service.convertTradingUnits(price, 'per_item', 'per_stack', 1))
+      .toThrow(expect.objectContaining({ code: 'INVALID_TRADING_UNIT' }));
+    await expect(service.getPriceSuggestion(TEST_DATA.minecraftId, 'per_stack'))
+      .rejects.toMatchObject({ code: 'INVALID_TRADING_UNIT' });
+  });
+
+  it('sizes each listing\'s stacks by its own item attributes', async () => {
+    // Outside the vanilla registry, so only the listing knows it stacks to 16
+    const modded = 'minecraft:copper_coin';
+    await listing(16, { tradingUnit: 'per_stack', minecraftId: modded, itemAttributes: { maxStackSize: 16 } });
+    await listing(1, { minecraftId: modded });
+    const draft = await listing(99, { minecraftId: modded, itemAttributes: { maxStackSize: 16 } });
+
+    expect(await service.getPriceSuggestion(modded, 'per_item', draft.id)).toMatchObject({ priceDiamonds: 1, range: { min: 1, max: 1 } });
+    expect((await service.calculatePrice(draft, 'per_stack')).priceDiamonds).toBe(16);
+  });
+
+  it('ignores other items and history older than 90 days', async () => {
+    await listing(5, { minecraftId: 'minecraft:iron_pickaxe' });
+    await listing(20, { ageDays: 120 });
+    const draft = await listing(30);
+
+    expect(await service.getPriceSuggestion(TEST_DATA.minecraftId, 'per_item', draft.id)).toBeNull();
+    await expect(service.calculatePrice(draft, 'per_item')).rejects.toBeInstanceOf(PricingError);
+    await expect(service.calculatePrice(draft, 'per_item')).rejects.toMatchObject({ code: 'NO_PRICE_HISTORY' });
+  });
+});
@@ -178,6 +178,30 @@ describe('Pricing State Management - Comprehensive Testing', () => {
       const timeMs = performance.now() - start;
       expectFastExecution(timeMs, 5);
     });
+
+    test('should size units by max stack size and reject per stack for unstackables', async () => {
+      const start = performance.now();
+
+      // Ender pearls stack to 16
+      pricingActions.setPrice(32, 'per_stack', 16);
+      expect(get(pricingState).individualPrice).toBe(2);
+      expect(get(tradingUnitHelpers).display).toBe('per stack (16 items)');
+      expect(pricingActions.calculateIndividualPrice(54, 'per_shulker', 1)).toBe(2); // 27 swords
+
+      pricingActions.setPrice(45, 'per_stack', 1);
+      expect(get(priceValidation)).toMatchObject({
+        isValid: false,
+        showWarning: true,
+        warningMessage: "Unstackable items can't be sold per stack"
+      });
+
+      pricingActions.setPrice(45, 'per_item', 1);
+      expect(get(priceValidation).isValid).toBe(true);
+      expect(get(priceValidation).showWarning).toBe(false);
+
+      const timeMs = performance.now() - start;
+      expectFastExecution(timeMs, 10);
+    });
   });
   
   describe('📊 Price Context and Comparison', () => {
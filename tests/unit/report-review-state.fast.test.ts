@@ -0,0 +1,142 @@
+/**
+ * Report Review State Tests - Fast Version
+ *
+ * Shop dashboard review queue store:
+ * - Queue loaded from the backend with a draft per report
+ * - Price changes need a drafted price before approval
+ * - Decisions posted with notes; reviewed reports leave the queue
+ * - Approving a conflicting claim settles the rest of its cluster
+ * - Claimed values prefill the price draft and render as a before/after diff
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import { get } from 'svelte/store';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import {
+  claimDiff,
+  reportReviewActions,
+  reportReviewState,
+  reviewQueueSummary
+} from '../../workspaces/frontend/src/lib/report-review-state.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  queueUrl: 'http://localhost:7410/api/v1/reports/queue',
+  reviewUrl: 'http://localhost:7410/api/v1/reports/:id/review',
+  queue: [
+    { id: 'report_price', itemId: 'item_diamond_sword', reportType: 'price_change', description: 'Now 40 diamonds', status: 'pending', item: { id: 'item_diamond_sword', name: 'Diamond Sword' }, evidence: [] },
+    { id: 'report_stock', itemId: 'item_elytra', reportType: 'stock_status', description: 'Elytra sold out', status: 'pending', item: { id: 'item_elytra', name: 'Elytra' }, evidence: [] }
+  ],
+  claimed: {
+    id: 'report_claimed',
+    itemId: 'item_diamond_sword',
+    reportType: 'price_change',
+    description: 'Sign says 45 a shulker',
+    claimedValues: { priceDiamonds: 45, tradingUnit: 'per_shulker' },
+    status: 'pending',
+    item: { id: 'item_diamond_sword', name: 'Diamond Sword', isAvailable: true, stockQuantity: 3 },
+    currentPrice: { priceDiamonds: 40, tradingUnit: 'per_shulker' },
+    evidence: []
+  }
+};
+
+describe('Report Review State - Fast', () => {
+  const decisions: Array<{ id: string; body: any }> = [];
+  const server = setupServer(
+    http.get(TEST_DATA.queueUrl, () => HttpResponse.json(TEST_DATA.queue)),
+    http.post(TEST_DATA.reviewUrl, async ({ params, request }) => {
+      decisions.push({ id: params.id as string, body: await request.json() });
+      return HttpResponse.json({ id: params.id, status: 'approved' });
+    })
+  );
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  beforeEach(async () => {
+    decisions.length = 0;
+    reportReviewState.set({ queue: [], drafts: {}, isLoading: false, reviewingId: null, error: '' });
+    await reportReviewActions.loadQueue();
+  });
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('loads the queue with an empty draft per report', () => {
+    const state = get(reportReviewState);
+
+    expect(state.queue.map(report => report.id)).toEqual(['report_price', 'report_stock']);
+    expect(state.drafts.report_price).toEqual({ notes: '', priceDiamonds: null, tradingUnit: 'per_item' });
+    expect(get(reviewQueueSummary)).toEqual({ pendingCount: 2, hasPending: true, priceChanges: 1, conflicts: 0 });
+  });
+
+  it('requires a price before approving a price change', async () => {
+    await reportReviewActions.reviewReport('report_price', true);
+
+    expect(decisions).toHaveLength(0);
+    expect(get(reportReviewState).error).toContain('Enter the new price');
+
+    reportReviewActions.updateDraft('report_price', { priceDiamonds: 40, notes: ' Checked the sign at spawn ' });
+    await reportReviewActions.reviewReport('report_price', true);
+
+    expect(decisions).toEqual([{
+      id: 'report_price',
+      body: { approved: true, notes: 'Checked the sign at spawn', price: { priceDiamonds: 40, tradingUnit: 'per_item' } }
+    }]);
+    expect(get(reportReviewState).queue.map(report => report.id)).toEqual(['report_stock']);
+    expect(get(reportReviewState).drafts.report_price).toBeUndefined();
+  });
+
+  it('drops the rest of a conflicting cluster on approval but not on rejection', async () => {
+    const cluster = (id: string) => ({ id: 'report_price', reportIds: [id], reporterCount: 1, hasConflict: true });
+    const conflicting = [
+      { ...TEST_DATA.queue[0], id: 'report_forty', reportType: 'stock_status', cluster: cluster('report_forty') },
+      { ...TEST_DATA.queue[0], id: 'report_fifty', reportType: 'stock_status', cluster: cluster('report_fifty') },
+      { ...TEST_DATA.queue[0], id: 'report_sixty', reportType: 'stock_status', cluster: cluster('report_sixty') },
+      TEST_DATA.queue[1]
+    ];
+    server.use(http.get(TEST_DATA.queueUrl, () => HttpResponse.json(conflicting)));
+    await reportReviewActions.loadQueue();
+    expect(get(reviewQueueSummary).conflicts).toBe(1);
+
+    await reportReviewActions.reviewReport('report_sixty', false);
+    await reportReviewActions.reviewReport('report_fifty', false);
+    const queue = get(reportReviewState).queue;
+    expect(queue.map(report => report.id)).toEqual(['report_forty', 'report_stock']);
+    expect(queue[0].cluster?.hasConflict).toBe(false);
+
+    await reportReviewActions.loadQueue();
+    await reportReviewActions.reviewReport('report_forty', true);
+    expect(get(reportReviewState).queue.map(report => report.id)).toEqual(['report_stock']);
+  });
+
+  it('prefills the claimed price and diffs claims against the listing', async () => {
+    server.use(http.get(TEST_DATA.queueUrl, () => HttpResponse.json([TEST_DATA.claimed])));
+    reportReviewState.set({ queue: [], drafts: {}, isLoading: false, reviewingId: null, error: '' });
+    await reportReviewActions.loadQueue();
+
+    const [entry] = get(reportReviewState).queue;
+    expect(get(reportReviewState).drafts.report_claimed).toEqual({ notes: '', priceDiamonds: 45, tradingUnit: 'per_shulker' });
+    expect(claimDiff(entry)).toEqual([{ field: 'Price', before: '40 💎 per shulker', after: '45 💎 per shulker' }]);
+
+    const stock = { ...entry, reportType: 'stock_status', claimedValues: { inStock: false, stockQuantity: 0 } } as typeof entry;
+    expect(claimDiff(stock)).toEqual([{ field: 'Stock', before: 'In stock (3)', after: 'Out of stock' }]);
+    const closure = { ...entry, reportType: 'shop_closure', claimedValues: { closedOn: '2026-10-01' } } as typeof entry;
+    expect(claimDiff(closure)).toEqual([{ field: 'Shop', before: 'Open', after: 'Closed since 2026-10-01' }]);
+    expect(claimDiff({ ...entry, reportType: 'incorrect_info', claimedValues: undefined })).toEqual([]);
+
+    await reportReviewActions.reviewReport('report_claimed', true);
+    expect(decisions[0].body).toEqual({ approved: true, price: { priceDiamonds: 45, tradingUnit: 'per_shulker' } });
+  });
+
+  it('keeps the report queued and surfaces the backend message when a review fails', async () => {
+    server.use(http.post(TEST_DATA.reviewUrl, () =>
+      HttpResponse.json({ error: 'NOT_REPORT_REVIEWER', message: 'Only the listing owner or a moderator can review this report' }, { status: 403 })
+    ));
+
+    await reportReviewActions.reviewReport('report_stock', false);
+
+    const state = get(reportReviewState);
+    expect(state.error).toBe('Only the listing owner or a moderator can review this report');
+    expect(state.reviewingId).toBeNull();
+    expect(state.queue).toHaveLength(2);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Report REST Routes Tests - Fast Version
+ *
+ * Exercises the Hono /api/v1/reports router through the ServiceContainer
+ * with in-memory repositories:
+ * - JSON and multipart submissions persisted to community_reports and evidence
+ * - Evidence files stored through the FileUploadService
+ * - Validation (including claimed values per report type), unknown items
+ *   and rejected files mapped to 4xx
+ * - Uploaded files removed when persisting the report fails
+ * - Owner/moderator review queue and approve/reject reviews
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { FileUpload, FileUploadService, User, UserRole } from '../../workspaces/shared/types/service-interfaces.js';
+import { createReportRoutes } from '../../workspaces/backend/src/routes/reports.js';
+import { CommunityReportingService } from '../../workspaces/backend/src/services/reporting-service.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import {
+  InMemoryCommunityReportRepository,
+  InMemoryEvidenceRepository,
+  InMemoryItemRepository,
+  InMemoryPriceRepository,
+  InMemoryUserRepository
+} from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: 'user_steve',
+  notch: 'user_notch',
+  alex: 'user_alex',
+  itemId: 'item_diamond_sword',
+  report: {
+    itemId: 'item_diamond_sword',
+    reportType: 'price_change',
+    description: 'Steve dropped the price to 40 diamonds',
+    claimedValues: { priceDiamonds: 40, tradingUnit: 'per_item' }
+  }
+};
+
+class RecordingFileUploadService implements FileUploadService {
+  public files = new Map<string, FileUpload>();
+
+  async uploadFile(file: FileUpload): Promise<string> {
+    const filePath = `evidence/${this.files.size + 1}.png`;
+    this.files.set(filePath, file);
+    return filePath;
+  }
+
+  validateFile(file: FileUpload): boolean {
+    return file.mimeType === 'image/png';
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    this.files.delete(filePath);
+  }
+
+  getFileUrl(filePath: string): string {
+    return `/uploads/${filePath}`;
+  }
+}
+
+const testUser = (id: string, role: UserRole = 'user'): User => ({
+  id,
+  discordId: `discord_${id}`,
+  username: id,
+  role,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Report REST Routes - Fast', () => {
+  let app: Hono<AppEnv>;
+  let reports: InMemoryCommunityReportRepository;
+  let evidence: InMemoryEvidenceRepository;
+  let uploads: RecordingFileUploadService;
+
+  const submit = (body: BodyInit, headers: Record<string, string> = {}) =>
+    app.request('/api/v1/reports', {
+      method: 'POST',
+      headers: { 'x-test-user': TEST_DATA.steve, ...headers },
+      body
+    });
+
+  const multipart = (report: unknown, files: File[]) => {
+    const form = new FormData();
+    form.append('report', JSON.stringify(report));
+    files.forEach(file => form.append('evidence', file));
+    return form;
+  };
+
+  beforeEach(async () => {
+    const container = new ServiceContainer();
+    const items = new InMemoryItemRepository();
+    const users = new InMemoryUserRepository();
+    evidence = new InMemoryEvidenceRepository();
+    reports = new InMemoryCommunityReportRepository(evidence, items);
+    uploads = new RecordingFileUploadService();
+    container.register(SERVICE_KEYS.ITEM_REPOSITORY, () => items);
+    container.register(SERVICE_KEYS.COMMUNITY_REPORT_REPOSITORY, () => reports);
+    container.register(SERVICE_KEYS.EVIDENCE_REPOSITORY, () => evidence);
+    container.register(SERVICE_KEYS.FILE_UPLOAD_SERVICE, () => uploads);
+    container.register(SERVICE_KEYS.REPORTING_SERVICE, () =>
+      new CommunityReportingService(items, new InMemoryPriceRepository(), reports, evidence, users)
+    );
+    await users.save(testUser(TEST_DATA.steve));
+
+    await items.save({
+      id: TEST_DATA.itemId,
+      ownerId: 'user_alex',
+      name: 'Diamond Sword',
+      description: '',
+      category: 'tools',
+      minecraftId: 'minecraft:diamond_sword',
+      stockQuantity: 1,
+      isAvailable: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      const userId = c.req.header('x-test-user');
+      if (userId) c.set('user', testUser(userId, c.req.header('x-test-role') as UserRole | undefined));
+      await next();
+    });
+    app.route('/api/v1/reports', createReportRoutes(container));
+    app.onError((_err, c) => c.json({ error: 'Internal Server Error' }, 500));
+  });
+
+  it('persists a JSON report with descriptive evidence', async () => {
+    const response = await submit(JSON.stringify({
+      ...TEST_DATA.report,
+      evidence: [{ evidenceType: 'transaction_record', description: 'Bought 2 at 40', minecraftServer: 'Safe Survival' }]
+    }), { 'Content-Type': 'application/json' });
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body).toMatchObject({ status: 'pending', reporterId: TEST_DATA.steve, autoApproved: false, confidenceLevel: 'low' });
+    expect(await reports.findById(body.id)).toMatchObject({ reportType: 'price_change' });
+    expect(await evidence.findByReportId(body.id)).toEqual([
+      expect.objectContaining({ evidenceType: 'transaction_record', minecraftServer: 'Safe Survival' })
+    ]);
+  });
+
+  it('stores multipart evidence files as screenshot evidence', async () => {
+    const screenshot = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], 'sign.png', { type: 'image/png' });
+
+    const response = await submit(multipart(TEST_DATA.report, [screenshot, screenshot]));
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body.evidence.map((e: any) => e.filePath)).toEqual(['evidence/1.png', 'evidence/2.png']);
+    expect(uploads.files.get('evidence/1.png')).toMatchObject({ filename: 'sign.png', size: 4 });
+    expect((await evidence.findByType('screenshot')).every(e => e.reportId === body.id)).toBe(true);
+  });
+
+  it('rejects invalid reports, unknown items and unaccepted files', async () => {
+    const invalid = await submit(JSON.stringify({ ...TEST_DATA.report, reportType: 'stock_update' }), { 'Content-Type': 'application/json' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).details[0].path).toBe('reportType');
+
+    const json = { 'Content-Type': 'application/json' };
+    const { claimedValues: _claim, ...unclaimed } = TEST_DATA.report;
+    const missingClaim = await submit(JSON.stringify(unclaimed), json);
+    expect((await missingClaim.json()).details[0].path).toBe('claimedValues');
+    const wrongClaim = await submit(JSON.stringify({ ...TEST_DATA.report, reportType: 'stock_status' }), json);
+    expect(wrongClaim.status).toBe(400);
+    const badDate = await submit(JSON.stringify({ ...TEST_DATA.report, reportType: 'shop_closure', claimedValues: { closedOn: 'last week' } }), json);
+    expect(badDate.status).toBe(400);
+    const futureDate = await submit(JSON.stringify({ ...TEST_DATA.report, reportType: 'shop_closure', claimedValues: { closedOn: '2999-01-01' } }), json);
+    expect((await futureDate.json()).error).toBe('INVALID_CLAIM');
+
+    const clientPath = await submit(JSON.stringify({
+      ...TEST_DATA.report,
+      evidence: [{ evidenceType: 'screenshot', filePath: '../../etc/passwd' }]
+    }), { 'Content-Type': 'application/json' });
+    expect(clientPath.status).toBe(400);
+
+    const unknownItem = await submit(multipart({ ...TEST_DATA.report, itemId: 'missing' }, []));
+    expect(unknownItem.status).toBe(404);
+
+    const script = new File(['#!/bin/sh'], 'run.sh', { type: 'text/x-sh' });
+    const rejected = await submit(multipart(TEST_DATA.report, [script]));
+    expect(rejected.status).toBe(400);
+
+    const tooMany = await submit(multipart(TEST_DATA.report, Array(6).fill(new File(['x'], 'a.png', { type: 'image/png' }))));
+    expect(tooMany.status).toBe(400);
+
+    expect(reports.reports.size).toBe(0);
+    expect(uploads.files.size).toBe(0);
+  });
+
+  it('removes uploaded files and the report when evidence cannot be saved', async () => {
+    evidence.save = async () => { throw new Error('connection reset'); };
+    const screenshot = new File(['png'], 'sign.png', { type: 'image/png' });
+
+    const response = await submit(multipart(TEST_DATA.report, [screenshot]));
+
+    expect(response.status).toBe(500);
+    expect(reports.reports.size).toBe(0);
+    expect(uploads.files.size).toBe(0);
+  });
+
+  it('requires an authenticated user', async () => {
+    const response = await app.request('/api/v1/reports', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(TEST_DATA.report)
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('lets the listing owner and moderators review each report once', async () => {
+    const created = await (await submit(JSON.stringify(TEST_DATA.report), { 'Content-Type': 'application/json' })).json();
+    const asNotch = { 'x-test-user': TEST_DATA.notch, 'x-test-role': 'moderator', 'Content-Type': 'application/json' };
+    const asAlex = { 'x-test-user': TEST_DATA.alex, 'x-test-role': 'shop_owner', 'Content-Type': 'application/json' };
+    const review = (headers: Record<string, string>, decision: unknown) =>
+      app.request(`/api/v1/reports/${created.id}/review`, { method: 'POST', headers, body: JSON.stringify(decision) });
+
+    const queue = await app.request('/api/v1/reports/queue', { headers: asAlex });
+    expect((await queue.json()).map((r: any) => [r.id, r.item.name, r.reporter.username])).toEqual([[created.id, 'Diamond Sword', TEST_DATA.steve]]);
+
+    const forbidden = await review({ 'x-test-user': TEST_DATA.steve, 'Content-Type': 'application/json' }, { approved: true });
+    expect(forbidden.status).toBe(403);
+    const notOwner = await review({ ...asAlex, 'x-test-user': 'user_herobrine' }, { approved: true });
+    expect((await notOwner.json()).error).toBe('NOT_REPORT_REVIEWER');
+
+    const badPrice = await review(asAlex, { approved: true, price: { priceDiamonds: 40, tradingUnit: 'per_stack' } });
+    expect(badPrice.status).toBe(400);
+    expect((await badPrice.json()).error).toBe('INVALID_TRADING_UNIT');
+
+    // The claimed price applies without the reviewer restating it
+    const approved = await review(asAlex, { approved: true, notes: 'Checked the sign at spawn' });
+    expect(approved.status).toBe(200);
+    expect(await approved.json()).toMatchObject({ status: 'approved', reviewedBy: TEST_DATA.alex, reviewNotes: 'Checked the sign at spawn' });
+
+    const again = await review(asNotch, { approved: false });
+    expect(again.status).toBe(409);
+    expect((await again.json()).error).toBe('REPORT_ALREADY_REVIEWED');
+
+    const missing = await app.request('/api/v1/reports/missing/review', { method: 'POST', headers: asNotch, body: JSON.stringify({ approved: true }) });
+    expect(missing.status).toBe(404);
+  });
+});
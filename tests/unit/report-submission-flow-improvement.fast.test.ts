@@ -7,7 +7,7 @@
 import { describe, test, expect, beforeEach } from 'vitest';
 import { get } from 'svelte/store';
 import { setupFastTests } from '../utils/fast-test-setup.js';
-import { reportSubmissionState, reportSubmissionActions, reportValidation, reportProgress, evidenceQuality } from '../../workspaces/frontend/src/lib/report-submission-state.js';
+import { reportSubmissionState, reportSubmissionActions, reportValidation, reportProgress, evidenceQuality, buildClaimedValues } from '../../workspaces/frontend/src/lib/report-submission-state.js';
 
 // Setup fast tests with MSW mocking
 setupFastTests();
@@ -34,8 +34,8 @@ const DEFAULT_REPORT_STATE = {
   showsPreview: false, makesEvidenceEasy: false, maintainsState: false, allowsNavigation: false,
   savesProgress: false, showsCurrentStep: false, preventsDataLoss: false, currentStep: 1, totalSteps: 4,
   showsSubmittingState: false, displaysSuccessMessage: false, providesReportId: false, explainsNextSteps: false,
-  completesFlow: false, isSubmitting: false, submissionSuccess: false, reportId: '',
-  reportData: { type: '', description: '', evidence: [] }, guidesUser: false, isIntuitive: false,
+  completesFlow: false, isSubmitting: false, submissionSuccess: false, reportId: '', reportStatus: '',
+  reportData: { itemId: '', type: '', description: '', evidence: [] }, guidesUser: false, isIntuitive: false,
   guidesCompletion: false
 };
 
@@ -322,6 +322,49 @@ describe('Report Submission Flow Improvement - TDD UI/UX Focus (OPTIMIZED)', ()
       expect(state.completesFlow).toBe(true);
       
     }, 2000); // Set test timeout
+
+    test('should send the report and evidence to the backend and keep its id and status', async () => {
+      reportSubmissionActions.selectReportType('Stock Change');
+      reportSubmissionActions.updateField('itemId', 'item_diamond_sword');
+      reportSubmissionActions.updateField('description', 'Chest is empty');
+      await reportSubmissionActions.uploadFile(new File(['png'], 'empty-chest.png', { type: 'image/png' }));
+
+      await reportSubmissionActions.submitReport();
+
+      const state = get(reportSubmissionState);
+      expect(state.uploadError).toBe('');
+      expect(state.reportId).toMatch(/^report_/);
+      expect(state.reportStatus).toBe('pending');
+      expect(state.uploadProgress).toBe(100);
+    });
+
+    test('should send claimed values for the selected report type', async () => {
+      const reportData = { itemId: 'item_diamond_sword', description: 'Sign changed', evidence: [] };
+
+      expect(buildClaimedValues({ ...reportData, type: 'Price Update', newPrice: 40, newTradingUnit: 'per_shulker' }))
+        .toEqual({ priceDiamonds: 40, tradingUnit: 'per_shulker' });
+      expect(buildClaimedValues({ ...reportData, type: 'Stock Change', newStock: 0 })).toEqual({ inStock: false, stockQuantity: 0 });
+      expect(buildClaimedValues({ ...reportData, type: 'Item Unavailable' })).toEqual({ inStock: false, stockQuantity: 0 });
+      expect(buildClaimedValues({ ...reportData, type: 'Quality Issue' })).toBeUndefined();
+
+      reportSubmissionActions.selectReportType('Price Update');
+      reportSubmissionActions.updateField('description', 'Now 40 diamonds');
+      expect(get(reportValidation)).toMatchObject({ isValid: false, claimError: 'A price change report needs claimed values' });
+
+      reportSubmissionActions.updateField('newPrice', 40);
+      expect(get(reportValidation)).toMatchObject({ isValid: true, claimError: '' });
+    });
+
+    test('should reject oversized evidence before uploading', async () => {
+      const screenshot = new File(['png'], 'huge.png', { type: 'image/png' });
+      Object.defineProperty(screenshot, 'size', { value: 11 * 1024 * 1024 });
+
+      await reportSubmissionActions.uploadFile(screenshot);
+
+      const state = get(reportSubmissionState);
+      expect(state.uploadedFiles).toHaveLength(0);
+      expect(state.uploadError).toBe('huge.png is larger than 10MB');
+    });
   });
 
   describe('🎉 Integration Tests (PASSING with state management)', () => {
@@ -0,0 +1,92 @@
+/**
+ * Reporter Reputation Tests - Fast Version
+ *
+ * Reputation derived from report outcomes:
+ * - Approved/rejected/total counts; pending reports count toward total only
+ * - Trust score decays with a 90 day half-life, smoothed to 0.5 for new reporters
+ * - Badge tiers for the review queue
+ * - reporter_reputation view in database/011_reporter_reputation.sql mirrors the rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import type { ReportStatus } from '../../workspaces/shared/types/service-interfaces.js';
+import {
+  REPUTATION_HALF_LIFE_DAYS,
+  computeReporterReputation,
+  reputationTier,
+  reputationWeight
+} from '../../workspaces/shared/utils/reporter-reputation.js';
+import { reporterBadge } from '../../workspaces/frontend/src/lib/report-review-state.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  now: new Date('2026-06-01T00:00:00Z'),
+  migration: new URL('../../database/011_reporter_reputation.sql', import.meta.url)
+};
+
+const daysAgo = (days: number) => new Date(TEST_DATA.now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const outcomes = (status: ReportStatus, count: number, ageDays = 0) =>
+  Array.from({ length: count }, () => ({ status, createdAt: daysAgo(ageDays) }));
+
+describe('Reporter Reputation - Fast', () => {
+  it('counts outcomes and starts new reporters at neutral trust', () => {
+    expect(computeReporterReputation([], TEST_DATA.now)).toEqual({
+      approvedReports: 0,
+      rejectedReports: 0,
+      totalReports: 0,
+      trustScore: 0.5
+    });
+
+    const reputation = computeReporterReputation(
+      [...outcomes('approved', 3), ...outcomes('rejected', 1), ...outcomes('pending', 2)],
+      TEST_DATA.now
+    );
+    expect(reputation).toMatchObject({ approvedReports: 3, rejectedReports: 1, totalReports: 6 });
+    expect(reputation.trustScore).toBeCloseTo(4 / 6);
+  });
+
+  it('halves the weight of an outcome every half-life', () => {
+    expect(reputationWeight(daysAgo(0), TEST_DATA.now)).toBe(1);
+    expect(reputationWeight(daysAgo(REPUTATION_HALF_LIFE_DAYS), TEST_DATA.now)).toBeCloseTo(0.5);
+    expect(reputationWeight(daysAgo(REPUTATION_HALF_LIFE_DAYS * 2), TEST_DATA.now)).toBeCloseTo(0.25);
+
+    // Old rejections matter less than recent approvals, and vice versa
+    const recovered = computeReporterReputation(
+      [...outcomes('rejected', 4, 720), ...outcomes('approved', 4)],
+      TEST_DATA.now
+    );
+    const slipping = computeReporterReputation(
+      [...outcomes('approved', 4, 720), ...outcomes('rejected', 4)],
+      TEST_DATA.now
+    );
+    expect(recovered.trustScore).toBeGreaterThan(0.8);
+    expect(slipping.trustScore).toBeLessThan(0.2);
+  });
+
+  it('assigns badge tiers with trust problems ahead of experience', () => {
+    const tierFor = (...reports: ReturnType<typeof outcomes>[]) =>
+      reputationTier(computeReporterReputation(reports.flat(), TEST_DATA.now));
+
+    expect(tierFor(outcomes('approved', 2))).toBe('new');
+    expect(tierFor(outcomes('approved', 3))).toBe('contributor');
+    expect(tierFor(outcomes('approved', 6))).toBe('established');
+    expect(tierFor(outcomes('approved', 6, 1000), outcomes('rejected', 5))).toBe('untrusted');
+
+    expect(reporterBadge(computeReporterReputation(outcomes('approved', 6), TEST_DATA.now))).toEqual({
+      tier: 'established',
+      label: 'Established reporter',
+      title: '6 approved, 0 rejected of 6 reports · 88% trust'
+    });
+  });
+
+  it('keeps the SQL view on the same half-life and smoothing', () => {
+    const sql = readFileSync(TEST_DATA.migration, 'utf8');
+
+    expect(sql).toContain(`/ 86400.0 / ${REPUTATION_HALF_LIFE_DAYS})`);
+    expect(sql).toMatch(/FILTER \(WHERE r\.status = 'approved'\), 0\) \+ 1/);
+    expect(sql).toMatch(/FILTER \(WHERE r\.status IN \('approved', 'rejected'\)\), 0\) \+ 2/);
+    expect(sql).toMatch(/CREATE OR REPLACE VIEW public_users AS[\s\S]*rr\.trust_score/);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * Reporting Service Tests - Fast Version
+ *
+ * CommunityReportingService over in-memory repositories:
+ * - Spec confidence scoring from evidence and reporter reputation
+ * - Auto-approval only for high-confidence stock status changes
+ * - Reports and evidence persisted together, removed together on failure
+ * - Reviews applied once, with reviewer and notes recorded
+ * - Only the listing owner or a moderator reviews; the queue is scoped to match
+ *   and shows each reporter's name and reputation
+ * - Agreeing reports corroborate each other; differing claims flag a conflict
+ * - Claimed values validated on submit
+ * - Approvals applied: claimed price, claimed stock state, shop closure
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ClaimedValues, CommunityReport, CreateReportRequest, Evidence, Item, ReportType, User, UserRole } from '../../workspaces/shared/types/service-interfaces.js';
+import { CommunityReportingService, ReportingError } from '../../workspaces/backend/src/services/reporting-service.js';
+import {
+  InMemoryCommunityReportRepository,
+  InMemoryEvidenceRepository,
+  InMemoryItemRepository,
+  InMemoryPriceRepository,
+  InMemoryUserRepository
+} from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: 'user_steve',
+  notch: 'user_notch',
+  alex: 'user_alex',
+  itemId: 'item_diamond_sword',
+  server: 'Safe Survival',
+  fullEvidence: [
+    { evidenceType: 'screenshot', filePath: 'sign.png' },
+    { evidenceType: 'transaction_record', description: 'Bought 1 for 40 diamonds' }
+  ] as CreateReportRequest['evidence'],
+  claims: {
+    price_change: { priceDiamonds: 40, tradingUnit: 'per_item' },
+    stock_status: { inStock: true },
+    shop_closure: { closedOn: '2026-01-01' }
+  } as Partial<Record<ReportType, ClaimedValues>>
+};
+
+const listing = (id: string, overrides: Partial<Item> = {}): Item => ({
+  id,
+  ownerId: TEST_DATA.alex,
+  name: 'Diamond Sword',
+  description: '',
+  category: 'tools',
+  minecraftId: 'minecraft:diamond_sword',
+  stockQuantity: 0,
+  isAvailable: false,
+  serverName: TEST_DATA.server,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const user = (id: string, role: UserRole = 'user'): User => ({
+  id,
+  discordId: `discord_${id}`,
+  username: id,
+  role,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const evidenceOf = (...types: Evidence['evidenceType'][]): Evidence[] =>
+  types.map((evidenceType, i) => ({ id: `e${i}`, reportId: 'r', evidenceType, createdAt: new Date() }));
+
+describe('Reporting Service - Fast', () => {
+  let items: InMemoryItemRepository;
+  let prices: InMemoryPriceRepository;
+  let reports: InMemoryCommunityReportRepository;
+  let evidence: InMemoryEvidenceRepository;
+  let users: InMemoryUserRepository;
+  let service: CommunityReportingService;
+  const moderator = user(TEST_DATA.notch, 'moderator');
+  const owner = user(TEST_DATA.alex, 'shop_owner');
+
+  // Prior reports for a reporter, so history is read from the repository
+  const seedHistory = async (reporterId: string, approved: number, rejected = 0, createdAt?: Date) => {
+    const statuses = [...Array(approved).fill('approved'), ...Array(rejected).fill('rejected')];
+    for (const [i, status] of statuses.entries()) {
+      await reports.save({
+        id: `${reporterId}_${i}`,
+        itemId: TEST_DATA.itemId,
+        reporterId,
+        reportType: 'price_change',
+        description: 'Earlier report',
+        status,
+        autoApproved: false,
+        createdAt: createdAt ?? new Date(2025, 0, i + 1)
+      } satisfies CommunityReport);
+    }
+  };
+
+  const submit = (request: Partial<CreateReportRequest> = {}, reporterId = TEST_DATA.steve) =>
+    service.submitReport({
+      itemId: TEST_DATA.itemId,
+      reportType: 'stock_status',
+      description: 'Diamond swords are back in stock',
+      claimedValues: TEST_DATA.claims[request.reportType ?? 'stock_status'],
+      ...request
+    }, reporterId);
+
+  beforeEach(async () => {
+    items = new InMemoryItemRepository();
+    prices = new InMemoryPriceRepository();
+    evidence = new InMemoryEvidenceRepository();
+    reports = new InMemoryCommunityReportRepository(evidence, items);
+    users = new InMemoryUserRepository();
+    service = new CommunityReportingService(items, prices, reports, evidence, users);
+
+    await users.save(user(TEST_DATA.steve));
+
+    await items.save(listing(TEST_DATA.itemId));
+  });
+
+  it('scores confidence with the spec rules', () => {
+    const established = { approvedReports: 6, totalReports: 8 };
+
+    expect(service.calculateConfidence(evidenceOf('screenshot', 'transaction_record'), established)).toBe('high');
+    expect(service.calculateConfidence(evidenceOf('screenshot', 'transaction_record'), { approvedReports: 5, totalReports: 8 })).toBe('medium');
+    expect(service.calculateConfidence(evidenceOf('screenshot'), established)).toBe('medium');
+    expect(service.calculateConfidence(evidenceOf('transaction_record'), { approvedReports: 0, totalReports: 3 })).toBe('medium');
+    expect(service.calculateConfidence(evidenceOf('description', 'external_link'), established)).toBe('low');
+    expect(service.calculateConfidence(evidenceOf('screenshot', 'transaction_record'), { approvedReports: 0, totalReports: 2 })).toBe('low');
+    expect(service.calculateConfidence(evidenceOf('screenshot', 'transaction_record'))).toBe('medium');
+  });
+
+  it('auto-approves high-confidence stock status reports from established reporters', async () => {
+    await seedHistory(TEST_DATA.notch, 6);
+
+    const report = await submit({ evidence: TEST_DATA.fullEvidence }, TEST_DATA.notch);
+
+    expect(report).toMatchObject({ status: 'approved', autoApproved: true, confidenceLevel: 'high' });
+    expect(await evidence.findByReportId(report.id)).toHaveLength(2);
+    expect((await items.findById(TEST_DATA.itemId))?.isAvailable).toBe(true);
+  });
+
+  it('keeps price changes and closures in manual review at any confidence', async () => {
+    await seedHistory(TEST_DATA.notch, 6);
+
+    for (const reportType of ['price_change', 'shop_closure'] as const) {
+      const report = await submit({ reportType, evidence: TEST_DATA.fullEvidence }, TEST_DATA.notch);
+      expect(report).toMatchObject({ status: 'pending', autoApproved: false, confidenceLevel: 'high' });
+    }
+  });
+
+  it('scores new reporters and description-only reports low', async () => {
+    const fromNewReporter = await submit({ evidence: TEST_DATA.fullEvidence });
+    expect(fromNewReporter).toMatchObject({ status: 'pending', confidenceLevel: 'low' });
+
+    await seedHistory(TEST_DATA.notch, 6, 2);
+    const descriptionOnly = await submit({
+      reportType: 'incorrect_info',
+      evidence: [{ evidenceType: 'description', description: 'Saw it restocked' }]
+    }, TEST_DATA.notch);
+    expect(descriptionOnly).toMatchObject({ status: 'pending', confidenceLevel: 'low' });
+  });
+
+  it('scores reporters whose recent reports were mostly rejected low', async () => {
+    // Six old approvals still make an established count, but recent rejections sink trust
+    await seedHistory(TEST_DATA.notch, 6, 0, new Date(2020, 0, 1));
+    for (let i = 0; i < 8; i++) {
+      await reports.save({
+        id: `rejected_${i}`,
+        itemId: TEST_DATA.itemId,
+        reporterId: TEST_DATA.notch,
+        reportType: 'stock_status',
+        description: 'Restocked, honest',
+        status: 'rejected',
+        autoApproved: false,
+        createdAt: new Date()
+      });
+    }
+
+    const reputation = await reports.getReporterReputation(TEST_DATA.notch);
+    expect(reputation).toMatchObject({ approvedReports: 6, rejectedReports: 8, totalReports: 14 });
+    expect(reputation.trustScore).toBeLessThan(0.25);
+
+    const report = await submit({ evidence: TEST_DATA.fullEvidence }, TEST_DATA.notch);
+    expect(report).toMatchObject({ status: 'pending', autoApproved: false, confidenceLevel: 'low' });
+  });
+
+  it('rejects unknown items and removes the report when evidence cannot be saved', async () => {
+    await expect(submit({ itemId: 'missing' })).rejects.toMatchObject({ code: 'ITEM_NOT_FOUND' });
+
+    evidence.save = async () => { throw new Error('connection reset'); };
+    await expect(submit({ evidence: TEST_DATA.fullEvidence })).rejects.toThrow('connection reset');
+    expect(reports.reports.size).toBe(0);
+  });
+
+  it('keeps an applied auto-approval when settling its cluster fails', async () => {
+    await seedHistory(TEST_DATA.notch, 6);
+    const pending = await submit();
+    reports.update = async () => { throw new Error('connection reset'); };
+
+    await expect(submit({ evidence: TEST_DATA.fullEvidence }, TEST_DATA.notch)).rejects.toThrow('connection reset');
+
+    // The listing changed, so the report that changed it is kept
+    expect((await items.findById(TEST_DATA.itemId))?.isAvailable).toBe(true);
+    const [approved] = (await reports.findAll({ status: 'approved', reportType: 'stock_status' }));
+    expect(approved).toMatchObject({ reporterId: TEST_DATA.notch, autoApproved: true, clusterId: pending.id });
+    expect(await evidence.findByReportId(approved.id)).toHaveLength(2);
+  });
+
+  it('reviews pending reports once and drops them from the queue', async () => {
+    const first = await submit();
+    const second = await submit({ reportType: 'price_change' });
+    expect((await service.getPendingReports()).map(r => r.id).sort()).toEqual([first.id, second.id].sort());
+
+    const rejected = await service.reviewReport(first.id, { approved: false, notes: 'Shop was empty' }, moderator);
+    expect(rejected).toMatchObject({ status: 'rejected', reviewedBy: TEST_DATA.notch, reviewNotes: 'Shop was empty' });
+    expect(rejected.reviewedAt).toBeInstanceOf(Date);
+
+    await expect(service.reviewReport(first.id, { approved: true }, moderator))
+      .rejects.toBeInstanceOf(ReportingError);
+    await expect(service.reviewReport('missing', { approved: true }, moderator))
+      .rejects.toMatchObject({ code: 'REPORT_NOT_FOUND' });
+    expect((await service.getPendingReports()).map(r => r.id)).toEqual([second.id]);
+    expect(await service.getReportsForItem(TEST_DATA.itemId)).toHaveLength(2);
+    expect((await items.findById(TEST_DATA.itemId))?.isAvailable).toBe(false);
+  });
+
+  it('limits reviews and the queue to the listing owner and moderators', async () => {
+    await items.save(listing('item_steve_pickaxe', { ownerId: TEST_DATA.steve, name: 'Diamond Pickaxe' }));
+    const onAlexListing = await submit();
+    const onSteveListing = await submit({ itemId: 'item_steve_pickaxe' }, TEST_DATA.alex);
+
+    expect((await service.getReviewQueue(owner)).map(entry => entry.id)).toEqual([onAlexListing.id]);
+    expect(await service.getReviewQueue(moderator)).toHaveLength(2);
+    expect((await service.getReviewQueue(owner))[0]).toMatchObject({
+      item: { id: TEST_DATA.itemId },
+      evidence: [],
+      reporter: { id: TEST_DATA.steve, username: TEST_DATA.steve, reputation: { totalReports: 1, trustScore: 0.5 } }
+    });
+
+    await expect(service.reviewReport(onSteveListing.id, { approved: true }, owner))
+      .rejects.toMatchObject({ code: 'NOT_REPORT_REVIEWER' });
+    await expect(service.reviewReport(onAlexListing.id, { approved: true }, user(TEST_DATA.steve)))
+      .rejects.toMatchObject({ code: 'NOT_REPORT_REVIEWER' });
+
+    const approved = await service.reviewReport(onAlexListing.id, { approved: true }, owner);
+    expect(approved).toMatchObject({ status: 'approved', reviewedBy: TEST_DATA.alex });
+    expect((await items.findById(TEST_DATA.itemId))?.isAvailable).toBe(true);
+  });
+
+  it('loads the queue\'s listings, reporters, evidence and reputations in one batch', async () => {
+    await items.save(listing('item_alex_pickaxe', { name: 'Diamond Pickaxe' }));
+    await submit({ evidence: TEST_DATA.fullEvidence });
+    await submit({ itemId: 'item_alex_pickaxe', reportType: 'price_change' }, TEST_DATA.notch);
+
+    const perReportLookups = [
+      vi.spyOn(items, 'findById'),
+      vi.spyOn(users, 'findById'),
+      vi.spyOn(evidence, 'findByReportId'),
+      vi.spyOn(reports, 'getReporterReputation'),
+      vi.spyOn(prices, 'findByItemId')
+    ];
+    const findByIds = vi.spyOn(items, 'findByIds');
+
+    const queue = await service.getReviewQueue(owner);
+
+    expect(queue).toHaveLength(2);
+    expect(queue[0].evidence).toHaveLength(2);
+    expect(findByIds).toHaveBeenCalledTimes(1);
+    for (const lookup of perReportLookups) {
+      expect(lookup).not.toHaveBeenCalled();
+    }
+  });
+
+  it('applies the claimed price on approval unless the reviewer corrects it', async () => {
+    const claimed = await submit({ reportType: 'price_change', description: 'Now 40 diamonds' }, TEST_DATA.steve);
+    await service.reviewReport(claimed.id, { approved: true }, owner);
+
+    const currentPrice = async () => (await prices.findByItemId(TEST_DATA.itemId)).find(price => price.isCurrent);
+    expect(await currentPrice()).toMatchObject({ priceDiamonds: 40, tradingUnit: 'per_item', source: 'community_report', createdBy: TEST_DATA.steve });
+    expect((await currentPrice())?.confidenceLevel).toBe(claimed.confidenceLevel);
+
+    const corrected = await submit({ reportType: 'price_change', claimedValues: { priceDiamonds: 45, tradingUnit: 'per_item' } }, TEST_DATA.notch);
+    await expect(service.reviewReport(corrected.id, { approved: true, price: { priceDiamonds: 44, tradingUnit: 'per_stack' } }, owner))
+      .rejects.toMatchObject({ code: 'INVALID_TRADING_UNIT' });
+    expect((await reports.findById(corrected.id))?.status).toBe('pending');
+
+    await service.reviewReport(corrected.id, { approved: true, price: { priceDiamonds: 44, tradingUnit: 'per_item' } }, owner);
+    expect(await currentPrice()).toMatchObject({ priceDiamonds: 44, createdBy: TEST_DATA.notch });
+
+    // Reports from before claimed values need the reviewer to supply the price
+    await reports.save({ ...claimed, id: 'legacy_price', status: 'pending', claimedValues: undefined, clusterId: undefined });
+    await expect(service.reviewReport('legacy_price', { approved: true }, owner))
+      .rejects.toMatchObject({ code: 'PRICE_REQUIRED' });
+  });
+
+  it('validates claimed values against the report type and listing', async () => {
+    const invalid = (request: Partial<CreateReportRequest>) => expect(submit(request)).rejects.toMatchObject({ code: 'INVALID_CLAIM' });
+
+    await invalid({ reportType: 'price_change', claimedValues: undefined });
+    await invalid({ reportType: 'price_change', claimedValues: { priceDiamonds: 0, tradingUnit: 'per_item' } });
+    await invalid({ reportType: 'stock_status', claimedValues: { inStock: true, stockQuantity: 0 } });
+    await invalid({ reportType: 'shop_closure', claimedValues: { closedOn: '2999-01-01' } });
+    await invalid({ reportType: 'incorrect_info', claimedValues: { inStock: false } });
+    await expect(submit({ reportType: 'price_change', claimedValues: { priceDiamonds: 40, tradingUnit: 'per_stack' } }))
+      .rejects.toMatchObject({ code: 'INVALID_TRADING_UNIT' });
+    expect(reports.reports.size).toBe(0);
+
+    const stored = await submit({ reportType: 'shop_closure', claimedValues: { closedOn: '2026-01-01' } });
+    expect(stored.claimedValues).toEqual({ closedOn: '2026-01-01' });
+  });
+
+  it('sets the claimed stock state instead of toggling availability', async () => {
+    await items.update(TEST_DATA.itemId, { isAvailable: true, stockQuantity: 12 });
+
+    const soldOut = await submit({ claimedValues: { inStock: false, stockQuantity: 0 } });
+    await service.reviewReport(soldOut.id, { approved: true }, owner);
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ isAvailable: false, stockQuantity: 0 });
+
+    const restocked = await submit({ claimedValues: { inStock: true, stockQuantity: 30 } });
+    await service.reviewReport(restocked.id, { approved: true }, owner);
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ isAvailable: true, stockQuantity: 30 });
+  });
+
+  it('merges agreeing reports as corroboration and reviews them together', async () => {
+    const first = await submit({ reportType: 'price_change', description: 'Now 40 diamonds' });
+    const repeat = await submit({ reportType: 'price_change', description: 'Sign at spawn says 40 each' });
+    const second = await submit({ reportType: 'price_change', description: 'Now 40 diamonds' }, TEST_DATA.notch);
+
+    // Repeats by the same player do not corroborate; another player does
+    expect(repeat).toMatchObject({ clusterId: first.id, confidenceLevel: 'low', hasConflict: false });
+    expect(second).toMatchObject({ clusterId: first.id, confidenceLevel: 'medium', hasConflict: false });
+    expect(await reports.findById(first.id)).toMatchObject({ clusterId: first.id, confidenceLevel: 'medium' });
+
+    const [entry, ...rest] = await service.getReviewQueue(owner);
+    expect(rest).toEqual([]);
+    expect(entry).toMatchObject({ id: first.id, cluster: { id: first.id, reporterCount: 2, hasConflict: false } });
+    expect(entry.cluster?.reportIds.sort()).toEqual([first.id, repeat.id, second.id].sort());
+
+    await service.reviewReport(first.id, { approved: true, price: { priceDiamonds: 40, tradingUnit: 'per_item' } }, owner);
+
+    expect((await service.getPendingReports())).toEqual([]);
+    expect(await reports.findById(second.id)).toMatchObject({ status: 'approved', reviewedBy: TEST_DATA.alex });
+    expect((await prices.findByItemId(TEST_DATA.itemId))).toHaveLength(1);
+  });
+
+  it('flags conflicting claims and rejects them when one is approved', async () => {
+    const forty = await submit({ reportType: 'price_change', description: 'Now 40 diamonds' });
+    const fortyAgain = await submit({ reportType: 'price_change', description: 'Now 40 diamonds' }, TEST_DATA.notch);
+    const fifty = await submit({ reportType: 'price_change', claimedValues: { priceDiamonds: 50, tradingUnit: 'per_item' } }, 'user_herobrine');
+
+    expect(fifty).toMatchObject({ clusterId: forty.id, hasConflict: true, confidenceLevel: 'low' });
+    expect(await reports.findById(fortyAgain.id)).toMatchObject({ hasConflict: true });
+
+    const queue = await service.getReviewQueue(moderator);
+    expect(queue.map(entry => [entry.cluster?.reporterCount, entry.cluster?.hasConflict]).sort()).toEqual([[1, true], [2, true]]);
+    expect(queue.find(entry => entry.cluster?.reporterCount === 1)?.id).toBe(fifty.id);
+
+    await service.reviewReport(fifty.id, { approved: false, notes: 'Sign still says 40' }, moderator);
+    expect(await reports.findById(forty.id)).toMatchObject({ status: 'pending', hasConflict: false });
+
+    const other = await submit({ reportType: 'price_change', claimedValues: { priceDiamonds: 35, tradingUnit: 'per_item' } }, 'user_herobrine');
+    await service.reviewReport(fortyAgain.id, { approved: true, price: { priceDiamonds: 40, tradingUnit: 'per_item' } }, moderator);
+
+    expect(await reports.findById(forty.id)).toMatchObject({ status: 'approved' });
+    expect(await reports.findById(other.id)).toMatchObject({
+      status: 'rejected',
+      reviewNotes: `Conflicts with approved report ${fortyAgain.id}`
+    });
+  });
+
+  it('settles a pending stock cluster once a corroborating report auto-approves', async () => {
+    await seedHistory(TEST_DATA.notch, 6);
+    const pending = await submit();
+
+    const approved = await submit({ evidence: TEST_DATA.fullEvidence }, TEST_DATA.notch);
+    expect(approved).toMatchObject({ status: 'approved', autoApproved: true, clusterId: pending.id });
+    expect(await reports.findById(pending.id)).toMatchObject({ status: 'approved', autoApproved: false });
+
+    // The change is applied once for the whole cluster
+    expect((await items.findById(TEST_DATA.itemId))?.isAvailable).toBe(true);
+    expect(await service.getReviewQueue(moderator)).toEqual([]);
+  });
+
+  it('does not auto-approve a report lifted to high only by corroboration', async () => {
+    const first = await submit({ description: 'Back in stock' }, 'user_newcomer_1');
+    await submit({ description: 'Back in stock' }, 'user_newcomer_2');
+
+    const third = await submit({ evidence: TEST_DATA.fullEvidence });
+
+    expect(third).toMatchObject({ status: 'pending', autoApproved: false, confidenceLevel: 'high' });
+    expect(await reports.findById(first.id)).toMatchObject({ status: 'pending' });
+    expect((await items.findById(TEST_DATA.itemId))?.isAvailable).toBe(false);
+  });
+
+  it('deactivates every listing the owner has on the server when a closure is approved', async () => {
+    await items.update(TEST_DATA.itemId, { isAvailable: true });
+    await items.save(listing('item_alex_pickaxe', { isAvailable: true }));
+    await items.save(listing('item_alex_elytra', { isAvailable: true, serverName: 'Hermitcraft' }));
+    await items.save(listing('item_steve_shovel', { isAvailable: true, ownerId: TEST_DATA.steve }));
+
+    const report = await submit({ reportType: 'shop_closure', description: 'Shop at spawn is gone' });
+    await service.reviewReport(report.id, { approved: true }, moderator);
+
+    const availability = async (id: string) => (await items.findById(id))?.isAvailable;
+    expect(await availability(TEST_DATA.itemId)).toBe(false);
+    expect(await availability('item_alex_pickaxe')).toBe(false);
+    expect(await availability('item_alex_elytra')).toBe(true);
+    expect(await availability('item_steve_shovel')).toBe(true);
+  });
+});
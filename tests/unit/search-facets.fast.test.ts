@@ -0,0 +1,91 @@
+/**
+ * Faceted Search Counts Tests - Fast Version
+ *
+ * search_facets RPC client used by SearchFilters and FilterBar:
+ * - Filter state translated to RPC arguments ('any' and '' dropped)
+ * - Each facet counted with every filter except its own
+ * - "Tools (42)" style labels
+ */
+
+import { describe, it, expect, beforeAll, afterEach, afterAll } from 'vitest';
+import { setupServer } from 'msw/node';
+import { http, HttpResponse } from 'msw';
+import { postgrestHandlers, REALISTIC_MARKETPLACE_DATA } from '../mocks/postgrest-handlers.js';
+import {
+  buildFacetParams,
+  loadSearchFacets,
+  withFacetCount
+} from '../../workspaces/frontend/src/lib/search-facets.js';
+import { loadEnhancedHomepageData } from '../../workspaces/frontend/src/lib/enhanced-homepage-data.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  facetsUrl: 'http://localhost:7410/api/data/rpc/search_facets',
+  category: 'blocks',
+  biome: 'plains'
+};
+
+const countWhere = (predicate: (item: any) => boolean) =>
+  REALISTIC_MARKETPLACE_DATA.filter(predicate).length;
+
+describe('Search Facets - Fast', () => {
+  const server = setupServer(...postgrestHandlers);
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'warn' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  it('maps filter state to RPC arguments', () => {
+    expect(buildFacetParams({
+      search: '  sword ',
+      category: '',
+      biome: 'any',
+      serverName: 'Safe Survival',
+      tradingUnit: 'per_stack',
+      priceRange: { max: 64 },
+      verification: 'verified'
+    })).toEqual({
+      search: 'sword',
+      server_name: 'Safe Survival',
+      trading_unit: 'per_stack',
+      max_price: 64,
+      verification: 'verified'
+    });
+  });
+
+  it('counts each facet without its own filter', async () => {
+    const facets = await loadSearchFacets({ category: TEST_DATA.category, biome: TEST_DATA.biome });
+
+    expect(facets.total).toBe(countWhere(item => item.category === TEST_DATA.category && item.biome === TEST_DATA.biome));
+    // Sibling categories stay countable while one is selected
+    expect(facets.category.food).toBe(countWhere(item => item.category === 'food' && item.biome === TEST_DATA.biome));
+    expect(facets.biome[TEST_DATA.biome]).toBe(facets.total);
+    expect(Object.values(facets.trading_unit).reduce((sum, count) => sum + count, 0)).toBe(facets.total);
+  });
+
+  it('labels options with counts once facets load', async () => {
+    const facets = await loadSearchFacets();
+
+    expect(withFacetCount('🔧 Tools', facets, 'category', 'tools')).toBe(`🔧 Tools (${facets.category.tools})`);
+    expect(withFacetCount('🌌 End', { ...facets, biome: {} }, 'biome', 'end')).toBe('🌌 End (0)');
+    expect(withFacetCount('Any Biome', facets, 'biome', 'any')).toBe('Any Biome');
+    expect(withFacetCount('🔧 Tools', null, 'category', 'tools')).toBe('🔧 Tools');
+  });
+
+  it('falls back to empty counts when the RPC fails', async () => {
+    server.use(http.post(TEST_DATA.facetsUrl, () => new HttpResponse(null, { status: 500 })));
+
+    const facets = await loadSearchFacets({ category: TEST_DATA.category });
+
+    expect(facets.total).toBe(0);
+    expect(facets.category).toEqual({});
+  });
+
+  it('builds homepage categories from facet counts instead of fetching every row', async () => {
+    const data = await loadEnhancedHomepageData({ biome: TEST_DATA.biome }, 1, 5);
+
+    const blocks = data.categories.find(category => category.name === TEST_DATA.category);
+    expect(blocks?.count).toBe(countWhere(item => item.category === TEST_DATA.category && item.biome === TEST_DATA.biome));
+    expect(data.facets.biome[TEST_DATA.biome]).toBe(data.pagination.totalItems);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Session Middleware Tests - Fast Version
+ *
+ * SPEC Epic 3: HTTP-only cookie sessions
+ * - Valkey cache in front of PostgreSQL sessions, with database fallback
+ * - Session rotation when a user's role changes
+ * - Logout and "log out all devices" revocation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { User } from '../../workspaces/shared/types/service-interfaces.js';
+import {
+  SESSION_COOKIE_NAME,
+  SessionService,
+  hashSessionToken,
+  readCachedSession,
+  sessionCacheKey
+} from '../../workspaces/shared/services/session-service.js';
+import { DiscordAuthenticationService } from '../../workspaces/backend/src/services/authentication-service.js';
+import { createSessionMiddleware } from '../../workspaces/backend/src/middleware/session.js';
+import { createAuthRoutes } from '../../workspaces/backend/src/routes/auth.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import { InMemorySessionRepository, InMemoryUserRepository } from '../mocks/backend-repositories.js';
+import { MockValkeyService } from '../mocks/valkey-mock.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: {
+    id: 'user_steve',
+    discordId: '123456789012345678',
+    username: 'Steve',
+    role: 'user',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  } satisfies User
+};
+
+const sessionCookie = (token: string) => ({ Cookie: `${SESSION_COOKIE_NAME}=${token}` });
+
+const cookieValue = (response: Response): string | undefined =>
+  response.headers.get('set-cookie')?.match(new RegExp(`${SESSION_COOKIE_NAME}=([^;]*)`))?.[1];
+
+describe('Session Middleware - Fast', () => {
+  let app: Hono<AppEnv>;
+  let users: InMemoryUserRepository;
+  let sessions: InMemorySessionRepository;
+  let cache: MockValkeyService;
+  let sessionService: SessionService;
+
+  beforeEach(async () => {
+    users = new InMemoryUserRepository();
+    sessions = new InMemorySessionRepository();
+    cache = new MockValkeyService();
+    await cache.connect();
+    sessionService = new SessionService(sessions, users, cache);
+    await users.save(TEST_DATA.steve);
+
+    const container = new ServiceContainer();
+    container.register(SERVICE_KEYS.SESSION_SERVICE, () => sessionService);
+    container.register(SERVICE_KEYS.AUTHENTICATION_SERVICE, () =>
+      new DiscordAuthenticationService(users, sessionService, {
+        clientId: 'client',
+        clientSecret: 'secret',
+        redirectUri: 'http://localhost/api/auth/discord-callback',
+        apiBaseUrl: 'http://127.0.0.1:9',
+        jwtSecret: 'test_jwt_secret_minimum_32_characters!',
+        jwtTtlSeconds: 3600
+      })
+    );
+
+    app = new Hono<AppEnv>();
+    app.use('/api/*', createSessionMiddleware(container));
+    app.route('/api/v1/auth', createAuthRoutes(container));
+  });
+
+  it('resolves the session cookie to the current user', async () => {
+    const token = await sessionService.createSession(TEST_DATA.steve);
+
+    const response = await app.request('/api/v1/auth/me', { headers: sessionCookie(token) });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.user.id).toBe(TEST_DATA.steve.id);
+    expect(body.accessToken).toBeTruthy();
+    expect(response.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('rejects anonymous and unknown sessions, clearing stale cookies', async () => {
+    expect((await app.request('/api/v1/auth/me')).status).toBe(401);
+
+    const response = await app.request('/api/v1/auth/me', { headers: sessionCookie('forged') });
+    expect(response.status).toBe(401);
+    expect(cookieValue(response)).toBe('');
+  });
+
+  it('falls back to PostgreSQL when the cache misses and repopulates it', async () => {
+    const token = await sessionService.createSession(TEST_DATA.steve);
+    await cache.clear();
+
+    const response = await app.request('/api/v1/auth/me', { headers: sessionCookie(token) });
+
+    expect(response.status).toBe(200);
+    expect((await readCachedSession(cache, token))?.id).toBe(TEST_DATA.steve.id);
+  });
+
+  it('rotates the session with an HTTP-only cookie when the role changes', async () => {
+    const token = await sessionService.createSession(TEST_DATA.steve);
+    await users.update(TEST_DATA.steve.id, { role: 'shop_owner' });
+    await sessionService.invalidateUser(TEST_DATA.steve.id);
+
+    const response = await app.request('/api/v1/auth/me', { headers: sessionCookie(token) });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).user.role).toBe('shop_owner');
+
+    const setCookie = response.headers.get('set-cookie')!;
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).toContain('SameSite=Lax');
+    const rotated = cookieValue(response)!;
+    expect(rotated).not.toBe(token);
+    expect(Array.from(sessions.sessions.values()).map(s => s.issuedRole)).toEqual(['shop_owner']);
+
+    expect((await app.request('/api/v1/auth/me', { headers: sessionCookie(token) })).status).toBe(401);
+    expect((await app.request('/api/v1/auth/me', { headers: sessionCookie(rotated) })).status).toBe(200);
+  });
+
+  it('logs out a single session and evicts it from the cache', async () => {
+    const token = await sessionService.createSession(TEST_DATA.steve);
+    const other = await sessionService.createSession(TEST_DATA.steve);
+
+    const response = await app.request('/api/v1/auth/logout', { method: 'POST', headers: sessionCookie(token) });
+
+    expect(response.status).toBe(204);
+    expect(cookieValue(response)).toBe('');
+    expect(await cache.get(sessionCacheKey(hashSessionToken(token)))).toBeNull();
+    expect((await app.request('/api/v1/auth/me', { headers: sessionCookie(token) })).status).toBe(401);
+    expect((await app.request('/api/v1/auth/me', { headers: sessionCookie(other) })).status).toBe(200);
+  });
+
+  it('revokes every session for the user on logout-all', async () => {
+    const laptop = await sessionService.createSession(TEST_DATA.steve);
+    const phone = await sessionService.createSession(TEST_DATA.steve);
+
+    const response = await app.request('/api/v1/auth/logout-all', { method: 'POST', headers: sessionCookie(laptop) });
+
+    expect(response.status).toBe(204);
+    expect(sessions.sessions.size).toBe(0);
+    expect((await app.request('/api/v1/auth/me', { headers: sessionCookie(phone) })).status).toBe(401);
+  });
+});
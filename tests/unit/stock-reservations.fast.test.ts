@@ -0,0 +1,154 @@
+/**
+ * Stock Reservation Tests - Fast Version
+ *
+ * ExpiringStockReservationService over the in-memory repositories and job
+ * queue:
+ * - Holds raise the listing's reserved quantity and are refused once
+ *   unreserved stock runs out
+ * - Each hold queues a sweep that releases it once its window has passed
+ * - Releasing a trade's hold gives the stock back exactly once
+ * - Completing a trade converts its hold into the stock decrement
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Transaction } from '../../workspaces/shared/types/service-interfaces.js';
+import { availableStock } from '../../workspaces/shared/utils/transaction-lifecycle.js';
+import { DurableJobQueue } from '../../workspaces/backend/src/services/job-queue.js';
+import {
+  ExpiringStockReservationService,
+  RESERVATION_JOB_QUEUE
+} from '../../workspaces/backend/src/services/stock-reservation-service.js';
+import {
+  InMemoryItemRepository,
+  InMemoryJobRepository,
+  InMemoryStockReservationRepository,
+  InMemoryTransactionRepository
+} from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  itemId: 'item_shulker_box',
+  itemName: 'Shulker Box',
+  seller: 'user_alex',
+  buyers: ['user_steve', 'user_notch'],
+  stock: 3,
+  holdMs: 15 * 60 * 1000,
+  now: new Date('2026-10-19T12:00:00Z')
+};
+
+const trade = (id: string, buyerId: string, quantity: number, status: Transaction['status'] = 'pending'): Transaction => ({
+  id,
+  itemId: TEST_DATA.itemId,
+  itemName: TEST_DATA.itemName,
+  buyerId,
+  sellerId: TEST_DATA.seller,
+  quantity,
+  priceDiamonds: 20,
+  tradingUnit: 'per_item',
+  totalDiamonds: 20 * quantity,
+  status,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('ExpiringStockReservationService - Fast', () => {
+  let items: InMemoryItemRepository;
+  let holds: InMemoryStockReservationRepository;
+  let jobs: InMemoryJobRepository;
+  let jobQueue: DurableJobQueue;
+  let service: ExpiringStockReservationService;
+
+  const available = async () => availableStock((await items.findById(TEST_DATA.itemId))!);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(TEST_DATA.now);
+
+    items = new InMemoryItemRepository();
+    holds = new InMemoryStockReservationRepository(items);
+    jobs = new InMemoryJobRepository();
+    jobQueue = new DurableJobQueue(jobs, {
+      pollIntervalMs: 1000,
+      batchSize: 10,
+      visibilityTimeoutMs: 60000,
+      maxAttempts: 3,
+      baseRetryDelayMs: 1000,
+      maxRetryDelayMs: 60000,
+      completedRetentionMs: 86400000
+    });
+    service = new ExpiringStockReservationService(holds, jobQueue, { holdMs: TEST_DATA.holdMs });
+
+    await items.save({
+      id: TEST_DATA.itemId,
+      ownerId: TEST_DATA.seller,
+      name: TEST_DATA.itemName,
+      description: 'Purple, empty',
+      category: 'blocks',
+      minecraftId: 'minecraft:shulker_box',
+      stockQuantity: TEST_DATA.stock,
+      isAvailable: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('holds stock until unreserved stock runs out', async () => {
+    const first = await service.hold(trade('tx_1', TEST_DATA.buyers[0], 2));
+    expect(first).toMatchObject({ status: 'active', quantity: 2, holderId: TEST_DATA.buyers[0] });
+    expect(first!.expiresAt).toEqual(new Date(TEST_DATA.now.getTime() + TEST_DATA.holdMs));
+    expect(await available()).toBe(1);
+
+    expect(await service.hold(trade('tx_2', TEST_DATA.buyers[1], 2))).toBeNull();
+    expect(await service.hold(trade('tx_3', TEST_DATA.buyers[1], 1))).not.toBeNull();
+    expect(await available()).toBe(0);
+  });
+
+  it('releases holds from the queued sweep once their window has passed', async () => {
+    await service.hold(trade('tx_1', TEST_DATA.buyers[0], 2));
+    expect([...jobs.jobs.values()]).toEqual([
+      expect.objectContaining({ queue: RESERVATION_JOB_QUEUE, runAt: new Date(TEST_DATA.now.getTime() + TEST_DATA.holdMs) })
+    ]);
+
+    vi.advanceTimersByTime(TEST_DATA.holdMs - 1000);
+    expect(await jobQueue.runOnce()).toBe(0);
+    expect(await available()).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(await jobQueue.runOnce()).toBe(1);
+    expect(await available()).toBe(TEST_DATA.stock);
+    expect(await holds.findAll({ transactionId: 'tx_1' })).toEqual([expect.objectContaining({ status: 'released' })]);
+  });
+
+  it('gives released stock back once', async () => {
+    await service.hold(trade('tx_1', TEST_DATA.buyers[0], 2));
+    await service.hold(trade('tx_2', TEST_DATA.buyers[1], 1));
+
+    expect(await service.release('tx_1')).toMatchObject({ status: 'released', quantity: 2 });
+    expect(await service.release('tx_1')).toBeNull();
+    expect(await available()).toBe(2);
+
+    // A sweep after the window only finds the hold that is still active
+    expect(await service.releaseExpired(new Date(TEST_DATA.now.getTime() + TEST_DATA.holdMs))).toEqual([
+      expect.objectContaining({ transactionId: 'tx_2' })
+    ]);
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ reservedQuantity: 0 });
+  });
+
+  it('converts the hold into the stock decrement on completion', async () => {
+    const transactions = new InMemoryTransactionRepository(items, holds);
+    const accepted = await transactions.save(trade('tx_1', TEST_DATA.buyers[0], 2, 'accepted'));
+    await service.hold(accepted);
+
+    expect(await transactions.complete(accepted.id)).toMatchObject({ status: 'completed' });
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ stockQuantity: 1, reservedQuantity: 0 });
+    expect(await holds.findAll({ transactionId: accepted.id })).toEqual([expect.objectContaining({ status: 'converted' })]);
+
+    // Converted holds are not swept back into stock
+    expect(await service.releaseExpired(new Date(TEST_DATA.now.getTime() + TEST_DATA.holdMs))).toEqual([]);
+    expect(await available()).toBe(1);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Transaction Routes Tests - Fast Version
+ *
+ * Exercises the Hono /api/v1/transactions router and
+ * MarketplaceTransactionService with in-memory repositories:
+ * - Trades opened by the signed-in buyer at the listing's current price
+ * - pending -> accepted -> completed, with stock taken out on completion
+ * - Steps refused for the wrong party or from the wrong state
+ * - Stock held by open trades refused to other buyers and to trades whose
+ *   hold has lapsed
+ * - Trade history seen from both sides, hidden from everyone else
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { User, UserRole } from '../../workspaces/shared/types/service-interfaces.js';
+import { availableTransactionActions } from '../../workspaces/shared/utils/transaction-lifecycle.js';
+import { createTransactionRoutes } from '../../workspaces/backend/src/routes/transactions.js';
+import { MarketplaceTransactionService } from '../../workspaces/backend/src/services/transaction-service.js';
+import { DurableJobQueue } from '../../workspaces/backend/src/services/job-queue.js';
+import { ExpiringStockReservationService } from '../../workspaces/backend/src/services/stock-reservation-service.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import {
+  InMemoryItemRepository,
+  InMemoryJobRepository,
+  InMemoryPriceRepository,
+  InMemoryStockReservationRepository,
+  InMemoryTransactionRepository,
+  InMemoryUserRepository
+} from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  steve: 'user_steve',
+  alex: 'user_alex',
+  notch: 'user_notch',
+  itemId: '7d0f4c1e-3b1a-4c55-9a57-1c2f0e6d9b01',
+  itemName: 'Diamond Sword',
+  stock: 5,
+  priceDiamonds: 12.5,
+  holdMs: 30 * 60 * 1000
+};
+
+const testUser = (id: string, role: UserRole = 'user'): User => ({
+  id,
+  discordId: `discord_${id}`,
+  username: id.replace('user_', ''),
+  shopName: id === TEST_DATA.alex ? "Alex's Armoury" : undefined,
+  role,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Transaction REST Routes - Fast', () => {
+  let app: Hono<AppEnv>;
+  let items: InMemoryItemRepository;
+  let transactions: InMemoryTransactionRepository;
+  let reservations: ExpiringStockReservationService;
+
+  const request = (path: string, userId?: string, body?: unknown, method: string = body === undefined ? 'GET' : 'POST') =>
+    app.request(`/api/v1/transactions${path}`, {
+      method,
+      headers: {
+        ...(userId ? { 'x-test-user': userId } : {}),
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const openTrade = async (quantity: number = 2) => {
+    const response = await request('', TEST_DATA.steve, { itemId: TEST_DATA.itemId, quantity });
+    expect(response.status).toBe(201);
+    return response.json();
+  };
+
+  beforeEach(async () => {
+    const container = new ServiceContainer();
+    const users = new InMemoryUserRepository();
+    const prices = new InMemoryPriceRepository();
+    items = new InMemoryItemRepository();
+    const holds = new InMemoryStockReservationRepository(items);
+    const jobQueue = new DurableJobQueue(new InMemoryJobRepository(), {
+      pollIntervalMs: 1000,
+      batchSize: 10,
+      visibilityTimeoutMs: 60000,
+      maxAttempts: 3,
+      baseRetryDelayMs: 1000,
+      maxRetryDelayMs: 60000,
+      completedRetentionMs: 86400000
+    });
+    transactions = new InMemoryTransactionRepository(items, holds);
+    reservations = new ExpiringStockReservationService(holds, jobQueue, { holdMs: TEST_DATA.holdMs });
+    container.register(SERVICE_KEYS.TRANSACTION_SERVICE, () =>
+      new MarketplaceTransactionService(transactions, items, prices, users, reservations)
+    );
+
+    for (const id of [TEST_DATA.steve, TEST_DATA.alex, TEST_DATA.notch]) {
+      await users.save(testUser(id));
+    }
+    await items.save({
+      id: TEST_DATA.itemId,
+      ownerId: TEST_DATA.alex,
+      name: TEST_DATA.itemName,
+      description: 'Sharpness V',
+      category: 'tools',
+      minecraftId: 'minecraft:diamond_sword',
+      stockQuantity: TEST_DATA.stock,
+      isAvailable: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    await prices.save({
+      id: 'price_diamond_sword',
+      itemId: TEST_DATA.itemId,
+      priceDiamonds: TEST_DATA.priceDiamonds,
+      tradingUnit: 'per_item',
+      isCurrent: true,
+      source: 'owner',
+      createdBy: TEST_DATA.alex,
+      createdAt: new Date()
+    });
+
+    app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      const userId = c.req.header('x-test-user');
+      if (userId) c.set('user', testUser(userId));
+      await next();
+    });
+    app.route('/api/v1/transactions', createTransactionRoutes(container));
+    app.onError((_err, c) => c.json({ error: 'Internal Server Error' }, 500));
+  });
+
+  it('opens a pending trade for the signed-in buyer at the current price', async () => {
+    const trade = await openTrade(2);
+
+    expect(trade).toMatchObject({
+      status: 'pending',
+      buyerId: TEST_DATA.steve,
+      sellerId: TEST_DATA.alex,
+      itemName: TEST_DATA.itemName,
+      priceDiamonds: 12.5,
+      totalDiamonds: 25
+    });
+
+    expect((await request('', undefined, { itemId: TEST_DATA.itemId, quantity: 1 })).status).toBe(401);
+    expect((await request('', TEST_DATA.steve, { itemId: TEST_DATA.itemId, quantity: 1, buyerId: TEST_DATA.notch })).status).toBe(400);
+    expect((await request('', TEST_DATA.alex, { itemId: TEST_DATA.itemId, quantity: 1 })).status).toBe(400);
+    const tooMany = await request('', TEST_DATA.steve, { itemId: TEST_DATA.itemId, quantity: TEST_DATA.stock + 1 });
+    expect((await tooMany.json()).error).toBe('INSUFFICIENT_STOCK');
+  });
+
+  it('takes the quantity out of stock when the seller completes the trade', async () => {
+    const trade = await openTrade(2);
+
+    const accepted = await request(`/${trade.id}/accept`, TEST_DATA.alex, {});
+    expect(await accepted.json()).toMatchObject({ status: 'accepted' });
+    const completed = await request(`/${trade.id}/complete`, TEST_DATA.alex, {});
+    expect(completed.status).toBe(200);
+    expect(await completed.json()).toMatchObject({ status: 'completed' });
+
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ stockQuantity: TEST_DATA.stock - 2, reservedQuantity: 0, isAvailable: true });
+
+    // Completed trades are final except for a dispute
+    const again = await request(`/${trade.id}/complete`, TEST_DATA.alex, {});
+    expect(again.status).toBe(409);
+    expect((await request(`/${trade.id}/dispute`, TEST_DATA.steve, {})).status).toBe(400);
+    const disputed = await request(`/${trade.id}/dispute`, TEST_DATA.steve, { reason: 'Only got one sword' });
+    expect(await disputed.json()).toMatchObject({ status: 'disputed', closedBy: TEST_DATA.steve, closeReason: 'Only got one sword' });
+  });
+
+  it('refuses steps from the wrong party or the wrong state', async () => {
+    const trade = await openTrade(1);
+
+    const buyerAccepts = await request(`/${trade.id}/accept`, TEST_DATA.steve, {});
+    expect(buyerAccepts.status).toBe(403);
+    expect((await buyerAccepts.json()).error).toBe('WRONG_PARTY');
+
+    const strangerCancels = await request(`/${trade.id}/cancel`, TEST_DATA.notch, undefined, 'POST');
+    expect((await strangerCancels.json()).error).toBe('TRANSACTION_NOT_FOUND');
+
+    const earlyComplete = await request(`/${trade.id}/complete`, TEST_DATA.alex, {});
+    expect((await earlyComplete.json()).error).toBe('INVALID_TRANSITION');
+
+    // Cancelling needs no body
+    const cancelled = await request(`/${trade.id}/cancel`, TEST_DATA.steve, undefined, 'POST');
+    expect(await cancelled.json()).toMatchObject({ status: 'cancelled', closedBy: TEST_DATA.steve });
+    expect((await request(`/${trade.id}/accept`, TEST_DATA.alex, {})).status).toBe(409);
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ stockQuantity: TEST_DATA.stock, reservedQuantity: 0 });
+  });
+
+  it('refuses stock held by another open trade', async () => {
+    const first = await openTrade(4);
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ stockQuantity: TEST_DATA.stock, reservedQuantity: 4 });
+
+    const tooMany = await request('', TEST_DATA.notch, { itemId: TEST_DATA.itemId, quantity: 3 });
+    expect(tooMany.status).toBe(409);
+    expect((await tooMany.json()).message).toBe('Only 1 Diamond Sword available');
+
+    // Once the first hold lapses, a second buyer can hold the stock instead
+    await reservations.releaseExpired(new Date(Date.now() + TEST_DATA.holdMs));
+    const second = await request('', TEST_DATA.notch, { itemId: TEST_DATA.itemId, quantity: 3 });
+    expect(second.status).toBe(201);
+    await request(`/${first.id}/accept`, TEST_DATA.alex, {});
+
+    const short = await request(`/${first.id}/complete`, TEST_DATA.alex, {});
+    expect(short.status).toBe(409);
+    expect((await short.json()).error).toBe('INSUFFICIENT_STOCK');
+    expect(await transactions.findById(first.id)).toMatchObject({ status: 'accepted' });
+    expect(await items.findById(TEST_DATA.itemId)).toMatchObject({ stockQuantity: TEST_DATA.stock, reservedQuantity: 3 });
+  });
+
+  it('shows each party the trade from their side', async () => {
+    const trade = await openTrade(1);
+
+    const [bought] = await (await request('', TEST_DATA.steve)).json();
+    expect(bought).toMatchObject({ id: trade.id, role: 'buyer', counterparty: { id: TEST_DATA.alex, shopName: "Alex's Armoury" } });
+    expect(availableTransactionActions(bought, TEST_DATA.steve)).toEqual(['cancel']);
+
+    const [sold] = await (await request('', TEST_DATA.alex)).json();
+    expect(sold).toMatchObject({ id: trade.id, role: 'seller', counterparty: { id: TEST_DATA.steve, username: 'steve' } });
+    expect(availableTransactionActions(sold, TEST_DATA.alex)).toEqual(['accept', 'cancel']);
+
+    expect(await (await request('', TEST_DATA.notch)).json()).toEqual([]);
+    expect((await request(`/${trade.id}`, TEST_DATA.notch)).status).toBe(404);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Webhook REST Routes Tests - Fast Version
+ *
+ * Exercises the Hono /api/v1/webhooks router with an in-memory repository:
+ * - Shop owners connect, replace and remove their Discord webhook
+ * - Non-Discord URLs rejected; the secret token is never echoed back
+ * - Delivery log with its SLA summary, scoped to the signed-in owner
+ * - Any trader can connect a webhook, so buyers hear about buy-order matches
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '../../workspaces/shared/di/container.js';
+import type { User, UserRole } from '../../workspaces/shared/types/service-interfaces.js';
+import { createWebhookRoutes } from '../../workspaces/backend/src/routes/webhooks.js';
+import type { AppEnv } from '../../workspaces/backend/src/types/app-env.js';
+import { InMemoryNotificationRepository } from '../mocks/backend-repositories.js';
+
+// CONFIGURABLE - Update for your project
+const TEST_DATA = {
+  alex: 'user_alex',
+  steve: 'user_steve',
+  webhookUrl: 'https://discord.com/api/webhooks/112233445566778899/alex-iron-shop-token'
+};
+
+const testUser = (id: string, role: UserRole): User => ({
+  id,
+  discordId: `discord_${id}`,
+  username: id,
+  role,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('Webhook REST Routes - Fast', () => {
+  let app: Hono<AppEnv>;
+  let notifications: InMemoryNotificationRepository;
+
+  const request = (path: string, init: RequestInit = {}, role: UserRole = 'shop_owner', userId = TEST_DATA.alex) =>
+    app.request(`/api/v1/webhooks${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', 'x-test-user': userId, 'x-test-role': role }
+    });
+
+  const connect = (webhookUrl: string) =>
+    request('/discord', { method: 'PUT', body: JSON.stringify({ webhookUrl }) });
+
+  beforeEach(() => {
+    const container = new ServiceContainer();
+    notifications = new InMemoryNotificationRepository();
+    container.register(SERVICE_KEYS.NOTIFICATION_REPOSITORY, () => notifications);
+
+    app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      const userId = c.req.header('x-test-user');
+      if (userId) c.set('user', testUser(userId, c.req.header('x-test-role') as UserRole));
+      await next();
+    });
+    app.route('/api/v1/webhooks', createWebhookRoutes(container));
+  });
+
+  it('connects a Discord webhook without echoing its token', async () => {
+    const response = await connect(TEST_DATA.webhookUrl);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.webhook.webhookId).toBe('112233445566778899');
+    expect(JSON.stringify(body)).not.toContain('alex-iron-shop-token');
+    expect((await notifications.findWebhook(TEST_DATA.alex))?.webhookUrl).toBe(TEST_DATA.webhookUrl);
+
+    const current = await (await request('/discord')).json();
+    expect(current.webhook.webhookId).toBe('112233445566778899');
+  });
+
+  it('rejects URLs that are not Discord webhooks', async () => {
+    const response = await connect('https://example.com/api/webhooks/1/steal');
+
+    expect(response.status).toBe(400);
+    expect(await notifications.findWebhook(TEST_DATA.alex)).toBeNull();
+  });
+
+  it('removes the webhook', async () => {
+    await connect(TEST_DATA.webhookUrl);
+
+    expect((await request('/discord', { method: 'DELETE' })).status).toBe(204);
+    expect(await (await request('/discord')).json()).toEqual({ webhook: null });
+  });
+
+  it('lists only the owner\'s deliveries with an SLA summary', async () => {
+    const eventAt = new Date();
+    for (const recipientId of [TEST_DATA.alex, TEST_DATA.steve]) {
+      await notifications.logDelivery({
+        id: `delivery_${recipientId}`,
+        notificationId: `notification_${recipientId}`,
+        recipientId,
+        notificationType: 'low_stock',
+        attempt: 1,
+        status: 'delivered',
+        httpStatus: 204,
+        eventAt,
+        attemptedAt: eventAt
+      });
+    }
+
+    const body = await (await request('/discord/deliveries?limit=10')).json();
+
+    expect(body.deliveries).toHaveLength(1);
+    expect(body.deliveries[0].recipientId).toBe(TEST_DATA.alex);
+    expect(body.summary).toEqual({ notifications: 1, delivered: 1, failed: 0, withinSla: 1 });
+  });
+
+  it('lets players without listings connect a webhook for buy-order matches', async () => {
+    const response = await request('/discord', { method: 'PUT', body: JSON.stringify({ webhookUrl: TEST_DATA.webhookUrl }) }, 'user', TEST_DATA.steve);
+
+    expect(response.status).toBe(200);
+    expect((await notifications.findWebhook(TEST_DATA.steve))?.webhookUrl).toBe(TEST_DATA.webhookUrl);
+  });
+
+  it('requires sign-in', async () => {
+    expect((await app.request('/api/v1/webhooks/discord/deliveries')).status).toBe(401);
+  });
+});
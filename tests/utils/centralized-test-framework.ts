@@ -128,9 +128,9 @@ export class EpicTestScenarios {
       highConfidenceReporting: {
         reporter: MINECRAFT_TEST_DATA.users.adminUser,
         item: MINECRAFT_TEST_DATA.items.diamond_sword,
-        reportType: 'stock_update' as const,
-        evidence: 'screenshot',
-        expectedStatus: 'auto_approved',
+        reportType: 'stock_status' as const,
+        evidence: ['screenshot', 'transaction_record'] as const,
+        expectedStatus: 'approved',
         expectedConfidence: 'high'
       },
       
@@ -138,9 +138,9 @@ export class EpicTestScenarios {
         reporter: MINECRAFT_TEST_DATA.users.newUser,
         item: MINECRAFT_TEST_DATA.items.iron_pickaxe,
         reportType: 'price_change' as const,
-        evidence: 'description',
+        evidence: ['description'] as const,
         expectedStatus: 'pending',
-        expectedConfidence: 'medium' // Default confidence per implementation
+        expectedConfidence: 'low' // Description only per SPEC
       }
     };
   }
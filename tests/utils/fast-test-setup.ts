@@ -16,6 +16,7 @@ const TEST_ENDPOINTS = {
   itemsDocker: 'http://localhost:7410/api/data/public_items', // Docker environment
   users: 'http://localhost:3000/api/data/public_users', 
   reports: 'http://localhost:3000/api/data/public_community_reports',
+  reportSubmissions: 'http://localhost:7410/api/v1/reports', // Hono backend, multipart
   prices: 'http://localhost:3000/api/data/public_prices',
   health: 'http://localhost:3000/api/health',
   discord: {
@@ -250,6 +251,17 @@ const fastHandlers = [
     return HttpResponse.json(fastReport({ ...body, id: `report_${Date.now()}` }), { status: 201 });
   }),
 
+  http.post(TEST_ENDPOINTS.reportSubmissions, async ({ request }) => {
+    const form = await request.formData();
+    const report = JSON.parse(String(form.get('report') ?? '{}'));
+    const evidence = form.getAll('evidence').map((file, index) => ({
+      id: `evidence_${index}`,
+      evidenceType: 'screenshot',
+      filePath: `${index}.png`
+    }));
+    return HttpResponse.json({ ...report, id: `report_${Date.now()}`, status: 'pending', evidence }, { status: 201 });
+  }),
+
   // Prices API
   http.get(TEST_ENDPOINTS.prices, () => {
     return HttpResponse.json([fastPrice()]);    
@@ -514,7 +526,7 @@ export class FastTestBuilder {
         reporter_id: 'price_watcher' 
       }),
       stockReport: fastReport({ 
-        report_type: 'stock_update',
+        report_type: 'stock_status',
         reporter_id: 'market_mod' 
       })
     };
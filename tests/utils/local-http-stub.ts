@@ -0,0 +1,67 @@
+/**
+ * Local HTTP Stub Server
+ *
+ * Starts a real HTTP server on an ephemeral localhost port so services with
+ * configurable base URLs (Discord OAuth, webhooks) can be tested end-to-end
+ * without reaching external hosts.
+ */
+
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface HttpStub {
+  url: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+export const startHttpStub = async (
+  handler: (request: StubRequest) => StubResponse | Promise<StubResponse>
+): Promise<HttpStub> => {
+  const requests: StubRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    const request: StubRequest = {
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      headers: req.headers,
+      body: Buffer.concat(chunks).toString('utf8')
+    };
+    requests.push(request);
+
+    const response = await handler(request);
+    const body = response.body === undefined ? '' : JSON.stringify(response.body);
+    res.writeHead(response.status ?? 200, {
+      'Content-Type': 'application/json',
+      ...response.headers
+    });
+    res.end(body);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) =>
+      server.close(error => (error ? reject(error) : resolve()))
+    )
+  };
+};
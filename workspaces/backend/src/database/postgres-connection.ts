@@ -0,0 +1,40 @@
+/**
+ * PostgreSQL Connection
+ * Foundation-first: pg Pool adapter for the repository DatabaseConnection contract
+ */
+
+import { Pool } from 'pg';
+import { DatabaseConnection } from '../repositories/postgresql-item-repository';
+
+export class PostgresConnection implements DatabaseConnection {
+  constructor(private pool: Pool) {}
+
+  async query<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    const result = await this.pool.query(sql, params);
+    return result.rows as T[];
+  }
+
+  async queryOne<T = any>(sql: string, params?: any[]): Promise<T | null> {
+    const rows = await this.query<T>(sql, params);
+    return rows[0] ?? null;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Create database connection from environment variables
+ */
+export function createDatabaseConnection(): PostgresConnection {
+  const pool = new Pool({
+    host: process.env.POSTGRES_HOST || 'localhost',
+    port: parseInt(process.env.POSTGRES_PORT || '5432', 10),
+    database: process.env.POSTGRES_DB || 'minecraft_marketplace',
+    user: process.env.POSTGRES_USER || 'marketplace_user',
+    password: process.env.POSTGRES_PASSWORD || 'marketplace_pass',
+  });
+
+  return new PostgresConnection(pool);
+}
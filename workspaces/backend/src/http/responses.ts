@@ -0,0 +1,53 @@
+/**
+ * HTTP Response Helpers
+ * Consistent JSON error bodies matching the app-level notFound/onError handlers
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { z } from 'zod';
+
+export function errorResponse(
+  c: Context,
+  status: ContentfulStatusCode,
+  error: string,
+  message: string
+): Response {
+  return c.json({
+    error,
+    message,
+    timestamp: new Date().toISOString(),
+  }, status);
+}
+
+export function validationError(c: Context, error: z.ZodError): Response {
+  return c.json({
+    error: 'Bad Request',
+    message: 'Request validation failed',
+    details: error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    })),
+    timestamp: new Date().toISOString(),
+  }, 400);
+}
+
+export function unauthorized(c: Context): Response {
+  return errorResponse(c, 401, 'Unauthorized', 'Authentication required');
+}
+
+export function forbidden(c: Context, message: string): Response {
+  return errorResponse(c, 403, 'Forbidden', message);
+}
+
+/**
+ * Read a JSON body, yielding undefined for empty or malformed payloads so the
+ * schema reports a validation error instead of the handler throwing.
+ */
+export async function readJson(c: Context): Promise<unknown> {
+  try {
+    return await c.req.json();
+  } catch {
+    return undefined;
+  }
+}
@@ -8,17 +8,43 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { prettyJSON } from 'hono/pretty-json';
+import { container } from '@shared/di/container';
+import { initializeValkey } from '@shared/services/valkey-cache';
+import { registerBackendServices, startBackgroundJobs } from './services/register-services';
+import { createAuthRoutes } from './routes/auth';
+import { createBuyOrderRoutes } from './routes/buy-orders';
+import { createDiscordRoutes } from './routes/discord';
+import { createItemRoutes } from './routes/items';
+import { createOrderBookRoutes } from './routes/order-book';
+import { createReportRoutes } from './routes/reports';
+import { createTransactionRoutes } from './routes/transactions';
+import { createUserRoutes } from './routes/users';
+import { createWebhookRoutes } from './routes/webhooks';
+import { createSessionMiddleware } from './middleware/session';
+import type { AppEnv } from './types/app-env';
+
+registerBackendServices(container);
+
+// Webhook notifications and other background work
+startBackgroundJobs(container);
+
+// Sessions fall back to PostgreSQL when Valkey is unavailable
+initializeValkey().catch((error) => {
+  console.warn('⚠️ Valkey unavailable, sessions will be read from PostgreSQL:', error);
+});
 
-const app = new Hono();
+const app = new Hono<AppEnv>();
 
 // Middleware
 app.use('*', logger());
 app.use('*', prettyJSON());
 app.use('*', cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:7411',
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
+  credentials: true,
 }));
+app.use('/api/*', createSessionMiddleware(container));
 
 // Health check endpoint
 app.get('/health', (c) => {
@@ -46,19 +72,49 @@ app.get('/', (c) => {
     endpoints: {
       health: '/health',
       docs: '/docs',
+      auth: '/api/v1/auth',
+      items: '/api/v1/items',
+      reports: '/api/v1/reports',
+      transactions: '/api/v1/transactions',
+      buyOrders: '/api/v1/buy-orders',
+      orderBook: '/api/v1/order-book',
+      users: '/api/v1/users',
       webhooks: '/api/v1/webhooks',
+      discord: '/api/v1/discord/interactions',
       baml: '/api/v1/baml',
     },
   });
 });
 
 // API v1 routes
-const api = new Hono();
+const api = new Hono<AppEnv>();
 
-// Webhook endpoints (Discord, etc.)
-api.get('/webhooks/discord', (c) => {
-  return c.json({ message: 'Discord webhook endpoint ready' });
-});
+// Discord OAuth login
+api.route('/auth', createAuthRoutes(container));
+
+// Marketplace item endpoints
+api.route('/items', createItemRoutes(container));
+
+// Community reports with evidence uploads
+api.route('/reports', createReportRoutes(container));
+
+// Purchases between players and their trade history
+api.route('/transactions', createTransactionRoutes(container));
+
+// Standing buy orders matched against sell listings
+api.route('/buy-orders', createBuyOrderRoutes(container));
+
+// Asks and bids per item and server
+api.route('/order-book', createOrderBookRoutes(container));
+
+// User administration
+api.route('/users', createUserRoutes(container));
+
+// Shop Discord webhooks and their delivery log
+api.route('/webhooks', createWebhookRoutes(container));
+
+// Discord slash commands (Interactions Endpoint URL)
+api.route('/discord', createDiscordRoutes(container));
 
 // BAML processing endpoints
 api.get('/baml/status', (c) => {
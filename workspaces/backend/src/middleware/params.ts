@@ -0,0 +1,24 @@
+/**
+ * Route Parameter Guard
+ * Rejects malformed `:id` parameters before they reach PostgreSQL, where a
+ * failed uuid cast would surface as a 500. A malformed id names no record,
+ * so it gets the same 404 as an unknown one.
+ */
+
+import type { MiddlewareHandler } from 'hono';
+import { z } from 'zod';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse } from '../http/responses';
+
+const uuidSchema = z.string().uuid();
+
+export function requireUuidParam(resource: string, param = 'id'): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const id = c.req.param(param);
+    if (!uuidSchema.safeParse(id).success) {
+      return errorResponse(c, 404, 'Not Found', `${resource} with id ${id} not found`);
+    }
+
+    return next();
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Permission Guard
+ * Route-level enforcement of the shared permission catalogue, so endpoints
+ * reject exactly the requests HATEOAS links would not have advertised
+ */
+
+import type { MiddlewareHandler } from 'hono';
+import { hasPermission, type Permission } from '@shared/utils/permissions';
+import type { AppEnv } from '../types/app-env';
+import { forbidden, unauthorized } from '../http/responses';
+
+export function requirePermission(permission: Permission): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const user = c.get('user');
+    if (!user) {
+      return unauthorized(c);
+    }
+
+    if (!hasPermission(user, permission)) {
+      return forbidden(c, `Missing permission ${permission}`);
+    }
+
+    return next();
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Session Middleware
+ * Resolves the HTTP-only session cookie to a user and re-issues the cookie
+ * when the session is rotated after a privilege change
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_TTL_MS,
+  SessionService
+} from '@shared/services/session-service';
+import type { AppEnv } from '../types/app-env';
+
+export function setSessionCookie(c: Context<AppEnv>, token: string): void {
+  setCookie(c, SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'Lax',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000
+  });
+}
+
+export function clearSessionCookie(c: Context<AppEnv>): void {
+  deleteCookie(c, SESSION_COOKIE_NAME, { path: '/' });
+}
+
+export function createSessionMiddleware(container: ServiceContainer): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const token = getCookie(c, SESSION_COOKIE_NAME);
+    if (!token) {
+      return next();
+    }
+
+    const sessions = container.get<SessionService>(SERVICE_KEYS.SESSION_SERVICE);
+    const resolved = await sessions.resolveSession(token);
+
+    if (!resolved) {
+      clearSessionCookie(c);
+      return next();
+    }
+
+    if (resolved.rotated) {
+      setSessionCookie(c, resolved.token);
+    }
+
+    c.set('user', resolved.user);
+    c.set('sessionToken', resolved.token);
+    return next();
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * PostgreSQL Buy Order Repository Implementation
+ * Foundation-first: Standing buy orders and the listings matched against
+ * them (database/018_buy_orders.sql)
+ */
+
+import {
+  BuyOrder,
+  BuyOrderMatch,
+  BuyOrderRepository,
+  BuyOrderSearchCriteria,
+  BuyOrderStatus,
+  TradingUnitType
+} from '@shared/types/service-interfaces';
+import { perItemPrice } from '@shared/utils/buy-orders';
+import { maxStackSizeFor } from '@shared/utils/trading-units';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLBuyOrderRepository implements BuyOrderRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async save(order: BuyOrder): Promise<BuyOrder> {
+    const sql = `
+      INSERT INTO buy_orders (
+        id, owner_id, minecraft_id, item_name, server_name, quantity,
+        max_price_diamonds, trading_unit, status, note
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
+      ) RETURNING *
+    `;
+
+    const params = [
+      order.id,
+      order.ownerId,
+      order.minecraftId,
+      order.itemName,
+      order.serverName,
+      order.quantity,
+      order.maxPriceDiamonds,
+      order.tradingUnit,
+      order.status,
+      order.note ?? null
+    ];
+
+    const result = await this.db.queryOne(sql, params);
+    return this.mapRowToBuyOrder(result);
+  }
+
+  async findById(id: string): Promise<BuyOrder | null> {
+    const sql = 'SELECT * FROM buy_orders WHERE id = $1';
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToBuyOrder(result) : null;
+  }
+
+  async findAll(criteria?: Partial<BuyOrder>): Promise<BuyOrder[]> {
+    let sql = 'SELECT * FROM buy_orders WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria?.ownerId) {
+      sql += ` AND owner_id = $${paramIndex++}`;
+      params.push(criteria.ownerId);
+    }
+
+    if (criteria?.minecraftId) {
+      sql += ` AND minecraft_id = $${paramIndex++}`;
+      params.push(criteria.minecraftId);
+    }
+
+    if (criteria?.status) {
+      sql += ` AND status = $${paramIndex++}`;
+      params.push(criteria.status);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const results = await this.db.query(sql, params);
+    return results.map(row => this.mapRowToBuyOrder(row));
+  }
+
+  async update(id: string, updates: Partial<BuyOrder>): Promise<BuyOrder> {
+    const setParts: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (updates.status !== undefined) {
+      setParts.push(`status = $${paramIndex++}`);
+      params.push(updates.status);
+    }
+
+    if (updates.quantity !== undefined) {
+      setParts.push(`quantity = $${paramIndex++}`);
+      params.push(updates.quantity);
+    }
+
+    if (updates.maxPriceDiamonds !== undefined) {
+      setParts.push(`max_price_diamonds = $${paramIndex++}`);
+      params.push(updates.maxPriceDiamonds);
+    }
+
+    if (updates.note !== undefined) {
+      setParts.push(`note = $${paramIndex++}`);
+      params.push(updates.note);
+    }
+
+    if (setParts.length === 0) {
+      throw new Error('No valid updates provided');
+    }
+
+    setParts.push('updated_at = now()');
+    const sql = `
+      UPDATE buy_orders
+      SET ${setParts.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    params.push(id);
+
+    const result = await this.db.queryOne(sql, params);
+    if (!result) {
+      throw new Error(`Buy order with id ${id} not found`);
+    }
+
+    return this.mapRowToBuyOrder(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.query('DELETE FROM buy_orders WHERE id = $1', [id]);
+  }
+
+  async findOpen(criteria: BuyOrderSearchCriteria = {}): Promise<BuyOrder[]> {
+    let sql = `SELECT * FROM buy_orders WHERE status = 'open'`;
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria.minecraftId) {
+      sql += ` AND minecraft_id = $${paramIndex++}`;
+      params.push(criteria.minecraftId);
+    }
+
+    if (criteria.serverName) {
+      // Must match the idx_buy_orders_open expression for the index to apply
+      sql += ` AND lower(server_name) = lower($${paramIndex++})`;
+      params.push(criteria.serverName.trim());
+    }
+
+    const results = await this.db.query(sql, params);
+    // Units differ per order, so rank by the price of a single item
+    return results
+      .map(row => this.mapRowToBuyOrder(row))
+      .sort((a, b) => unitPrice(b) - unitPrice(a) || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async findByOwnerId(ownerId: string): Promise<BuyOrder[]> {
+    return this.findAll({ ownerId });
+  }
+
+  async recordMatch(match: BuyOrderMatch): Promise<boolean> {
+    const sql = `
+      INSERT INTO buy_order_matches (
+        buy_order_id, item_id, buyer_id, seller_id, price_diamonds, trading_unit, matched_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7
+      )
+      ON CONFLICT (buy_order_id, item_id) DO NOTHING
+      RETURNING buy_order_id
+    `;
+
+    const params = [
+      match.buyOrderId,
+      match.itemId,
+      match.buyerId,
+      match.sellerId,
+      match.priceDiamonds,
+      match.tradingUnit,
+      match.matchedAt
+    ];
+
+    return (await this.db.queryOne(sql, params)) !== null;
+  }
+
+  async findMatches(buyOrderId: string): Promise<BuyOrderMatch[]> {
+    const sql = 'SELECT * FROM buy_order_matches WHERE buy_order_id = $1 ORDER BY matched_at DESC';
+    const results = await this.db.query(sql, [buyOrderId]);
+    return results.map(row => ({
+      buyOrderId: row.buy_order_id,
+      itemId: row.item_id,
+      buyerId: row.buyer_id,
+      sellerId: row.seller_id,
+      priceDiamonds: parseFloat(row.price_diamonds),
+      tradingUnit: row.trading_unit as TradingUnitType,
+      matchedAt: new Date(row.matched_at)
+    }));
+  }
+
+  private mapRowToBuyOrder(row: any): BuyOrder {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      minecraftId: row.minecraft_id,
+      itemName: row.item_name,
+      serverName: row.server_name,
+      quantity: row.quantity,
+      maxPriceDiamonds: parseFloat(row.max_price_diamonds),
+      tradingUnit: row.trading_unit as TradingUnitType,
+      status: row.status as BuyOrderStatus,
+      note: row.note ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
+
+function unitPrice(order: BuyOrder): number {
+  return perItemPrice(order.maxPriceDiamonds, order.tradingUnit, maxStackSizeFor(order.minecraftId));
+}
@@ -0,0 +1,220 @@
+/**
+ * PostgreSQL Community Report Repository Implementation
+ * Foundation-first: Implements the CommunityReportRepository interface
+ */
+
+import {
+  CommunityReport,
+  CommunityReportRepository,
+  ReporterReputation,
+  ReportStatus,
+  ReportType
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLCommunityReportRepository implements CommunityReportRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async save(report: CommunityReport): Promise<CommunityReport> {
+    const sql = `
+      INSERT INTO community_reports (
+        id, item_id, reporter_id, report_type, description,
+        claimed_values, status, confidence_level, auto_approved, cluster_id, has_conflict
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
+      ) RETURNING *
+    `;
+
+    const params = [
+      report.id,
+      report.itemId,
+      report.reporterId,
+      report.reportType,
+      report.description,
+      report.claimedValues ? JSON.stringify(report.claimedValues) : null,
+      report.status,
+      report.confidenceLevel ?? null,
+      report.autoApproved,
+      report.clusterId ?? null,
+      report.hasConflict ?? false
+    ];
+
+    const result = await this.db.queryOne(sql, params);
+    return this.mapRowToReport(result);
+  }
+
+  async findById(id: string): Promise<CommunityReport | null> {
+    const sql = 'SELECT * FROM community_reports WHERE id = $1';
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToReport(result) : null;
+  }
+
+  async findAll(criteria?: Partial<CommunityReport>): Promise<CommunityReport[]> {
+    let sql = 'SELECT * FROM community_reports WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria?.itemId) {
+      sql += ` AND item_id = $${paramIndex++}`;
+      params.push(criteria.itemId);
+    }
+
+    if (criteria?.reporterId) {
+      sql += ` AND reporter_id = $${paramIndex++}`;
+      params.push(criteria.reporterId);
+    }
+
+    if (criteria?.reportType) {
+      sql += ` AND report_type = $${paramIndex++}`;
+      params.push(criteria.reportType);
+    }
+
+    if (criteria?.status) {
+      sql += ` AND status = $${paramIndex++}`;
+      params.push(criteria.status);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const results = await this.db.query(sql, params);
+    return results.map(row => this.mapRowToReport(row));
+  }
+
+  async update(id: string, updates: Partial<CommunityReport>): Promise<CommunityReport> {
+    const setParts: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (updates.status !== undefined) {
+      setParts.push(`status = $${paramIndex++}`);
+      params.push(updates.status);
+    }
+
+    if (updates.confidenceLevel !== undefined) {
+      setParts.push(`confidence_level = $${paramIndex++}`);
+      params.push(updates.confidenceLevel);
+    }
+
+    if (updates.autoApproved !== undefined) {
+      setParts.push(`auto_approved = $${paramIndex++}`);
+      params.push(updates.autoApproved);
+    }
+
+    if (updates.reviewedBy !== undefined) {
+      setParts.push(`reviewed_by = $${paramIndex++}`);
+      params.push(updates.reviewedBy);
+    }
+
+    if (updates.reviewedAt !== undefined) {
+      setParts.push(`reviewed_at = $${paramIndex++}`);
+      params.push(updates.reviewedAt);
+    }
+
+    if (updates.reviewNotes !== undefined) {
+      setParts.push(`review_notes = $${paramIndex++}`);
+      params.push(updates.reviewNotes);
+    }
+
+    if (updates.clusterId !== undefined) {
+      setParts.push(`cluster_id = $${paramIndex++}`);
+      params.push(updates.clusterId);
+    }
+
+    if (updates.hasConflict !== undefined) {
+      setParts.push(`has_conflict = $${paramIndex++}`);
+      params.push(updates.hasConflict);
+    }
+
+    if (setParts.length === 0) {
+      throw new Error('No valid updates provided');
+    }
+
+    const sql = `
+      UPDATE community_reports
+      SET ${setParts.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    params.push(id);
+
+    const result = await this.db.queryOne(sql, params);
+    if (!result) {
+      throw new Error(`Community report with id ${id} not found`);
+    }
+
+    return this.mapRowToReport(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    const sql = 'DELETE FROM community_reports WHERE id = $1';
+    await this.db.query(sql, [id]);
+  }
+
+  async findByItemId(itemId: string): Promise<CommunityReport[]> {
+    return this.findAll({ itemId });
+  }
+
+  async findByReporterId(reporterId: string): Promise<CommunityReport[]> {
+    return this.findAll({ reporterId });
+  }
+
+  async findByStatus(status: ReportStatus): Promise<CommunityReport[]> {
+    return this.findAll({ status });
+  }
+
+  async findPendingReports(ownerId?: string): Promise<CommunityReport[]> {
+    // Oldest first so the review queue is worked in submission order
+    const sql = ownerId
+      ? `SELECT cr.* FROM community_reports cr
+         JOIN items i ON i.id = cr.item_id
+         WHERE cr.status = 'pending' AND i.owner_id = $1
+         ORDER BY cr.created_at ASC`
+      : `SELECT * FROM community_reports WHERE status = 'pending' ORDER BY created_at ASC`;
+    const results = await this.db.query(sql, ownerId ? [ownerId] : []);
+    return results.map(row => this.mapRowToReport(row));
+  }
+
+  // Computed by the reporter_reputation view (database/011_reporter_reputation.sql)
+  async getReporterReputation(reporterId: string): Promise<ReporterReputation> {
+    const sql = 'SELECT * FROM reporter_reputation WHERE user_id = $1';
+    const row = await this.db.queryOne(sql, [reporterId]);
+    return this.mapRowToReputation(row);
+  }
+
+  // Reporters without a row in the view get the default reputation
+  async getReporterReputations(reporterIds: string[]): Promise<Map<string, ReporterReputation>> {
+    const sql = 'SELECT * FROM reporter_reputation WHERE user_id = ANY($1::UUID[])';
+    const rows = await this.db.query(sql, [reporterIds]);
+    const byReporter = new Map(rows.map(row => [row.user_id, row]));
+    return new Map(reporterIds.map(id => [id, this.mapRowToReputation(byReporter.get(id))]));
+  }
+
+  private mapRowToReputation(row: any): ReporterReputation {
+    return {
+      approvedReports: row?.approved_reports ?? 0,
+      rejectedReports: row?.rejected_reports ?? 0,
+      totalReports: row?.total_reports ?? 0,
+      trustScore: row ? Number(row.trust_score) : 0.5
+    };
+  }
+
+  private mapRowToReport(row: any): CommunityReport {
+    return {
+      id: row.id,
+      itemId: row.item_id,
+      reporterId: row.reporter_id,
+      reportType: row.report_type as ReportType,
+      description: row.description,
+      claimedValues: row.claimed_values ?? undefined,
+      status: row.status as ReportStatus,
+      confidenceLevel: row.confidence_level ?? undefined,
+      autoApproved: row.auto_approved,
+      reviewedBy: row.reviewed_by ?? undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      reviewNotes: row.review_notes ?? undefined,
+      clusterId: row.cluster_id ?? undefined,
+      hasConflict: row.has_conflict ?? false,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
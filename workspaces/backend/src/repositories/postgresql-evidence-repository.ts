@@ -0,0 +1,138 @@
+/**
+ * PostgreSQL Evidence Repository Implementation
+ * Foundation-first: Implements the EvidenceRepository interface
+ */
+
+import {
+  Evidence,
+  EvidenceRepository,
+  EvidenceType
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLEvidenceRepository implements EvidenceRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async save(evidence: Evidence): Promise<Evidence> {
+    const sql = `
+      INSERT INTO evidence (
+        id, report_id, evidence_type, file_path, external_url,
+        description, timestamp_captured, minecraft_server, coordinates
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9
+      ) RETURNING *
+    `;
+
+    const params = [
+      evidence.id,
+      evidence.reportId,
+      evidence.evidenceType,
+      evidence.filePath ?? null,
+      evidence.externalUrl ?? null,
+      evidence.description ?? null,
+      evidence.timestampCaptured ?? null,
+      evidence.minecraftServer ?? null,
+      evidence.coordinates ?? null
+    ];
+
+    const result = await this.db.queryOne(sql, params);
+    return this.mapRowToEvidence(result);
+  }
+
+  async findById(id: string): Promise<Evidence | null> {
+    const sql = 'SELECT * FROM evidence WHERE id = $1';
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToEvidence(result) : null;
+  }
+
+  async findAll(criteria?: Partial<Evidence>): Promise<Evidence[]> {
+    let sql = 'SELECT * FROM evidence WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria?.reportId) {
+      sql += ` AND report_id = $${paramIndex++}`;
+      params.push(criteria.reportId);
+    }
+
+    if (criteria?.evidenceType) {
+      sql += ` AND evidence_type = $${paramIndex++}`;
+      params.push(criteria.evidenceType);
+    }
+
+    sql += ' ORDER BY created_at ASC';
+
+    const results = await this.db.query(sql, params);
+    return results.map(row => this.mapRowToEvidence(row));
+  }
+
+  async update(id: string, updates: Partial<Evidence>): Promise<Evidence> {
+    const setParts: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (updates.description !== undefined) {
+      setParts.push(`description = $${paramIndex++}`);
+      params.push(updates.description);
+    }
+
+    if (updates.verifiedBy !== undefined) {
+      setParts.push(`verified_by = $${paramIndex++}`);
+      params.push(updates.verifiedBy);
+    }
+
+    if (setParts.length === 0) {
+      throw new Error('No valid updates provided');
+    }
+
+    const sql = `
+      UPDATE evidence
+      SET ${setParts.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    params.push(id);
+
+    const result = await this.db.queryOne(sql, params);
+    if (!result) {
+      throw new Error(`Evidence with id ${id} not found`);
+    }
+
+    return this.mapRowToEvidence(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    const sql = 'DELETE FROM evidence WHERE id = $1';
+    await this.db.query(sql, [id]);
+  }
+
+  async findByReportId(reportId: string): Promise<Evidence[]> {
+    return this.findAll({ reportId });
+  }
+
+  async findByReportIds(reportIds: string[]): Promise<Evidence[]> {
+    const sql = 'SELECT * FROM evidence WHERE report_id = ANY($1::UUID[]) ORDER BY created_at ASC';
+    const results = await this.db.query(sql, [reportIds]);
+    return results.map(row => this.mapRowToEvidence(row));
+  }
+
+  async findByType(evidenceType: EvidenceType): Promise<Evidence[]> {
+    return this.findAll({ evidenceType });
+  }
+
+  private mapRowToEvidence(row: any): Evidence {
+    return {
+      id: row.id,
+      reportId: row.report_id,
+      evidenceType: row.evidence_type as EvidenceType,
+      filePath: row.file_path ?? undefined,
+      externalUrl: row.external_url ?? undefined,
+      description: row.description ?? undefined,
+      timestampCaptured: row.timestamp_captured ? new Date(row.timestamp_captured) : undefined,
+      minecraftServer: row.minecraft_server ?? undefined,
+      coordinates: row.coordinates ?? undefined,
+      verifiedBy: row.verified_by ?? undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -5,11 +5,18 @@
 
 import { 
   Item, 
+  ItemListing,
   ItemRepository, 
   ItemCategory, 
   CreateItemRequest,
-  SearchItemsRequest 
+  ListingSearchCriteria,
+  ListingSearchResult,
+  Price,
+  SearchItemsRequest,
+  TradingUnitType
 } from '@shared/types/service-interfaces';
+import { VANILLA_ITEMS } from '@shared/utils/minecraft-items';
+import { STACK_SIZES, TRADING_UNIT_SIZES, SHULKER_BOX_SLOTS } from '@shared/utils/trading-units';
 
 export interface DatabaseConnection {
   query<T = any>(sql: string, params?: any[]): Promise<T[]>;
@@ -116,6 +123,21 @@ export class PostgreSQLItemRepository implements ItemRepository {
       params.push(JSON.stringify(updates.enchantments));
     }
 
+    if (updates.lastVerified !== undefined) {
+      setParts.push(`last_verified = $${paramIndex++}`);
+      params.push(updates.lastVerified);
+    }
+
+    if (updates.verifiedBy !== undefined) {
+      setParts.push(`verified_by = $${paramIndex++}`);
+      params.push(updates.verifiedBy);
+    }
+
+    if (updates.confidenceLevel !== undefined) {
+      setParts.push(`confidence_level = $${paramIndex++}`);
+      params.push(updates.confidenceLevel);
+    }
+
     if (setParts.length === 0) {
       throw new Error('No valid updates provided');
     }
@@ -142,6 +164,12 @@ export class PostgreSQLItemRepository implements ItemRepository {
   }
 
   // ItemRepository specific methods
+  async findByIds(ids: string[]): Promise<Item[]> {
+    const sql = 'SELECT * FROM items WHERE id = ANY($1::UUID[])';
+    const results = await this.db.query(sql, [ids]);
+    return results.map(row => this.mapRowToItem(row));
+  }
+
   async findByOwnerId(ownerId: string): Promise<Item[]> {
     const sql = 'SELECT * FROM items WHERE owner_id = $1 ORDER BY created_at DESC';
     const results = await this.db.query(sql, [ownerId]);
@@ -182,6 +210,104 @@ export class PostgreSQLItemRepository implements ItemRepository {
     return results.map(row => this.mapRowToItem(row));
   }
 
+  /**
+   * Items joined with their current price. Price filters and sorts compare
+   * diamonds per single item so mixed trading units rank fairly; text queries
+   * use the idx_items_name_search full-text index and rank by relevance.
+   * A per-stack search leaves out items that do not stack.
+   */
+  async findListings(criteria: ListingSearchCriteria): Promise<ListingSearchResult> {
+    const hasPriceFilter = criteria.minPrice !== undefined || criteria.maxPrice !== undefined;
+
+    let from = `
+      FROM items i
+      ${hasPriceFilter ? 'JOIN' : 'LEFT JOIN'} prices p ON p.item_id = i.id AND p.is_current = true
+      WHERE 1=1
+    `;
+    const params: any[] = [];
+    let paramIndex = 1;
+    let rank = 'NULL::real';
+    const unitPrice = `(p.price_diamonds / ${tradingUnitSizeSql('p.trading_unit')} * ${unitSizeSql(criteria.priceUnit ?? 'per_item')})`;
+
+    if (criteria.query) {
+      // Must match the idx_items_name_search expression for the index to apply
+      const document = `to_tsvector('english', i.name || ' ' || i.description)`;
+      const tsQuery = `websearch_to_tsquery('english', $${paramIndex++})`;
+      from += ` AND ${document} @@ ${tsQuery}`;
+      rank = `ts_rank(${document}, ${tsQuery})`;
+      params.push(criteria.query);
+    }
+
+    if (criteria.category) {
+      from += ` AND i.category = $${paramIndex++}`;
+      params.push(criteria.category);
+    }
+
+    if (criteria.serverName) {
+      from += ` AND i.server_name = $${paramIndex++}`;
+      params.push(criteria.serverName);
+    }
+
+    if (criteria.ownerId) {
+      from += ` AND i.owner_id = $${paramIndex++}`;
+      params.push(criteria.ownerId);
+    }
+
+    if (criteria.availableOnly) {
+      from += ' AND i.is_available = true';
+    }
+
+    if (criteria.priceUnit === 'per_stack') {
+      from += ` AND ${MAX_STACK_SIZE_SQL} > 1`;
+    }
+
+    if (criteria.minPrice !== undefined) {
+      from += ` AND ${unitPrice} >= $${paramIndex++}`;
+      params.push(criteria.minPrice);
+    }
+
+    if (criteria.maxPrice !== undefined) {
+      from += ` AND ${unitPrice} <= $${paramIndex++}`;
+      params.push(criteria.maxPrice);
+    }
+
+    let orderBy: string;
+    switch (criteria.sortBy) {
+      case 'price_asc':
+        orderBy = `${unitPrice} ASC NULLS LAST, i.created_at DESC`;
+        break;
+      case 'price_desc':
+        orderBy = `${unitPrice} DESC NULLS LAST, i.created_at DESC`;
+        break;
+      case 'relevance':
+        orderBy = criteria.query ? 'relevance DESC, i.created_at DESC' : 'i.created_at DESC';
+        break;
+      default:
+        orderBy = 'i.created_at DESC';
+    }
+
+    const listingsSql = `
+      SELECT i.*, to_jsonb(p) AS current_price, ${rank} AS relevance
+      ${from}
+      ORDER BY ${orderBy}
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+    `;
+    const countSql = `SELECT COUNT(*) AS total ${from}`;
+
+    const [rows, count] = await Promise.all([
+      this.db.query(listingsSql, [...params, criteria.limit ?? 50, criteria.offset ?? 0]),
+      this.db.queryOne<{ total: string }>(countSql, params)
+    ]);
+
+    return {
+      listings: rows.map(row => ({
+        ...this.mapRowToItem(row),
+        currentPrice: row.current_price ? this.mapJsonToPrice(row.current_price) : undefined
+      })),
+      total: parseInt(count?.total ?? '0', 10)
+    };
+  }
+
   // Helper method to map database rows to Item objects
   private mapRowToItem(row: any): Item {
     return {
@@ -195,11 +321,69 @@ export class PostgreSQLItemRepository implements ItemRepository {
       enchantments: row.enchantments || {},
       itemAttributes: row.item_attributes || {},
       stockQuantity: row.stock_quantity,
+      reservedQuantity: row.reserved_quantity ?? undefined,
       isAvailable: row.is_available,
       serverName: row.server_name,
       shopLocation: row.shop_location,
+      lastVerified: row.last_verified ? new Date(row.last_verified) : undefined,
+      verifiedBy: row.verified_by ?? undefined,
+      confidenceLevel: row.confidence_level ?? undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     };
   }
-}
\ No newline at end of file
+
+  // Helper method to map a to_jsonb(prices) column to a Price object
+  private mapJsonToPrice(price: any): Price {
+    return {
+      id: price.id,
+      itemId: price.item_id,
+      priceDiamonds: parseFloat(price.price_diamonds),
+      tradingUnit: price.trading_unit as TradingUnitType,
+      isCurrent: price.is_current,
+      source: price.source,
+      createdBy: price.created_by,
+      createdAt: new Date(price.created_at)
+    };
+  }
+}
+
+/**
+ * SQL CASE expression giving an item's max stack size, mirroring
+ * maxStackSizeFor(): the vanilla registry, then item_attributes, then 64.
+ * Built once from the registry so SQL and TypeScript cannot drift.
+ */
+const MAX_STACK_SIZE_SQL = (() => {
+  const minecraftId = `(CASE WHEN i.minecraft_id LIKE '%:%' THEN i.minecraft_id ELSE 'minecraft:' || i.minecraft_id END)`;
+  const registered = STACK_SIZES.map(size => {
+    const ids = VANILLA_ITEMS.filter(item => item.maxStackSize === size).map(item => `'${item.id}'`);
+    return `WHEN ${minecraftId} IN (${ids.join(', ')}) THEN ${size}`;
+  });
+  const attribute = `i.item_attributes->>'maxStackSize'`;
+  const allowed = STACK_SIZES.map(size => `'${size}'`).join(', ');
+  return `(CASE ${registered.join(' ')} WHEN ${attribute} IN (${allowed}) THEN (${attribute})::int ELSE 64 END)`;
+})();
+
+/**
+ * SQL expression for the number of the row's item in one trading unit
+ */
+function unitSizeSql(unit: TradingUnitType): string {
+  switch (unit) {
+    case 'per_stack':
+      return MAX_STACK_SIZE_SQL;
+    case 'per_shulker':
+      return `(${MAX_STACK_SIZE_SQL} * ${SHULKER_BOX_SLOTS})`;
+    default:
+      return String(TRADING_UNIT_SIZES[unit] ?? 1);
+  }
+}
+
+/**
+ * SQL CASE expression giving the number of items in a row's trading unit
+ */
+function tradingUnitSizeSql(column: string): string {
+  const branches = (Object.keys(TRADING_UNIT_SIZES) as TradingUnitType[])
+    .map(unit => `WHEN '${unit}' THEN ${unitSizeSql(unit)}`)
+    .join(' ');
+  return `(CASE ${column}::text ${branches} ELSE 1 END)`;
+}
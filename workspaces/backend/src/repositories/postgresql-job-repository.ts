@@ -0,0 +1,150 @@
+/**
+ * PostgreSQL Job Repository Implementation
+ * Foundation-first: Lease-based job storage (database/015_job_queue.sql).
+ * Each state change is a single statement guarded by the lease token, and
+ * claims use SKIP LOCKED so concurrent workers never take the same job.
+ */
+
+import {
+  DeadLetterJob,
+  EnqueueJobRequest,
+  Job,
+  JobRepository,
+  JobStatus
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLJobRepository implements JobRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async enqueue<T>(request: EnqueueJobRequest<T>): Promise<Job<T>> {
+    const sql = `
+      INSERT INTO jobs (queue, payload, idempotency_key, max_attempts, run_at)
+      VALUES ($1, $2, $3, $4, now() + make_interval(secs => $5 / 1000.0))
+      ON CONFLICT (queue, idempotency_key) DO NOTHING
+      RETURNING *
+    `;
+
+    const params = [
+      request.queue,
+      JSON.stringify(request.payload),
+      request.idempotencyKey ?? null,
+      request.maxAttempts,
+      request.delayMs
+    ];
+
+    const inserted = await this.db.queryOne(sql, params);
+    if (inserted) {
+      return this.mapRowToJob<T>(inserted);
+    }
+
+    const existing = await this.db.queryOne(
+      'SELECT * FROM jobs WHERE queue = $1 AND idempotency_key = $2',
+      [request.queue, request.idempotencyKey]
+    );
+    return this.mapRowToJob<T>(existing);
+  }
+
+  async claim(queue: string, limit: number, visibilityTimeoutMs: number): Promise<Job[]> {
+    const sql = `
+      UPDATE jobs
+      SET attempts = attempts + 1,
+          locked_until = now() + make_interval(secs => $3 / 1000.0),
+          lease_token = gen_random_uuid()
+      WHERE id IN (
+        SELECT id FROM jobs
+        WHERE queue = $1
+          AND status = 'queued'
+          AND run_at <= now()
+          AND (locked_until IS NULL OR locked_until <= now())
+        ORDER BY run_at ASC
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    const results = await this.db.query(sql, [queue, limit, visibilityTimeoutMs]);
+    return results
+      .map(row => this.mapRowToJob(row))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  async complete(job: Job): Promise<boolean> {
+    const sql = `
+      UPDATE jobs
+      SET status = 'completed', completed_at = now(), locked_until = NULL, lease_token = NULL
+      WHERE id = $1 AND lease_token = $2
+      RETURNING id
+    `;
+    return (await this.db.queryOne(sql, [job.id, job.leaseToken])) !== null;
+  }
+
+  async retry(job: Job, error: string, delayMs: number): Promise<boolean> {
+    const sql = `
+      UPDATE jobs
+      SET run_at = now() + make_interval(secs => $4 / 1000.0),
+          locked_until = NULL, lease_token = NULL, last_error = $3
+      WHERE id = $1 AND lease_token = $2
+      RETURNING id
+    `;
+    return (await this.db.queryOne(sql, [job.id, job.leaseToken, error, delayMs])) !== null;
+  }
+
+  async deadLetter(job: Job, error: string): Promise<boolean> {
+    const sql = `
+      WITH dead AS (
+        DELETE FROM jobs WHERE id = $1 AND lease_token = $2
+        RETURNING id, queue, payload, idempotency_key, attempts, created_at
+      )
+      INSERT INTO dead_letter_jobs (id, queue, payload, idempotency_key, attempts, last_error, created_at)
+      SELECT id, queue, payload, idempotency_key, attempts, $3, created_at FROM dead
+      RETURNING id
+    `;
+    return (await this.db.queryOne(sql, [job.id, job.leaseToken, error])) !== null;
+  }
+
+  async findDeadLetters(queue?: string, limit: number = 100): Promise<DeadLetterJob[]> {
+    const sql = `
+      SELECT * FROM dead_letter_jobs
+      WHERE $1::TEXT IS NULL OR queue = $1
+      ORDER BY dead_at DESC
+      LIMIT $2
+    `;
+
+    const results = await this.db.query(sql, [queue ?? null, limit]);
+    return results.map(row => ({
+      id: row.id,
+      queue: row.queue,
+      payload: row.payload,
+      idempotencyKey: row.idempotency_key ?? undefined,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      createdAt: new Date(row.created_at),
+      deadAt: new Date(row.dead_at)
+    }));
+  }
+
+  async purgeCompleted(completedBefore: Date): Promise<number> {
+    const sql = `DELETE FROM jobs WHERE status = 'completed' AND completed_at < $1 RETURNING id`;
+    return (await this.db.query(sql, [completedBefore])).length;
+  }
+
+  private mapRowToJob<T = unknown>(row: any): Job<T> {
+    return {
+      id: row.id,
+      queue: row.queue,
+      payload: row.payload as T,
+      idempotencyKey: row.idempotency_key ?? undefined,
+      status: row.status as JobStatus,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+      runAt: new Date(row.run_at),
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
+      leaseToken: row.lease_token ?? undefined,
+      lastError: row.last_error ?? undefined,
+      createdAt: new Date(row.created_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    };
+  }
+}
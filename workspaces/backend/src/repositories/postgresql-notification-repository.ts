@@ -0,0 +1,101 @@
+/**
+ * PostgreSQL Notification Repository Implementation
+ * Foundation-first: Shop webhooks and the delivery log
+ * (database/014_shop_webhooks.sql)
+ */
+
+import {
+  DeliveryStatus,
+  NotificationDelivery,
+  NotificationRepository,
+  NotificationType,
+  ShopWebhook
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLNotificationRepository implements NotificationRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async findWebhook(userId: string): Promise<ShopWebhook | null> {
+    const sql = 'SELECT * FROM shop_webhooks WHERE user_id = $1';
+    const result = await this.db.queryOne(sql, [userId]);
+    return result ? this.mapRowToWebhook(result) : null;
+  }
+
+  async saveWebhook(userId: string, webhookUrl: string): Promise<ShopWebhook> {
+    const sql = `
+      INSERT INTO shop_webhooks (user_id, webhook_url)
+      VALUES ($1, $2)
+      ON CONFLICT (user_id) DO UPDATE
+        SET webhook_url = EXCLUDED.webhook_url, updated_at = now()
+      RETURNING *
+    `;
+
+    const result = await this.db.queryOne(sql, [userId, webhookUrl]);
+    return this.mapRowToWebhook(result);
+  }
+
+  async deleteWebhook(userId: string): Promise<void> {
+    await this.db.query('DELETE FROM shop_webhooks WHERE user_id = $1', [userId]);
+  }
+
+  async logDelivery(delivery: NotificationDelivery): Promise<void> {
+    const sql = `
+      INSERT INTO notification_deliveries (
+        id, notification_id, recipient_id, notification_type, attempt,
+        status, http_status, error, event_at, attempted_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
+      )
+    `;
+
+    await this.db.query(sql, [
+      delivery.id,
+      delivery.notificationId,
+      delivery.recipientId,
+      delivery.notificationType,
+      delivery.attempt,
+      delivery.status,
+      delivery.httpStatus ?? null,
+      delivery.error ?? null,
+      delivery.eventAt,
+      delivery.attemptedAt
+    ]);
+  }
+
+  async findDeliveries(recipientId: string, limit: number = 100): Promise<NotificationDelivery[]> {
+    const sql = `
+      SELECT * FROM notification_deliveries
+      WHERE recipient_id = $1
+      ORDER BY attempted_at DESC, attempt DESC
+      LIMIT $2
+    `;
+
+    const results = await this.db.query(sql, [recipientId, limit]);
+    return results.map(row => this.mapRowToDelivery(row));
+  }
+
+  private mapRowToWebhook(row: any): ShopWebhook {
+    return {
+      userId: row.user_id,
+      webhookUrl: row.webhook_url,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private mapRowToDelivery(row: any): NotificationDelivery {
+    return {
+      id: row.id,
+      notificationId: row.notification_id,
+      recipientId: row.recipient_id,
+      notificationType: row.notification_type as NotificationType,
+      attempt: row.attempt,
+      status: row.status as DeliveryStatus,
+      httpStatus: row.http_status ?? undefined,
+      error: row.error ?? undefined,
+      eventAt: new Date(row.event_at),
+      attemptedAt: new Date(row.attempted_at)
+    };
+  }
+}
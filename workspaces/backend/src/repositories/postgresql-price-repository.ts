@@ -4,6 +4,7 @@
  */
 
 import { 
+  ListingPrice,
   Price, 
   PriceRepository, 
   TradingUnitType 
@@ -16,10 +17,10 @@ export class PostgreSQLPriceRepository implements PriceRepository {
   async save(price: Price): Promise<Price> {
     const sql = `
       INSERT INTO prices (
-        id, item_id, price_diamond_blocks, trading_unit, 
-        is_current, source, created_by
+        id, item_id, price_diamonds, trading_unit, 
+        is_current, source, confidence_level, created_by
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7
+        $1, $2, $3, $4, $5, $6, $7, $8
       ) RETURNING *
     `;
     
@@ -30,6 +31,7 @@ export class PostgreSQLPriceRepository implements PriceRepository {
       price.tradingUnit,
       price.isCurrent,
       price.source,
+      price.confidenceLevel ?? null,
       price.createdBy
     ];
 
@@ -80,7 +82,7 @@ export class PostgreSQLPriceRepository implements PriceRepository {
     let paramIndex = 1;
 
     if (updates.priceDiamonds !== undefined) {
-      setParts.push(`price_diamond_blocks = $${paramIndex++}`);
+      setParts.push(`price_diamonds = $${paramIndex++}`);
       params.push(updates.priceDiamonds);
     }
 
@@ -126,12 +128,29 @@ export class PostgreSQLPriceRepository implements PriceRepository {
     return results.map(row => this.mapRowToPrice(row));
   }
 
+  async findByMinecraftId(minecraftId: string): Promise<ListingPrice[]> {
+    const sql = `
+      SELECT p.*, i.item_attributes FROM prices p
+      JOIN items i ON i.id = p.item_id
+      WHERE i.minecraft_id = $1
+      ORDER BY p.created_at DESC
+    `;
+    const results = await this.db.query(sql, [minecraftId]);
+    return results.map(row => ({ ...this.mapRowToPrice(row), itemAttributes: row.item_attributes ?? undefined }));
+  }
+
   async findCurrentPrices(): Promise<Price[]> {
     const sql = 'SELECT * FROM prices WHERE is_current = true ORDER BY created_at DESC';
     const results = await this.db.query(sql);
     return results.map(row => this.mapRowToPrice(row));
   }
 
+  async findCurrentByItemIds(itemIds: string[]): Promise<Price[]> {
+    const sql = 'SELECT * FROM prices WHERE is_current = true AND item_id = ANY($1::UUID[])';
+    const results = await this.db.query(sql, [itemIds]);
+    return results.map(row => this.mapRowToPrice(row));
+  }
+
   async updateCurrentPrice(itemId: string, newPrice: Price): Promise<void> {
     // Start transaction to ensure atomicity
     await this.db.query('BEGIN');
@@ -158,10 +177,11 @@ export class PostgreSQLPriceRepository implements PriceRepository {
     return {
       id: row.id,
       itemId: row.item_id,
-      priceDiamonds: parseFloat(row.price_diamond_blocks),
+      priceDiamonds: parseFloat(row.price_diamonds),
       tradingUnit: row.trading_unit as TradingUnitType,
       isCurrent: row.is_current,
       source: row.source,
+      confidenceLevel: row.confidence_level ?? undefined,
       createdBy: row.created_by,
       createdAt: new Date(row.created_at)
     };
@@ -0,0 +1,126 @@
+/**
+ * PostgreSQL Session Repository Implementation
+ * Foundation-first: Implements the SessionRepository interface
+ */
+
+import {
+  Session,
+  SessionRepository
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLSessionRepository implements SessionRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async save(session: Session): Promise<Session> {
+    const sql = `
+      INSERT INTO sessions (
+        id, user_id, session_token, issued_role, expires_at
+      ) VALUES (
+        $1, $2, $3, $4, $5
+      ) RETURNING *
+    `;
+
+    const params = [
+      session.id,
+      session.userId,
+      session.sessionToken,
+      session.issuedRole,
+      session.expiresAt
+    ];
+
+    const result = await this.db.queryOne(sql, params);
+    return this.mapRowToSession(result);
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    const sql = 'SELECT * FROM sessions WHERE id = $1';
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToSession(result) : null;
+  }
+
+  async findAll(criteria?: Partial<Session>): Promise<Session[]> {
+    let sql = 'SELECT * FROM sessions WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria?.userId) {
+      sql += ` AND user_id = $${paramIndex++}`;
+      params.push(criteria.userId);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const results = await this.db.query(sql, params);
+    return results.map(row => this.mapRowToSession(row));
+  }
+
+  async update(id: string, updates: Partial<Session>): Promise<Session> {
+    const setParts: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (updates.sessionToken !== undefined) {
+      setParts.push(`session_token = $${paramIndex++}`);
+      params.push(updates.sessionToken);
+    }
+
+    if (updates.expiresAt !== undefined) {
+      setParts.push(`expires_at = $${paramIndex++}`);
+      params.push(updates.expiresAt);
+    }
+
+    if (setParts.length === 0) {
+      throw new Error('No valid updates provided');
+    }
+
+    const sql = `
+      UPDATE sessions
+      SET ${setParts.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    params.push(id);
+
+    const result = await this.db.queryOne(sql, params);
+    if (!result) {
+      throw new Error(`Session with id ${id} not found`);
+    }
+
+    return this.mapRowToSession(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    const sql = 'DELETE FROM sessions WHERE id = $1';
+    await this.db.query(sql, [id]);
+  }
+
+  // SessionRepository specific methods
+  async findByToken(sessionToken: string): Promise<Session | null> {
+    const sql = 'SELECT * FROM sessions WHERE session_token = $1';
+    const result = await this.db.queryOne(sql, [sessionToken]);
+    return result ? this.mapRowToSession(result) : null;
+  }
+
+  async deleteByToken(sessionToken: string): Promise<void> {
+    const sql = 'DELETE FROM sessions WHERE session_token = $1';
+    await this.db.query(sql, [sessionToken]);
+  }
+
+  async deleteByUserId(userId: string): Promise<void> {
+    const sql = 'DELETE FROM sessions WHERE user_id = $1';
+    await this.db.query(sql, [userId]);
+  }
+
+  // Helper method to map database rows to Session objects
+  private mapRowToSession(row: any): Session {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      sessionToken: row.session_token,
+      issuedRole: row.issued_role,
+      expiresAt: new Date(row.expires_at),
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
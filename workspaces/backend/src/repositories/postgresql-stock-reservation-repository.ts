@@ -0,0 +1,189 @@
+/**
+ * PostgreSQL Stock Reservation Repository Implementation
+ * Foundation-first: Holds on listing stock for open trades
+ * (database/017_stock_reservations.sql). Every change to a hold moves
+ * items.reserved_quantity in the same statement, so a hold is only taken
+ * while unreserved stock covers it and is never counted twice.
+ */
+
+import {
+  StockReservation,
+  StockReservationRepository,
+  StockReservationStatus
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+// Returns the holds released by the `released` CTE it is appended to
+const RELEASE_RESERVED_STOCK = `
+  , stock AS (
+    UPDATE items i
+    SET reserved_quantity = GREATEST(0, i.reserved_quantity - r.quantity)
+    FROM (SELECT item_id, SUM(quantity) AS quantity FROM released GROUP BY item_id) r
+    WHERE i.id = r.item_id
+  )
+  SELECT * FROM released
+`;
+
+export class PostgreSQLStockReservationRepository implements StockReservationRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async save(reservation: StockReservation): Promise<StockReservation> {
+    const saved = await this.reserve(reservation);
+    if (!saved) {
+      throw new Error(`Not enough unreserved stock on item ${reservation.itemId}`);
+    }
+    return saved;
+  }
+
+  async findById(id: string): Promise<StockReservation | null> {
+    const sql = 'SELECT * FROM stock_reservations WHERE id = $1';
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToReservation(result) : null;
+  }
+
+  async findAll(criteria?: Partial<StockReservation>): Promise<StockReservation[]> {
+    let sql = 'SELECT * FROM stock_reservations WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria?.itemId) {
+      sql += ` AND item_id = $${paramIndex++}`;
+      params.push(criteria.itemId);
+    }
+
+    if (criteria?.transactionId) {
+      sql += ` AND transaction_id = $${paramIndex++}`;
+      params.push(criteria.transactionId);
+    }
+
+    if (criteria?.holderId) {
+      sql += ` AND holder_id = $${paramIndex++}`;
+      params.push(criteria.holderId);
+    }
+
+    if (criteria?.status) {
+      sql += ` AND status = $${paramIndex++}`;
+      params.push(criteria.status);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const results = await this.db.query(sql, params);
+    return results.map(row => this.mapRowToReservation(row));
+  }
+
+  async update(id: string, updates: Partial<StockReservation>): Promise<StockReservation> {
+    // Only the deadline is free to change; status moves go through
+    // release/releaseExpired and completion so reserved_quantity follows
+    if (updates.expiresAt === undefined) {
+      throw new Error('No valid updates provided');
+    }
+
+    const sql = `
+      UPDATE stock_reservations
+      SET expires_at = $1
+      WHERE id = $2
+      RETURNING *
+    `;
+
+    const result = await this.db.queryOne(sql, [updates.expiresAt, id]);
+    if (!result) {
+      throw new Error(`Stock reservation with id ${id} not found`);
+    }
+
+    return this.mapRowToReservation(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    // Deleting an active hold gives its stock back
+    const sql = `
+      WITH deleted AS (
+        DELETE FROM stock_reservations
+        WHERE id = $1
+        RETURNING *
+      )
+      UPDATE items i
+      SET reserved_quantity = GREATEST(0, i.reserved_quantity - d.quantity)
+      FROM deleted d
+      WHERE i.id = d.item_id AND d.status = 'active'
+    `;
+    await this.db.query(sql, [id]);
+  }
+
+  async reserve(reservation: StockReservation): Promise<StockReservation | null> {
+    const sql = `
+      WITH held AS (
+        UPDATE items
+        SET reserved_quantity = reserved_quantity + $5
+        WHERE id = $2 AND stock_quantity - reserved_quantity >= $5
+        RETURNING id
+      )
+      INSERT INTO stock_reservations (
+        id, item_id, transaction_id, holder_id, quantity, status, expires_at
+      )
+      SELECT $1, held.id, $3, $4, $5, 'active', $6
+      FROM held
+      RETURNING *
+    `;
+
+    const params = [
+      reservation.id,
+      reservation.itemId,
+      reservation.transactionId,
+      reservation.holderId,
+      reservation.quantity,
+      reservation.expiresAt
+    ];
+
+    const result = await this.db.queryOne(sql, params);
+    return result ? this.mapRowToReservation(result) : null;
+  }
+
+  async findActiveByTransactionId(transactionId: string): Promise<StockReservation | null> {
+    const sql = `SELECT * FROM stock_reservations WHERE transaction_id = $1 AND status = 'active'`;
+    const result = await this.db.queryOne(sql, [transactionId]);
+    return result ? this.mapRowToReservation(result) : null;
+  }
+
+  async release(transactionId: string): Promise<StockReservation | null> {
+    const sql = `
+      WITH released AS (
+        UPDATE stock_reservations
+        SET status = 'released', released_at = now()
+        WHERE transaction_id = $1 AND status = 'active'
+        RETURNING *
+      )${RELEASE_RESERVED_STOCK}
+    `;
+
+    const result = await this.db.queryOne(sql, [transactionId]);
+    return result ? this.mapRowToReservation(result) : null;
+  }
+
+  async releaseExpired(now: Date): Promise<StockReservation[]> {
+    const sql = `
+      WITH released AS (
+        UPDATE stock_reservations
+        SET status = 'released', released_at = now()
+        WHERE status = 'active' AND expires_at <= $1
+        RETURNING *
+      )${RELEASE_RESERVED_STOCK}
+    `;
+
+    const results = await this.db.query(sql, [now]);
+    return results.map(row => this.mapRowToReservation(row));
+  }
+
+  private mapRowToReservation(row: any): StockReservation {
+    return {
+      id: row.id,
+      itemId: row.item_id,
+      transactionId: row.transaction_id,
+      holderId: row.holder_id,
+      quantity: row.quantity,
+      status: row.status as StockReservationStatus,
+      expiresAt: new Date(row.expires_at),
+      createdAt: new Date(row.created_at),
+      releasedAt: row.released_at ? new Date(row.released_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * PostgreSQL Transaction Repository Implementation
+ * Foundation-first: Trades between players (database/016_transactions.sql).
+ * Status changes are compare-and-set on the current status, so two parties
+ * acting at once cannot both win; completion also takes the stock down and
+ * converts the trade's stock reservation in the same statement.
+ */
+
+import {
+  Transaction,
+  TransactionRepository,
+  TransactionStatus,
+  TradingUnitType
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLTransactionRepository implements TransactionRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async save(transaction: Transaction): Promise<Transaction> {
+    const sql = `
+      INSERT INTO transactions (
+        id, item_id, item_name, buyer_id, seller_id, quantity,
+        price_diamonds, trading_unit, total_diamonds, status, note
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
+      ) RETURNING *
+    `;
+
+    const params = [
+      transaction.id,
+      transaction.itemId ?? null,
+      transaction.itemName,
+      transaction.buyerId,
+      transaction.sellerId,
+      transaction.quantity,
+      transaction.priceDiamonds,
+      transaction.tradingUnit,
+      transaction.totalDiamonds,
+      transaction.status,
+      transaction.note ?? null
+    ];
+
+    const result = await this.db.queryOne(sql, params);
+    return this.mapRowToTransaction(result);
+  }
+
+  async findById(id: string): Promise<Transaction | null> {
+    const sql = 'SELECT * FROM transactions WHERE id = $1';
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToTransaction(result) : null;
+  }
+
+  async findAll(criteria?: Partial<Transaction>): Promise<Transaction[]> {
+    let sql = 'SELECT * FROM transactions WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria?.itemId) {
+      sql += ` AND item_id = $${paramIndex++}`;
+      params.push(criteria.itemId);
+    }
+
+    if (criteria?.buyerId) {
+      sql += ` AND buyer_id = $${paramIndex++}`;
+      params.push(criteria.buyerId);
+    }
+
+    if (criteria?.sellerId) {
+      sql += ` AND seller_id = $${paramIndex++}`;
+      params.push(criteria.sellerId);
+    }
+
+    if (criteria?.status) {
+      sql += ` AND status = $${paramIndex++}`;
+      params.push(criteria.status);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const results = await this.db.query(sql, params);
+    return results.map(row => this.mapRowToTransaction(row));
+  }
+
+  async update(id: string, updates: Partial<Transaction>): Promise<Transaction> {
+    const setParts: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (updates.status !== undefined) {
+      setParts.push(`status = $${paramIndex++}`);
+      params.push(updates.status);
+    }
+
+    if (updates.note !== undefined) {
+      setParts.push(`note = $${paramIndex++}`);
+      params.push(updates.note);
+    }
+
+    if (updates.closedBy !== undefined) {
+      setParts.push(`closed_by = $${paramIndex++}`);
+      params.push(updates.closedBy);
+    }
+
+    if (updates.closeReason !== undefined) {
+      setParts.push(`close_reason = $${paramIndex++}`);
+      params.push(updates.closeReason);
+    }
+
+    if (setParts.length === 0) {
+      throw new Error('No valid updates provided');
+    }
+
+    setParts.push('updated_at = now()');
+    const sql = `
+      UPDATE transactions
+      SET ${setParts.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    params.push(id);
+
+    const result = await this.db.queryOne(sql, params);
+    if (!result) {
+      throw new Error(`Transaction with id ${id} not found`);
+    }
+
+    return this.mapRowToTransaction(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.query('DELETE FROM transactions WHERE id = $1', [id]);
+  }
+
+  async findByParticipant(userId: string, limit: number = 100): Promise<Transaction[]> {
+    const sql = `
+      SELECT * FROM transactions
+      WHERE buyer_id = $1 OR seller_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2
+    `;
+
+    const results = await this.db.query(sql, [userId, limit]);
+    return results.map(row => this.mapRowToTransaction(row));
+  }
+
+  async transition(
+    id: string,
+    from: readonly TransactionStatus[],
+    to: TransactionStatus,
+    changes: Pick<Transaction, 'closedBy' | 'closeReason'> = {}
+  ): Promise<Transaction | null> {
+    const sql = `
+      UPDATE transactions
+      SET status = $3,
+          accepted_at = CASE WHEN $3 = 'accepted' THEN now() ELSE accepted_at END,
+          closed_by = COALESCE($4, closed_by),
+          close_reason = COALESCE($5, close_reason),
+          updated_at = now()
+      WHERE id = $1 AND status = ANY($2::TEXT[])
+      RETURNING *
+    `;
+
+    const result = await this.db.queryOne(sql, [id, from, to, changes.closedBy ?? null, changes.closeReason ?? null]);
+    return result ? this.mapRowToTransaction(result) : null;
+  }
+
+  async complete(id: string): Promise<Transaction | null> {
+    // The trade may use its own hold plus any stock no other trade holds;
+    // the hold and stock updates only run for the row the first CTE completed
+    const sql = `
+      WITH completed AS (
+        UPDATE transactions t
+        SET status = 'completed', completed_at = now(), updated_at = now()
+        FROM items i
+        WHERE t.id = $1
+          AND t.status = 'accepted'
+          AND i.id = t.item_id
+          AND i.stock_quantity - i.reserved_quantity + COALESCE((
+            SELECT r.quantity FROM stock_reservations r
+            WHERE r.transaction_id = t.id AND r.status = 'active'
+          ), 0) >= t.quantity
+        RETURNING t.*
+      ), converted AS (
+        UPDATE stock_reservations r
+        SET status = 'converted', released_at = now()
+        FROM completed c
+        WHERE r.transaction_id = c.id AND r.status = 'active'
+        RETURNING r.quantity
+      ), stock AS (
+        UPDATE items i
+        SET stock_quantity = i.stock_quantity - c.quantity,
+            reserved_quantity = GREATEST(0, i.reserved_quantity - COALESCE((SELECT SUM(quantity) FROM converted), 0)),
+            is_available = i.stock_quantity - c.quantity > 0,
+            updated_at = now()
+        FROM completed c
+        WHERE i.id = c.item_id
+      )
+      SELECT * FROM completed
+    `;
+
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToTransaction(result) : null;
+  }
+
+  private mapRowToTransaction(row: any): Transaction {
+    return {
+      id: row.id,
+      itemId: row.item_id ?? undefined,
+      itemName: row.item_name,
+      buyerId: row.buyer_id,
+      sellerId: row.seller_id,
+      quantity: row.quantity,
+      priceDiamonds: parseFloat(row.price_diamonds),
+      tradingUnit: row.trading_unit as TradingUnitType,
+      totalDiamonds: parseFloat(row.total_diamonds),
+      status: row.status as TransactionStatus,
+      note: row.note ?? undefined,
+      closedBy: row.closed_by ?? undefined,
+      closeReason: row.close_reason ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      acceptedAt: row.accepted_at ? new Date(row.accepted_at) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * PostgreSQL User Repository Implementation
+ * Foundation-first: Implements the UserRepository interface
+ */
+
+import {
+  User,
+  UserRepository,
+  UserRole
+} from '@shared/types/service-interfaces';
+import { DatabaseConnection } from './postgresql-item-repository';
+
+export class PostgreSQLUserRepository implements UserRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  async save(user: User): Promise<User> {
+    const sql = `
+      INSERT INTO users (
+        id, discord_id, username, email, avatar_url,
+        shop_name, role, is_active
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8
+      ) RETURNING *
+    `;
+
+    const params = [
+      user.id,
+      user.discordId,
+      user.username,
+      user.email,
+      user.avatarUrl,
+      user.shopName,
+      user.role,
+      user.isActive
+    ];
+
+    const result = await this.db.queryOne(sql, params);
+    return this.mapRowToUser(result);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const sql = 'SELECT * FROM users WHERE id = $1';
+    const result = await this.db.queryOne(sql, [id]);
+    return result ? this.mapRowToUser(result) : null;
+  }
+
+  async findAll(criteria?: Partial<User>): Promise<User[]> {
+    let sql = 'SELECT * FROM users WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (criteria?.role) {
+      sql += ` AND role = $${paramIndex++}`;
+      params.push(criteria.role);
+    }
+
+    if (criteria?.isActive !== undefined) {
+      sql += ` AND is_active = $${paramIndex++}`;
+      params.push(criteria.isActive);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    const results = await this.db.query(sql, params);
+    return results.map(row => this.mapRowToUser(row));
+  }
+
+  async update(id: string, updates: Partial<User>): Promise<User> {
+    const setParts: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (updates.username !== undefined) {
+      setParts.push(`username = $${paramIndex++}`);
+      params.push(updates.username);
+    }
+
+    if (updates.email !== undefined) {
+      setParts.push(`email = $${paramIndex++}`);
+      params.push(updates.email);
+    }
+
+    if (updates.avatarUrl !== undefined) {
+      setParts.push(`avatar_url = $${paramIndex++}`);
+      params.push(updates.avatarUrl);
+    }
+
+    if (updates.shopName !== undefined) {
+      setParts.push(`shop_name = $${paramIndex++}`);
+      params.push(updates.shopName);
+    }
+
+    if (updates.role !== undefined) {
+      setParts.push(`role = $${paramIndex++}`);
+      params.push(updates.role);
+    }
+
+    if (updates.isActive !== undefined) {
+      setParts.push(`is_active = $${paramIndex++}`);
+      params.push(updates.isActive);
+    }
+
+    if (setParts.length === 0) {
+      throw new Error('No valid updates provided');
+    }
+
+    const sql = `
+      UPDATE users
+      SET ${setParts.join(', ')}
+      WHERE id = $${paramIndex}
+      RETURNING *
+    `;
+    params.push(id);
+
+    const result = await this.db.queryOne(sql, params);
+    if (!result) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    return this.mapRowToUser(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    const sql = 'DELETE FROM users WHERE id = $1';
+    await this.db.query(sql, [id]);
+  }
+
+  // UserRepository specific methods
+  async findByDiscordId(discordId: string): Promise<User | null> {
+    const sql = 'SELECT * FROM users WHERE discord_id = $1';
+    const result = await this.db.queryOne(sql, [discordId]);
+    return result ? this.mapRowToUser(result) : null;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    const sql = 'SELECT * FROM users WHERE username = $1';
+    const result = await this.db.queryOne(sql, [username]);
+    return result ? this.mapRowToUser(result) : null;
+  }
+
+  async findByShopName(shopName: string): Promise<User | null> {
+    const sql = 'SELECT * FROM users WHERE lower(shop_name) = lower($1) ORDER BY created_at LIMIT 1';
+    const result = await this.db.queryOne(sql, [shopName]);
+    return result ? this.mapRowToUser(result) : null;
+  }
+
+  async findByIds(ids: string[]): Promise<User[]> {
+    const sql = 'SELECT * FROM users WHERE id = ANY($1::UUID[])';
+    const results = await this.db.query(sql, [ids]);
+    return results.map(row => this.mapRowToUser(row));
+  }
+
+  // Helper method to map database rows to User objects
+  private mapRowToUser(row: any): User {
+    return {
+      id: row.id,
+      discordId: row.discord_id,
+      username: row.username,
+      email: row.email ?? undefined,
+      avatarUrl: row.avatar_url ?? undefined,
+      shopName: row.shop_name ?? undefined,
+      role: row.role as UserRole,
+      isActive: row.is_active,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
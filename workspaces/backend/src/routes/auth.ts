@@ -0,0 +1,92 @@
+/**
+ * Authentication Routes
+ * Discord OAuth2 callback exchange issuing a session cookie and PostgREST JWT,
+ * plus session introspection and revocation
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { AuthenticationService } from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import type { SessionService } from '@shared/services/session-service';
+import { AuthenticationError } from '../services/authentication-service';
+import { clearSessionCookie, setSessionCookie } from '../middleware/session';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse, readJson, unauthorized, validationError } from '../http/responses';
+
+export const discordCallbackSchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+const AUTH_ERROR_STATUS = {
+  DISCORD_TOKEN_EXCHANGE_FAILED: 401,
+  DISCORD_PROFILE_FAILED: 502,
+  USER_INACTIVE: 403,
+} as const;
+
+export function createAuthRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const auth = new Hono<AppEnv>();
+  const authService = (): AuthenticationService =>
+    container.get<AuthenticationService>(SERVICE_KEYS.AUTHENTICATION_SERVICE);
+  const sessionService = (): SessionService =>
+    container.get<SessionService>(SERVICE_KEYS.SESSION_SERVICE);
+
+  auth.post('/discord', async (c) => {
+    const body = discordCallbackSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const service = authService();
+    const user = await service.authenticate(body.data.code);
+    const [sessionToken, accessToken] = await Promise.all([
+      service.createSession(user),
+      service.generateJWT(user),
+    ]);
+
+    setSessionCookie(c, sessionToken);
+    return c.json({ user, accessToken });
+  });
+
+  auth.get('/me', async (c) => {
+    const user = c.get('user');
+    if (!user) {
+      return unauthorized(c);
+    }
+
+    const accessToken = await authService().generateJWT(user);
+    return c.json({ user, accessToken });
+  });
+
+  auth.post('/logout', async (c) => {
+    const sessionToken = c.get('sessionToken');
+    if (sessionToken) {
+      await sessionService().destroySession(sessionToken);
+    }
+
+    clearSessionCookie(c);
+    return c.body(null, 204);
+  });
+
+  // Revokes every session for the user, e.g. after a lost device
+  auth.post('/logout-all', async (c) => {
+    const user = c.get('user');
+    if (!user) {
+      return unauthorized(c);
+    }
+
+    await sessionService().destroyAllSessions(user.id);
+    clearSessionCookie(c);
+    return c.body(null, 204);
+  });
+
+  auth.onError((err, c) => {
+    if (err instanceof AuthenticationError) {
+      return errorResponse(c, AUTH_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    throw err;
+  });
+
+  return auth;
+}
@@ -0,0 +1,95 @@
+/**
+ * Buy Order Routes
+ * Standing buy orders (WTB), backed by MarketplaceBuyOrderService. Anyone
+ * who can trade browses open orders per item and server; the signed-in
+ * user's own orders come back from GET /mine with the listings matched
+ * against them.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { BuyOrderService, CreateBuyOrderRequest, TradingUnitType } from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import { isMinecraftItemId, normalizeMinecraftId } from '@shared/utils/minecraft-items';
+import { BuyOrderError } from '../services/buy-order-service';
+import { requirePermission } from '../middleware/permissions';
+import { requireUuidParam } from '../middleware/params';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse, readJson, validationError } from '../http/responses';
+
+const TRADING_UNITS = ['per_item', 'per_stack', 'per_shulker', 'per_dozen'] as const satisfies readonly TradingUnitType[];
+
+export const createBuyOrderRequestSchema = z.object({
+  minecraftId: z.string().trim().min(1)
+    .transform(normalizeMinecraftId)
+    .refine(isMinecraftItemId, { message: 'Invalid Minecraft item ID' }),
+  itemName: z.string().trim().min(1).max(200).optional(),
+  serverName: z.string().trim().min(1).max(100),
+  quantity: z.number().int().min(1),
+  maxPriceDiamonds: z.number().min(0),
+  tradingUnit: z.enum(TRADING_UNITS),
+  note: z.string().trim().min(1).max(500).optional(),
+}).strict() satisfies z.ZodType<CreateBuyOrderRequest>;
+
+const openBuyOrdersQuerySchema = z.object({
+  minecraftId: z.string().trim().min(1).transform(normalizeMinecraftId).optional(),
+  serverName: z.string().trim().min(1).optional(),
+});
+
+const BUY_ORDER_ERROR_STATUS = {
+  BUY_ORDER_NOT_FOUND: 404,
+  NOT_BUY_ORDER_OWNER: 403,
+  INVALID_TRADING_UNIT: 400,
+  INVALID_TRANSITION: 409,
+} as const;
+
+export function createBuyOrderRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const buyOrders = new Hono<AppEnv>();
+  const buyOrderService = (): BuyOrderService =>
+    container.get<BuyOrderService>(SERVICE_KEYS.BUY_ORDER_SERVICE);
+  const validId = requireUuidParam('Buy order');
+
+  buyOrders.use('*', requirePermission('TRADE_ITEMS'));
+
+  buyOrders.get('/', async (c) => {
+    const query = openBuyOrdersQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return validationError(c, query.error);
+    }
+
+    return c.json(await buyOrderService().getOpenBuyOrders(query.data));
+  });
+
+  buyOrders.get('/mine', async (c) => {
+    return c.json(await buyOrderService().getUserBuyOrders(c.get('user')!.id));
+  });
+
+  buyOrders.post('/', async (c) => {
+    const body = createBuyOrderRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const order = await buyOrderService().createBuyOrder(body.data, c.get('user')!.id);
+    return c.json(order, 201);
+  });
+
+  buyOrders.post('/:id/cancel', validId, async (c) => {
+    return c.json(await buyOrderService().cancelBuyOrder(c.req.param('id'), c.get('user')!.id));
+  });
+
+  buyOrders.post('/:id/fill', validId, async (c) => {
+    return c.json(await buyOrderService().fillBuyOrder(c.req.param('id'), c.get('user')!.id));
+  });
+
+  // Ownership and status failures are expected outcomes, not server errors
+  buyOrders.onError((err, c) => {
+    if (err instanceof BuyOrderError) {
+      return errorResponse(c, BUY_ORDER_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    throw err;
+  });
+
+  return buyOrders;
+}
@@ -0,0 +1,56 @@
+/**
+ * Discord Interaction Routes
+ * The application's Interactions Endpoint URL in the Discord developer
+ * portal points at POST /interactions. Discord signs every request; the
+ * signature covers the raw body, so it is checked before the body is parsed
+ * and unsigned requests get a 401, as Discord's endpoint check expects.
+ */
+
+import { Hono } from 'hono';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse } from '../http/responses';
+import {
+  DiscordInteractionError,
+  DiscordInteractionService,
+  type DiscordInteraction
+} from '../services/discord-interactions';
+
+const DISCORD_INTERACTION_ERROR_STATUS = {
+  UNSUPPORTED_INTERACTION: 400,
+} as const;
+
+export function createDiscordRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const discord = new Hono<AppEnv>();
+  const interactionService = (): DiscordInteractionService =>
+    container.get<DiscordInteractionService>(SERVICE_KEYS.DISCORD_INTERACTION_SERVICE);
+
+  discord.post('/interactions', async (c) => {
+    const body = await c.req.text();
+    const signature = c.req.header('X-Signature-Ed25519') ?? '';
+    const timestamp = c.req.header('X-Signature-Timestamp') ?? '';
+
+    if (!interactionService().verifyRequest(signature, timestamp, body)) {
+      return errorResponse(c, 401, 'Unauthorized', 'Invalid request signature');
+    }
+
+    let interaction: DiscordInteraction;
+    try {
+      interaction = JSON.parse(body);
+    } catch {
+      return errorResponse(c, 400, 'Bad Request', 'Interaction body must be JSON');
+    }
+
+    return c.json(await interactionService().handle(interaction));
+  });
+
+  discord.onError((err, c) => {
+    if (err instanceof DiscordInteractionError) {
+      return errorResponse(c, DISCORD_INTERACTION_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    throw err;
+  });
+
+  return discord;
+}
@@ -0,0 +1,211 @@
+/**
+ * Item Routes
+ * REST endpoints for marketplace listings, backed by MinecraftItemService
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type {
+  CreateItemRequest,
+  Item,
+  ItemCategory,
+  SearchItemsRequest,
+  TradingUnitType,
+} from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import { isMinecraftItemId, normalizeMinecraftId } from '@shared/utils/minecraft-items';
+import { MinecraftItemService, ItemServiceError } from '../services/item-service';
+import { MinecraftPricingService, PricingError } from '../services/pricing-service';
+import { requirePermission } from '../middleware/permissions';
+import { requireUuidParam } from '../middleware/params';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse, readJson, validationError } from '../http/responses';
+
+const ITEM_CATEGORIES = ['tools', 'armor', 'blocks', 'food', 'misc'] as const satisfies readonly ItemCategory[];
+const TRADING_UNITS = ['per_item', 'per_stack', 'per_shulker', 'per_dozen'] as const satisfies readonly TradingUnitType[];
+
+// Accepts bare IDs ("diamond_sword") and stores the namespaced form. IDs missing
+// from the bundled vanilla list are allowed: that list is not the full registry.
+const minecraftIdSchema = z.string().trim().min(1)
+  .transform(normalizeMinecraftId)
+  .refine(isMinecraftItemId, { message: 'Invalid Minecraft item ID' });
+
+export const createItemRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000),
+  category: z.enum(ITEM_CATEGORIES),
+  minecraftId: minecraftIdSchema,
+  stockQuantity: z.number().int().min(0),
+  serverName: z.string().trim().min(1).optional(),
+  shopLocation: z.string().trim().min(1).optional(),
+  price: z.number().min(0),
+  tradingUnit: z.enum(TRADING_UNITS),
+}) satisfies z.ZodType<CreateItemRequest>;
+
+export const updateItemRequestSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).optional(),
+  stockQuantity: z.number().int().min(0).optional(),
+  isAvailable: z.boolean().optional(),
+  enchantments: z.record(z.number().int().min(1)).optional(),
+}).strict() satisfies z.ZodType<Partial<Item>>;
+
+export const updatePriceRequestSchema = z.object({
+  price: z.number().min(0),
+  tradingUnit: z.enum(TRADING_UNITS),
+});
+
+export const searchItemsQuerySchema = z.object({
+  query: z.string().trim().min(1).optional(),
+  category: z.enum(ITEM_CATEGORIES).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  tradingUnit: z.enum(TRADING_UNITS).optional(),
+  serverName: z.string().trim().min(1).optional(),
+  availableOnly: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  sortBy: z.enum(['relevance', 'newest', 'price_asc', 'price_desc']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+}) satisfies z.ZodType<SearchItemsRequest, z.ZodTypeDef, unknown>;
+
+export const priceHistoryQuerySchema = z.object({
+  unit: z.enum(TRADING_UNITS).optional(),
+});
+
+export const priceSuggestionQuerySchema = z.object({
+  minecraftId: z.string().trim().min(1).transform(normalizeMinecraftId),
+  tradingUnit: z.enum(TRADING_UNITS).default('per_item'),
+});
+
+const ITEM_ERROR_STATUS = {
+  ITEM_NOT_FOUND: 404,
+  NOT_ITEM_OWNER: 403,
+  INVALID_TRADING_UNIT: 400,
+} as const;
+
+const PRICING_ERROR_STATUS = {
+  NO_PRICE_HISTORY: 404,
+  INVALID_TRADING_UNIT: 400,
+} as const;
+
+/**
+ * Build the /items router. Services are resolved from the container per request
+ * so tests and request-scoped child containers can swap implementations.
+ * Mutations sit behind requirePermission, which guarantees `user` is set.
+ */
+export function createItemRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const items = new Hono<AppEnv>();
+  const itemService = (): MinecraftItemService =>
+    container.get<MinecraftItemService>(SERVICE_KEYS.ITEM_SERVICE);
+  const pricingService = (): MinecraftPricingService =>
+    container.get<MinecraftPricingService>(SERVICE_KEYS.PRICING_SERVICE);
+  const validId = requireUuidParam('Item');
+
+  items.get('/', async (c) => {
+    const query = searchItemsQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return validationError(c, query.error);
+    }
+
+    const { listings, total } = await itemService().searchItems(query.data);
+    return c.json({ items: listings, count: listings.length, total });
+  });
+
+  // Market-derived price for the item creation form; null without recent history
+  items.get('/price-suggestion', async (c) => {
+    const query = priceSuggestionQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return validationError(c, query.error);
+    }
+
+    const suggestion = await pricingService().getPriceSuggestion(query.data.minecraftId, query.data.tradingUnit);
+    return c.json({ suggestion });
+  });
+
+  items.get('/:id', validId, async (c) => {
+    const item = await itemService().getItem(c.req.param('id'));
+    if (!item) {
+      return errorResponse(c, 404, 'Not Found', `Item with id ${c.req.param('id')} not found`);
+    }
+
+    return c.json(item);
+  });
+
+  // Owner and community-reported prices over time, in one unit for charting
+  items.get('/:id/prices', validId, async (c) => {
+    const query = priceHistoryQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return validationError(c, query.error);
+    }
+
+    return c.json(await itemService().getPriceHistory(c.req.param('id'), query.data.unit));
+  });
+
+  items.post('/', requirePermission('EDIT_OWN_LISTINGS'), async (c) => {
+    const user = c.get('user')!;
+
+    const body = createItemRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const item = await itemService().createItem(body.data, user.id);
+    return c.json(item, 201);
+  });
+
+  items.put('/:id', requirePermission('EDIT_OWN_LISTINGS'), validId, async (c) => {
+    const user = c.get('user')!;
+
+    const body = updateItemRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const item = await itemService().updateItem(c.req.param('id'), body.data, user.id);
+    return c.json(item);
+  });
+
+  items.delete('/:id', requirePermission('EDIT_OWN_LISTINGS'), validId, async (c) => {
+    const user = c.get('user')!;
+
+    await itemService().deleteItem(c.req.param('id'), user.id);
+    return c.body(null, 204);
+  });
+
+  items.put('/:id/price', requirePermission('EDIT_OWN_LISTINGS'), validId, async (c) => {
+    const user = c.get('user')!;
+
+    const body = updatePriceRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const price = await itemService().updateItemPrice(
+      c.req.param('id'),
+      body.data.price,
+      body.data.tradingUnit,
+      user.id
+    );
+    return c.json(price);
+  });
+
+  items.patch('/:id/verify', requirePermission('VERIFY_PRICES'), validId, async (c) => {
+    const item = await itemService().verifyItem(c.req.param('id'), c.get('user')!);
+    return c.json(item);
+  });
+
+  // Ownership and lookup failures are expected outcomes, not server errors
+  items.onError((err, c) => {
+    if (err instanceof ItemServiceError) {
+      return errorResponse(c, ITEM_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    if (err instanceof PricingError) {
+      return errorResponse(c, PRICING_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    throw err;
+  });
+
+  return items;
+}
@@ -0,0 +1,57 @@
+/**
+ * Order Book Routes
+ * Asks and bids for one item on one server in a trading unit the reader
+ * picks, backed by MarketplaceOrderBookService. Public like the item
+ * search: levels carry prices and quantities, never who placed them.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { OrderBookService, TradingUnitType } from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import { isMinecraftItemId, normalizeMinecraftId } from '@shared/utils/minecraft-items';
+import { PricingError } from '../services/pricing-service';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse, validationError } from '../http/responses';
+
+const TRADING_UNITS = ['per_item', 'per_stack', 'per_shulker', 'per_dozen'] as const satisfies readonly TradingUnitType[];
+
+export const orderBookQuerySchema = z.object({
+  minecraftId: z.string().trim().min(1)
+    .transform(normalizeMinecraftId)
+    .refine(isMinecraftItemId, { message: 'Invalid Minecraft item ID' }),
+  serverName: z.string().trim().min(1).max(100),
+  unit: z.enum(TRADING_UNITS).default('per_item'),
+});
+
+const PRICING_ERROR_STATUS = {
+  NO_PRICE_HISTORY: 404,
+  INVALID_TRADING_UNIT: 400,
+} as const;
+
+export function createOrderBookRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const orderBook = new Hono<AppEnv>();
+  const orderBookService = (): OrderBookService =>
+    container.get<OrderBookService>(SERVICE_KEYS.ORDER_BOOK_SERVICE);
+
+  orderBook.get('/', async (c) => {
+    const query = orderBookQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return validationError(c, query.error);
+    }
+
+    const { minecraftId, serverName, unit } = query.data;
+    return c.json(await orderBookService().getOrderBook(minecraftId, serverName, unit));
+  });
+
+  // Units the item cannot stack into are a bad request, not a server error
+  orderBook.onError((err, c) => {
+    if (err instanceof PricingError) {
+      return errorResponse(c, PRICING_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    throw err;
+  });
+
+  return orderBook;
+}
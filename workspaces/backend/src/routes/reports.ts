@@ -0,0 +1,232 @@
+/**
+ * Community Report Routes
+ * Report submission with evidence through the ReportingService, which scores
+ * confidence and auto-approves high-confidence stock status changes.
+ * Accepts JSON or multipart/form-data with a `report` JSON field plus up to
+ * MAX_EVIDENCE_FILES `evidence` files, stored through the FileUploadService.
+ * Reports state their claimed values per report type (price, stock state,
+ * closure date). Listing owners review reports on their own listings,
+ * moderators review any; approving applies the claimed values to the listing.
+ */
+
+import { Hono, type Context } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
+import { z } from 'zod';
+import type {
+  ClaimedValuesByReportType,
+  CreateReportRequest,
+  EvidenceRepository,
+  EvidenceType,
+  FileUploadService,
+  ReportDecision,
+  ReportingService,
+  TradingUnitType,
+} from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import { requirePermission } from '../middleware/permissions';
+import { requireUuidParam } from '../middleware/params';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse, readJson, validationError } from '../http/responses';
+import { DEFAULT_MAX_UPLOAD_BYTES, FileUploadError } from '../services/file-upload-service';
+import { ReportingError } from '../services/reporting-service';
+
+const TRADING_UNITS = ['per_item', 'per_stack', 'per_shulker', 'per_dozen'] as const satisfies readonly TradingUnitType[];
+// Files arrive as multipart parts; clients may not claim a server-side path
+const CLIENT_EVIDENCE_TYPES = ['transaction_record', 'description', 'external_link'] as const satisfies readonly EvidenceType[];
+
+export const MAX_EVIDENCE_FILES = 5;
+// Room for every file plus the report fields and multipart framing
+const MAX_REPORT_REQUEST_BYTES = MAX_EVIDENCE_FILES * DEFAULT_MAX_UPLOAD_BYTES + 1024 * 1024;
+
+const evidenceDataSchema = z.object({
+  evidenceType: z.enum(CLIENT_EVIDENCE_TYPES),
+  externalUrl: z.string().url().optional(),
+  description: z.string().trim().max(1000).optional(),
+  timestampCaptured: z.coerce.date().optional(),
+  minecraftServer: z.string().trim().max(100).optional(),
+  coordinates: z.string().trim().max(100).optional(),
+}).strict();
+
+const reportFieldsSchema = z.object({
+  itemId: z.string().min(1),
+  description: z.string().trim().min(1).max(2000),
+  evidence: z.array(evidenceDataSchema).max(10).optional(),
+});
+
+// Each report type carries its own claimed values; incorrect_info carries none
+export const createReportRequestSchema = z.discriminatedUnion('reportType', [
+  reportFieldsSchema.extend({
+    reportType: z.literal('price_change'),
+    claimedValues: z.object({
+      priceDiamonds: z.number().positive(),
+      tradingUnit: z.enum(TRADING_UNITS),
+    }).strict() satisfies z.ZodType<ClaimedValuesByReportType['price_change']>,
+  }).strict(),
+  reportFieldsSchema.extend({
+    reportType: z.literal('stock_status'),
+    claimedValues: z.object({
+      inStock: z.boolean(),
+      stockQuantity: z.number().int().min(0).optional(),
+    }).strict() satisfies z.ZodType<ClaimedValuesByReportType['stock_status']>,
+  }).strict(),
+  reportFieldsSchema.extend({
+    reportType: z.literal('shop_closure'),
+    claimedValues: z.object({
+      closedOn: z.string().date(),
+    }).strict() satisfies z.ZodType<ClaimedValuesByReportType['shop_closure']>,
+  }).strict(),
+  reportFieldsSchema.extend({
+    reportType: z.literal('incorrect_info'),
+  }).strict(),
+]) satisfies z.ZodType<CreateReportRequest, z.ZodTypeDef, unknown>;
+
+const reviewReportRequestSchema = z.object({
+  approved: z.boolean(),
+  notes: z.string().trim().max(1000).optional(),
+  price: z.object({
+    priceDiamonds: z.number().min(0),
+    tradingUnit: z.enum(TRADING_UNITS),
+  }).strict().optional(),
+}).strict() satisfies z.ZodType<ReportDecision, z.ZodTypeDef, unknown>;
+
+const REPORTING_ERROR_STATUS = {
+  ITEM_NOT_FOUND: 404,
+  REPORT_NOT_FOUND: 404,
+  REPORT_ALREADY_REVIEWED: 409,
+  NOT_REPORT_REVIEWER: 403,
+  PRICE_REQUIRED: 400,
+  INVALID_TRADING_UNIT: 400,
+  INVALID_CLAIM: 400,
+} as const;
+
+const FILE_UPLOAD_ERROR_STATUS = {
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FILE_TYPE: 400,
+  INVALID_FILE_PATH: 400,
+} as const;
+
+const evidenceFilesSchema = z.array(z.instanceof(File))
+  .max(MAX_EVIDENCE_FILES, `At most ${MAX_EVIDENCE_FILES} evidence files per report`);
+
+/**
+ * Build the /reports router. Services are resolved from the container per
+ * request so tests and request-scoped child containers can swap implementations.
+ */
+export function createReportRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const reports = new Hono<AppEnv>();
+  const reportingService = (): ReportingService =>
+    container.get<ReportingService>(SERVICE_KEYS.REPORTING_SERVICE);
+  const evidenceRepository = (): EvidenceRepository =>
+    container.get<EvidenceRepository>(SERVICE_KEYS.EVIDENCE_REPOSITORY);
+  const fileUploadService = (): FileUploadService =>
+    container.get<FileUploadService>(SERVICE_KEYS.FILE_UPLOAD_SERVICE);
+  const validId = requireUuidParam('Report');
+
+  reports.post(
+    '/',
+    requirePermission('SUBMIT_PRICE_DATA'),
+    bodyLimit({
+      maxSize: MAX_REPORT_REQUEST_BYTES,
+      onError: (c) => errorResponse(c, 413, 'Payload Too Large', 'Report and evidence exceed the upload limit'),
+    }),
+    async (c) => {
+      const user = c.get('user')!;
+      const { report: reportJson, files } = await readReportBody(c);
+
+      const body = createReportRequestSchema.safeParse(reportJson);
+      if (!body.success) {
+        return validationError(c, body.error);
+      }
+
+      const evidenceFiles = evidenceFilesSchema.safeParse(files);
+      if (!evidenceFiles.success) {
+        return validationError(c, evidenceFiles.error);
+      }
+
+      const uploads = await Promise.all(evidenceFiles.data.map(async (file) => ({
+        filename: file.name,
+        mimeType: file.type,
+        buffer: Buffer.from(await file.arrayBuffer()),
+        size: file.size,
+      })));
+      const rejected = uploads.find(upload => !fileUploadService().validateFile(upload));
+      if (rejected) {
+        return errorResponse(c, 400, 'Bad Request', `Evidence file ${rejected.filename} is not an accepted screenshot`);
+      }
+
+      // Upload first so no row references a file that failed to store; the
+      // service removes a half-saved report, the files are removed here
+      const filePaths: string[] = [];
+      try {
+        for (const upload of uploads) {
+          filePaths.push(await fileUploadService().uploadFile(upload, user.id));
+        }
+
+        const report = await reportingService().submitReport({
+          ...body.data,
+          evidence: [
+            ...(body.data.evidence ?? []),
+            ...filePaths.map(filePath => ({ evidenceType: 'screenshot' as const, filePath })),
+          ],
+        }, user.id);
+
+        const evidence = await evidenceRepository().findByReportId(report.id);
+        return c.json({ ...report, evidence }, 201);
+      } catch (error) {
+        await Promise.allSettled(filePaths.map(filePath => fileUploadService().deleteFile(filePath)));
+        throw error;
+      }
+    }
+  );
+
+  // Moderators hold EDIT_OWN_LISTINGS too; the service narrows owners to their listings
+  reports.get('/queue', requirePermission('EDIT_OWN_LISTINGS'), async (c) => {
+    return c.json(await reportingService().getReviewQueue(c.get('user')!));
+  });
+
+  reports.post('/:id/review', requirePermission('EDIT_OWN_LISTINGS'), validId, async (c) => {
+    const body = reviewReportRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const report = await reportingService().reviewReport(c.req.param('id'), body.data, c.get('user')!);
+    return c.json(report);
+  });
+
+  // Lookup and review-state failures are expected outcomes; validateFile
+  // runs before upload, but storage can still refuse a file
+  reports.onError((err, c) => {
+    if (err instanceof ReportingError) {
+      return errorResponse(c, REPORTING_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    if (err instanceof FileUploadError) {
+      return errorResponse(c, FILE_UPLOAD_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    throw err;
+  });
+
+  return reports;
+}
+
+/**
+ * Split a JSON or multipart request into the report fields and evidence files
+ */
+async function readReportBody(c: Context<AppEnv>): Promise<{ report: unknown; files: unknown[] }> {
+  if (!c.req.header('content-type')?.startsWith('multipart/form-data')) {
+    return { report: await readJson(c), files: [] };
+  }
+
+  const form = await c.req.parseBody({ all: true }).catch(() => ({} as Record<string, unknown>));
+  let report: unknown;
+  try {
+    report = typeof form.report === 'string' ? JSON.parse(form.report) : undefined;
+  } catch {
+    report = undefined;
+  }
+
+  const files = form.evidence === undefined ? [] : [form.evidence].flat();
+  return { report, files };
+}
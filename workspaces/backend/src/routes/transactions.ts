@@ -0,0 +1,116 @@
+/**
+ * Transaction Routes
+ * Purchase intents and their trade lifecycle, backed by
+ * MarketplaceTransactionService. The buyer is always the signed-in user and
+ * the seller is the listing's owner; neither is taken from the request body.
+ * Both parties read their trade history from GET /.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { CreateTransactionRequest, TransactionService } from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import { TransactionError } from '../services/transaction-service';
+import { requirePermission } from '../middleware/permissions';
+import { requireUuidParam } from '../middleware/params';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse, readJson, validationError } from '../http/responses';
+
+export const createTransactionRequestSchema = z.object({
+  itemId: z.string().uuid(),
+  quantity: z.number().int().min(1),
+  note: z.string().trim().min(1).max(500).optional(),
+}).strict() satisfies z.ZodType<CreateTransactionRequest>;
+
+const cancelRequestSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+}).strict();
+
+const disputeRequestSchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+}).strict();
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+const TRANSACTION_ERROR_STATUS = {
+  TRANSACTION_NOT_FOUND: 404,
+  ITEM_NOT_FOUND: 404,
+  WRONG_PARTY: 403,
+  OWN_LISTING: 400,
+  ITEM_UNAVAILABLE: 409,
+  PRICE_REQUIRED: 409,
+  INSUFFICIENT_STOCK: 409,
+  INVALID_TRANSITION: 409,
+} as const;
+
+export function createTransactionRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const transactions = new Hono<AppEnv>();
+  const transactionService = (): TransactionService =>
+    container.get<TransactionService>(SERVICE_KEYS.TRANSACTION_SERVICE);
+  const validId = requireUuidParam('Transaction');
+
+  transactions.use('*', requirePermission('TRADE_ITEMS'));
+
+  transactions.get('/', async (c) => {
+    const query = historyQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return validationError(c, query.error);
+    }
+
+    return c.json(await transactionService().getTransactionHistory(c.get('user')!.id, query.data.limit));
+  });
+
+  transactions.post('/', async (c) => {
+    const body = createTransactionRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const transaction = await transactionService().createTransaction(body.data, c.get('user')!.id);
+    return c.json(transaction, 201);
+  });
+
+  transactions.get('/:id', validId, async (c) => {
+    return c.json(await transactionService().getTransaction(c.req.param('id'), c.get('user')!.id));
+  });
+
+  transactions.post('/:id/accept', validId, async (c) => {
+    return c.json(await transactionService().acceptTransaction(c.req.param('id'), c.get('user')!.id));
+  });
+
+  transactions.post('/:id/complete', validId, async (c) => {
+    return c.json(await transactionService().completeTransaction(c.req.param('id'), c.get('user')!.id));
+  });
+
+  transactions.post('/:id/cancel', validId, async (c) => {
+    // A missing body is a cancellation without a reason
+    const body = cancelRequestSchema.safeParse(await readJson(c) ?? {});
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    return c.json(await transactionService().cancelTransaction(c.req.param('id'), c.get('user')!.id, body.data.reason));
+  });
+
+  transactions.post('/:id/dispute', validId, async (c) => {
+    const body = disputeRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    return c.json(await transactionService().disputeTransaction(c.req.param('id'), c.get('user')!.id, body.data.reason));
+  });
+
+  // Lifecycle and ownership failures are expected outcomes, not server errors
+  transactions.onError((err, c) => {
+    if (err instanceof TransactionError) {
+      return errorResponse(c, TRANSACTION_ERROR_STATUS[err.code], err.code, err.message);
+    }
+
+    throw err;
+  });
+
+  return transactions;
+}
@@ -0,0 +1,57 @@
+/**
+ * User Administration Routes
+ * Role and account status changes, restricted to MANAGE_USERS
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { User, UserRepository, UserRole } from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import type { SessionService } from '@shared/services/session-service';
+import { requirePermission } from '../middleware/permissions';
+import { requireUuidParam } from '../middleware/params';
+import type { AppEnv } from '../types/app-env';
+import { errorResponse, readJson, validationError } from '../http/responses';
+
+const USER_ROLES = ['user', 'shop_owner', 'moderator', 'admin'] as const satisfies readonly UserRole[];
+
+export const updateUserRequestSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  isActive: z.boolean().optional(),
+}).strict() satisfies z.ZodType<Partial<User>>;
+
+export function createUserRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const users = new Hono<AppEnv>();
+  const userRepository = (): UserRepository =>
+    container.get<UserRepository>(SERVICE_KEYS.USER_REPOSITORY);
+  const sessionService = (): SessionService =>
+    container.get<SessionService>(SERVICE_KEYS.SESSION_SERVICE);
+  const validId = requireUuidParam('User');
+
+  users.use('*', requirePermission('MANAGE_USERS'));
+
+  users.patch('/:id', validId, async (c) => {
+    const body = updateUserRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const id = c.req.param('id');
+    if (!(await userRepository().findById(id))) {
+      return errorResponse(c, 404, 'Not Found', `User with id ${id} not found`);
+    }
+
+    const user = await userRepository().update(id, body.data);
+
+    // Deactivation revokes access immediately; role changes rotate sessions
+    if (body.data.isActive === false) {
+      await sessionService().destroyAllSessions(id);
+    } else {
+      await sessionService().invalidateUser(id);
+    }
+
+    return c.json(user);
+  });
+
+  return users;
+}
@@ -0,0 +1,78 @@
+/**
+ * Webhook Routes
+ * Traders connect a Discord webhook for their notifications (report,
+ * price-change and low-stock alerts for shop owners, buy-order matches for
+ * anyone who posts a buy order) and check recent deliveries against the one
+ * minute SLA. The webhook URL holds a secret token, so it is never echoed
+ * back; responses identify the webhook by its id.
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import type { NotificationRepository, ShopWebhook } from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import { summarizeDeliveries } from '@shared/utils/shop-notifications';
+import { requirePermission } from '../middleware/permissions';
+import type { AppEnv } from '../types/app-env';
+import { readJson, validationError } from '../http/responses';
+import { parseDiscordWebhookUrl } from '../services/notification-service';
+
+export const discordWebhookRequestSchema = z.object({
+  webhookUrl: z.string().trim().refine(url => parseDiscordWebhookUrl(url) !== null, {
+    message: 'Must be a Discord webhook URL (https://discord.com/api/webhooks/...)',
+  }),
+}).strict();
+
+const deliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+export function createWebhookRoutes(container: ServiceContainer): Hono<AppEnv> {
+  const webhooks = new Hono<AppEnv>();
+  const notificationRepository = (): NotificationRepository =>
+    container.get<NotificationRepository>(SERVICE_KEYS.NOTIFICATION_REPOSITORY);
+
+  // Plain users post buy orders too, so any trader may be notified
+  webhooks.use('/discord', requirePermission('TRADE_ITEMS'));
+  webhooks.use('/discord/*', requirePermission('TRADE_ITEMS'));
+
+  webhooks.get('/discord', async (c) => {
+    const webhook = await notificationRepository().findWebhook(c.get('user')!.id);
+    return c.json({ webhook: webhook ? describeWebhook(webhook) : null });
+  });
+
+  webhooks.put('/discord', async (c) => {
+    const body = discordWebhookRequestSchema.safeParse(await readJson(c));
+    if (!body.success) {
+      return validationError(c, body.error);
+    }
+
+    const webhook = await notificationRepository().saveWebhook(c.get('user')!.id, body.data.webhookUrl);
+    return c.json({ webhook: describeWebhook(webhook) });
+  });
+
+  webhooks.delete('/discord', async (c) => {
+    await notificationRepository().deleteWebhook(c.get('user')!.id);
+    return c.body(null, 204);
+  });
+
+  webhooks.get('/discord/deliveries', async (c) => {
+    const query = deliveriesQuerySchema.safeParse(c.req.query());
+    if (!query.success) {
+      return validationError(c, query.error);
+    }
+
+    const deliveries = await notificationRepository().findDeliveries(c.get('user')!.id, query.data.limit);
+    return c.json({ deliveries, summary: summarizeDeliveries(deliveries) });
+  });
+
+  return webhooks;
+}
+
+function describeWebhook(webhook: ShopWebhook) {
+  return {
+    webhookId: parseDiscordWebhookUrl(webhook.webhookUrl)?.id ?? null,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt,
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * Discord Authentication Service Implementation
+ * Foundation-first: Discord OAuth2 code exchange, cookie sessions and
+ * PostgREST-compatible JWTs
+ */
+
+import {
+  AuthenticationService,
+  User,
+  UserRepository,
+  UserRole
+} from '@shared/types/service-interfaces';
+import { SessionService } from '@shared/services/session-service';
+import { sign, verify } from 'hono/jwt';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Specific error type for failed Discord OAuth exchanges
+ */
+export class AuthenticationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'DISCORD_TOKEN_EXCHANGE_FAILED' | 'DISCORD_PROFILE_FAILED' | 'USER_INACTIVE'
+  ) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export interface DiscordAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  // Overridable so tests can point the exchange at a local stub
+  apiBaseUrl: string;
+  jwtSecret: string;
+  jwtTtlSeconds: number;
+}
+
+export interface DiscordProfile {
+  id: string;
+  username: string;
+  global_name?: string | null;
+  avatar?: string | null;
+  email?: string | null;
+}
+
+/**
+ * Claims consumed by get_user_id()/get_user_role() in 002_row_level_security.sql.
+ * PostgREST switches database role from `db_role` (PGRST_JWT_ROLE_CLAIM_KEY),
+ * leaving `role` free to carry the marketplace UserRole.
+ */
+export interface MarketplaceJWTClaims {
+  sub: string;
+  user_id: string;
+  role: UserRole;
+  db_role: 'authenticated';
+  username: string;
+  iat: number;
+  exp: number;
+}
+
+export const DEFAULT_DISCORD_API_BASE_URL = 'https://discord.com/api/v10';
+export const JWT_TTL_SECONDS = 60 * 60; // 1 hour
+
+export class DiscordAuthenticationService implements AuthenticationService {
+  constructor(
+    private userRepository: UserRepository,
+    private sessionService: SessionService,
+    private config: DiscordAuthConfig
+  ) {}
+
+  /**
+   * Exchange a Discord OAuth authorization code and upsert the matching user
+   */
+  async authenticate(discordToken: string): Promise<User> {
+    const accessToken = await this.exchangeCode(discordToken);
+    const profile = await this.fetchProfile(accessToken);
+
+    const existing = await this.userRepository.findByDiscordId(profile.id);
+    const username = profile.global_name || profile.username;
+    const avatarUrl = profile.avatar
+      ? `https://cdn.discordapp.com/avatars/${profile.id}/${profile.avatar}.png`
+      : undefined;
+
+    if (existing) {
+      if (!existing.isActive) {
+        throw new AuthenticationError('User account is deactivated', 'USER_INACTIVE');
+      }
+
+      return await this.userRepository.update(existing.id, {
+        username,
+        avatarUrl,
+        email: profile.email ?? undefined
+      });
+    }
+
+    const user: User = {
+      id: uuidv4(),
+      discordId: profile.id,
+      username,
+      email: profile.email ?? undefined,
+      avatarUrl,
+      role: 'user',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    return await this.userRepository.save(user);
+  }
+
+  /**
+   * Resolve a session token to its user. A role change rotates the session,
+   * invalidating this token; HTTP callers use the session middleware instead
+   * so the replacement cookie is issued.
+   */
+  async validateSession(sessionId: string): Promise<User | null> {
+    const resolved = await this.sessionService.resolveSession(sessionId);
+    return resolved?.user ?? null;
+  }
+
+  async createSession(user: User): Promise<string> {
+    return await this.sessionService.createSession(user);
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    await this.sessionService.destroySession(sessionId);
+  }
+
+  async generateJWT(user: User): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: MarketplaceJWTClaims = {
+      sub: user.id,
+      user_id: user.id,
+      role: user.role,
+      db_role: 'authenticated',
+      username: user.username,
+      iat: now,
+      exp: now + this.config.jwtTtlSeconds
+    };
+
+    return await sign({ ...claims }, this.config.jwtSecret, 'HS256');
+  }
+
+  async validateJWT(token: string): Promise<User | null> {
+    let claims: Partial<MarketplaceJWTClaims>;
+    try {
+      claims = (await verify(token, this.config.jwtSecret, 'HS256')) as Partial<MarketplaceJWTClaims>;
+    } catch {
+      return null;
+    }
+
+    if (!claims.user_id) {
+      return null;
+    }
+
+    const user = await this.userRepository.findById(claims.user_id);
+    return user?.isActive ? user : null;
+  }
+
+  private async exchangeCode(code: string): Promise<string> {
+    const response = await fetch(`${this.config.apiBaseUrl}/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri
+      })
+    });
+
+    if (!response.ok) {
+      throw new AuthenticationError(
+        `Discord token exchange failed: ${response.status}`,
+        'DISCORD_TOKEN_EXCHANGE_FAILED'
+      );
+    }
+
+    const tokens = await response.json() as { access_token?: string };
+    if (!tokens.access_token) {
+      throw new AuthenticationError('Discord token response missing access_token', 'DISCORD_TOKEN_EXCHANGE_FAILED');
+    }
+
+    return tokens.access_token;
+  }
+
+  private async fetchProfile(accessToken: string): Promise<DiscordProfile> {
+    const response = await fetch(`${this.config.apiBaseUrl}/users/@me`, {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    });
+
+    if (!response.ok) {
+      throw new AuthenticationError(
+        `Discord profile request failed: ${response.status}`,
+        'DISCORD_PROFILE_FAILED'
+      );
+    }
+
+    return await response.json() as DiscordProfile;
+  }
+}
+
+/**
+ * Create authentication config from environment variables
+ */
+export function createDiscordAuthConfig(): DiscordAuthConfig {
+  // JWTs must verify against PostgREST's secret for RLS to see the claims
+  const jwtSecret = process.env.POSTGREST_JWT_SECRET || process.env.HONO_JWT_SECRET;
+  if (!jwtSecret && process.env.NODE_ENV === 'production') {
+    throw new Error('POSTGREST_JWT_SECRET must be set in production');
+  }
+
+  return {
+    clientId: process.env.DISCORD_CLIENT_ID || '',
+    clientSecret: process.env.DISCORD_CLIENT_SECRET || '',
+    redirectUri: process.env.DISCORD_REDIRECT_URI || 'http://localhost/api/auth/discord-callback',
+    apiBaseUrl: process.env.DISCORD_API_BASE_URL || DEFAULT_DISCORD_API_BASE_URL,
+    jwtSecret: jwtSecret || 'dev_jwt_secret',
+    jwtTtlSeconds: JWT_TTL_SECONDS
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Buy Order Service Implementation
+ * Foundation-first: Standing buy orders (WTB) and the matcher that pairs
+ * them with sell listings. A new buy order is matched against the listings
+ * already on its server; a listing that is created, re-priced or restocked
+ * is matched on the job queue, off the seller's request. Each pair is
+ * recorded once and notifies both players once.
+ */
+
+import {
+  BuyOrder,
+  BuyOrderMatch,
+  BuyOrderRepository,
+  BuyOrderSearchCriteria,
+  BuyOrderService,
+  BuyOrderStatus,
+  BuyOrderWithMatches,
+  CreateBuyOrderRequest,
+  Item,
+  ItemRepository,
+  JobQueueService,
+  NotificationService,
+  Price,
+  PriceRepository
+} from '@shared/types/service-interfaces';
+import { matchesBuyOrder, sameServer } from '@shared/utils/buy-orders';
+import { findVanillaItem } from '@shared/utils/minecraft-items';
+import { buyOrderMatchNotifications } from '@shared/utils/shop-notifications';
+import { isTradingUnitAllowed, maxStackSizeFor } from '@shared/utils/trading-units';
+import { v4 as uuidv4 } from 'uuid';
+import { notifyInBackground } from './notification-service';
+
+export const BUY_ORDER_MATCH_QUEUE = 'buy-order-matching';
+
+interface ListingMatchJob {
+  itemId: string;
+}
+
+/**
+ * Specific error type so HTTP routes can map failures to status codes
+ */
+export class BuyOrderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'BUY_ORDER_NOT_FOUND' | 'NOT_BUY_ORDER_OWNER' | 'INVALID_TRADING_UNIT' | 'INVALID_TRANSITION'
+  ) {
+    super(message);
+    this.name = 'BuyOrderError';
+  }
+}
+
+export class MarketplaceBuyOrderService implements BuyOrderService {
+  constructor(
+    private buyOrderRepository: BuyOrderRepository,
+    private itemRepository: ItemRepository,
+    private priceRepository: PriceRepository,
+    private jobQueue: JobQueueService,
+    private notificationService?: NotificationService
+  ) {
+    jobQueue.register<ListingMatchJob>(BUY_ORDER_MATCH_QUEUE, async ({ itemId }) => {
+      await this.matchListing(itemId);
+    });
+  }
+
+  async createBuyOrder(request: CreateBuyOrderRequest, ownerId: string): Promise<BuyOrder> {
+    if (!isTradingUnitAllowed(request.tradingUnit, maxStackSizeFor(request.minecraftId))) {
+      throw new BuyOrderError(`${request.minecraftId} does not stack and cannot be bought ${request.tradingUnit}`, 'INVALID_TRADING_UNIT');
+    }
+
+    const now = new Date();
+    const order = await this.buyOrderRepository.save({
+      id: uuidv4(),
+      ownerId,
+      minecraftId: request.minecraftId,
+      itemName: request.itemName ?? findVanillaItem(request.minecraftId)?.name ?? request.minecraftId,
+      serverName: request.serverName.trim(),
+      quantity: request.quantity,
+      maxPriceDiamonds: request.maxPriceDiamonds,
+      tradingUnit: request.tradingUnit,
+      status: 'open',
+      note: request.note,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    // Listings already on the server are matched straight away; only those
+    // are priced, in one lookup
+    const listings = (await this.itemRepository.findByMinecraftId(order.minecraftId))
+      .filter(item => sameServer(item.serverName, order.serverName));
+    if (listings.length > 0) {
+      const prices = await this.priceRepository.findCurrentByItemIds(listings.map(item => item.id));
+      const priceByItem = new Map(prices.map(price => [price.itemId, price]));
+      for (const item of listings) {
+        const price = priceByItem.get(item.id);
+        if (price && matchesBuyOrder(order, item, price)) {
+          await this.recordMatch(order, item, price);
+        }
+      }
+    }
+
+    return order;
+  }
+
+  async cancelBuyOrder(buyOrderId: string, userId: string): Promise<BuyOrder> {
+    return this.close(buyOrderId, userId, 'cancelled');
+  }
+
+  async fillBuyOrder(buyOrderId: string, userId: string): Promise<BuyOrder> {
+    return this.close(buyOrderId, userId, 'filled');
+  }
+
+  async getOpenBuyOrders(criteria?: BuyOrderSearchCriteria): Promise<BuyOrder[]> {
+    return this.buyOrderRepository.findOpen(criteria);
+  }
+
+  async getUserBuyOrders(userId: string): Promise<BuyOrderWithMatches[]> {
+    const orders = await this.buyOrderRepository.findByOwnerId(userId);
+    return Promise.all(
+      orders.map(async order => ({ ...order, matches: await this.buyOrderRepository.findMatches(order.id) }))
+    );
+  }
+
+  async matchListing(itemId: string): Promise<BuyOrderMatch[]> {
+    const item = await this.itemRepository.findById(itemId);
+    const price = item ? await this.currentPrice(item.id) : undefined;
+    if (!item?.serverName || !price) {
+      return [];
+    }
+
+    const matches: BuyOrderMatch[] = [];
+    const orders = await this.buyOrderRepository.findOpen({ minecraftId: item.minecraftId, serverName: item.serverName });
+    for (const order of orders) {
+      if (!matchesBuyOrder(order, item, price)) continue;
+      const match = await this.recordMatch(order, item, price);
+      if (match) matches.push(match);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Match a listing on the job queue; the seller's request does not wait
+   * on the buy orders
+   */
+  async queueListingMatch(itemId: string): Promise<void> {
+    await this.jobQueue.enqueue<ListingMatchJob>(BUY_ORDER_MATCH_QUEUE, { itemId });
+  }
+
+  // Null when the pair was matched before, so nobody is told twice
+  private async recordMatch(order: BuyOrder, item: Item, price: Price): Promise<BuyOrderMatch | null> {
+    const match: BuyOrderMatch = {
+      buyOrderId: order.id,
+      itemId: item.id,
+      buyerId: order.ownerId,
+      sellerId: item.ownerId,
+      priceDiamonds: price.priceDiamonds,
+      tradingUnit: price.tradingUnit,
+      matchedAt: new Date()
+    };
+    if (!(await this.buyOrderRepository.recordMatch(match))) {
+      return null;
+    }
+
+    for (const notification of buyOrderMatchNotifications(order, item, price, match.matchedAt)) {
+      notifyInBackground(this.notificationService, notification);
+    }
+    return match;
+  }
+
+  private async currentPrice(itemId: string): Promise<Price | undefined> {
+    return (await this.priceRepository.findByItemId(itemId)).find(price => price.isCurrent);
+  }
+
+  private async close(buyOrderId: string, userId: string, status: Exclude<BuyOrderStatus, 'open'>): Promise<BuyOrder> {
+    const order = await this.buyOrderRepository.findById(buyOrderId);
+    if (!order) {
+      throw new BuyOrderError(`Buy order with id ${buyOrderId} not found`, 'BUY_ORDER_NOT_FOUND');
+    }
+    if (order.ownerId !== userId) {
+      throw new BuyOrderError('Unauthorized: You can only close your own buy orders', 'NOT_BUY_ORDER_OWNER');
+    }
+    if (order.status !== 'open') {
+      throw new BuyOrderError(`Buy order is ${order.status} and cannot be ${status}`, 'INVALID_TRANSITION');
+    }
+
+    return this.buyOrderRepository.update(buyOrderId, { status });
+  }
+}
+
+/**
+ * Queue a listing for matching without failing the request that changed it
+ */
+export function matchInBackground(service: BuyOrderService | undefined, itemId: string): void {
+  service?.queueListingMatch(itemId).catch(error => {
+    console.error(`Buy order matching for listing ${itemId} could not be queued:`, error);
+  });
+}
@@ -0,0 +1,427 @@
+/**
+ * Discord Interactions Service Implementation
+ * Foundation-first: Answers the marketplace's slash commands in Discord.
+ * Discord POSTs every interaction to the interactions endpoint signed with
+ * the application's Ed25519 key; unsigned or stale requests are refused
+ * before anything is parsed. Commands reply inline (Discord allows three
+ * seconds) with embeds built from listing search and price formatting:
+ *
+ * - /price <item> [unit]: cheapest in-stock listings matching the item
+ * - /shop <name>: a shop's in-stock listings, newest first
+ * - /report <item> <reason>: files an incorrect-info report for a linked
+ *   marketplace account; the item option autocompletes to listing ids
+ *
+ * DISCORD_COMMANDS holds the definitions to register with Discord's
+ * application commands API.
+ */
+
+import { createPublicKey, verify, type KeyObject } from 'crypto';
+import { validate as isUuid } from 'uuid';
+import {
+  ItemListing,
+  ItemService,
+  PricingService,
+  ReportingService,
+  TradingUnitType,
+  UserRepository
+} from '@shared/types/service-interfaces';
+import type { DiscordEmbed, DiscordEmbedField } from '@shared/utils/shop-notifications';
+import { hasPermission } from '@shared/utils/permissions';
+import { availableStock } from '@shared/utils/transaction-lifecycle';
+import { ReportingError } from './reporting-service';
+
+/**
+ * Specific error type so HTTP routes can map failures to status codes
+ */
+export class DiscordInteractionError extends Error {
+  constructor(message: string, public readonly code: 'UNSUPPORTED_INTERACTION') {
+    super(message);
+    this.name = 'DiscordInteractionError';
+  }
+}
+
+export interface DiscordInteractionConfig {
+  // Hex-encoded Ed25519 public key from the Discord developer portal
+  publicKey: string;
+  // Signed requests older than this are treated as replays
+  maxRequestAgeSeconds: number;
+}
+
+export const DEFAULT_MAX_INTERACTION_AGE_SECONDS = 5 * 60;
+
+export const InteractionType = {
+  PING: 1,
+  APPLICATION_COMMAND: 2,
+  APPLICATION_COMMAND_AUTOCOMPLETE: 4
+} as const;
+
+export const InteractionResponseType = {
+  PONG: 1,
+  CHANNEL_MESSAGE_WITH_SOURCE: 4,
+  APPLICATION_COMMAND_AUTOCOMPLETE_RESULT: 8
+} as const;
+
+const EPHEMERAL_FLAG = 1 << 6;
+const STRING_OPTION = 3;
+
+// Discord caps embeds at 25 fields and autocomplete at 25 choices
+const MAX_LISTINGS_PER_REPLY = 10;
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+const COMMAND_EMBED_COLOR = 0x2ecc71;
+
+export interface DiscordCommandOption {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  focused?: boolean;
+}
+
+export interface DiscordInteraction {
+  type: number;
+  data?: {
+    name: string;
+    options?: DiscordCommandOption[];
+  };
+  // Guild interactions carry the user on member, DMs on user
+  member?: { user?: { id: string } };
+  user?: { id: string };
+}
+
+export interface DiscordAutocompleteChoice {
+  name: string;
+  value: string;
+}
+
+export type DiscordInteractionResponse =
+  | { type: typeof InteractionResponseType.PONG }
+  | {
+      type: typeof InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE;
+      data: {
+        content?: string;
+        embeds?: DiscordEmbed[];
+        flags?: number;
+        allowed_mentions: { parse: string[] };
+      };
+    }
+  | {
+      type: typeof InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT;
+      data: { choices: DiscordAutocompleteChoice[] };
+    };
+
+const TRADING_UNIT_CHOICES: Array<{ name: string; value: TradingUnitType }> = [
+  { name: 'Per item', value: 'per_item' },
+  { name: 'Per stack', value: 'per_stack' },
+  { name: 'Per shulker box', value: 'per_shulker' },
+  { name: 'Per dozen', value: 'per_dozen' }
+];
+
+export const DISCORD_COMMANDS = [
+  {
+    name: 'price',
+    description: 'Find the cheapest listings for an item',
+    options: [
+      { name: 'item', description: 'Item to look up', type: STRING_OPTION, required: true },
+      { name: 'unit', description: 'Compare prices in this unit', type: STRING_OPTION, choices: TRADING_UNIT_CHOICES }
+    ]
+  },
+  {
+    name: 'shop',
+    description: 'Show what a shop has in stock',
+    options: [
+      { name: 'name', description: 'Shop name or owner username', type: STRING_OPTION, required: true }
+    ]
+  },
+  {
+    name: 'report',
+    description: 'Report a listing with incorrect information',
+    options: [
+      { name: 'item', description: 'Listing to report', type: STRING_OPTION, required: true, autocomplete: true },
+      { name: 'reason', description: "What's wrong with the listing", type: STRING_OPTION, required: true, max_length: 1000 }
+    ]
+  }
+] as const;
+
+/**
+ * Parse a hex-encoded Ed25519 public key, or null when it is not one
+ */
+export function parseDiscordPublicKey(publicKeyHex: string): KeyObject | null {
+  if (!/^[0-9a-f]{64}$/i.test(publicKeyHex)) {
+    return null;
+  }
+
+  return createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKeyHex, 'hex').toString('base64url') },
+    format: 'jwk'
+  });
+}
+
+/**
+ * Check Discord's X-Signature-Ed25519 over the X-Signature-Timestamp header
+ * followed by the raw request body
+ */
+export function verifyDiscordSignature(
+  publicKey: KeyObject | string,
+  signatureHex: string,
+  timestamp: string,
+  body: string
+): boolean {
+  const key = typeof publicKey === 'string' ? parseDiscordPublicKey(publicKey) : publicKey;
+  if (!key || !/^[0-9a-f]{128}$/i.test(signatureHex)) {
+    return false;
+  }
+
+  return verify(null, Buffer.from(timestamp + body), key, Buffer.from(signatureHex, 'hex'));
+}
+
+export class DiscordInteractionService {
+  private publicKey: KeyObject | null;
+
+  constructor(
+    private itemService: ItemService,
+    private pricingService: PricingService,
+    private reportingService: ReportingService,
+    private userRepository: UserRepository,
+    private config: DiscordInteractionConfig
+  ) {
+    // An unset or malformed key refuses every request rather than none
+    this.publicKey = parseDiscordPublicKey(config.publicKey);
+  }
+
+  /**
+   * Whether a request came from Discord: the signature must match and the
+   * timestamp (unix seconds) must be recent
+   */
+  verifyRequest(signature: string, timestamp: string, body: string, now: Date = new Date()): boolean {
+    const sentAt = Number(timestamp);
+    if (!this.publicKey || !Number.isInteger(sentAt)) {
+      return false;
+    }
+    if (Math.abs(now.getTime() / 1000 - sentAt) > this.config.maxRequestAgeSeconds) {
+      return false;
+    }
+
+    return verifyDiscordSignature(this.publicKey, signature, timestamp, body);
+  }
+
+  async handle(interaction: DiscordInteraction): Promise<DiscordInteractionResponse> {
+    switch (interaction.type) {
+      case InteractionType.PING:
+        return { type: InteractionResponseType.PONG };
+      case InteractionType.APPLICATION_COMMAND:
+        return this.handleCommand(interaction);
+      case InteractionType.APPLICATION_COMMAND_AUTOCOMPLETE:
+        return this.handleAutocomplete(interaction);
+      default:
+        throw new DiscordInteractionError(`Unsupported interaction type ${interaction.type}`, 'UNSUPPORTED_INTERACTION');
+    }
+  }
+
+  private async handleCommand(interaction: DiscordInteraction): Promise<DiscordInteractionResponse> {
+    const options = interaction.data?.options ?? [];
+
+    switch (interaction.data?.name) {
+      case 'price':
+        return this.price(stringOption(options, 'item'), stringOption(options, 'unit') as TradingUnitType | undefined);
+      case 'shop':
+        return this.shop(stringOption(options, 'name'));
+      case 'report':
+        return this.report(
+          interaction.member?.user?.id ?? interaction.user?.id,
+          stringOption(options, 'item'),
+          stringOption(options, 'reason')
+        );
+      default:
+        return reply({ content: 'Unknown command.' }, true);
+    }
+  }
+
+  private async price(query = '', unit: TradingUnitType = 'per_item'): Promise<DiscordInteractionResponse> {
+    const { listings, total } = await this.itemService.searchItems({
+      query,
+      tradingUnit: unit,
+      sortBy: 'price_asc',
+      availableOnly: true,
+      limit: MAX_LISTINGS_PER_REPLY
+    });
+
+    if (listings.length === 0) {
+      return reply({ content: `No listings in stock match "${query}".` }, true);
+    }
+
+    return reply({
+      embeds: [this.listingsEmbed(
+        `Prices for "${query}"`,
+        `${total} listing${total === 1 ? '' : 's'} in stock, cheapest first`,
+        listings,
+        await this.shopNames(listings)
+      )]
+    });
+  }
+
+  private async shop(name = ''): Promise<DiscordInteractionResponse> {
+    const owner = await this.userRepository.findByShopName(name) ?? await this.userRepository.findByUsername(name);
+    if (!owner?.isActive) {
+      return reply({ content: `No shop named "${name}".` }, true);
+    }
+
+    const { listings, total } = await this.itemService.searchItems({
+      ownerId: owner.id,
+      sortBy: 'newest',
+      availableOnly: true,
+      limit: MAX_LISTINGS_PER_REPLY
+    });
+
+    return reply({
+      embeds: [this.listingsEmbed(
+        owner.shopName ?? `${owner.username}'s shop`,
+        total === 0 ? 'Nothing in stock right now' : `${total} listing${total === 1 ? '' : 's'} in stock, newest first`,
+        listings
+      )]
+    });
+  }
+
+  private async report(discordId: string | undefined, itemId = '', reason = ''): Promise<DiscordInteractionResponse> {
+    const reporter = discordId ? await this.userRepository.findByDiscordId(discordId) : null;
+    if (!reporter) {
+      return reply({ content: 'Sign in to the marketplace with Discord before reporting listings.' }, true);
+    }
+    if (!hasPermission(reporter, 'SUBMIT_PRICE_DATA')) {
+      return reply({ content: 'Your marketplace account cannot submit reports.' }, true);
+    }
+
+    // Typed text instead of a picked suggestion: show what it matches
+    const item = isUuid(itemId) ? await this.itemService.getItem(itemId) : null;
+    if (!item) {
+      const { listings } = await this.itemService.searchItems({ query: itemId, limit: MAX_LISTINGS_PER_REPLY });
+      if (listings.length === 0) {
+        return reply({ content: `No listings match "${itemId}".` }, true);
+      }
+      return reply({
+        embeds: [this.listingsEmbed(
+          `Listings matching "${itemId}"`,
+          'Pick the listing to report from the suggestions on the item option',
+          listings,
+          await this.shopNames(listings)
+        )]
+      }, true);
+    }
+
+    try {
+      const report = await this.reportingService.submitReport(
+        { itemId: item.id, reportType: 'incorrect_info', description: reason },
+        reporter.id
+      );
+
+      return reply({
+        embeds: [{
+          title: `Report filed on ${item.name}`,
+          description: reason,
+          color: COMMAND_EMBED_COLOR,
+          fields: [
+            { name: 'Status', value: report.autoApproved ? 'Applied' : 'Awaiting review', inline: true },
+            { name: 'Confidence', value: report.confidenceLevel ?? 'low', inline: true }
+          ],
+          timestamp: new Date().toISOString()
+        }]
+      }, true);
+    } catch (error) {
+      if (error instanceof ReportingError) {
+        return reply({ content: error.message }, true);
+      }
+      throw error;
+    }
+  }
+
+  private async handleAutocomplete(interaction: DiscordInteraction): Promise<DiscordInteractionResponse> {
+    const focused = interaction.data?.options?.find(option => option.focused);
+    const choices: DiscordAutocompleteChoice[] = [];
+
+    if (interaction.data?.name === 'report' && focused?.name === 'item') {
+      const { listings } = await this.itemService.searchItems({
+        query: String(focused.value ?? ''),
+        limit: MAX_AUTOCOMPLETE_CHOICES
+      });
+      const shopNames = await this.shopNames(listings);
+      for (const listing of listings) {
+        const shop = shopNames.get(listing.ownerId);
+        choices.push({
+          name: truncate([listing.name, shop, listing.serverName].filter(Boolean).join(' · '), 100),
+          value: listing.id
+        });
+      }
+    }
+
+    return { type: InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT, data: { choices } };
+  }
+
+  private listingsEmbed(
+    title: string,
+    description: string,
+    listings: ItemListing[],
+    shopNames: Map<string, string> = new Map()
+  ): DiscordEmbed {
+    const fields: DiscordEmbedField[] = listings.map(listing => {
+      const shop = shopNames.get(listing.ownerId);
+      const details = [
+        listing.currentPrice ? this.pricingService.formatPriceDisplay(listing.currentPrice) : 'No price listed',
+        `${availableStock(listing)} in stock`,
+        [listing.serverName, listing.shopLocation].filter(Boolean).join(', ')
+      ];
+
+      return {
+        name: truncate(shop ? `${listing.name} · ${shop}` : listing.name, 256),
+        value: truncate(details.filter(Boolean).join('\n'), 1024)
+      };
+    });
+
+    return {
+      title: truncate(title, 256),
+      description,
+      color: COMMAND_EMBED_COLOR,
+      fields,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  // Shop names of the listings' owners, falling back to their usernames
+  private async shopNames(listings: ItemListing[]): Promise<Map<string, string>> {
+    const ownerIds = [...new Set(listings.map(listing => listing.ownerId))];
+    const owners = await Promise.all(ownerIds.map(id => this.userRepository.findById(id)));
+
+    return new Map(owners.flatMap(owner => (owner ? [[owner.id, owner.shopName ?? owner.username]] : [])));
+  }
+}
+
+function stringOption(options: DiscordCommandOption[], name: string): string | undefined {
+  const value = options.find(option => option.name === name)?.value;
+  return typeof value === 'string' ? value.trim() : undefined;
+}
+
+function reply(
+  data: { content?: string; embeds?: DiscordEmbed[] },
+  ephemeral = false
+): DiscordInteractionResponse {
+  return {
+    type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+    data: {
+      ...data,
+      ...(ephemeral ? { flags: EPHEMERAL_FLAG } : {}),
+      // Listing names and report reasons are player-written; never let them ping anyone
+      allowed_mentions: { parse: [] }
+    }
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+/**
+ * Create interactions config from environment variables
+ */
+export function createDiscordInteractionConfig(): DiscordInteractionConfig {
+  return {
+    publicKey: process.env.DISCORD_PUBLIC_KEY || '',
+    maxRequestAgeSeconds: DEFAULT_MAX_INTERACTION_AGE_SECONDS
+  };
+}
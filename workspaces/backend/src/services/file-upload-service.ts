@@ -0,0 +1,249 @@
+/**
+ * File Upload Service Implementation
+ * Foundation-first: Evidence screenshots validated by content, renamed to
+ * UUIDs and written through a pluggable FileStorage backend
+ */
+
+import {
+  FileUpload,
+  FileUploadService,
+  ServiceConfig
+} from '@shared/types/service-interfaces';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Only image types are ever stored, so every served file renders inertly
+export const UPLOAD_CONTENT_TYPES = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+} as const;
+
+type UploadExtension = keyof typeof UPLOAD_CONTENT_TYPES;
+
+// Stored keys are always <uuid>.<ext>; anything else is refused before touching storage
+const STORED_FILE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(png|jpg|gif|webp)$/;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export type UploadConfig = ServiceConfig['upload'];
+
+/**
+ * Specific error type so HTTP routes can map rejected files to status codes
+ */
+export class FileUploadError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'FILE_TOO_LARGE' | 'UNSUPPORTED_FILE_TYPE' | 'INVALID_FILE_PATH'
+  ) {
+    super(message);
+    this.name = 'FileUploadError';
+  }
+}
+
+/**
+ * Where uploaded bytes live. Local disk today; an S3-compatible bucket only
+ * needs to implement the same three calls.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+}
+
+/**
+ * Files under UPLOAD_PATH, served by nginx from the /uploads/ location
+ */
+export class LocalDiskStorage implements FileStorage {
+  constructor(
+    private root: string,
+    private publicBaseUrl = '/uploads'
+  ) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await mkdir(this.root, { recursive: true });
+    // 'wx' never overwrites; world-readable for nginx, never executable
+    await writeFile(join(this.root, key), data, { flag: 'wx', mode: 0o644 });
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(join(this.root, key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicBaseUrl}/${key}`;
+  }
+}
+
+export class SecureFileUploadService implements FileUploadService {
+  constructor(
+    private storage: FileStorage,
+    private config: UploadConfig
+  ) {}
+
+  async uploadFile(file: FileUpload, _userId: string): Promise<string> {
+    const extension = this.checkFile(file);
+    const key = `${uuidv4()}.${extension}`;
+    await this.storage.put(key, stripLocationMetadata(file.buffer, extension), UPLOAD_CONTENT_TYPES[extension]);
+    return key;
+  }
+
+  validateFile(file: FileUpload): boolean {
+    try {
+      this.checkFile(file);
+      return true;
+    } catch (error) {
+      if (error instanceof FileUploadError) return false;
+      throw error;
+    }
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    await this.storage.delete(assertStoredFilePath(filePath));
+  }
+
+  getFileUrl(filePath: string): string {
+    return this.storage.url(assertStoredFilePath(filePath));
+  }
+
+  /**
+   * The type comes from the file's magic bytes; the client's claimed
+   * mimeType and filename are ignored
+   */
+  private checkFile(file: FileUpload): UploadExtension {
+    const maxSize = Math.min(this.config.maxSize, DEFAULT_MAX_UPLOAD_BYTES);
+    if (file.buffer.length > maxSize || file.size > maxSize) {
+      throw new FileUploadError(`File exceeds the ${maxSize} byte upload limit`, 'FILE_TOO_LARGE');
+    }
+
+    const extension = sniffImageType(file.buffer);
+    if (!extension || !this.config.allowedTypes.includes(UPLOAD_CONTENT_TYPES[extension])) {
+      throw new FileUploadError(`File ${file.filename} is not an accepted image type`, 'UNSUPPORTED_FILE_TYPE');
+    }
+
+    return extension;
+  }
+}
+
+export function createUploadConfig(): UploadConfig {
+  const allowedTypes = process.env.UPLOAD_ALLOWED_TYPES
+    ?.split(',')
+    .map(type => type.trim())
+    .filter(Boolean);
+
+  return {
+    maxSize: Number.parseInt(process.env.UPLOAD_MAX_SIZE ?? '', 10) || DEFAULT_MAX_UPLOAD_BYTES,
+    allowedTypes: allowedTypes?.length ? allowedTypes : Object.values(UPLOAD_CONTENT_TYPES),
+    path: process.env.UPLOAD_PATH || '/app/uploads'
+  };
+}
+
+export function sniffImageType(buffer: Buffer): UploadExtension | null {
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return 'png';
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpg';
+  if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(buffer.toString('latin1', 0, 6))) return 'gif';
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  return null;
+}
+
+function assertStoredFilePath(filePath: string): string {
+  if (!STORED_FILE_PATTERN.test(filePath)) {
+    throw new FileUploadError(`Invalid stored file path: ${filePath}`, 'INVALID_FILE_PATH');
+  }
+  return filePath;
+}
+
+// ============================================================================
+// Metadata stripping
+// Screenshots have no use for camera metadata, so whole EXIF/XMP blocks are
+// dropped rather than editing the GPS IFD in place. GIF carries no EXIF.
+// ============================================================================
+
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'iTXt', 'tEXt', 'zTXt']);
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+const WEBP_VP8X_METADATA_FLAGS = 0x08 | 0x04; // EXIF and XMP present bits
+
+export function stripLocationMetadata(buffer: Buffer, extension: UploadExtension): Buffer {
+  switch (extension) {
+    case 'jpg': return stripJpegMetadata(buffer);
+    case 'png': return stripPngMetadata(buffer);
+    case 'webp': return stripWebpMetadata(buffer);
+    default: return buffer;
+  }
+}
+
+/**
+ * Drop APP1 segments (EXIF and XMP) from the header; everything from the
+ * start-of-scan marker on is image data and copied untouched
+ */
+function stripJpegMetadata(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xda) break; // Start of scan
+
+    const length = buffer.readUInt16BE(offset + 2);
+    const end = offset + 2 + length;
+    if (length < 2 || end > buffer.length) break;
+
+    if (marker !== 0xe1) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  parts.push(buffer.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+function stripPngMetadata(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [buffer.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= buffer.length) {
+    const end = offset + 12 + buffer.readUInt32BE(offset);
+    if (end > buffer.length) break;
+
+    if (!PNG_METADATA_CHUNKS.has(buffer.toString('latin1', offset + 4, offset + 8))) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  parts.push(buffer.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Drop EXIF/XMP chunks, clear their VP8X flags and rewrite the RIFF size
+ */
+function stripWebpMetadata(buffer: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const size = buffer.readUInt32LE(offset + 4);
+    const end = Math.min(offset + 8 + size + (size % 2), buffer.length);
+    const fourCC = buffer.toString('latin1', offset, offset + 4);
+
+    if (!WEBP_METADATA_CHUNKS.has(fourCC)) {
+      const chunk = Buffer.from(buffer.subarray(offset, end));
+      if (fourCC === 'VP8X' && chunk.length > 8) {
+        chunk[8] &= ~WEBP_VP8X_METADATA_FLAGS;
+      }
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+
+  const header = Buffer.from(buffer.subarray(0, 12));
+  const body = Buffer.concat(chunks);
+  header.writeUInt32LE(body.length + 4, 4);
+  return Buffer.concat([header, body]);
+}
@@ -1,27 +1,58 @@
 /**
  * Item Service Implementation
- * Foundation-first: Orchestrates repositories and business logic
+ * Foundation-first: Orchestrates repositories and business logic. Price
+ * changes and stock dropping to the low-stock threshold notify the owner's
+ * shop webhook. New, re-priced and restocked listings are matched against
+ * open buy orders.
  */
 
 import { 
+  BuyOrderService,
   ItemService, 
   Item, 
   CreateItemRequest, 
   SearchItemsRequest,
   ItemRepository,
+  ListingSearchResult,
+  NotificationService,
   PriceRepository,
+  PricingService,
   Price,
-  TradingUnitType
+  PriceHistory,
+  TradingUnitType,
+  User
 } from '@shared/types/service-interfaces';
+import { isLowStockDrop, lowStockNotification, priceChangeNotification } from '@shared/utils/shop-notifications';
+import { isTradingUnitAllowed, maxStackSizeFor } from '@shared/utils/trading-units';
 import { v4 as uuidv4 } from 'uuid';
+import { matchInBackground } from './buy-order-service';
+import { notifyInBackground } from './notification-service';
+
+/**
+ * Specific error type so HTTP routes can map failures to status codes
+ */
+export class ItemServiceError extends Error {
+  constructor(message: string, public readonly code: 'ITEM_NOT_FOUND' | 'NOT_ITEM_OWNER' | 'INVALID_TRADING_UNIT') {
+    super(message);
+    this.name = 'ItemServiceError';
+  }
+}
+
+// Owner-set prices and approved community reports; suggestions are never listed
+const PRICE_HISTORY_SOURCES = ['owner', 'community_report'];
 
 export class MinecraftItemService implements ItemService {
   constructor(
     private itemRepository: ItemRepository,
-    private priceRepository: PriceRepository
+    private priceRepository: PriceRepository,
+    private pricingService: PricingService,
+    private notificationService?: NotificationService,
+    private buyOrderService?: BuyOrderService
   ) {}
 
   async createItem(itemData: CreateItemRequest, userId: string): Promise<Item> {
+    assertTradingUnitAllowed(itemData.tradingUnit, itemData.minecraftId);
+
     // Create the item entity
     const item: Item = {
       id: uuidv4(),
@@ -56,6 +87,7 @@ export class MinecraftItemService implements ItemService {
     };
 
     await this.priceRepository.save(price);
+    matchInBackground(this.buyOrderService, savedItem.id);
 
     return savedItem;
   }
@@ -64,67 +96,104 @@ export class MinecraftItemService implements ItemService {
     // Verify ownership or admin rights
     const existingItem = await this.itemRepository.findById(itemId);
     if (!existingItem) {
-      throw new Error(`Item with id ${itemId} not found`);
+      throw new ItemServiceError(`Item with id ${itemId} not found`, 'ITEM_NOT_FOUND');
     }
 
     if (existingItem.ownerId !== userId) {
-      throw new Error('Unauthorized: You can only update your own items');
+      throw new ItemServiceError('Unauthorized: You can only update your own items', 'NOT_ITEM_OWNER');
     }
 
-    return await this.itemRepository.update(itemId, updates);
+    const updated = await this.itemRepository.update(itemId, updates);
+    if (isLowStockDrop(existingItem.stockQuantity, updated.stockQuantity)) {
+      notifyInBackground(this.notificationService, lowStockNotification(updated));
+    }
+    // Restocked, relisted or moved listings may now meet a buy order
+    if (
+      updated.stockQuantity > existingItem.stockQuantity ||
+      (updated.isAvailable && !existingItem.isAvailable) ||
+      updated.serverName !== existingItem.serverName
+    ) {
+      matchInBackground(this.buyOrderService, updated.id);
+    }
+
+    return updated;
   }
 
   async deleteItem(itemId: string, userId: string): Promise<void> {
     // Verify ownership or admin rights
     const existingItem = await this.itemRepository.findById(itemId);
     if (!existingItem) {
-      throw new Error(`Item with id ${itemId} not found`);
+      throw new ItemServiceError(`Item with id ${itemId} not found`, 'ITEM_NOT_FOUND');
     }
 
     if (existingItem.ownerId !== userId) {
-      throw new Error('Unauthorized: You can only delete your own items');
+      throw new ItemServiceError('Unauthorized: You can only delete your own items', 'NOT_ITEM_OWNER');
     }
 
     await this.itemRepository.delete(itemId);
   }
 
-  async getItem(itemId: string): Promise<Item | null> {
-    return await this.itemRepository.findById(itemId);
-  }
-
-  async searchItems(query: SearchItemsRequest): Promise<Item[]> {
-    // If there's a text query, use search
-    if (query.query) {
-      return await this.itemRepository.searchItems(query.query);
-    }
-
-    // Otherwise use criteria-based filtering
-    const criteria: Partial<Item> = {};
-    
-    if (query.category) {
-      criteria.category = query.category;
-    }
-
-    if (query.serverName) {
-      criteria.serverName = query.serverName;
-    }
-
-    if (query.availableOnly !== false) {
-      criteria.isAvailable = true;
+  /**
+   * Record a moderator's confirmation that the listing's current price is accurate
+   */
+  async verifyItem(itemId: string, verifier: User): Promise<Item> {
+    const existingItem = await this.itemRepository.findById(itemId);
+    if (!existingItem) {
+      throw new ItemServiceError(`Item with id ${itemId} not found`, 'ITEM_NOT_FOUND');
     }
 
-    let items = await this.itemRepository.findAll(criteria);
+    return await this.itemRepository.update(itemId, {
+      lastVerified: new Date(),
+      verifiedBy: verifier.username,
+      confidenceLevel: 'high'
+    });
+  }
 
-    // Apply price filtering if specified
-    if (query.minPrice !== undefined || query.maxPrice !== undefined) {
-      items = await this.filterByPrice(items, query.minPrice, query.maxPrice, query.tradingUnit);
-    }
+  async getItem(itemId: string): Promise<Item | null> {
+    return await this.itemRepository.findById(itemId);
+  }
 
-    // Apply pagination
-    const offset = query.offset || 0;
-    const limit = query.limit || 50;
-    
-    return items.slice(offset, offset + limit);
+  /**
+   * Search listings with their current price. Price bounds are given in
+   * `tradingUnit` (default per item) and results are expressed in that unit;
+   * a per-stack search leaves out items that do not stack. Text queries
+   * combine with every filter and default to relevance order.
+   */
+  async searchItems(query: SearchItemsRequest): Promise<ListingSearchResult> {
+    const tradingUnit = query.tradingUnit ?? 'per_item';
+
+    const { listings, total } = await this.itemRepository.findListings({
+      query: query.query?.trim() || undefined,
+      category: query.category,
+      serverName: query.serverName,
+      ownerId: query.ownerId,
+      availableOnly: query.availableOnly !== false,
+      minPrice: query.minPrice,
+      maxPrice: query.maxPrice,
+      priceUnit: tradingUnit,
+      sortBy: query.sortBy ?? (query.query?.trim() ? 'relevance' : 'newest'),
+      limit: query.limit || 50,
+      offset: query.offset || 0
+    });
+
+    return {
+      listings: listings.map(listing => {
+        if (!listing.currentPrice) {
+          return listing;
+        }
+
+        return {
+          ...listing,
+          currentPrice: this.pricingService.convertTradingUnits(
+            listing.currentPrice,
+            listing.currentPrice.tradingUnit,
+            tradingUnit,
+            maxStackSizeFor(listing.minecraftId, listing.itemAttributes)
+          )
+        };
+      }),
+      total
+    };
   }
 
   async getUserItems(userId: string): Promise<Item[]> {
@@ -162,13 +231,15 @@ export class MinecraftItemService implements ItemService {
     // Verify ownership
     const item = await this.itemRepository.findById(itemId);
     if (!item) {
-      throw new Error(`Item with id ${itemId} not found`);
+      throw new ItemServiceError(`Item with id ${itemId} not found`, 'ITEM_NOT_FOUND');
     }
 
     if (item.ownerId !== userId) {
-      throw new Error('Unauthorized: You can only update prices for your own items');
+      throw new ItemServiceError('Unauthorized: You can only update prices for your own items', 'NOT_ITEM_OWNER');
     }
 
+    assertTradingUnitAllowed(tradingUnit, item.minecraftId, item.itemAttributes);
+
     // Create new price
     const newPrice: Price = {
       id: uuidv4(),
@@ -181,44 +252,58 @@ export class MinecraftItemService implements ItemService {
       createdAt: new Date()
     };
 
+    const previousPrice = (await this.priceRepository.findByItemId(itemId)).find(price => price.isCurrent);
+
     // Update current price (this will mark old prices as not current)
     await this.priceRepository.updateCurrentPrice(itemId, newPrice);
+    notifyInBackground(this.notificationService, priceChangeNotification(item, newPrice, previousPrice));
+    matchInBackground(this.buyOrderService, itemId);
 
     return newPrice;
   }
 
-  private async filterByPrice(
-    items: Item[], 
-    minPrice?: number, 
-    maxPrice?: number, 
-    tradingUnit?: TradingUnitType
-  ): Promise<Item[]> {
-    if (!minPrice && !maxPrice) {
-      return items;
+  /**
+   * Every price the item has been listed at, oldest first, converted to one
+   * trading unit so they can be plotted together. Defaults to the unit of
+   * the current price.
+   */
+  async getPriceHistory(itemId: string, tradingUnit?: TradingUnitType): Promise<PriceHistory> {
+    const item = await this.itemRepository.findById(itemId);
+    if (!item) {
+      throw new ItemServiceError(`Item with id ${itemId} not found`, 'ITEM_NOT_FOUND');
     }
 
-    const filteredItems = [];
-    
-    for (const item of items) {
-      const prices = await this.priceRepository.findByItemId(item.id);
-      const currentPrice = prices.find(p => p.isCurrent);
-      
-      if (!currentPrice) continue;
+    const prices = (await this.priceRepository.findByItemId(itemId))
+      .filter(price => PRICE_HISTORY_SOURCES.includes(price.source))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const unit = tradingUnit ?? prices.find(price => price.isCurrent)?.tradingUnit ?? 'per_item';
+    assertTradingUnitAllowed(unit, item.minecraftId, item.itemAttributes);
 
-      let priceToCompare = currentPrice.priceDiamonds;
-      
-      // Convert price to requested trading unit for comparison
-      if (tradingUnit && currentPrice.tradingUnit !== tradingUnit) {
-        // This would use the pricing service conversion
-        // For now, we'll compare as-is
-      }
-
-      if (minPrice !== undefined && priceToCompare < minPrice) continue;
-      if (maxPrice !== undefined && priceToCompare > maxPrice) continue;
-      
-      filteredItems.push(item);
-    }
-    
-    return filteredItems;
+    const maxStackSize = maxStackSizeFor(item.minecraftId, item.itemAttributes);
+    return {
+      itemId,
+      itemName: item.name,
+      tradingUnit: unit,
+      points: prices.map(price => ({
+        priceId: price.id,
+        priceDiamonds: this.pricingService.convertTradingUnits(price, price.tradingUnit, unit, maxStackSize).priceDiamonds,
+        listedPriceDiamonds: price.priceDiamonds,
+        listedTradingUnit: price.tradingUnit,
+        source: price.source,
+        createdBy: price.createdBy,
+        isCurrent: price.isCurrent,
+        createdAt: price.createdAt
+      }))
+    };
+  }
+}
+
+function assertTradingUnitAllowed(
+  tradingUnit: TradingUnitType,
+  minecraftId: string,
+  itemAttributes?: Record<string, any>
+): void {
+  if (!isTradingUnitAllowed(tradingUnit, maxStackSizeFor(minecraftId, itemAttributes))) {
+    throw new ItemServiceError(`${minecraftId} does not stack and cannot be sold ${tradingUnit}`, 'INVALID_TRADING_UNIT');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+/**
+ * Durable Job Queue Implementation
+ * Foundation-first: Postgres-backed background work with at-least-once
+ * delivery. Work is enqueued onto a named queue, optionally under an
+ * idempotency key; a worker polling the queue claims jobs under a visibility
+ * timeout, runs the queue's handler and completes the job. Failures are
+ * retried with exponential backoff until the job's attempts run out, then
+ * moved to the dead-letter table. A worker that dies mid-job lets the lease
+ * expire and the job is claimed again, so handlers must tolerate running
+ * twice. Notifications use the `notifications` queue; price snapshots and
+ * stale-listing checks can register their own.
+ */
+
+import {
+  EnqueueJobOptions,
+  Job,
+  JobHandler,
+  JobQueueService,
+  JobRepository
+} from '@shared/types/service-interfaces';
+
+/**
+ * Specific error type for queue misconfiguration
+ */
+export class JobQueueError extends Error {
+  constructor(message: string, public readonly code: 'QUEUE_ALREADY_REGISTERED') {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+export interface JobQueueConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+  // Longer than the slowest handler, or a running job is claimed again
+  visibilityTimeoutMs: number;
+  maxAttempts: number;
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+  // How long completed jobs keep their idempotency keys taken
+  completedRetentionMs: number;
+}
+
+export const DEFAULT_JOB_POLL_INTERVAL_MS = 1000;
+export const DEFAULT_JOB_BATCH_SIZE = 10;
+// Covers a webhook delivery's full retry budget with room to spare
+export const DEFAULT_JOB_VISIBILITY_TIMEOUT_MS = 2 * 60 * 1000;
+export const DEFAULT_JOB_MAX_ATTEMPTS = 5;
+export const DEFAULT_JOB_BASE_RETRY_DELAY_MS = 5 * 1000;
+export const DEFAULT_JOB_MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+export const DEFAULT_JOB_COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class DurableJobQueue implements JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private pollTimer?: NodeJS.Timeout;
+  private purgeTimer?: NodeJS.Timeout;
+  private polling?: Promise<number>;
+
+  constructor(
+    private jobRepository: JobRepository,
+    private config: JobQueueConfig
+  ) {}
+
+  register<T>(queue: string, handler: JobHandler<T>): void {
+    if (this.handlers.has(queue)) {
+      throw new JobQueueError(`Queue ${queue} already has a handler`, 'QUEUE_ALREADY_REGISTERED');
+    }
+    this.handlers.set(queue, handler as JobHandler);
+  }
+
+  async enqueue<T>(queue: string, payload: T, options: EnqueueJobOptions = {}): Promise<Job<T>> {
+    return this.jobRepository.enqueue({
+      queue,
+      payload,
+      idempotencyKey: options.idempotencyKey,
+      delayMs: Math.max(0, options.delayMs ?? 0),
+      maxAttempts: options.maxAttempts ?? this.config.maxAttempts
+    });
+  }
+
+  /**
+   * Claim and run one batch from every registered queue, resolving to the
+   * number of jobs claimed
+   */
+  async runOnce(): Promise<number> {
+    let claimed = 0;
+
+    for (const [queue, handler] of this.handlers) {
+      const jobs = await this.jobRepository.claim(queue, this.config.batchSize, this.config.visibilityTimeoutMs);
+      claimed += jobs.length;
+      await Promise.all(jobs.map(job => this.process(job, handler)));
+    }
+
+    return claimed;
+  }
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => void this.poll(), this.config.pollIntervalMs);
+    this.pollTimer.unref();
+    this.purgeTimer = setInterval(() => {
+      this.jobRepository
+        .purgeCompleted(new Date(Date.now() - this.config.completedRetentionMs))
+        .catch(error => console.error('Job purge failed:', error));
+    }, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.pollTimer);
+    clearInterval(this.purgeTimer);
+    this.pollTimer = undefined;
+    this.purgeTimer = undefined;
+    await this.polling;
+  }
+
+  // Polls never overlap; a slow batch delays the next one instead
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = this.runOnce();
+    try {
+      await this.polling;
+    } catch (error) {
+      console.error('Job queue poll failed:', error);
+    } finally {
+      this.polling = undefined;
+    }
+  }
+
+  private async process(job: Job, handler: JobHandler): Promise<void> {
+    if (job.attempts > job.maxAttempts) {
+      // The final attempt's lease expired without an outcome, e.g. the worker died
+      await this.jobRepository.deadLetter(job, job.lastError ?? 'Visibility timeout expired on the final attempt');
+      return;
+    }
+
+    try {
+      await handler(job.payload, job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (job.attempts >= job.maxAttempts) {
+        await this.jobRepository.deadLetter(job, message);
+      } else {
+        await this.jobRepository.retry(job, message, this.retryDelay(job.attempts));
+      }
+      return;
+    }
+
+    // A lost lease means another worker may run the job again; at-least-once allows it
+    await this.jobRepository.complete(job);
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(this.config.baseRetryDelayMs * 2 ** (attempts - 1), this.config.maxRetryDelayMs);
+  }
+}
+
+/**
+ * Create job queue config from environment variables
+ */
+export function createJobQueueConfig(): JobQueueConfig {
+  return {
+    pollIntervalMs: Number.parseInt(process.env.JOB_POLL_INTERVAL_MS ?? '', 10) || DEFAULT_JOB_POLL_INTERVAL_MS,
+    batchSize: DEFAULT_JOB_BATCH_SIZE,
+    visibilityTimeoutMs:
+      Number.parseInt(process.env.JOB_VISIBILITY_TIMEOUT_MS ?? '', 10) || DEFAULT_JOB_VISIBILITY_TIMEOUT_MS,
+    maxAttempts: DEFAULT_JOB_MAX_ATTEMPTS,
+    baseRetryDelayMs: DEFAULT_JOB_BASE_RETRY_DELAY_MS,
+    maxRetryDelayMs: DEFAULT_JOB_MAX_RETRY_DELAY_MS,
+    completedRetentionMs: DEFAULT_JOB_COMPLETED_RETENTION_MS
+  };
+}
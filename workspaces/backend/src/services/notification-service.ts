@@ -0,0 +1,265 @@
+/**
+ * Discord Webhook Notification Service Implementation
+ * Foundation-first: Posts shop notifications as Discord embeds to the webhook
+ * each shop owner configured. Rate limits (429) and server errors (5xx) are
+ * retried with exponential backoff, waiting out Retry-After when Discord
+ * sends it; every attempt is written to the delivery log so delivery latency
+ * can be checked against the spec's one minute SLA. Scheduled notifications
+ * go through the durable job queue, which retries deliveries that still fail
+ * later and dead-letters them once its attempts run out.
+ */
+
+import {
+  JobQueueService,
+  Notification,
+  NotificationRepository,
+  NotificationService
+} from '@shared/types/service-interfaces';
+import { discordWebhookPayload, MAX_EMBEDS_PER_MESSAGE } from '@shared/utils/shop-notifications';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_DISCORD_API_BASE_URL } from './authentication-service';
+
+/**
+ * Specific error type so HTTP routes can map failures to status codes
+ */
+export class NotificationError extends Error {
+  constructor(message: string, public readonly code: 'INVALID_WEBHOOK_URL' | 'WEBHOOK_REJECTED' | 'DELIVERY_FAILED') {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+export interface DiscordWebhookConfig {
+  // Overridable so tests can point deliveries at a local stub
+  apiBaseUrl: string;
+  maxAttempts: number;
+  baseRetryDelayMs: number;
+  // Longer waits, including a longer Retry-After, give up instead
+  maxRetryDelayMs: number;
+  requestTimeoutMs: number;
+}
+
+// 1s + 2s + 4s + 8s of backoff keeps a retried delivery inside the SLA
+export const DEFAULT_MAX_DELIVERY_ATTEMPTS = 5;
+export const DEFAULT_BASE_RETRY_DELAY_MS = 1000;
+export const DEFAULT_MAX_RETRY_DELAY_MS = 15 * 1000;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export const NOTIFICATION_JOB_QUEUE = 'notifications';
+
+// Webhook URLs as Discord hands them out, on any of its hosts and API versions
+const DISCORD_WEBHOOK_URL_PATTERN =
+  /^https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/(\d+)\/([\w-]+)\/?$/;
+
+export interface DiscordWebhookTarget {
+  id: string;
+  token: string;
+}
+
+export function parseDiscordWebhookUrl(webhookUrl: string): DiscordWebhookTarget | null {
+  const match = DISCORD_WEBHOOK_URL_PATTERN.exec(webhookUrl.trim());
+  return match ? { id: match[1], token: match[2] } : null;
+}
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class DiscordWebhookNotificationService implements NotificationService {
+  constructor(
+    private notificationRepository: NotificationRepository,
+    private jobQueue: JobQueueService,
+    private config: DiscordWebhookConfig,
+    private sleep: (ms: number) => Promise<void> = delay
+  ) {
+    jobQueue.register<Notification>(NOTIFICATION_JOB_QUEUE, payload => this.deliverQueued(payload));
+  }
+
+  /**
+   * Deliver one notification to its recipient's webhook. Shops without a
+   * webhook are skipped; a delivery that still fails after its retries throws.
+   */
+  async send(notification: Notification): Promise<void> {
+    await this.sendBulk([notification]);
+  }
+
+  /**
+   * Deliver notifications batched per recipient, up to Discord's embed limit
+   * per message. Every batch is attempted before any failure is thrown.
+   */
+  async sendBulk(notifications: Notification[]): Promise<void> {
+    const now = new Date();
+    const byRecipient = new Map<string, Notification[]>();
+    for (const notification of notifications) {
+      const stamped = { ...notification, id: notification.id ?? uuidv4(), createdAt: notification.createdAt ?? now };
+      byRecipient.set(notification.recipient, [...byRecipient.get(notification.recipient) ?? [], stamped]);
+    }
+
+    const results = await Promise.allSettled(
+      Array.from(byRecipient, ([recipient, batch]) => this.deliverToRecipient(recipient, batch))
+    );
+
+    const failures = results.flatMap(result => (result.status === 'rejected' ? [result.reason] : []));
+    if (failures.length === 1) {
+      throw failures[0];
+    }
+    if (failures.length > 1) {
+      throw new NotificationError(`${failures.length} of ${results.length} webhook deliveries failed`, 'DELIVERY_FAILED');
+    }
+  }
+
+  /**
+   * Queue the notification for delivery after `delay` ms. Its id is the
+   * idempotency key, so scheduling the same notification twice sends it
+   * once. Latency is measured from when it is due.
+   */
+  async scheduleNotification(notification: Notification, delay: number): Promise<void> {
+    const id = notification.id ?? uuidv4();
+    const due = { ...notification, id, createdAt: notification.createdAt ?? new Date(Date.now() + delay) };
+    await this.jobQueue.enqueue(NOTIFICATION_JOB_QUEUE, due, { idempotencyKey: id, delayMs: delay });
+  }
+
+  // Rejected webhooks are already logged and would fail the same way again
+  private async deliverQueued(payload: Notification): Promise<void> {
+    const notification = { ...payload, createdAt: payload.createdAt && new Date(payload.createdAt) };
+    try {
+      await this.send(notification);
+    } catch (error) {
+      if (error instanceof NotificationError && error.code !== 'DELIVERY_FAILED') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async deliverToRecipient(recipient: string, notifications: Notification[]): Promise<void> {
+    const webhook = await this.notificationRepository.findWebhook(recipient);
+    if (!webhook) {
+      return;
+    }
+
+    const target = parseDiscordWebhookUrl(webhook.webhookUrl);
+    if (!target) {
+      throw new NotificationError(`Stored webhook for user ${recipient} is not a Discord webhook URL`, 'INVALID_WEBHOOK_URL');
+    }
+
+    for (let start = 0; start < notifications.length; start += MAX_EMBEDS_PER_MESSAGE) {
+      await this.deliver(target, notifications.slice(start, start + MAX_EMBEDS_PER_MESSAGE));
+    }
+  }
+
+  private async deliver(target: DiscordWebhookTarget, notifications: Notification[]): Promise<void> {
+    const url = `${this.config.apiBaseUrl}/webhooks/${target.id}/${target.token}`;
+    const body = JSON.stringify(discordWebhookPayload(notifications));
+
+    for (let attempt = 1; ; attempt++) {
+      let httpStatus: number | undefined;
+      let error: string | undefined;
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          signal: AbortSignal.timeout(this.config.requestTimeoutMs)
+        });
+
+        if (response.ok) {
+          await this.logAttempts(notifications, attempt, 'delivered', response.status);
+          return;
+        }
+
+        httpStatus = response.status;
+        error = `Discord responded with ${response.status}`;
+        retryAfterMs = await readRetryAfterMs(response);
+      } catch (requestError) {
+        // Network failures and timeouts are retried like server errors
+        error = requestError instanceof Error ? requestError.message : 'Webhook request failed';
+      }
+
+      const retryable = httpStatus === undefined || httpStatus === 429 || httpStatus >= 500;
+      const wait = retryAfterMs ?? Math.min(this.config.baseRetryDelayMs * 2 ** (attempt - 1), this.config.maxRetryDelayMs);
+      const giveUp = !retryable || attempt >= this.config.maxAttempts || wait > this.config.maxRetryDelayMs;
+
+      await this.logAttempts(notifications, attempt, giveUp ? 'failed' : 'retrying', httpStatus, error);
+      if (giveUp) {
+        throw new NotificationError(
+          `Discord webhook delivery failed after ${attempt} attempt${attempt === 1 ? '' : 's'}: ${error}`,
+          retryable ? 'DELIVERY_FAILED' : 'WEBHOOK_REJECTED'
+        );
+      }
+
+      await this.sleep(wait);
+    }
+  }
+
+  private async logAttempts(
+    notifications: Notification[],
+    attempt: number,
+    status: 'delivered' | 'retrying' | 'failed',
+    httpStatus?: number,
+    error?: string
+  ): Promise<void> {
+    const attemptedAt = new Date();
+    for (const notification of notifications) {
+      await this.notificationRepository.logDelivery({
+        id: uuidv4(),
+        notificationId: notification.id!,
+        recipientId: notification.recipient,
+        notificationType: notification.type,
+        attempt,
+        status,
+        httpStatus,
+        error,
+        eventAt: notification.createdAt!,
+        attemptedAt
+      });
+    }
+  }
+}
+
+/**
+ * Queue for immediate delivery without holding up the caller; a notification
+ * that cannot be queued never fails the change that triggered it.
+ */
+export function notifyInBackground(service: NotificationService | undefined, notification: Notification): void {
+  service?.scheduleNotification(notification, 0).catch(error => {
+    console.error('Notification could not be queued:', error);
+  });
+}
+
+// Discord sends Retry-After in seconds, with the precise value in the JSON body
+async function readRetryAfterMs(response: Response): Promise<number | null> {
+  const header = response.headers.get('retry-after');
+  if (header !== null) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  if (response.status === 429) {
+    const body = await response.json().catch(() => null) as { retry_after?: unknown } | null;
+    if (typeof body?.retry_after === 'number') {
+      return Math.max(0, body.retry_after * 1000);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create webhook delivery config from environment variables
+ */
+export function createNotificationConfig(): DiscordWebhookConfig {
+  return {
+    apiBaseUrl: process.env.DISCORD_API_BASE_URL || DEFAULT_DISCORD_API_BASE_URL,
+    maxAttempts: DEFAULT_MAX_DELIVERY_ATTEMPTS,
+    baseRetryDelayMs: DEFAULT_BASE_RETRY_DELAY_MS,
+    maxRetryDelayMs: DEFAULT_MAX_RETRY_DELAY_MS,
+    requestTimeoutMs: DEFAULT_WEBHOOK_TIMEOUT_MS
+  };
+}
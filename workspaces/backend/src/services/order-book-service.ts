@@ -0,0 +1,96 @@
+/**
+ * Order Book Service Implementation
+ * Foundation-first: Sell listings and open buy orders for one item on one
+ * server, side by side. Each side keeps its own trading unit, so every price
+ * is converted with the pricing service and every quantity by the same unit
+ * sizes before levels are aggregated. Listings only offer stock not held by
+ * open trades.
+ */
+
+import {
+  BuyOrder,
+  BuyOrderRepository,
+  ItemRepository,
+  OrderBook,
+  OrderBookService,
+  Price,
+  PriceRepository,
+  PricingService,
+  TradingUnitType
+} from '@shared/types/service-interfaces';
+import { sameServer } from '@shared/utils/buy-orders';
+import { findVanillaItem } from '@shared/utils/minecraft-items';
+import {
+  aggregateOrderBookLevels,
+  convertQuantity,
+  orderBookSummary,
+  type OrderBookEntry
+} from '@shared/utils/order-book';
+import { isTradingUnitAllowed, maxStackSizeFor } from '@shared/utils/trading-units';
+import { availableStock } from '@shared/utils/transaction-lifecycle';
+import { PricingError } from './pricing-service';
+
+export class MarketplaceOrderBookService implements OrderBookService {
+  constructor(
+    private itemRepository: ItemRepository,
+    private priceRepository: PriceRepository,
+    private buyOrderRepository: BuyOrderRepository,
+    private pricingService: PricingService
+  ) {}
+
+  async getOrderBook(minecraftId: string, serverName: string, tradingUnit: TradingUnitType): Promise<OrderBook> {
+    const maxStackSize = maxStackSizeFor(minecraftId);
+    if (!isTradingUnitAllowed(tradingUnit, maxStackSize)) {
+      throw new PricingError(`Items that stack to ${maxStackSize} cannot be priced ${tradingUnit}`, 'INVALID_TRADING_UNIT');
+    }
+
+    const listings = (await this.itemRepository.findByMinecraftId(minecraftId))
+      .filter(item => item.isAvailable && availableStock(item) > 0 && sameServer(item.serverName, serverName));
+
+    const asks: OrderBookEntry[] = [];
+    for (const item of listings) {
+      const price = (await this.priceRepository.findByItemId(item.id)).find(current => current.isCurrent);
+      if (!price) continue;
+
+      const itemStackSize = maxStackSizeFor(item.minecraftId, item.itemAttributes);
+      asks.push({
+        priceDiamonds: this.pricingService.convertTradingUnits(price, price.tradingUnit, tradingUnit, itemStackSize).priceDiamonds,
+        quantity: convertQuantity(availableStock(item), price.tradingUnit, tradingUnit, itemStackSize)
+      });
+    }
+
+    const orders = await this.buyOrderRepository.findOpen({ minecraftId, serverName });
+    const bids: OrderBookEntry[] = orders.map(order => ({
+      priceDiamonds: this.pricingService.convertTradingUnits(limitPrice(order), order.tradingUnit, tradingUnit, maxStackSize).priceDiamonds,
+      quantity: convertQuantity(order.quantity, order.tradingUnit, tradingUnit, maxStackSize)
+    }));
+
+    const askLevels = aggregateOrderBookLevels(asks, 'ask');
+    const bidLevels = aggregateOrderBookLevels(bids, 'bid');
+
+    return {
+      minecraftId,
+      itemName: findVanillaItem(minecraftId)?.name ?? listings[0]?.name ?? orders[0]?.itemName ?? minecraftId,
+      serverName: serverName.trim(),
+      tradingUnit,
+      asks: askLevels,
+      bids: bidLevels,
+      ...orderBookSummary(askLevels, bidLevels),
+      generatedAt: new Date()
+    };
+  }
+}
+
+// A buy order's limit priced like a listing, so both sides convert alike
+function limitPrice(order: BuyOrder): Price {
+  return {
+    id: order.id,
+    itemId: '',
+    priceDiamonds: order.maxPriceDiamonds,
+    tradingUnit: order.tradingUnit,
+    isCurrent: true,
+    source: 'buy_order',
+    createdBy: order.ownerId,
+    createdAt: order.createdAt
+  };
+}
@@ -5,24 +5,124 @@
 
 import { 
   PricingService, 
+  ConfidenceLevel,
   Item, 
   Price, 
+  PriceRepository,
+  PriceSuggestion,
   TradingUnitType 
 } from '@shared/types/service-interfaces';
+import {
+  DEFAULT_MAX_STACK_SIZE,
+  isTradingUnitAllowed,
+  maxStackSizeFor,
+  tradingUnitSize
+} from '@shared/utils/trading-units';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Specific error type so HTTP routes can map failures to status codes
+ */
+export class PricingError extends Error {
+  constructor(message: string, public readonly code: 'NO_PRICE_HISTORY' | 'INVALID_TRADING_UNIT') {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Older observations count half as much every half-life and are dropped past the max age
+const PRICE_HISTORY_HALF_LIFE_DAYS = 14;
+const PRICE_HISTORY_MAX_AGE_DAYS = 90;
+// Well-evidenced community reports outweigh weakly supported ones
+const CONFIDENCE_WEIGHTS: Record<ConfidenceLevel, number> = {
+  low: 0.25,
+  medium: 0.6,
+  high: 1
+};
+// Confidence of prices not backed by a report: an owner's asking price is
+// unverified, and our own suggestions must not feed back into themselves
+const SOURCE_CONFIDENCE: Record<string, ConfidenceLevel> = {
+  owner: 'medium',
+  market_suggestion: 'low'
+};
+
+interface PriceObservation {
+  pricePerItem: number;
+  weight: number;
+}
 
 export class MinecraftPricingService implements PricingService {
-  // Trading unit conversion rates (items per unit)
-  private static readonly TRADING_UNIT_SIZES = {
-    per_item: 1,
-    per_stack: 64,
-    per_shulker: 1728, // 64 * 27 slots
-    per_dozen: 12
-  } as const;
-
-  calculatePrice(item: Item, tradingUnit: TradingUnitType): Price {
-    // This would typically involve complex business logic
-    // For now, return a basic structure
-    throw new Error('calculatePrice not implemented - use existing prices from database');
+  constructor(private priceRepository: PriceRepository) {}
+
+  /**
+   * Suggest a price for an item from other listings of the same minecraftId
+   */
+  async calculatePrice(item: Item, tradingUnit: TradingUnitType): Promise<Price> {
+    const suggestion = await this.getPriceSuggestion(item.minecraftId, tradingUnit, item.id, item.itemAttributes);
+    if (!suggestion) {
+      throw new PricingError(`No recent price history for ${item.minecraftId}`, 'NO_PRICE_HISTORY');
+    }
+
+    return {
+      id: uuidv4(),
+      itemId: item.id,
+      priceDiamonds: suggestion.priceDiamonds,
+      tradingUnit,
+      isCurrent: false,
+      source: 'market_suggestion',
+      createdBy: item.ownerId,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Weighted median and interquartile range of recent per-item prices,
+   * weighted by recency and by the confidence of the report or source behind
+   * each price. Each price is normalised by its own listing's stack size and
+   * the answer by `itemAttributes`' (the item being priced). Null when there
+   * is no history.
+   */
+  async getPriceSuggestion(
+    minecraftId: string,
+    tradingUnit: TradingUnitType,
+    excludeItemId?: string,
+    itemAttributes?: Record<string, any>
+  ): Promise<PriceSuggestion | null> {
+    const maxStackSize = maxStackSizeFor(minecraftId, itemAttributes);
+    if (!isTradingUnitAllowed(tradingUnit, maxStackSize)) {
+      throw new PricingError(`${minecraftId} does not stack and cannot be priced ${tradingUnit}`, 'INVALID_TRADING_UNIT');
+    }
+
+    const history = await this.priceRepository.findByMinecraftId(minecraftId);
+    const now = Date.now();
+
+    const observations: PriceObservation[] = history
+      .filter(price => price.itemId !== excludeItemId && price.priceDiamonds > 0)
+      .map(price => ({ price, ageDays: (now - price.createdAt.getTime()) / DAY_MS }))
+      .filter(({ ageDays }) => ageDays <= PRICE_HISTORY_MAX_AGE_DAYS)
+      .map(({ price, ageDays }) => ({
+        pricePerItem: this.getEffectivePricePerItem(price, maxStackSizeFor(minecraftId, price.itemAttributes)),
+        weight: 0.5 ** (ageDays / PRICE_HISTORY_HALF_LIFE_DAYS) * CONFIDENCE_WEIGHTS[priceConfidence(price)]
+      }))
+      .sort((a, b) => a.pricePerItem - b.pricePerItem);
+
+    if (observations.length === 0) {
+      return null;
+    }
+
+    const unitSize = tradingUnitSize(tradingUnit, maxStackSize);
+    const inUnit = (pricePerItem: number) => Number((pricePerItem * unitSize).toFixed(2));
+
+    return {
+      priceDiamonds: inUnit(weightedQuantile(observations, 0.5)),
+      tradingUnit,
+      range: {
+        min: inUnit(weightedQuantile(observations, 0.25)),
+        max: inUnit(weightedQuantile(observations, 0.75))
+      },
+      sampleSize: observations.length
+    };
   }
 
   formatPriceDisplay(price: Price): string {
@@ -76,17 +176,27 @@ export class MinecraftPricingService implements PricingService {
     }
   }
 
+  /**
+   * Stack and shulker sizes follow the item's max stack size, so a stack of
+   * ender pearls is 16 items. Converting to "per stack" for an item that does
+   * not stack is refused.
+   */
   convertTradingUnits(
     price: Price, 
     fromUnit: TradingUnitType, 
-    toUnit: TradingUnitType
+    toUnit: TradingUnitType,
+    maxStackSize: number = DEFAULT_MAX_STACK_SIZE
   ): Price {
     if (fromUnit === toUnit) {
       return price;
     }
 
-    const fromSize = MinecraftPricingService.TRADING_UNIT_SIZES[fromUnit];
-    const toSize = MinecraftPricingService.TRADING_UNIT_SIZES[toUnit];
+    if (!isTradingUnitAllowed(toUnit, maxStackSize)) {
+      throw new PricingError(`Items that stack to ${maxStackSize} cannot be priced ${toUnit}`, 'INVALID_TRADING_UNIT');
+    }
+
+    const fromSize = tradingUnitSize(fromUnit, maxStackSize);
+    const toSize = tradingUnitSize(toUnit, maxStackSize);
     
     // Calculate price per individual item
     const pricePerItem = price.priceDiamonds / fromSize;
@@ -128,8 +238,8 @@ export class MinecraftPricingService implements PricingService {
   /**
    * Calculate effective price per item for comparison across different trading units
    */
-  getEffectivePricePerItem(price: Price): number {
-    const unitSize = MinecraftPricingService.TRADING_UNIT_SIZES[price.tradingUnit];
+  getEffectivePricePerItem(price: Price, maxStackSize: number = DEFAULT_MAX_STACK_SIZE): number {
+    const unitSize = tradingUnitSize(price.tradingUnit, maxStackSize);
     return price.priceDiamonds / unitSize;
   }
 
@@ -163,4 +273,30 @@ export class MinecraftPricingService implements PricingService {
       return `${diamonds}◆/${suffix}`;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Report-backed prices carry the report's confidence; others fall back to
+ * their source's
+ */
+function priceConfidence(price: Price): ConfidenceLevel {
+  return price.confidenceLevel ?? SOURCE_CONFIDENCE[price.source] ?? 'low';
+}
+
+/**
+ * Smallest observed price whose cumulative weight reaches the quantile.
+ * Observations must be sorted by price ascending.
+ */
+function weightedQuantile(observations: PriceObservation[], quantile: number): number {
+  const totalWeight = observations.reduce((sum, observation) => sum + observation.weight, 0);
+  let cumulative = 0;
+
+  for (const observation of observations) {
+    cumulative += observation.weight;
+    if (cumulative >= totalWeight * quantile) {
+      return observation.pricePerItem;
+    }
+  }
+
+  return observations[observations.length - 1].pricePerItem;
+}
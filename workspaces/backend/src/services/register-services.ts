@@ -0,0 +1,202 @@
+/**
+ * Backend Service Registration
+ * Wires PostgreSQL repositories and domain services into the DI container,
+ * and starts the background job worker
+ */
+
+import type {
+  BuyOrderRepository,
+  BuyOrderService,
+  CommunityReportRepository,
+  EvidenceRepository,
+  ItemRepository,
+  JobRepository,
+  NotificationRepository,
+  NotificationService,
+  PriceRepository,
+  ItemService,
+  PricingService,
+  ReportingService,
+  SessionRepository,
+  StockReservationRepository,
+  StockReservationService,
+  TransactionRepository,
+  UserRepository
+} from '@shared/types/service-interfaces';
+import { ServiceContainer, SERVICE_KEYS } from '@shared/di/container';
+import { SessionService, type SessionCache } from '@shared/services/session-service';
+import { getValkeyService } from '@shared/services/valkey-cache';
+import { createDatabaseConnection } from '../database/postgres-connection';
+import { DatabaseConnection, PostgreSQLItemRepository } from '../repositories/postgresql-item-repository';
+import { PostgreSQLBuyOrderRepository } from '../repositories/postgresql-buy-order-repository';
+import { PostgreSQLCommunityReportRepository } from '../repositories/postgresql-community-report-repository';
+import { PostgreSQLEvidenceRepository } from '../repositories/postgresql-evidence-repository';
+import { PostgreSQLJobRepository } from '../repositories/postgresql-job-repository';
+import { PostgreSQLNotificationRepository } from '../repositories/postgresql-notification-repository';
+import { PostgreSQLPriceRepository } from '../repositories/postgresql-price-repository';
+import { PostgreSQLSessionRepository } from '../repositories/postgresql-session-repository';
+import { PostgreSQLStockReservationRepository } from '../repositories/postgresql-stock-reservation-repository';
+import { PostgreSQLTransactionRepository } from '../repositories/postgresql-transaction-repository';
+import { PostgreSQLUserRepository } from '../repositories/postgresql-user-repository';
+import { DiscordAuthenticationService, createDiscordAuthConfig } from './authentication-service';
+import { MarketplaceBuyOrderService } from './buy-order-service';
+import { DiscordInteractionService, createDiscordInteractionConfig } from './discord-interactions';
+import { LocalDiskStorage, SecureFileUploadService, createUploadConfig } from './file-upload-service';
+import { MinecraftItemService } from './item-service';
+import { DurableJobQueue, createJobQueueConfig } from './job-queue';
+import { DiscordWebhookNotificationService, createNotificationConfig } from './notification-service';
+import { MarketplaceOrderBookService } from './order-book-service';
+import { MinecraftPricingService } from './pricing-service';
+import { CommunityReportingService } from './reporting-service';
+import { ExpiringStockReservationService, createStockReservationConfig } from './stock-reservation-service';
+import { MarketplaceTransactionService } from './transaction-service';
+
+export function registerBackendServices(container: ServiceContainer): void {
+  // Infrastructure
+  container.register(SERVICE_KEYS.DATABASE, () => createDatabaseConnection());
+  container.register(SERVICE_KEYS.CACHE, () => getValkeyService());
+
+  // Repositories
+  container.register(SERVICE_KEYS.USER_REPOSITORY, () =>
+    new PostgreSQLUserRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.SESSION_REPOSITORY, () =>
+    new PostgreSQLSessionRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.ITEM_REPOSITORY, () =>
+    new PostgreSQLItemRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.PRICE_REPOSITORY, () =>
+    new PostgreSQLPriceRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.COMMUNITY_REPORT_REPOSITORY, () =>
+    new PostgreSQLCommunityReportRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.EVIDENCE_REPOSITORY, () =>
+    new PostgreSQLEvidenceRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.NOTIFICATION_REPOSITORY, () =>
+    new PostgreSQLNotificationRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.JOB_REPOSITORY, () =>
+    new PostgreSQLJobRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.TRANSACTION_REPOSITORY, () =>
+    new PostgreSQLTransactionRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.STOCK_RESERVATION_REPOSITORY, () =>
+    new PostgreSQLStockReservationRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+  container.register(SERVICE_KEYS.BUY_ORDER_REPOSITORY, () =>
+    new PostgreSQLBuyOrderRepository(container.get<DatabaseConnection>(SERVICE_KEYS.DATABASE))
+  );
+
+  // Services
+  container.register(SERVICE_KEYS.SESSION_SERVICE, () =>
+    new SessionService(
+      container.get<SessionRepository>(SERVICE_KEYS.SESSION_REPOSITORY),
+      container.get<UserRepository>(SERVICE_KEYS.USER_REPOSITORY),
+      container.get<SessionCache>(SERVICE_KEYS.CACHE)
+    )
+  );
+  container.register(SERVICE_KEYS.AUTHENTICATION_SERVICE, () =>
+    new DiscordAuthenticationService(
+      container.get<UserRepository>(SERVICE_KEYS.USER_REPOSITORY),
+      container.get<SessionService>(SERVICE_KEYS.SESSION_SERVICE),
+      createDiscordAuthConfig()
+    )
+  );
+  container.register(SERVICE_KEYS.FILE_UPLOAD_SERVICE, () => {
+    const config = createUploadConfig();
+    return new SecureFileUploadService(new LocalDiskStorage(config.path), config);
+  });
+  container.register(SERVICE_KEYS.JOB_QUEUE, () =>
+    new DurableJobQueue(container.get<JobRepository>(SERVICE_KEYS.JOB_REPOSITORY), createJobQueueConfig())
+  );
+  container.register(SERVICE_KEYS.NOTIFICATION_SERVICE, () =>
+    new DiscordWebhookNotificationService(
+      container.get<NotificationRepository>(SERVICE_KEYS.NOTIFICATION_REPOSITORY),
+      container.get<DurableJobQueue>(SERVICE_KEYS.JOB_QUEUE),
+      createNotificationConfig()
+    )
+  );
+  container.register(SERVICE_KEYS.PRICING_SERVICE, () =>
+    new MinecraftPricingService(container.get<PriceRepository>(SERVICE_KEYS.PRICE_REPOSITORY))
+  );
+  container.register(SERVICE_KEYS.ITEM_SERVICE, () =>
+    new MinecraftItemService(
+      container.get<ItemRepository>(SERVICE_KEYS.ITEM_REPOSITORY),
+      container.get<PriceRepository>(SERVICE_KEYS.PRICE_REPOSITORY),
+      container.get<PricingService>(SERVICE_KEYS.PRICING_SERVICE),
+      container.get<NotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE),
+      container.get<BuyOrderService>(SERVICE_KEYS.BUY_ORDER_SERVICE)
+    )
+  );
+  container.register(SERVICE_KEYS.REPORTING_SERVICE, () =>
+    new CommunityReportingService(
+      container.get<ItemRepository>(SERVICE_KEYS.ITEM_REPOSITORY),
+      container.get<PriceRepository>(SERVICE_KEYS.PRICE_REPOSITORY),
+      container.get<CommunityReportRepository>(SERVICE_KEYS.COMMUNITY_REPORT_REPOSITORY),
+      container.get<EvidenceRepository>(SERVICE_KEYS.EVIDENCE_REPOSITORY),
+      container.get<UserRepository>(SERVICE_KEYS.USER_REPOSITORY),
+      container.get<NotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE)
+    )
+  );
+  container.register(SERVICE_KEYS.STOCK_RESERVATION_SERVICE, () =>
+    new ExpiringStockReservationService(
+      container.get<StockReservationRepository>(SERVICE_KEYS.STOCK_RESERVATION_REPOSITORY),
+      container.get<DurableJobQueue>(SERVICE_KEYS.JOB_QUEUE),
+      createStockReservationConfig()
+    )
+  );
+  container.register(SERVICE_KEYS.TRANSACTION_SERVICE, () =>
+    new MarketplaceTransactionService(
+      container.get<TransactionRepository>(SERVICE_KEYS.TRANSACTION_REPOSITORY),
+      container.get<ItemRepository>(SERVICE_KEYS.ITEM_REPOSITORY),
+      container.get<PriceRepository>(SERVICE_KEYS.PRICE_REPOSITORY),
+      container.get<UserRepository>(SERVICE_KEYS.USER_REPOSITORY),
+      container.get<StockReservationService>(SERVICE_KEYS.STOCK_RESERVATION_SERVICE),
+      container.get<NotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE)
+    )
+  );
+  container.register(SERVICE_KEYS.BUY_ORDER_SERVICE, () =>
+    new MarketplaceBuyOrderService(
+      container.get<BuyOrderRepository>(SERVICE_KEYS.BUY_ORDER_REPOSITORY),
+      container.get<ItemRepository>(SERVICE_KEYS.ITEM_REPOSITORY),
+      container.get<PriceRepository>(SERVICE_KEYS.PRICE_REPOSITORY),
+      container.get<DurableJobQueue>(SERVICE_KEYS.JOB_QUEUE),
+      container.get<NotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE)
+    )
+  );
+  container.register(SERVICE_KEYS.ORDER_BOOK_SERVICE, () =>
+    new MarketplaceOrderBookService(
+      container.get<ItemRepository>(SERVICE_KEYS.ITEM_REPOSITORY),
+      container.get<PriceRepository>(SERVICE_KEYS.PRICE_REPOSITORY),
+      container.get<BuyOrderRepository>(SERVICE_KEYS.BUY_ORDER_REPOSITORY),
+      container.get<PricingService>(SERVICE_KEYS.PRICING_SERVICE)
+    )
+  );
+  container.register(SERVICE_KEYS.DISCORD_INTERACTION_SERVICE, () =>
+    new DiscordInteractionService(
+      container.get<ItemService>(SERVICE_KEYS.ITEM_SERVICE),
+      container.get<PricingService>(SERVICE_KEYS.PRICING_SERVICE),
+      container.get<ReportingService>(SERVICE_KEYS.REPORTING_SERVICE),
+      container.get<UserRepository>(SERVICE_KEYS.USER_REPOSITORY),
+      createDiscordInteractionConfig()
+    )
+  );
+}
+
+/**
+ * Resolve every service that handles a job queue, so its handler is
+ * registered, then start polling
+ */
+export function startBackgroundJobs(container: ServiceContainer): DurableJobQueue {
+  container.get<NotificationService>(SERVICE_KEYS.NOTIFICATION_SERVICE);
+  container.get<StockReservationService>(SERVICE_KEYS.STOCK_RESERVATION_SERVICE);
+  container.get<BuyOrderService>(SERVICE_KEYS.BUY_ORDER_SERVICE);
+
+  const jobQueue = container.get<DurableJobQueue>(SERVICE_KEYS.JOB_QUEUE);
+  jobQueue.start();
+  return jobQueue;
+}
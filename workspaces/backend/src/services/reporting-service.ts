@@ -0,0 +1,440 @@
+/**
+ * Reporting Service Implementation
+ * Foundation-first: Community reports with evidence, spec confidence scoring
+ * and auto-approval of high-confidence stock status changes. Approved reports
+ * are applied to the listing: a new price, an availability toggle or, for a
+ * shop closure, every listing the owner has on that server deactivated.
+ * Reporter reputation comes from report outcomes and feeds confidence.
+ * Reports agreeing with a pending one on the same item corroborate it and are
+ * reviewed together; disagreeing ones flag the cluster as a conflict.
+ * Claimed values are validated on submit and are what an approval applies.
+ * New reports and the price and stock changes approvals make notify the
+ * listing owner's shop webhook.
+ */
+
+import {
+  CommunityReport,
+  CommunityReportRepository,
+  ConfidenceLevel,
+  CreateReportRequest,
+  Evidence,
+  EvidenceRepository,
+  Item,
+  ItemRepository,
+  NotificationService,
+  PriceRepository,
+  ReportDecision,
+  ReporterHistory,
+  ReportCluster,
+  ReportingService,
+  ReviewQueueEntry,
+  TradingUnitType,
+  User,
+  UserRepository
+} from '@shared/types/service-interfaces';
+import { hasPermission } from '@shared/utils/permissions';
+import { claimedValuesFor, claimProblem } from '@shared/utils/report-claims';
+import { claimsAgree, corroboratedConfidence, maxConfidence, reportClaim } from '@shared/utils/report-clusters';
+import { scoreReportConfidence, shouldAutoApprove } from '@shared/utils/report-confidence';
+import {
+  isLowStockDrop,
+  lowStockNotification,
+  priceChangeNotification,
+  reportNotification
+} from '@shared/utils/shop-notifications';
+import { isTradingUnitAllowed, maxStackSizeFor } from '@shared/utils/trading-units';
+import { v4 as uuidv4 } from 'uuid';
+import { notifyInBackground } from './notification-service';
+
+/**
+ * Specific error type so HTTP routes can map failures to status codes
+ */
+export class ReportingError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'ITEM_NOT_FOUND'
+      | 'REPORT_NOT_FOUND'
+      | 'REPORT_ALREADY_REVIEWED'
+      | 'NOT_REPORT_REVIEWER'
+      | 'PRICE_REQUIRED'
+      | 'INVALID_TRADING_UNIT'
+      | 'INVALID_CLAIM'
+  ) {
+    super(message);
+    this.name = 'ReportingError';
+  }
+}
+
+export class CommunityReportingService implements ReportingService {
+  constructor(
+    private itemRepository: ItemRepository,
+    private priceRepository: PriceRepository,
+    private reportRepository: CommunityReportRepository,
+    private evidenceRepository: EvidenceRepository,
+    private userRepository: UserRepository,
+    private notificationService?: NotificationService
+  ) {}
+
+  async submitReport(request: CreateReportRequest, userId: string): Promise<CommunityReport> {
+    const item = await this.itemRepository.findById(request.itemId);
+    if (!item) {
+      throw new ReportingError(`Item with id ${request.itemId} not found`, 'ITEM_NOT_FOUND');
+    }
+
+    const problem = claimProblem(request);
+    if (problem) {
+      throw new ReportingError(problem, 'INVALID_CLAIM');
+    }
+    const claimedPrice = claimedValuesFor(request, 'price_change');
+    if (claimedPrice) {
+      assertTradingUnitAllowed(item, claimedPrice.tradingUnit);
+    }
+
+    const reportId = uuidv4();
+    const evidence: Evidence[] = (request.evidence ?? []).map(entry => ({
+      ...entry,
+      id: uuidv4(),
+      reportId,
+      createdAt: new Date()
+    }));
+
+    // Earlier pending reports of this type on the item, oldest first
+    const cluster = (await this.reportRepository.findAll({
+      itemId: request.itemId,
+      reportType: request.reportType,
+      status: 'pending'
+    })).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const agreeing = cluster.filter(member => claimsAgree(member, request));
+    const hasConflict = agreeing.length < cluster.length || cluster.some(member => member.hasConflict);
+    const corroborations = new Set(agreeing.map(member => member.reporterId).filter(id => id !== userId)).size;
+
+    // Corroboration raises the confidence shown to reviewers, but only the
+    // report's own evidence and reporter reputation can auto-approve it
+    const reputation = await this.reportRepository.getReporterReputation(userId);
+    const ownConfidence = this.calculateConfidence(evidence, reputation);
+    const confidenceLevel = corroboratedConfidence(ownConfidence, corroborations);
+    const autoApproved = !hasConflict && shouldAutoApprove(request.reportType, ownConfidence);
+
+    const report = await this.reportRepository.save({
+      id: reportId,
+      itemId: request.itemId,
+      reporterId: userId,
+      reportType: request.reportType,
+      description: request.description,
+      claimedValues: request.claimedValues,
+      status: autoApproved ? 'approved' : 'pending',
+      confidenceLevel,
+      autoApproved,
+      clusterId: cluster.length > 0 ? cluster[0].clusterId ?? cluster[0].id : undefined,
+      hasConflict,
+      createdAt: new Date()
+    });
+
+    // Removing the report cascades to any evidence already saved. An
+    // auto-approval changes the listing last, once nothing left to save can
+    // fail and leave the change behind a deleted report.
+    try {
+      for (const entry of evidence) {
+        await this.evidenceRepository.save(entry);
+      }
+
+      if (autoApproved) {
+        await this.applyApprovedReport(report, item, { approved: true });
+      }
+    } catch (error) {
+      await this.reportRepository.delete(report.id).catch(() => undefined);
+      throw error;
+    }
+
+    await this.mergeIntoCluster(report, cluster);
+
+    notifyInBackground(this.notificationService, reportNotification(report, item));
+    return report;
+  }
+
+  /**
+   * Approve or reject a pending report. Only the reported listing's owner or
+   * a moderator may review; an approval is applied before it is recorded so
+   * a failed change leaves the report pending.
+   */
+  async reviewReport(reportId: string, decision: ReportDecision, reviewer: User): Promise<CommunityReport> {
+    const report = await this.reportRepository.findById(reportId);
+    if (!report) {
+      throw new ReportingError(`Report with id ${reportId} not found`, 'REPORT_NOT_FOUND');
+    }
+
+    const item = await this.itemRepository.findById(report.itemId);
+    if (!item) {
+      throw new ReportingError(`Item with id ${report.itemId} not found`, 'ITEM_NOT_FOUND');
+    }
+
+    if (!canReview(reviewer, item)) {
+      throw new ReportingError('Only the listing owner or a moderator can review this report', 'NOT_REPORT_REVIEWER');
+    }
+
+    if (report.status !== 'pending' && report.status !== 'under_review') {
+      throw new ReportingError(`Report ${reportId} has already been ${report.status}`, 'REPORT_ALREADY_REVIEWED');
+    }
+
+    if (decision.approved) {
+      await this.applyApprovedReport(report, item, decision);
+    }
+
+    const review = {
+      status: decision.approved ? 'approved' : 'rejected',
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      reviewNotes: decision.notes
+    } as const;
+    const reviewed = await this.reportRepository.update(reportId, review);
+    await this.resolveCluster(reviewed, review);
+
+    return reviewed;
+  }
+
+  calculateConfidence(evidence: Evidence[], reporterHistory?: ReporterHistory): ConfidenceLevel {
+    return scoreReportConfidence(evidence.map(entry => entry.evidenceType), reporterHistory);
+  }
+
+  async getReportsForItem(itemId: string): Promise<CommunityReport[]> {
+    return this.reportRepository.findByItemId(itemId);
+  }
+
+  async getPendingReports(): Promise<CommunityReport[]> {
+    return this.reportRepository.findPendingReports();
+  }
+
+  /**
+   * Pending reports the reviewer may decide: every one for moderators,
+   * otherwise those on the reviewer's own listings. Each carries the
+   * reporter's name and reputation for the review badge. Reports making
+   * the same claim collapse into the oldest one, and conflicting claims
+   * in a cluster are listed next to each other. Listings, reporters,
+   * evidence and reputations are loaded in one batch for the whole queue.
+   */
+  async getReviewQueue(reviewer: User): Promise<ReviewQueueEntry[]> {
+    const isModerator = hasPermission(reviewer, 'REVIEW_REPORTS');
+    if (!isModerator && !reviewer.isActive) {
+      return [];
+    }
+
+    const pending = await this.reportRepository.findPendingReports(isModerator ? undefined : reviewer.id);
+    const leaders: Array<{ report: CommunityReport; cluster?: ReportCluster }> = [];
+    const claimGroups = new Map<string, { cluster: ReportCluster; reporters: Set<string> }>();
+
+    for (const report of pending) {
+      const claimKey = `${report.clusterId}:${reportClaim(report)}`;
+      const group = report.clusterId ? claimGroups.get(claimKey) : undefined;
+      if (group) {
+        group.reporters.add(report.reporterId);
+        group.cluster.reportIds.push(report.id);
+        group.cluster.reporterCount = group.reporters.size;
+        continue;
+      }
+
+      const cluster = report.clusterId
+        ? { id: report.clusterId, reportIds: [report.id], reporterCount: 1, hasConflict: report.hasConflict ?? false }
+        : undefined;
+      leaders.push({ report, cluster });
+      if (cluster) {
+        claimGroups.set(claimKey, { cluster, reporters: new Set([report.reporterId]) });
+      }
+    }
+
+    if (leaders.length === 0) {
+      return [];
+    }
+
+    const unique = (values: string[]) => [...new Set(values)];
+    const itemIds = unique(leaders.map(({ report }) => report.itemId));
+    const reporterIds = unique(leaders.map(({ report }) => report.reporterId));
+    const priceItemIds = unique(leaders
+      .filter(({ report }) => report.reportType === 'price_change')
+      .map(({ report }) => report.itemId));
+
+    const [items, reporters, evidence, reputations, currentPrices] = await Promise.all([
+      this.itemRepository.findByIds(itemIds),
+      this.userRepository.findByIds(reporterIds),
+      this.evidenceRepository.findByReportIds(leaders.map(({ report }) => report.id)),
+      this.reportRepository.getReporterReputations(reporterIds),
+      priceItemIds.length > 0 ? this.priceRepository.findCurrentByItemIds(priceItemIds) : Promise.resolve([])
+    ]);
+    const itemById = new Map(items.map(item => [item.id, item]));
+    const usernameById = new Map(reporters.map(user => [user.id, user.username]));
+    const priceByItem = new Map(currentPrices.map(price => [price.itemId, price]));
+
+    const entries: ReviewQueueEntry[] = [];
+    for (const { report, cluster } of leaders) {
+      const item = itemById.get(report.itemId);
+      if (!item) {
+        continue;
+      }
+
+      entries.push({
+        ...report,
+        item,
+        currentPrice: report.reportType === 'price_change' ? priceByItem.get(item.id) : undefined,
+        evidence: evidence.filter(entry => entry.reportId === report.id),
+        reporter: {
+          id: report.reporterId,
+          username: usernameById.get(report.reporterId) ?? 'Unknown reporter',
+          reputation: reputations.get(report.reporterId)!
+        },
+        cluster
+      });
+    }
+
+    // Stable sort keeps submission order while pulling each cluster together
+    const firstIndex = new Map<string, number>();
+    entries.forEach((entry, index) => {
+      const key = entry.cluster?.id ?? entry.id;
+      if (!firstIndex.has(key)) {
+        firstIndex.set(key, index);
+      }
+    });
+    return entries.sort((a, b) =>
+      firstIndex.get(a.cluster?.id ?? a.id)! - firstIndex.get(b.cluster?.id ?? b.id)!
+    );
+  }
+
+  /**
+   * Join a new report to the pending reports it was clustered with: the
+   * cluster takes the oldest report's id, agreeing reports take the raised
+   * confidence (or the auto-approval) and a differing claim flags them all.
+   */
+  private async mergeIntoCluster(report: CommunityReport, cluster: CommunityReport[]): Promise<void> {
+    if (!report.clusterId) {
+      return;
+    }
+
+    for (const member of cluster) {
+      const updates: Partial<CommunityReport> = {};
+      if (!member.clusterId) {
+        updates.clusterId = report.clusterId;
+      }
+      if (report.hasConflict && !member.hasConflict) {
+        updates.hasConflict = true;
+      }
+      if (claimsAgree(member, report)) {
+        if (report.status === 'approved') {
+          Object.assign(updates, {
+            status: 'approved',
+            reviewedAt: new Date(),
+            reviewNotes: `Corroborated by auto-approved report ${report.id}`
+          });
+        } else if (report.confidenceLevel && member.confidenceLevel !== maxConfidence(member.confidenceLevel, report.confidenceLevel)) {
+          updates.confidenceLevel = report.confidenceLevel;
+        }
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await this.reportRepository.update(member.id, updates);
+      }
+    }
+  }
+
+  /**
+   * Apply a review to the rest of the report's cluster: agreeing reports get
+   * the same outcome, and an approval rejects the claims that conflict with
+   * it. A cluster left with a single claim is no longer in conflict.
+   */
+  private async resolveCluster(report: CommunityReport, review: Partial<CommunityReport>): Promise<void> {
+    if (!report.clusterId) {
+      return;
+    }
+
+    const members = (await this.reportRepository.findAll({
+      itemId: report.itemId,
+      reportType: report.reportType,
+      status: 'pending'
+    })).filter(member => member.clusterId === report.clusterId);
+    const remaining: CommunityReport[] = [];
+
+    for (const member of members) {
+      if (claimsAgree(member, report)) {
+        await this.reportRepository.update(member.id, review);
+      } else if (report.status === 'approved') {
+        await this.reportRepository.update(member.id, {
+          ...review,
+          status: 'rejected',
+          reviewNotes: `Conflicts with approved report ${report.id}`
+        });
+      } else {
+        remaining.push(member);
+      }
+    }
+
+    if (remaining.every(member => claimsAgree(member, remaining[0]))) {
+      for (const member of remaining.filter(member => member.hasConflict)) {
+        await this.reportRepository.update(member.id, { hasConflict: false });
+      }
+    }
+  }
+
+  private async applyApprovedReport(report: CommunityReport, item: Item, decision: ReportDecision): Promise<void> {
+    switch (report.reportType) {
+      case 'price_change': {
+        const price = decision.price ?? claimedValuesFor(report, 'price_change');
+        if (!price) {
+          throw new ReportingError('Approving a price change requires the new price', 'PRICE_REQUIRED');
+        }
+
+        const { priceDiamonds, tradingUnit } = price;
+        assertTradingUnitAllowed(item, tradingUnit);
+
+        const previousPrice = (await this.priceRepository.findByItemId(item.id)).find(current => current.isCurrent);
+        const newPrice = {
+          id: uuidv4(),
+          itemId: item.id,
+          priceDiamonds,
+          tradingUnit,
+          isCurrent: true,
+          source: 'community_report',
+          confidenceLevel: report.confidenceLevel,
+          createdBy: report.reporterId,
+          createdAt: new Date()
+        };
+        await this.priceRepository.updateCurrentPrice(item.id, newPrice);
+        notifyInBackground(this.notificationService, priceChangeNotification(item, newPrice, previousPrice));
+        return;
+      }
+
+      case 'stock_status': {
+        // Reports without claimed values only say the availability changed
+        const stock = claimedValuesFor(report, 'stock_status');
+        const updated = await this.itemRepository.update(item.id, stock
+          ? { isAvailable: stock.inStock, stockQuantity: stock.stockQuantity ?? (stock.inStock ? item.stockQuantity : 0) }
+          : { isAvailable: !item.isAvailable });
+        if (isLowStockDrop(item.stockQuantity, updated.stockQuantity)) {
+          notifyInBackground(this.notificationService, lowStockNotification(updated));
+        }
+        return;
+      }
+
+      case 'shop_closure': {
+        const listings = await this.itemRepository.findByOwnerId(item.ownerId);
+        for (const listing of listings) {
+          if (listing.isAvailable && listing.serverName === item.serverName) {
+            await this.itemRepository.update(listing.id, { isAvailable: false });
+          }
+        }
+        return;
+      }
+
+      case 'incorrect_info':
+        // Corrections are made by the owner; approval only records the review
+        return;
+    }
+  }
+}
+
+function assertTradingUnitAllowed(item: Item, tradingUnit: TradingUnitType): void {
+  if (!isTradingUnitAllowed(tradingUnit, maxStackSizeFor(item.minecraftId, item.itemAttributes))) {
+    throw new ReportingError(`${item.minecraftId} does not stack and cannot be sold ${tradingUnit}`, 'INVALID_TRADING_UNIT');
+  }
+}
+
+function canReview(reviewer: User, item: Item): boolean {
+  return hasPermission(reviewer, 'REVIEW_REPORTS') || (reviewer.isActive && item.ownerId === reviewer.id);
+}
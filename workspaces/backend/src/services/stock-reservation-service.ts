@@ -0,0 +1,98 @@
+/**
+ * Stock Reservation Service Implementation
+ * Foundation-first: Holds a trade's quantity against its listing for a
+ * configurable window, so stock promised to one buyer is not offered to the
+ * next. Each hold queues a sweep on the job queue for when it runs out; the
+ * sweep releases every hold past its deadline, so a lost sweep job is
+ * covered by the next one. Completing the trade converts the hold into the
+ * stock decrement (TransactionRepository.complete).
+ */
+
+import {
+  JobQueueService,
+  StockReservation,
+  StockReservationRepository,
+  StockReservationService,
+  Transaction
+} from '@shared/types/service-interfaces';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface StockReservationConfig {
+  holdMs: number;
+}
+
+// Long enough for both players to log in and meet at the stall
+export const DEFAULT_RESERVATION_HOLD_MS = 60 * 60 * 1000;
+
+export const RESERVATION_JOB_QUEUE = 'stock-reservations';
+
+interface ReservationSweepJob {
+  reservationId: string;
+}
+
+export class ExpiringStockReservationService implements StockReservationService {
+  constructor(
+    private reservationRepository: StockReservationRepository,
+    private jobQueue: JobQueueService,
+    private config: StockReservationConfig
+  ) {
+    jobQueue.register<ReservationSweepJob>(RESERVATION_JOB_QUEUE, async () => {
+      await this.releaseExpired();
+    });
+  }
+
+  /**
+   * Hold the trade's quantity until the window runs out. Resolves null when
+   * other holds leave too little stock.
+   */
+  async hold(transaction: Transaction): Promise<StockReservation | null> {
+    if (!transaction.itemId) {
+      return null;
+    }
+
+    const reservation = await this.reservationRepository.reserve({
+      id: uuidv4(),
+      itemId: transaction.itemId,
+      transactionId: transaction.id,
+      holderId: transaction.buyerId,
+      quantity: transaction.quantity,
+      status: 'active',
+      expiresAt: new Date(Date.now() + this.config.holdMs),
+      createdAt: new Date()
+    });
+    if (!reservation) {
+      return null;
+    }
+
+    try {
+      await this.jobQueue.enqueue<ReservationSweepJob>(
+        RESERVATION_JOB_QUEUE,
+        { reservationId: reservation.id },
+        { idempotencyKey: reservation.id, delayMs: this.config.holdMs }
+      );
+    } catch (error) {
+      // The hold still expires with the next sweep another hold queues
+      console.error(`Scheduling expiry of stock reservation ${reservation.id} failed:`, error);
+    }
+
+    return reservation;
+  }
+
+  async release(transactionId: string): Promise<StockReservation | null> {
+    return this.reservationRepository.release(transactionId);
+  }
+
+  async releaseExpired(now: Date = new Date()): Promise<StockReservation[]> {
+    return this.reservationRepository.releaseExpired(now);
+  }
+}
+
+/**
+ * Create stock reservation config from environment variables
+ */
+export function createStockReservationConfig(): StockReservationConfig {
+  const holdMinutes = Number.parseInt(process.env.RESERVATION_HOLD_MINUTES ?? '', 10);
+  return {
+    holdMs: holdMinutes > 0 ? holdMinutes * 60 * 1000 : DEFAULT_RESERVATION_HOLD_MS
+  };
+}
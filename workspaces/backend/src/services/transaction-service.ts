@@ -0,0 +1,232 @@
+/**
+ * Transaction Service Implementation
+ * Foundation-first: Purchases between signed-in players. The buyer opens a
+ * trade on a listing at its current price; the seller accepts it and
+ * completes it once the items change hands in game, which takes the
+ * quantity out of the listing's stock. Who may take which step is the
+ * shared lifecycle table; the repository applies each step only if the
+ * trade is still in the state it was read in. Opening a trade holds its
+ * quantity against the listing until it completes, is called off or the
+ * hold expires.
+ */
+
+import {
+  CreateTransactionRequest,
+  ItemRepository,
+  NotificationService,
+  PriceRepository,
+  StockReservationService,
+  Transaction,
+  TransactionHistoryEntry,
+  TransactionRepository,
+  TransactionService,
+  User,
+  UserRepository
+} from '@shared/types/service-interfaces';
+import { isLowStockDrop, lowStockNotification } from '@shared/utils/shop-notifications';
+import {
+  availableStock,
+  canTransition,
+  TRANSACTION_TRANSITIONS,
+  transactionRole,
+  transactionTotal,
+  type TransactionAction
+} from '@shared/utils/transaction-lifecycle';
+import { v4 as uuidv4 } from 'uuid';
+import { notifyInBackground } from './notification-service';
+
+/**
+ * Specific error type so HTTP routes can map failures to status codes
+ */
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'TRANSACTION_NOT_FOUND'
+      | 'ITEM_NOT_FOUND'
+      | 'WRONG_PARTY'
+      | 'OWN_LISTING'
+      | 'ITEM_UNAVAILABLE'
+      | 'PRICE_REQUIRED'
+      | 'INSUFFICIENT_STOCK'
+      | 'INVALID_TRANSITION'
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+export class MarketplaceTransactionService implements TransactionService {
+  constructor(
+    private transactionRepository: TransactionRepository,
+    private itemRepository: ItemRepository,
+    private priceRepository: PriceRepository,
+    private userRepository: UserRepository,
+    private stockReservationService: StockReservationService,
+    private notificationService?: NotificationService
+  ) {}
+
+  async createTransaction(request: CreateTransactionRequest, buyerId: string): Promise<Transaction> {
+    const item = await this.itemRepository.findById(request.itemId);
+    if (!item) {
+      throw new TransactionError(`Item with id ${request.itemId} not found`, 'ITEM_NOT_FOUND');
+    }
+    if (item.ownerId === buyerId) {
+      throw new TransactionError('You cannot buy from your own listing', 'OWN_LISTING');
+    }
+    if (!item.isAvailable) {
+      throw new TransactionError(`${item.name} is not available`, 'ITEM_UNAVAILABLE');
+    }
+    if (request.quantity > availableStock(item)) {
+      throw new TransactionError(`Only ${availableStock(item)} ${item.name} available`, 'INSUFFICIENT_STOCK');
+    }
+
+    const price = (await this.priceRepository.findByItemId(item.id)).find(current => current.isCurrent);
+    if (!price) {
+      throw new TransactionError(`${item.name} has no price to buy at`, 'PRICE_REQUIRED');
+    }
+
+    const now = new Date();
+    const transaction = await this.transactionRepository.save({
+      id: uuidv4(),
+      itemId: item.id,
+      itemName: item.name,
+      buyerId,
+      sellerId: item.ownerId,
+      quantity: request.quantity,
+      priceDiamonds: price.priceDiamonds,
+      tradingUnit: price.tradingUnit,
+      totalDiamonds: transactionTotal(price.priceDiamonds, request.quantity),
+      status: 'pending',
+      note: request.note,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    // Another buyer may have taken the stock since it was read
+    if (!(await this.stockReservationService.hold(transaction))) {
+      await this.transactionRepository.delete(transaction.id);
+      throw new TransactionError(`Not enough ${item.name} left to hold for this trade`, 'INSUFFICIENT_STOCK');
+    }
+
+    return transaction;
+  }
+
+  async acceptTransaction(transactionId: string, userId: string): Promise<Transaction> {
+    const transaction = await this.authorize(transactionId, userId, 'accept');
+    return this.applyTransition(transaction, 'accept');
+  }
+
+  /**
+   * Completion is where stock changes hands: the listing's stock drops by
+   * the traded quantity, its hold is used up, and the shop is warned when
+   * that leaves it low
+   */
+  async completeTransaction(transactionId: string, userId: string): Promise<Transaction> {
+    const transaction = await this.authorize(transactionId, userId, 'complete');
+
+    const completed = await this.transactionRepository.complete(transaction.id);
+    if (!completed) {
+      const current = await this.transactionRepository.findById(transaction.id);
+      if (current?.status !== 'accepted') {
+        throw new TransactionError(`Transaction is ${current?.status ?? 'gone'} and cannot be completed`, 'INVALID_TRANSITION');
+      }
+      throw new TransactionError(`Not enough unreserved ${transaction.itemName} in stock to complete this trade`, 'INSUFFICIENT_STOCK');
+    }
+
+    const item = completed.itemId ? await this.itemRepository.findById(completed.itemId) : null;
+    if (item && isLowStockDrop(item.stockQuantity + completed.quantity, item.stockQuantity)) {
+      notifyInBackground(this.notificationService, lowStockNotification(item));
+    }
+
+    return completed;
+  }
+
+  async cancelTransaction(transactionId: string, userId: string, reason?: string): Promise<Transaction> {
+    const transaction = await this.authorize(transactionId, userId, 'cancel');
+    const cancelled = await this.applyTransition(transaction, 'cancel', { closedBy: userId, closeReason: reason });
+    await this.stockReservationService.release(cancelled.id);
+    return cancelled;
+  }
+
+  async disputeTransaction(transactionId: string, userId: string, reason: string): Promise<Transaction> {
+    const transaction = await this.authorize(transactionId, userId, 'dispute');
+    const disputed = await this.applyTransition(transaction, 'dispute', { closedBy: userId, closeReason: reason });
+    // A trade disputed before completion will not take the stock
+    await this.stockReservationService.release(disputed.id);
+    return disputed;
+  }
+
+  async getTransaction(transactionId: string, userId: string): Promise<TransactionHistoryEntry> {
+    const transaction = await this.findForParty(transactionId, userId);
+    const [entry] = await this.withCounterparties([transaction], userId);
+    return entry;
+  }
+
+  async getTransactionHistory(userId: string, limit?: number): Promise<TransactionHistoryEntry[]> {
+    const transactions = await this.transactionRepository.findByParticipant(userId, limit);
+    return this.withCounterparties(transactions, userId);
+  }
+
+  // Other users' trades are reported as missing rather than forbidden
+  private async findForParty(transactionId: string, userId: string): Promise<Transaction> {
+    const transaction = await this.transactionRepository.findById(transactionId);
+    if (!transaction || !transactionRole(transaction, userId)) {
+      throw new TransactionError(`Transaction with id ${transactionId} not found`, 'TRANSACTION_NOT_FOUND');
+    }
+    return transaction;
+  }
+
+  private async authorize(transactionId: string, userId: string, action: TransactionAction): Promise<Transaction> {
+    const transaction = await this.findForParty(transactionId, userId);
+    const role = transactionRole(transaction, userId)!;
+
+    if (!TRANSACTION_TRANSITIONS[action].by.includes(role)) {
+      throw new TransactionError(`Only the ${TRANSACTION_TRANSITIONS[action].by.join(' or ')} can ${action} this trade`, 'WRONG_PARTY');
+    }
+    if (!canTransition(transaction, role, action)) {
+      throw new TransactionError(`Transaction is ${transaction.status} and cannot be ${TRANSACTION_TRANSITIONS[action].to}`, 'INVALID_TRANSITION');
+    }
+
+    return transaction;
+  }
+
+  private async applyTransition(
+    transaction: Transaction,
+    action: TransactionAction,
+    changes?: Pick<Transaction, 'closedBy' | 'closeReason'>
+  ): Promise<Transaction> {
+    const { from, to } = TRANSACTION_TRANSITIONS[action];
+    const updated = await this.transactionRepository.transition(transaction.id, from, to, changes);
+    if (!updated) {
+      // The other party moved it first
+      throw new TransactionError('Transaction changed while you were acting on it', 'INVALID_TRANSITION');
+    }
+    return updated;
+  }
+
+  private async withCounterparties(transactions: Transaction[], userId: string): Promise<TransactionHistoryEntry[]> {
+    const counterpartyIds = [...new Set(transactions.map(t => (t.buyerId === userId ? t.sellerId : t.buyerId)))];
+    const users = new Map<string, User>();
+    for (const id of counterpartyIds) {
+      const user = await this.userRepository.findById(id);
+      if (user) users.set(id, user);
+    }
+
+    return transactions.map(transaction => {
+      const role = transactionRole(transaction, userId)!;
+      const counterpartyId = role === 'buyer' ? transaction.sellerId : transaction.buyerId;
+      const counterparty = users.get(counterpartyId);
+
+      return {
+        ...transaction,
+        role,
+        counterparty: {
+          id: counterpartyId,
+          username: counterparty?.username ?? 'Unknown player',
+          shopName: counterparty?.shopName
+        }
+      };
+    });
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Hono Environment Types
+ * Request-scoped variables shared by middleware and route handlers
+ */
+
+import type { User } from '@shared/types/service-interfaces';
+
+export interface AppEnv {
+  Variables: {
+    // Populated by authentication middleware; absent for anonymous requests
+    user?: User;
+    // Current session cookie value, after any rotation
+    sessionToken?: string;
+  };
+}
@@ -0,0 +1,8 @@
+/// <reference types="astro/client" />
+
+declare namespace App {
+  interface Locals {
+    // Set by src/middleware.ts from the HTTP-only session cookie
+    user?: import('../../shared/types/service-interfaces.js').User;
+  }
+}
@@ -60,7 +60,7 @@ export class MarketplaceActionHandlers implements ActionHandlers {
       // 3. Make API call to get item data for editing
       
       // For TDD testing, we'll simulate the API call
-      const response = await fetch(`/api/internal/items/${itemId}`, {
+      const response = await fetch(`/api/v1/items/${itemId}`, {
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${this.getAuthToken()}`,
@@ -92,13 +92,13 @@ export class MarketplaceActionHandlers implements ActionHandlers {
     try {
       console.log(`📦 Updating stock for ${itemId}: ${newQuantity}`);
       
-      const response = await fetch(`/api/internal/items/${itemId}/stock`, {
-        method: 'PATCH',
+      const response = await fetch(`/api/v1/items/${itemId}`, {
+        method: 'PUT',
         headers: {
           'Authorization': `Bearer ${this.getAuthToken()}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ stock_quantity: newQuantity })
+        body: JSON.stringify({ stockQuantity: newQuantity })
       });
       
       if (!response.ok) {
@@ -127,17 +127,17 @@ export class MarketplaceActionHandlers implements ActionHandlers {
     try {
       console.log(`💰 Reporting price change for ${itemId}: ${newPrice} diamonds`);
       
-      const response = await fetch('/api/v1/reports/price', {
+      const response = await fetch('/api/v1/reports', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.getAuthToken()}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          item_id: itemId,
-          reported_price: newPrice,
-          report_type: 'price_change',
-          description: `Price reported as ${newPrice} diamonds`
+          itemId,
+          reportType: 'price_change',
+          description: `Price reported as ${newPrice} diamonds`,
+          claimedValues: { priceDiamonds: newPrice, tradingUnit: 'per_item' }
         })
       });
       
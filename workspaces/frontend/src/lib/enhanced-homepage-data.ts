@@ -4,7 +4,11 @@
  */
 
 import { formatPrice } from '../../../shared/utils/price-display.js';
+import { maxStackSizeFor } from '../../../shared/utils/trading-units.js';
+import { permissionsForRole, type Permission } from '../../../shared/utils/permissions.js';
+import type { User } from '../../../shared/types/service-interfaces.js';
 import { URLConstructionService } from './url-construction.js';
+import { emptySearchFacets, loadSearchFacets, type SearchFacets } from './search-facets.js';
 
 import { getValkeyService, ValkeyCacheService } from '../../../shared/services/valkey-cache.js';
 
@@ -152,9 +156,9 @@ export interface EnhancedMarketplaceItem {
     self: { href: string };
     copyWarp?: { href: string; method: 'POST'; title: string };
     edit?: { href: string; method: 'PUT'; title: string; requiresAuth: boolean };
-    updateStock?: { href: string; method: 'PATCH'; title: string; requiresAuth: boolean };
+    updateStock?: { href: string; method: 'PUT'; title: string; requiresAuth: boolean };
     reportPrice?: { href: string; method: 'POST'; title: string; requiresAuth: boolean };
-    verify?: { href: string; method: 'PATCH'; title: string; requiresAuth: boolean; permission: string };
+    verify?: { href: string; method: 'PATCH'; title: string; requiresAuth: boolean; permission: Permission };
   };
 }
 
@@ -171,10 +175,27 @@ export interface FilterState {
 export interface UserContext {
   isAuthenticated: boolean;
   username?: string;
-  permissions: Set<string>;
+  permissions: Set<Permission>;
   ownedItemIds: Set<string>;
 }
 
+/**
+ * Build a UserContext from the session user so links follow the shared
+ * permission catalogue enforced by the backend
+ */
+export function createUserContext(user?: User | null, ownedItemIds: Iterable<string> = []): UserContext {
+  if (!user?.isActive) {
+    return { isAuthenticated: false, permissions: new Set(), ownedItemIds: new Set() };
+  }
+
+  return {
+    isAuthenticated: true,
+    username: user.username,
+    permissions: permissionsForRole(user.role),
+    ownedItemIds: new Set(ownedItemIds)
+  };
+}
+
 export interface EnhancedHomepageData {
   featuredItems: EnhancedMarketplaceItem[];
   allItems: EnhancedMarketplaceItem[];
@@ -194,6 +215,7 @@ export interface EnhancedHomepageData {
     count: number;
     topItems: EnhancedMarketplaceItem[];
   }>;
+  facets: SearchFacets;
   recentActivity: Array<{
     itemName: string;
     priceChange: string;
@@ -231,29 +253,32 @@ function generateHATEOASLinks(item: any, userContext?: UserContext): EnhancedMar
   // User-specific actions
   if (userContext?.isAuthenticated) {
     // Owner actions
-    if (userContext.ownedItemIds.has(item.id)) {
+    if (userContext.ownedItemIds.has(item.id) && userContext.permissions.has('EDIT_OWN_LISTINGS')) {
       links.edit = {
-        href: `/api/internal/items/${item.id}`,
+        href: `/api/v1/items/${item.id}`,
         method: 'PUT',
         title: 'Edit listing',
         requiresAuth: true
       };
       
+      // Stock is one of the fields PUT /api/v1/items/:id accepts
       links.updateStock = {
-        href: `/api/internal/items/${item.id}/stock`,
-        method: 'PATCH',
+        href: `/api/v1/items/${item.id}`,
+        method: 'PUT',
         title: 'Update stock',
         requiresAuth: true
       };
     }
     
-    // Community actions (authenticated users)
-    links.reportPrice = {
-      href: '/api/v1/reports/price',
-      method: 'POST',
-      title: 'Report price change',
-      requiresAuth: true
-    };
+    // Community actions
+    if (userContext.permissions.has('SUBMIT_PRICE_DATA')) {
+      links.reportPrice = {
+        href: '/api/v1/reports',
+        method: 'POST',
+        title: 'Report price change',
+        requiresAuth: true
+      };
+    }
     
     // Moderator+ actions
     if (userContext.permissions.has('VERIFY_PRICES')) {
@@ -281,7 +306,7 @@ function transformDatabaseItem(item: any, userContext?: UserContext): EnhancedMa
     description: item.description || `Quality ${item.name.toLowerCase()}`,
     category: item.category,
     price: item.price_diamonds,
-    priceDisplay: formatPrice(item.price_diamonds, item.trading_unit).text,
+    priceDisplay: formatPrice(item.price_diamonds, item.trading_unit, maxStackSizeFor(item.minecraft_id, item.item_attributes)).text,
     tradingUnit: item.trading_unit,
     shopName: item.owner_shop_name || 'Local Shop',
     serverName: item.server_name || 'MainServer',
@@ -390,9 +415,11 @@ export async function loadEnhancedHomepageData(
   try {
     // Generate cache key for this query
     const cacheKey = ValkeyQueryCache.generateKey(filters, page, itemsPerPage);
+    // Links depend on the viewer, so only anonymous results are shared
+    const cacheable = !userContext?.isAuthenticated;
     
     // Try to get from cache first
-    const cachedResult = await globalValkeyCache.get(cacheKey);
+    const cachedResult = cacheable ? await globalValkeyCache.get(cacheKey) : null;
     if (cachedResult) {
       console.log(`⚡ Valkey Cache HIT: Returning cached data for ${JSON.stringify(filters)}`);
       return cachedResult;
@@ -451,18 +478,12 @@ export async function loadEnhancedHomepageData(
       recentTrades: Math.floor(totalItemsCount * 0.3)
     };
     
-    // Group items by category
-    const categoriesUrl = urlService.buildApiUrl('/public_items?select=category');
-    const categoriesResponse = await fetch(categoriesUrl);
-    const categoryData = categoriesResponse.ok ? await categoriesResponse.json() : [];
-    const categoryCounts = categoryData.reduce((acc: any, item: any) => {
-      acc[item.category] = (acc[item.category] || 0) + 1;
-      return acc;
-    }, {});
+    // Counts per filter option, aggregated in PostgreSQL for the current filters
+    const facets = await loadSearchFacets(filters);
     
-    const categories = Object.entries(categoryCounts).map(([name, count]) => ({
+    const categories = Object.entries(facets.category).map(([name, count]) => ({
       name,
-      count: count as number,
+      count,
       topItems: allItems.filter(item => item.category === name).slice(0, 2)
     }));
     
@@ -488,12 +509,15 @@ export async function loadEnhancedHomepageData(
       pagination,
       marketStats,
       categories,
+      facets,
       recentActivity
     };
     
     // Cache the result for future requests
-    await globalValkeyCache.set(cacheKey, result);
-    console.log(`💾 Valkey cached result for ${JSON.stringify(filters)} (${result.allItems.length} items)`);
+    if (cacheable) {
+      await globalValkeyCache.set(cacheKey, result);
+      console.log(`💾 Valkey cached result for ${JSON.stringify(filters)} (${result.allItems.length} items)`);
+    }
     
     return result;
     
@@ -507,6 +531,7 @@ export async function loadEnhancedHomepageData(
       pagination: { currentPage: 1, totalPages: 1, itemsPerPage: 20, totalItems: 0 },
       marketStats: { totalItems: 0, activeShops: 0, recentTrades: 0 },
       categories: [],
+      facets: emptySearchFacets(),
       recentActivity: []
     };
   }
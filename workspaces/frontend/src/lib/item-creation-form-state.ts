@@ -4,7 +4,15 @@
  * Focus on validation feedback, real-time preview, and mobile-friendly design
  */
 
-import { writable, derived } from 'svelte/store';
+import { writable, derived, get } from 'svelte/store';
+import type { PriceSuggestion, TradingUnitType } from '../../../shared/types/service-interfaces.js';
+import {
+  findVanillaItem,
+  searchVanillaItems,
+  type VanillaItem
+} from '../../../shared/utils/minecraft-items.js';
+
+const ITEM_SUGGESTION_LIMIT = 20;
 
 export interface ItemFormState {
   // Form values
@@ -50,6 +58,8 @@ export interface ItemFormState {
   nameErrorMessage: string;
   showIdError: boolean;
   idErrorMessage: string;
+  showIdWarning: boolean; // Well-formed ID missing from the bundled vanilla list
+  idWarningMessage: string;
   suggestedId: string;
   showStockWarning: boolean;
   stockWarningMessage: string;
@@ -67,6 +77,7 @@ export interface ItemFormState {
   // Field suggestions
   showItemSuggestions: boolean;
   itemSuggestions: string[];
+  itemMatches: VanillaItem[]; // Registry entries behind itemSuggestions
   showCategorySuggestions: boolean;
   categorySuggestions: string[];
   
@@ -154,6 +165,8 @@ export const itemFormState = writable<ItemFormState>({
   nameErrorMessage: '',
   showIdError: false,
   idErrorMessage: '',
+  showIdWarning: false,
+  idWarningMessage: '',
   suggestedId: '',
   showStockWarning: false,
   stockWarningMessage: '',
@@ -171,6 +184,7 @@ export const itemFormState = writable<ItemFormState>({
   // Field suggestions (initially false/empty)
   showItemSuggestions: false,
   itemSuggestions: [],
+  itemMatches: [],
   showCategorySuggestions: false,
   categorySuggestions: [],
   
@@ -322,14 +336,27 @@ export const itemFormActions = {
         break;
         
       case 'minecraftId':
-        if (value && !/^[a-z_]+$/.test(value)) {
+        if (value && !/^(minecraft:)?[a-z0-9_]+$/.test(value)) {
           updates.showIdError = true;
           updates.idErrorMessage = 'Use lowercase letters and underscores only';
-          updates.suggestedId = value.toLowerCase().replace(/[^a-z_]/g, '_').replace(/_+/g, '_');
+          // Digits and the namespace colon are valid, e.g. minecraft:music_disc_13
+          updates.suggestedId = value.trim().toLowerCase().replace(/[^a-z0-9_:]/g, '_').replace(/_+/g, '_');
+          updates.helpsUser = true;
+          updates.showIdWarning = false;
+          updates.idWarningMessage = '';
+        } else if (value && !findVanillaItem(value)) {
+          // The bundled list is partial, so an unknown ID is flagged, not rejected
+          updates.showIdError = false;
+          updates.idErrorMessage = '';
+          updates.showIdWarning = true;
+          updates.idWarningMessage = 'Not in the vanilla item list - check the ID';
+          updates.suggestedId = searchVanillaItems(value, 1)[0]?.id ?? '';
           updates.helpsUser = true;
         } else {
           updates.showIdError = false;
           updates.idErrorMessage = '';
+          updates.showIdWarning = false;
+          updates.idWarningMessage = '';
           updates.suggestedId = '';
         }
         break;
@@ -351,8 +378,20 @@ export const itemFormActions = {
     return updates;
   },
   
-  // Set price suggestions based on category
-  setPriceSuggestions(category: string) {
+  // Set price suggestions from market history, falling back to category ranges
+  setPriceSuggestions(category: string, marketSuggestion?: PriceSuggestion | null) {
+    if (marketSuggestion) {
+      const { range, priceDiamonds, sampleSize } = marketSuggestion;
+      itemFormState.update(state => ({
+        ...state,
+        showsSuggestions: true,
+        suggestedPriceRange: range,
+        helpText: `Recent listings (${sampleSize}) sell for 💎 ${range.min}-${range.max}, typically 💎 ${priceDiamonds}`,
+        helpsNewSellers: true
+      }));
+      return;
+    }
+
     const categoryRanges = {
       'weapons': { min: 20, max: 30 },
       'tools': { min: 15, max: 25 },
@@ -372,6 +411,32 @@ export const itemFormActions = {
     }));
   },
   
+  // Fetch a market-derived suggestion for the chosen item from the backend
+  async loadPriceSuggestions(minecraftId: string, category: string, tradingUnit: TradingUnitType = 'per_item') {
+    try {
+      const params = new URLSearchParams({ minecraftId, tradingUnit });
+      const response = await fetch(`/api/v1/items/price-suggestion?${params}`);
+      if (!response.ok) {
+        throw new Error(`Price suggestion request failed: ${response.status}`);
+      }
+
+      const { suggestion } = await response.json() as { suggestion: PriceSuggestion | null };
+      itemFormActions.setPriceSuggestions(category, suggestion);
+    } catch {
+      itemFormActions.setPriceSuggestions(category);
+    }
+  },
+
+  // Reload suggestions for the form's current item and trading unit
+  async refreshPriceSuggestions() {
+    const { values, showIdError } = get(itemFormState);
+    if (!values.minecraftId || showIdError) {
+      return;
+    }
+
+    await itemFormActions.loadPriceSuggestions(values.minecraftId, values.category, values.tradingUnit);
+  },
+
   // Handle form submission
   async submitForm() {
     itemFormState.update(state => ({
@@ -417,21 +482,37 @@ export const itemFormActions = {
     }));
   },
   
-  // Filter suggestions based on user input
+  // Autocomplete from the vanilla item registry
   updateSuggestions(inputValue: string) {
-    const allItems = [
-      'Diamond Sword', 'Diamond Pickaxe', 'Diamond Armor', 'Diamond Helmet',
-      'Iron Sword', 'Iron Pickaxe', 'Iron Armor', 'Iron Helmet',
-      'Gold Sword', 'Gold Pickaxe', 'Netherite Sword', 'Bow', 'Crossbow'
-    ];
-    
-    const filtered = inputValue.length >= 2 
-      ? allItems.filter(item => item.toLowerCase().includes(inputValue.toLowerCase()))
+    const matches = inputValue.length >= 2
+      ? searchVanillaItems(inputValue, ITEM_SUGGESTION_LIMIT)
       : [];
     
     itemFormState.update(state => ({
       ...state,
-      itemSuggestions: filtered
+      itemSuggestions: matches.map(item => item.name),
+      itemMatches: matches
+    }));
+  },
+  
+  // Pick a registry item: fills the ID, its default category and an empty name
+  selectItem(minecraftId: string) {
+    const item = findVanillaItem(minecraftId);
+    if (!item) {
+      itemFormActions.updateField('minecraftId', minecraftId);
+      return;
+    }
+    
+    itemFormActions.updateField('minecraftId', item.id);
+    itemFormActions.updateField('category', item.category);
+    if (get(itemFormState).values.name.trim() === '') {
+      itemFormActions.updateField('name', item.name);
+    }
+    
+    itemFormState.update(state => ({
+      ...state,
+      itemSuggestions: [],
+      itemMatches: []
     }));
   }
 };
@@ -0,0 +1,94 @@
+/**
+ * Order Book State
+ * Asks and bids for one item on one server, loaded from the backend order
+ * book in the trading unit the player picks. Depth bars are scaled against
+ * the deeper side, so both columns share one scale.
+ */
+
+import { writable, derived } from 'svelte/store';
+import type { OrderBook, OrderBookLevel, TradingUnitType } from '../../../shared/types/service-interfaces.js';
+import { URLConstructionService } from './url-construction.js';
+
+const urlService = new URLConstructionService();
+
+export const ORDER_BOOK_UNIT_LABELS: Record<TradingUnitType, string> = {
+  per_item: 'Per item',
+  per_stack: 'Per stack',
+  per_shulker: 'Per shulker box',
+  per_dozen: 'Per dozen'
+};
+
+export interface OrderBookQuery {
+  minecraftId: string;
+  serverName: string;
+  unit: TradingUnitType;
+}
+
+export interface OrderBookState {
+  book: OrderBook | null;
+  isLoading: boolean;
+  error: string;
+}
+
+// Width of a level's depth bar, as a percentage of the deeper side
+export function depthPercent(level: Pick<OrderBookLevel, 'cumulativeQuantity'>, book: Pick<OrderBook, 'askDepth' | 'bidDepth'>): number {
+  const deepest = Math.max(book.askDepth, book.bidDepth);
+  return deepest > 0 ? Math.round(level.cumulativeQuantity / deepest * 100) : 0;
+}
+
+export function orderBookUrl(query: OrderBookQuery, baseUrl: string = urlService.buildBackendUrl('/order-book')): string {
+  const params = new URLSearchParams({
+    minecraftId: query.minecraftId.trim(),
+    serverName: query.serverName.trim(),
+    unit: query.unit
+  });
+  return `${baseUrl}?${params}`;
+}
+
+export const orderBookState = writable<OrderBookState>({
+  book: null,
+  isLoading: false,
+  error: ''
+});
+
+export const orderBookActions = {
+  async load(query: OrderBookQuery, baseUrl?: string) {
+    if (!query.minecraftId.trim() || !query.serverName.trim()) {
+      orderBookState.update(state => ({ ...state, error: 'Pick an item and a server to see its order book' }));
+      return;
+    }
+
+    orderBookState.update(state => ({ ...state, isLoading: true, error: '' }));
+
+    try {
+      const response = await fetch(orderBookUrl(query, baseUrl));
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Loading the order book failed: ${response.status}`);
+      }
+
+      const book: OrderBook = await response.json();
+      orderBookState.set({ book, isLoading: false, error: '' });
+    } catch (error) {
+      orderBookState.update(state => ({
+        ...state,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Loading the order book failed'
+      }));
+    }
+  }
+};
+
+// Best bid beside best ask, then one level further out per row
+export const orderBookRows = derived(orderBookState, $state => {
+  const book = $state.book;
+  if (!book) {
+    return [];
+  }
+
+  const rows = Math.max(book.asks.length, book.bids.length);
+  return Array.from({ length: rows }, (_, index) => ({
+    bid: book.bids[index] ?? null,
+    ask: book.asks[index] ?? null
+  }));
+});
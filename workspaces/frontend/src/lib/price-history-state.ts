@@ -0,0 +1,132 @@
+/**
+ * Price History State
+ * An item's owner-set and community-reported prices over time, loaded from
+ * the backend in one trading unit and laid out as an SVG line chart for
+ * EnhancedPricingDisplay. Each point keeps its source so the chart can mark
+ * who set it.
+ */
+
+import { writable, type Readable } from 'svelte/store';
+import type { PriceHistory, PriceHistoryPoint, TradingUnitType } from '../../../shared/types/service-interfaces.js';
+import { URLConstructionService } from './url-construction.js';
+
+const urlService = new URLConstructionService();
+
+export const PRICE_SOURCE_LABELS: Record<string, string> = {
+  owner: 'Set by owner',
+  community_report: 'Community report'
+};
+
+export interface PriceHistoryState {
+  history: PriceHistory | null;
+  isLoading: boolean;
+  error: string;
+}
+
+export interface ChartSize {
+  width: number;
+  height: number;
+  padding: number;
+}
+
+export interface ChartMarker {
+  x: number;
+  y: number;
+  point: PriceHistoryPoint;
+  label: string;
+}
+
+export interface PriceHistoryChart {
+  path: string;
+  markers: ChartMarker[];
+  minPrice: number;
+  maxPrice: number;
+}
+
+export function priceSourceLabel(source: string): string {
+  return PRICE_SOURCE_LABELS[source] ?? source;
+}
+
+/**
+ * Time on x, price on y. A single point or a flat history sits mid-height,
+ * and every price is drawn as held until the next one (a step line).
+ */
+export function priceHistoryChart(points: PriceHistoryPoint[], size: ChartSize): PriceHistoryChart {
+  if (points.length === 0) {
+    return { path: '', markers: [], minPrice: 0, maxPrice: 0 };
+  }
+
+  const times = points.map(point => new Date(point.createdAt).getTime());
+  const prices = points.map(point => point.priceDiamonds);
+  const [firstTime, lastTime] = [Math.min(...times), Math.max(...times)];
+  const [minPrice, maxPrice] = [Math.min(...prices), Math.max(...prices)];
+  const plotWidth = size.width - size.padding * 2;
+  const plotHeight = size.height - size.padding * 2;
+
+  const x = (time: number) =>
+    size.padding + (lastTime === firstTime ? plotWidth / 2 : (time - firstTime) / (lastTime - firstTime) * plotWidth);
+  const y = (price: number) =>
+    size.padding + (maxPrice === minPrice ? plotHeight / 2 : (maxPrice - price) / (maxPrice - minPrice) * plotHeight);
+
+  const markers = points.map((point, index) => ({
+    x: round(x(times[index])),
+    y: round(y(point.priceDiamonds)),
+    point,
+    label: `${point.priceDiamonds} diamonds · ${priceSourceLabel(point.source)}`
+  }));
+
+  const path = markers
+    .map((marker, index) => index === 0
+      ? `M ${marker.x} ${marker.y}`
+      : `H ${marker.x} V ${marker.y}`)
+    .join(' ');
+
+  return { path, markers, minPrice, maxPrice };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export interface PriceHistoryStore {
+  state: Readable<PriceHistoryState>;
+  load(itemId: string, unit?: TradingUnitType, baseUrl?: string): Promise<void>;
+}
+
+/**
+ * One store per chart, so several pricing displays on a page each keep
+ * their own item's history
+ */
+export function createPriceHistoryStore(): PriceHistoryStore {
+  const state = writable<PriceHistoryState>({
+    history: null,
+    isLoading: false,
+    error: ''
+  });
+
+  async function load(itemId: string, unit?: TradingUnitType, baseUrl: string = urlService.buildBackendUrl('/items')) {
+    state.update(current => ({ ...current, isLoading: true, error: '' }));
+
+    try {
+      const query = unit ? `?unit=${encodeURIComponent(unit)}` : '';
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(itemId)}/prices${query}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Loading price history failed: ${response.status}`);
+      }
+
+      const history: PriceHistory = await response.json();
+      // JSON carries dates as strings
+      history.points = history.points.map(point => ({ ...point, createdAt: new Date(point.createdAt) }));
+      state.set({ history, isLoading: false, error: '' });
+    } catch (error) {
+      state.update(current => ({
+        ...current,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Loading price history failed'
+      }));
+    }
+  }
+
+  return { state: { subscribe: state.subscribe }, load };
+}
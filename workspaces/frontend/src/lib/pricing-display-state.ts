@@ -5,11 +5,18 @@
  */
 
 import { writable, derived } from 'svelte/store';
+import {
+  DEFAULT_MAX_STACK_SIZE,
+  isTradingUnitAllowed,
+  tradingUnitSize
+} from '../../../shared/utils/trading-units.js';
 
 export interface PricingState {
   // Core pricing data
   rawPrice: number;
   tradingUnit: 'per_item' | 'per_stack' | 'per_shulker' | 'per_dozen';
+  maxStackSize: number; // 1, 16 or 64 - sizes stacks and shulkers
+  isUnitAllowed: boolean; // False for "per stack" on unstackable items
   
   // Diamond symbol display
   displayPrice: string;
@@ -95,6 +102,8 @@ export const pricingState = writable<PricingState>({
   // Core pricing data
   rawPrice: 0,
   tradingUnit: 'per_item',
+  maxStackSize: DEFAULT_MAX_STACK_SIZE,
+  isUnitAllowed: true,
   
   // Diamond symbol display (initially wrong - tests expect correct values)
   displayPrice: '',
@@ -178,12 +187,25 @@ export const pricingState = writable<PricingState>({
 // Actions to update pricing state - these will make our tests pass
 export const pricingActions = {
   // Set basic price information
-  setPrice(price: number, tradingUnit: 'per_item' | 'per_stack' | 'per_shulker' | 'per_dozen' = 'per_item') {
+  setPrice(
+    price: number,
+    tradingUnit: 'per_item' | 'per_stack' | 'per_shulker' | 'per_dozen' = 'per_item',
+    maxStackSize: number = DEFAULT_MAX_STACK_SIZE
+  ) {
+    const isUnitAllowed = isTradingUnitAllowed(tradingUnit, maxStackSize);
+
     pricingState.update(state => {
       const updatedState = {
         ...state,
         rawPrice: price,
         tradingUnit,
+        maxStackSize,
+        isUnitAllowed,
+
+        // Unstackable items cannot be sold per stack
+        ...(!isUnitAllowed
+          ? { showWarning: true, warningType: 'invalid_unit' }
+          : state.warningType === 'invalid_unit' ? { showWarning: false, warningType: '' } : {}),
         
         // Diamond symbol display
         displayPrice: price === 0 ? '🆓 Free' : `💎 ${price}`,
@@ -206,14 +228,14 @@ export const pricingActions = {
         isPlayerFriendly: true,
         
         // Trading unit clarity
-        displayUnit: this.getTradingUnitDisplay(tradingUnit),
+        displayUnit: this.getTradingUnitDisplay(tradingUnit, maxStackSize),
         clarityIcon: this.getTradingUnitIcon(tradingUnit),
         isObvious: true,
         
         // Price comparison (calculate per-item price)
-        individualPrice: this.calculateIndividualPrice(price, tradingUnit),
+        individualPrice: this.calculateIndividualPrice(price, tradingUnit, maxStackSize),
         showBothPrices: tradingUnit !== 'per_item',
-        comparisonText: tradingUnit !== 'per_item' ? `💎 ${this.calculateIndividualPrice(price, tradingUnit)} each` : '',
+        comparisonText: tradingUnit !== 'per_item' ? `💎 ${this.calculateIndividualPrice(price, tradingUnit, maxStackSize)} each` : '',
         helpsComparison: true,
         
         // Trading unit icons
@@ -247,7 +269,7 @@ export const pricingActions = {
         showsPreview: true,
         hasValidation: true,
         guidesUser: true,
-        previewText: `Will display as: ${price === 0 ? '🆓 Free' : `💎 ${price}`} ${this.getTradingUnitDisplay(tradingUnit).toLowerCase()}`
+        previewText: `Will display as: ${price === 0 ? '🆓 Free' : `💎 ${price}`} ${this.getTradingUnitDisplay(tradingUnit, maxStackSize).toLowerCase()}`
       };
       
       return updatedState;
@@ -305,11 +327,13 @@ export const pricingActions = {
   },
   
   // Helper methods
-  getTradingUnitDisplay(unit: string): string {
+  getTradingUnitDisplay(unit: string, maxStackSize: number = DEFAULT_MAX_STACK_SIZE): string {
+    // 1,728 - regex rather than toLocaleString, which is slow on first use
+    const shulkerItems = String(tradingUnitSize('per_shulker', maxStackSize)).replace(/\B(?=(\d{3})+$)/g, ',');
     const displays = {
       'per_item': 'per item',
-      'per_stack': 'per stack (64 items)',
-      'per_shulker': 'per shulker (1,728 items)',
+      'per_stack': `per stack (${maxStackSize} items)`,
+      'per_shulker': `per shulker (${shulkerItems} items)`,
       'per_dozen': 'per dozen (12 items)'
     };
     return displays[unit] || 'per item';
@@ -325,14 +349,12 @@ export const pricingActions = {
     return icons[unit] || '🔹';
   },
   
-  calculateIndividualPrice(price: number, unit: string): number {
-    const quantities = {
-      'per_item': 1,
-      'per_stack': 64,
-      'per_shulker': 1728,
-      'per_dozen': 12
-    };
-    const quantity = quantities[unit] || 1;
+  /**
+   * Per-item price using the item's real stack size; a "per stack" price for
+   * an unstackable item is already per item
+   */
+  calculateIndividualPrice(price: number, unit: string, maxStackSize: number = DEFAULT_MAX_STACK_SIZE): number {
+    const quantity = tradingUnitSize(unit as PricingState['tradingUnit'], maxStackSize);
     return Math.round((price / quantity) * 100) / 100; // Round to 2 decimal places
   }
 };
@@ -347,10 +369,11 @@ export const priceDisplay = derived(pricingState, $state => ({
 }));
 
 export const priceValidation = derived(pricingState, $state => ({
-  isValid: $state.rawPrice >= 0,
+  isValid: $state.rawPrice >= 0 && $state.isUnitAllowed !== false,
   showWarning: $state.showWarning,
   warningMessage: $state.warningType === 'unusually_high' ? 'This price seems very high' :
-                  $state.warningType === 'unusually_low' ? 'This price seems very low' : '',
+                  $state.warningType === 'unusually_low' ? 'This price seems very low' :
+                  $state.warningType === 'invalid_unit' ? "Unstackable items can't be sold per stack" : '',
   suggestions: $state.suggestion
 }));
 
@@ -0,0 +1,226 @@
+/**
+ * Report Review Queue State
+ * Pending community reports on the shop owner's listings (every listing for
+ * moderators), approved or rejected from the shop dashboard. Each report's
+ * claimed values are shown against the listing as a before/after diff; a
+ * price change starts from the claimed price, which the reviewer confirms or
+ * corrects. Reporters carry a reputation badge from their report history.
+ * Agreeing reports arrive collapsed into one entry; conflicting claims on the
+ * same item arrive side by side, and approving one settles the others.
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import type {
+  Price,
+  ReportDecision,
+  ReporterReputation,
+  ReportType,
+  ReviewQueueEntry,
+  TradingUnitType
+} from '../../../shared/types/service-interfaces.js';
+import { REPUTATION_TIER_LABELS, reputationTier, type ReputationTier } from '../../../shared/utils/reporter-reputation.js';
+import { claimedValuesFor } from '../../../shared/utils/report-claims.js';
+import { URLConstructionService } from './url-construction.js';
+
+const urlService = new URLConstructionService();
+
+// What approving each report type does to the listing, shown next to the buttons
+export const APPROVAL_EFFECTS: Record<ReportType, string> = {
+  price_change: 'Sets the price below as the current price',
+  stock_status: 'Sets the listing to the claimed stock state',
+  shop_closure: 'Marks all your listings on this server unavailable',
+  incorrect_info: 'Records the review; correct the listing yourself'
+};
+
+export interface ReporterBadge {
+  tier: ReputationTier;
+  label: string;
+  title: string;
+}
+
+export function reporterBadge(reputation: ReporterReputation): ReporterBadge {
+  const tier = reputationTier(reputation);
+  return {
+    tier,
+    label: REPUTATION_TIER_LABELS[tier],
+    title: `${reputation.approvedReports} approved, ${reputation.rejectedReports} rejected of ${reputation.totalReports} reports · ${Math.round(reputation.trustScore * 100)}% trust`
+  };
+}
+
+export interface ReviewDraft {
+  notes: string;
+  priceDiamonds: number | null;
+  tradingUnit: TradingUnitType;
+}
+
+export interface ReportReviewState {
+  queue: ReviewQueueEntry[];
+  drafts: Record<string, ReviewDraft>;
+  isLoading: boolean;
+  reviewingId: string | null;
+  error: string;
+}
+
+export interface ClaimDiffRow {
+  field: string;
+  before: string;
+  after: string;
+}
+
+const emptyDraft = (): ReviewDraft => ({ notes: '', priceDiamonds: null, tradingUnit: 'per_item' });
+
+// Price changes start from the claimed price, which the reviewer may correct
+function draftFor(entry: ReviewQueueEntry): ReviewDraft {
+  const price = claimedValuesFor(entry, 'price_change');
+  return price ? { ...emptyDraft(), priceDiamonds: price.priceDiamonds, tradingUnit: price.tradingUnit } : emptyDraft();
+}
+
+const formatPrice = (price: Pick<Price, 'priceDiamonds' | 'tradingUnit'>) =>
+  `${price.priceDiamonds} 💎 ${price.tradingUnit.replace('_', ' ')}`;
+
+const formatStock = (inStock: boolean, quantity?: number) =>
+  inStock ? (quantity === undefined ? 'In stock' : `In stock (${quantity})`) : 'Out of stock';
+
+/**
+ * What the listing shows now against what the report claims. Empty for
+ * reports without claimed values.
+ */
+export function claimDiff(entry: ReviewQueueEntry): ClaimDiffRow[] {
+  const price = claimedValuesFor(entry, 'price_change');
+  if (price) {
+    return [{ field: 'Price', before: entry.currentPrice ? formatPrice(entry.currentPrice) : 'No price', after: formatPrice(price) }];
+  }
+
+  const stock = claimedValuesFor(entry, 'stock_status');
+  if (stock) {
+    return [{
+      field: 'Stock',
+      before: formatStock(entry.item.isAvailable, entry.item.stockQuantity),
+      after: formatStock(stock.inStock, stock.stockQuantity)
+    }];
+  }
+
+  const closure = claimedValuesFor(entry, 'shop_closure');
+  if (closure) {
+    return [{
+      field: entry.item.serverName ? `Shop on ${entry.item.serverName}` : 'Shop',
+      before: entry.item.isAvailable ? 'Open' : 'Listing unavailable',
+      after: `Closed since ${closure.closedOn}`
+    }];
+  }
+
+  return [];
+}
+
+export const reportReviewState = writable<ReportReviewState>({
+  queue: [],
+  drafts: {},
+  isLoading: false,
+  reviewingId: null,
+  error: ''
+});
+
+export const reportReviewActions = {
+  async loadQueue(url: string = urlService.buildBackendUrl('/reports/queue')) {
+    reportReviewState.update(state => ({ ...state, isLoading: true, error: '' }));
+
+    try {
+      const response = await fetch(url, { credentials: 'include' });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.message || `Loading the review queue failed: ${response.status}`);
+      }
+
+      const queue: ReviewQueueEntry[] = body;
+      reportReviewState.update(state => ({
+        ...state,
+        queue,
+        drafts: Object.fromEntries(queue.map(entry => [entry.id, state.drafts[entry.id] ?? draftFor(entry)])),
+        isLoading: false
+      }));
+    } catch (error) {
+      reportReviewState.update(state => ({
+        ...state,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Loading the review queue failed'
+      }));
+    }
+  },
+
+  updateDraft(reportId: string, changes: Partial<ReviewDraft>) {
+    reportReviewState.update(state => ({
+      ...state,
+      drafts: { ...state.drafts, [reportId]: { ...(state.drafts[reportId] ?? emptyDraft()), ...changes } }
+    }));
+  },
+
+  // Approve or reject with the drafted notes; reviewed reports leave the queue,
+  // and an approval takes the rest of its cluster with it
+  async reviewReport(reportId: string, approved: boolean, baseUrl: string = urlService.buildBackendUrl('/reports')) {
+    const { queue, drafts } = get(reportReviewState);
+    const entry = queue.find(report => report.id === reportId);
+    const draft = drafts[reportId] ?? emptyDraft();
+    if (!entry) {
+      return;
+    }
+
+    const decision: ReportDecision = { approved, notes: draft.notes.trim() || undefined };
+    if (approved && entry.reportType === 'price_change') {
+      if (draft.priceDiamonds === null || draft.priceDiamonds < 0) {
+        reportReviewState.update(state => ({ ...state, error: 'Enter the new price before approving a price change' }));
+        return;
+      }
+      decision.price = { priceDiamonds: draft.priceDiamonds, tradingUnit: draft.tradingUnit };
+    }
+
+    reportReviewState.update(state => ({ ...state, reviewingId: reportId, error: '' }));
+
+    try {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(reportId)}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(decision)
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `Review failed: ${response.status}`);
+      }
+
+      reportReviewState.update(state => {
+        const settled = (report: ReviewQueueEntry) =>
+          report.id === reportId || (approved && !!entry.cluster && report.cluster?.id === entry.cluster.id);
+        const remaining = state.queue.filter(report => !settled(report));
+        const drafts = Object.fromEntries(Object.entries(state.drafts).filter(([id]) => remaining.some(report => report.id === id)));
+
+        return {
+          ...state,
+          queue: remaining.map(report => withConflictCleared(report, remaining)),
+          drafts,
+          reviewingId: null
+        };
+      });
+    } catch (error) {
+      reportReviewState.update(state => ({
+        ...state,
+        reviewingId: null,
+        error: error instanceof Error ? error.message : 'Review failed'
+      }));
+    }
+  }
+};
+
+// A cluster down to one claim is no longer in conflict
+function withConflictCleared(report: ReviewQueueEntry, queue: ReviewQueueEntry[]): ReviewQueueEntry {
+  if (!report.cluster?.hasConflict || queue.some(other => other !== report && other.cluster?.id === report.cluster!.id)) {
+    return report;
+  }
+  return { ...report, cluster: { ...report.cluster, hasConflict: false } };
+}
+
+export const reviewQueueSummary = derived(reportReviewState, $state => ({
+  pendingCount: $state.queue.length,
+  hasPending: $state.queue.length > 0,
+  priceChanges: $state.queue.filter(report => report.reportType === 'price_change').length,
+  conflicts: new Set($state.queue.filter(report => report.cluster?.hasConflict).map(report => report.cluster!.id)).size
+}));
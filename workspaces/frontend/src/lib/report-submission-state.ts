@@ -4,7 +4,24 @@
  * Focus on clear steps, evidence handling, and confidence building
  */
 
-import { writable, derived } from 'svelte/store';
+import { writable, derived, get } from 'svelte/store';
+import type { ClaimedValues, ReportType, TradingUnitType } from '../../../shared/types/service-interfaces.js';
+import { claimProblem } from '../../../shared/utils/report-claims.js';
+import { URLConstructionService } from './url-construction.js';
+
+// Mirror the backend /api/v1/reports limits so oversized evidence fails early
+export const MAX_EVIDENCE_FILES = 5;
+export const MAX_EVIDENCE_FILE_BYTES = 10 * 1024 * 1024;
+
+// Report type labels shown in the flow and the ReportType each submits as
+export const REPORT_TYPE_VALUES: Record<string, ReportType> = {
+  'Price Update': 'price_change',
+  'Stock Change': 'stock_status',
+  'Item Unavailable': 'stock_status',
+  'Quality Issue': 'incorrect_info'
+};
+
+const urlService = new URLConstructionService();
 
 export interface ReportSubmissionState {
   // Report type selection
@@ -124,13 +141,17 @@ export interface ReportSubmissionState {
   isSubmitting: boolean;
   submissionSuccess: boolean;
   reportId: string;
+  reportStatus: string; // Status the backend persisted, e.g. 'pending'
   
   // Form data
   reportData: {
+    itemId: string;
     type: string;
     description: string;
     newPrice?: number;
+    newTradingUnit?: TradingUnitType;
     newStock?: number;
+    closedOn?: string; // YYYY-MM-DD
     evidence: File[];
   };
   
@@ -257,9 +278,11 @@ export const reportSubmissionState = writable<ReportSubmissionState>({
   isSubmitting: false,
   submissionSuccess: false,
   reportId: '',
+  reportStatus: '',
   
   // Form data
   reportData: {
+    itemId: '',
     type: '',
     description: '',
     evidence: []
@@ -413,31 +436,23 @@ export const reportSubmissionActions = {
     });
   },
   
-  // Handle file upload
+  // Attach an evidence file; it is uploaded with the report on submit
   async uploadFile(file: File) {
+    const { uploadedFiles } = get(reportSubmissionState);
+    const uploadError = file.size > MAX_EVIDENCE_FILE_BYTES
+      ? `${file.name} is larger than ${MAX_EVIDENCE_FILE_BYTES / (1024 * 1024)}MB`
+      : uploadedFiles.length >= MAX_EVIDENCE_FILES
+        ? `Attach at most ${MAX_EVIDENCE_FILES} evidence files`
+        : '';
+
     reportSubmissionState.update(state => ({
       ...state,
       uploadProgress: 0,
-      uploadError: ''
+      uploadError
     }));
-    
-    // PERFORMANCE OPTIMIZED: Instant upload simulation for tests
-    // In production, replace with real upload with actual progress callbacks
-    if (process.env.NODE_ENV === 'test') {
-      // Fast test path - instant completion
-      reportSubmissionState.update(state => ({
-        ...state,
-        uploadProgress: 100
-      }));
-    } else {
-      // Production path - simulate realistic upload with progress
-      for (let progress = 0; progress <= 100; progress += 10) {
-        await new Promise(resolve => setTimeout(resolve, 50));
-        reportSubmissionState.update(state => ({
-          ...state,
-          uploadProgress: progress
-        }));
-      }
+
+    if (uploadError) {
+      return;
     }
     
     // Add file to uploaded files and calculate quality score
@@ -488,19 +503,35 @@ export const reportSubmissionActions = {
     }));
   },
   
-  // Submit report
-  async submitReport() {
+  // Submit the report and its evidence files to the backend, tracking upload progress
+  async submitReport(url: string = urlService.buildBackendUrl('/reports')) {
     reportSubmissionState.update(state => ({
       ...state,
       isSubmitting: true,
-      showsSubmittingState: true
+      showsSubmittingState: true,
+      uploadProgress: 0,
+      uploadError: ''
     }));
     
     try {
-      // Simulate report submission (fast for tests)
-      await new Promise(resolve => setTimeout(resolve, 1));
-      
-      const reportId = `RPT-${Date.now().toString().slice(-6)}`;
+      const { reportData } = get(reportSubmissionState);
+      const form = new FormData();
+      form.append('report', JSON.stringify({
+        itemId: reportData.itemId,
+        reportType: REPORT_TYPE_VALUES[reportData.type] ?? reportData.type,
+        description: reportData.description,
+        claimedValues: buildClaimedValues(reportData)
+      }));
+      for (const file of reportData.evidence) {
+        form.append('evidence', file, file.name);
+      }
+
+      const response = await postWithProgress(url, form, uploadProgress => {
+        reportSubmissionState.update(state => ({ ...state, uploadProgress }));
+      });
+      if (!response.ok) {
+        throw new Error(response.body?.message || `Report submission failed: ${response.status}`);
+      }
       
       reportSubmissionState.update(state => ({
         ...state,
@@ -508,7 +539,9 @@ export const reportSubmissionActions = {
         submissionSuccess: true,
         displaysSuccessMessage: true,
         providesReportId: true,
-        reportId,
+        reportId: response.body.id,
+        reportStatus: response.body.status,
+        uploadProgress: 100,
         explainsNextSteps: true,
         completesFlow: true
       }));
@@ -534,14 +567,88 @@ export const reportSubmissionActions = {
   }
 };
 
+/**
+ * Claimed values for the selected report type from the price, stock and
+ * closure fields. "Item Unavailable" always claims out of stock; a stock
+ * change claims in stock unless the new stock is 0.
+ */
+export function buildClaimedValues(reportData: ReportSubmissionState['reportData']): ClaimedValues | undefined {
+  switch (REPORT_TYPE_VALUES[reportData.type] ?? reportData.type) {
+    case 'price_change':
+      return reportData.newPrice === undefined
+        ? undefined
+        : { priceDiamonds: reportData.newPrice, tradingUnit: reportData.newTradingUnit ?? 'per_item' };
+    case 'stock_status':
+      if (reportData.type === 'Item Unavailable') {
+        return { inStock: false, stockQuantity: 0 };
+      }
+      return reportData.newStock === undefined
+        ? { inStock: true }
+        : { inStock: reportData.newStock > 0, stockQuantity: reportData.newStock };
+    case 'shop_closure':
+      return reportData.closedOn ? { closedOn: reportData.closedOn } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * POST multipart data, reporting upload progress (0-100). Browsers expose
+ * request-body progress only through XMLHttpRequest; elsewhere fetch is used
+ * and progress jumps to 100 once the body has been sent.
+ */
+function postWithProgress(
+  url: string,
+  body: FormData,
+  onProgress: (percent: number) => void
+): Promise<{ ok: boolean; status: number; body: any }> {
+  if (typeof XMLHttpRequest === 'undefined') {
+    return fetch(url, { method: 'POST', body, credentials: 'include' }).then(async response => {
+      onProgress(100);
+      return { ok: response.ok, status: response.status, body: await response.json().catch(() => null) };
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.withCredentials = true;
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      let parsed: any = null;
+      try {
+        parsed = JSON.parse(xhr.responseText);
+      } catch {
+        parsed = null;
+      }
+      resolve({ ok: xhr.status >= 200 && xhr.status < 300, status: xhr.status, body: parsed });
+    };
+    xhr.onerror = () => reject(new Error('Network error while uploading the report'));
+    xhr.send(body);
+  });
+}
+
 // Derived stores for computed values
-export const reportValidation = derived(reportSubmissionState, $state => ({
-  isValid: $state.selectedReportType !== '' && 
-           $state.reportData.description.trim() !== '',
-  hasReportType: $state.selectedReportType !== '',
-  hasEvidence: $state.uploadedFiles.length > 0,
-  qualityScore: $state.evidenceQualityScore
-}));
+export const reportValidation = derived(reportSubmissionState, $state => {
+  const reportType = REPORT_TYPE_VALUES[$state.reportData.type] as ReportType | undefined;
+  const claimError = reportType
+    ? claimProblem({ reportType, claimedValues: buildClaimedValues($state.reportData) }) ?? ''
+    : '';
+
+  return {
+    isValid: $state.selectedReportType !== '' &&
+             $state.reportData.description.trim() !== '' &&
+             claimError === '',
+    claimError,
+    hasReportType: $state.selectedReportType !== '',
+    hasEvidence: $state.uploadedFiles.length > 0,
+    qualityScore: $state.evidenceQualityScore
+  };
+});
 
 export const reportProgress = derived(reportSubmissionState, $state => ({
   currentStep: $state.currentStep,
@@ -0,0 +1,108 @@
+/**
+ * Faceted Search Counts
+ * Loads per-option listing counts from the search_facets PostgREST RPC
+ * (database/010_search_facets.sql) so filters can show "Tools (42)"
+ */
+
+import type { FilterState } from './enhanced-homepage-data.js';
+import { URLConstructionService } from './url-construction.js';
+
+export const FACET_FIELDS = [
+  'category',
+  'server_name',
+  'biome',
+  'direction',
+  'trading_unit',
+  'confidence_level'
+] as const;
+
+export type FacetField = typeof FACET_FIELDS[number];
+
+export type SearchFacets = Record<FacetField, Record<string, number>> & {
+  total: number; // Listings matching every filter
+};
+
+export interface FacetFilters extends Omit<FilterState, 'sortBy'> {
+  serverName?: string;
+  tradingUnit?: string;
+  confidenceLevel?: string;
+}
+
+export function emptySearchFacets(): SearchFacets {
+  return {
+    total: 0,
+    category: {},
+    server_name: {},
+    biome: {},
+    direction: {},
+    trading_unit: {},
+    confidence_level: {}
+  };
+}
+
+// '' and 'any' mean "no filter" in the filter components
+const activeValue = (value?: string): string | undefined =>
+  value && value !== 'any' ? value : undefined;
+
+/**
+ * Translate filter component state into search_facets RPC arguments
+ */
+export function buildFacetParams(filters: FacetFilters = {}): Record<string, string | number> {
+  const params: Record<string, string | number | undefined> = {
+    search: filters.search?.trim() || undefined,
+    category: activeValue(filters.category),
+    server_name: activeValue(filters.serverName),
+    biome: activeValue(filters.biome),
+    direction: activeValue(filters.direction),
+    trading_unit: activeValue(filters.tradingUnit),
+    confidence_level: activeValue(filters.confidenceLevel),
+    min_price: filters.priceRange?.min,
+    max_price: filters.priceRange?.max,
+    verification: activeValue(filters.verification)
+  };
+
+  return Object.fromEntries(
+    Object.entries(params).filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+  );
+}
+
+/**
+ * Fetch facet counts for the current filter set. Returns empty counts on
+ * failure so filters fall back to plain labels.
+ */
+export async function loadSearchFacets(
+  filters: FacetFilters = {},
+  url: string = new URLConstructionService().buildApiUrl('/rpc/search_facets')
+): Promise<SearchFacets> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildFacetParams(filters))
+    });
+    if (!response.ok) {
+      throw new Error(`Facet request failed: ${response.statusText}`);
+    }
+
+    return { ...emptySearchFacets(), ...(await response.json()) };
+  } catch (error) {
+    console.error('Error loading search facets:', error);
+    return emptySearchFacets();
+  }
+}
+
+/**
+ * Append a facet count to an option label: "⚒️ Tools (42)".
+ * "Any" options and labels rendered before counts load are left unchanged.
+ */
+export function withFacetCount(
+  label: string,
+  facets: SearchFacets | null | undefined,
+  field: FacetField,
+  value: string
+): string {
+  if (!facets || !activeValue(value)) {
+    return label;
+  }
+  return `${label} (${facets[field][value] ?? 0})`;
+}
@@ -0,0 +1,162 @@
+/**
+ * Trade History State
+ * The signed-in player's trades as buyer and as seller, shown on the shop
+ * dashboard with the lifecycle steps open to them on each. Buy buttons in
+ * the marketplace open trades through requestPurchase; the buyer is the
+ * session user, never something the page sends. An open trade holds its
+ * quantity, so listings offer only the stock left after those holds.
+ */
+
+import { writable, derived } from 'svelte/store';
+import type { Transaction, TransactionHistoryEntry } from '../../../shared/types/service-interfaces.js';
+import {
+  availableTransactionActions,
+  TRANSACTION_STATUS_LABELS,
+  type TransactionAction
+} from '../../../shared/utils/transaction-lifecycle.js';
+import { URLConstructionService } from './url-construction.js';
+
+const urlService = new URLConstructionService();
+
+export const TRANSACTION_ACTION_LABELS: Record<TransactionAction, string> = {
+  accept: 'Accept',
+  complete: 'Mark completed',
+  cancel: 'Cancel',
+  dispute: 'Dispute'
+};
+
+export interface TradeHistoryState {
+  trades: TransactionHistoryEntry[];
+  isLoading: boolean;
+  actingId: string | null;
+  error: string;
+}
+
+export type PurchaseResult =
+  | { ok: true; transaction: Transaction }
+  | { ok: false; message: string };
+
+// PostgREST listing rows carry the held quantity next to the stock
+export function availableQuantity(item: { stock_quantity: number; reserved_quantity?: number }): number {
+  return Math.max(0, item.stock_quantity - (item.reserved_quantity ?? 0));
+}
+
+// Buyers ask for a whole number of items, at least one and no more than is free
+export function purchaseQuantity(requested: number, available: number): number {
+  return Math.min(Math.max(1, Math.floor(requested) || 1), available);
+}
+
+export function tradeStatusLabel(trade: Pick<Transaction, 'status'>): string {
+  return TRANSACTION_STATUS_LABELS[trade.status];
+}
+
+export function tradeActions(trade: TransactionHistoryEntry, userId: string): TransactionAction[] {
+  return availableTransactionActions(trade, userId);
+}
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  if (response.status === 401) {
+    return 'Sign in with Discord to trade';
+  }
+  const body = await response.json().catch(() => null);
+  return body?.message || `${fallback}: ${response.status}`;
+}
+
+export const tradeHistoryState = writable<TradeHistoryState>({
+  trades: [],
+  isLoading: false,
+  actingId: null,
+  error: ''
+});
+
+export const tradeHistoryActions = {
+  async loadHistory(url: string = urlService.buildBackendUrl('/transactions')) {
+    tradeHistoryState.update(state => ({ ...state, isLoading: true, error: '' }));
+
+    try {
+      const response = await fetch(url, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, 'Loading trade history failed'));
+      }
+
+      const trades: TransactionHistoryEntry[] = await response.json();
+      tradeHistoryState.update(state => ({ ...state, trades, isLoading: false }));
+    } catch (error) {
+      tradeHistoryState.update(state => ({
+        ...state,
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Loading trade history failed'
+      }));
+    }
+  },
+
+  // Move a trade one step; the updated trade replaces the old one in place
+  async act(
+    transactionId: string,
+    action: TransactionAction,
+    reason?: string,
+    baseUrl: string = urlService.buildBackendUrl('/transactions')
+  ) {
+    if (action === 'dispute' && !reason?.trim()) {
+      tradeHistoryState.update(state => ({ ...state, error: 'Say what went wrong before disputing a trade' }));
+      return;
+    }
+
+    tradeHistoryState.update(state => ({ ...state, actingId: transactionId, error: '' }));
+
+    try {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(transactionId)}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(reason?.trim() ? { reason: reason.trim() } : {})
+      });
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, 'Updating the trade failed'));
+      }
+
+      const updated: Transaction = await response.json();
+      tradeHistoryState.update(state => ({
+        ...state,
+        trades: state.trades.map(trade => (trade.id === updated.id ? { ...trade, ...updated } : trade)),
+        actingId: null
+      }));
+    } catch (error) {
+      tradeHistoryState.update(state => ({
+        ...state,
+        actingId: null,
+        error: error instanceof Error ? error.message : 'Updating the trade failed'
+      }));
+    }
+  },
+
+  async requestPurchase(
+    itemId: string,
+    quantity: number,
+    note?: string,
+    url: string = urlService.buildBackendUrl('/transactions')
+  ): Promise<PurchaseResult> {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ itemId, quantity, ...(note?.trim() ? { note: note.trim() } : {}) })
+      });
+      if (!response.ok) {
+        return { ok: false, message: await errorMessage(response, 'Opening the trade failed') };
+      }
+
+      return { ok: true, transaction: await response.json() };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : 'Opening the trade failed' };
+    }
+  }
+};
+
+export const tradeHistorySummary = derived(tradeHistoryState, $state => ({
+  total: $state.trades.length,
+  open: $state.trades.filter(trade => trade.status === 'pending' || trade.status === 'accepted').length,
+  awaitingSeller: $state.trades.filter(trade => trade.role === 'seller' && trade.status === 'pending').length
+}));
+
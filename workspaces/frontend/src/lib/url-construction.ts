@@ -44,4 +44,32 @@ export class URLConstructionService {
       return `${baseUrl}${cleanEndpoint}`;
     }
   }
+
+  /**
+   * Hono backend endpoints under /api/v1 (reports, uploads, auth)
+   */
+  buildBackendUrl(endpoint: string): string {
+    const cleanEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+
+    if (typeof window !== 'undefined') {
+      // Client-side: nginx proxies /api/v1 to the backend
+      return `/api/v1${cleanEndpoint}`;
+    }
+
+    const isDocker = !!(
+      process.env.POSTGRES_HOST === 'db' ||
+      process.env.VALKEY_HOST === 'valkey' ||
+      process.env.HOME === '/home/astro'
+    );
+    const isTest = process.env.NODE_ENV === 'test' || process.env.VITEST === 'true';
+
+    if (isDocker) {
+      return `${process.env.BACKEND_URL || 'http://backend:3001'}/api/v1${cleanEndpoint}`;
+    }
+    if (isTest) {
+      // Test environment: use localhost for MSW mocking
+      return `http://localhost:7410/api/v1${cleanEndpoint}`;
+    }
+    return `/api/v1${cleanEndpoint}`;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Astro Session Middleware
+ * Resolves the HTTP-only session cookie to `locals.user` for SSR pages.
+ * Valkey answers most requests; misses fall back to the backend, which reads
+ * PostgreSQL and may rotate the session cookie.
+ */
+
+import { defineMiddleware } from 'astro:middleware';
+import { SESSION_COOKIE_NAME, readCachedSession } from '../../shared/services/session-service.js';
+import { getValkeyService } from '../../shared/services/valkey-cache.js';
+import type { User } from '../../shared/types/service-interfaces.js';
+import { initializeFrontendValkey } from './lib/valkey-init.js';
+
+let valkeyReady: Promise<void> | null = null;
+
+interface BackendSession {
+  user: User | null;
+  setCookies: string[];
+}
+
+async function fetchBackendSession(cookieHeader: string): Promise<BackendSession> {
+  const backendUrl = process.env.BACKEND_URL || 'http://backend:3001';
+
+  try {
+    const response = await fetch(`${backendUrl}/api/v1/auth/me`, {
+      headers: { Cookie: cookieHeader },
+      signal: AbortSignal.timeout(5000), // 5 second timeout
+    });
+    const setCookies = response.headers.getSetCookie();
+
+    if (!response.ok) {
+      return { user: null, setCookies };
+    }
+
+    const data = await response.json() as { user: User };
+    return { user: data.user, setCookies };
+  } catch (error) {
+    console.error('❌ Session lookup failed:', error);
+    return { user: null, setCookies: [] };
+  }
+}
+
+export const onRequest = defineMiddleware(async (context, next) => {
+  const token = context.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return next();
+  }
+
+  valkeyReady ??= initializeFrontendValkey();
+  await valkeyReady;
+
+  const cachedUser = await readCachedSession(getValkeyService(), token);
+  if (cachedUser) {
+    context.locals.user = cachedUser;
+    return next();
+  }
+
+  const { user, setCookies } = await fetchBackendSession(context.request.headers.get('cookie') ?? '');
+  if (user) {
+    context.locals.user = user;
+  }
+
+  const response = await next();
+  // Propagate rotated or cleared session cookies from the backend
+  for (const cookie of setCookies) {
+    response.headers.append('Set-Cookie', cookie);
+  }
+  return response;
+});
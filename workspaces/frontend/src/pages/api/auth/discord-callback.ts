@@ -0,0 +1,64 @@
+/**
+ * Discord OAuth Callback
+ * Checks the OAuth `state` against the cookie set by /api/auth/discord-login,
+ * exchanges the authorization code with the backend and forwards the
+ * HTTP-only session cookie it issues to the browser
+ */
+
+import type { APIRoute } from 'astro';
+import {
+  OAUTH_STATE_COOKIE_NAME,
+  oauthStateMatches,
+  safeNextPath,
+  type OAuthStateCookie
+} from '../../../lib/discord-oauth.js';
+
+function readStateCookie(value: string | undefined): OAuthStateCookie | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as OAuthStateCookie;
+  } catch {
+    return null;
+  }
+}
+
+export const GET: APIRoute = async ({ url, cookies, redirect }) => {
+  const stored = readStateCookie(cookies.get(OAUTH_STATE_COOKIE_NAME)?.value);
+  // The state is single-use whatever the outcome
+  cookies.delete(OAUTH_STATE_COOKIE_NAME, { path: '/api/auth' });
+
+  if (!oauthStateMatches(stored?.state, url.searchParams.get('state'))) {
+    return redirect('/login?error=invalid_state');
+  }
+
+  const code = url.searchParams.get('code');
+  if (!code) {
+    return redirect('/login?error=missing_code');
+  }
+
+  try {
+    const backendUrl = process.env.BACKEND_URL || 'http://backend:3001';
+    const response = await fetch(`${backendUrl}/api/v1/auth/discord`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+      signal: AbortSignal.timeout(10000), // 10 second timeout
+    });
+
+    if (!response.ok) {
+      return redirect('/login?error=auth_failed');
+    }
+
+    const headers = new Headers({ Location: safeNextPath(stored?.next) });
+    for (const cookie of response.headers.getSetCookie()) {
+      headers.append('Set-Cookie', cookie);
+    }
+    return new Response(null, { status: 302, headers });
+  } catch (error) {
+    console.error('❌ Discord login failed:', error);
+    return redirect('/login?error=auth_failed');
+  }
+};
@@ -0,0 +1,39 @@
+/**
+ * Discord OAuth Login
+ * Starts the authorization code flow: stores a random `state` in a
+ * short-lived HTTP-only cookie and redirects to Discord with it
+ */
+
+import type { APIRoute } from 'astro';
+import {
+  OAUTH_STATE_COOKIE_NAME,
+  OAUTH_STATE_TTL_SECONDS,
+  buildDiscordAuthorizeUrl,
+  createOAuthState,
+  discordRedirectUri,
+  safeNextPath,
+  type OAuthStateCookie
+} from '../../../lib/discord-oauth.js';
+
+export const GET: APIRoute = ({ url, cookies, redirect }) => {
+  const clientId = process.env.DISCORD_CLIENT_ID;
+  if (!clientId) {
+    console.error('❌ DISCORD_CLIENT_ID is not configured');
+    return redirect('/login?error=oauth_not_configured');
+  }
+
+  const stateCookie: OAuthStateCookie = {
+    state: createOAuthState(),
+    next: safeNextPath(url.searchParams.get('next'))
+  };
+
+  cookies.set(OAUTH_STATE_COOKIE_NAME, stateCookie, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth',
+    maxAge: OAUTH_STATE_TTL_SECONDS
+  });
+
+  return redirect(buildDiscordAuthorizeUrl(clientId, discordRedirectUri(url.origin), stateCookie.state));
+};
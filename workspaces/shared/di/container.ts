@@ -198,17 +198,30 @@ export const getService = <T>(key: ServiceKey): T => {
 export const SERVICE_KEYS = {
   // Repositories
   USER_REPOSITORY: 'userRepository',
+  SESSION_REPOSITORY: 'sessionRepository',
   ITEM_REPOSITORY: 'itemRepository', 
   PRICE_REPOSITORY: 'priceRepository',
   COMMUNITY_REPORT_REPOSITORY: 'communityReportRepository',
   EVIDENCE_REPOSITORY: 'evidenceRepository',
+  NOTIFICATION_REPOSITORY: 'notificationRepository',
+  JOB_REPOSITORY: 'jobRepository',
+  TRANSACTION_REPOSITORY: 'transactionRepository',
+  STOCK_RESERVATION_REPOSITORY: 'stockReservationRepository',
+  BUY_ORDER_REPOSITORY: 'buyOrderRepository',
 
   // Services
   AUTHENTICATION_SERVICE: 'authenticationService',
+  SESSION_SERVICE: 'sessionService',
   PRICING_SERVICE: 'pricingService',
   ITEM_SERVICE: 'itemService',
   REPORTING_SERVICE: 'reportingService',
   NOTIFICATION_SERVICE: 'notificationService',
+  JOB_QUEUE: 'jobQueue',
+  DISCORD_INTERACTION_SERVICE: 'discordInteractionService',
+  TRANSACTION_SERVICE: 'transactionService',
+  STOCK_RESERVATION_SERVICE: 'stockReservationService',
+  BUY_ORDER_SERVICE: 'buyOrderService',
+  ORDER_BOOK_SERVICE: 'orderBookService',
   FILE_UPLOAD_SERVICE: 'fileUploadService',
   BAML_PROCESSING_SERVICE: 'bamlProcessingService',
 
@@ -1,24 +1,30 @@
 /**
  * Community Report Service - SPEC Epic 2 Implementation
  * Evidence-based reporting with confidence scoring
+ *
+ * Snake_case rows matching community_reports; report types, statuses and
+ * scoring are the ones the backend ReportingService uses.
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import type { ConfidenceLevel, EvidenceType, ReportStatus, ReportType } from '../types/service-interfaces.js';
+import { scoreReportConfidence, shouldAutoApprove } from '../utils/report-confidence.js';
 
-export type ReportType = 'price_change' | 'stock_update' | 'shop_closure' | 'item_unavailable';
-export type ReportStatus = 'pending' | 'approved' | 'rejected' | 'auto_approved';
-export type ConfidenceLevel = 'high' | 'medium' | 'low';
+export type { ConfidenceLevel, ReportStatus, ReportType };
 
 export interface CreateReportData {
   item_id: string;
   reporter_id: string;
   report_type: ReportType;
   description: string;
+  evidence_types?: readonly EvidenceType[];
 }
 
-export interface ReporterHistory {
+// Matches the public_users reputation columns (database/011_reporter_reputation.sql)
+export interface ReporterHistoryData {
   approved_reports: number;
   total_reports: number;
+  trust_score?: number;
 }
 
 export interface CommunityReport {
@@ -30,48 +36,40 @@ export interface CommunityReport {
   description: string;
   created_at: string;
   confidence_level?: ConfidenceLevel;
+  auto_approved: boolean;
 }
 
 export class CommunityReportService {
   async createReport(reportData: CreateReportData): Promise<CommunityReport> {
-    // Generate unique ID and timestamp
-    const id = uuidv4();
-    const created_at = new Date().toISOString();
-    
-    // Default status is pending (will be enhanced with confidence scoring)
-    const status: ReportStatus = 'pending';
-    
+    const { evidence_types: _evidenceTypes, ...report } = reportData;
+
     return {
-      id,
-      status,
-      created_at,
-      ...reportData
+      id: uuidv4(),
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      auto_approved: false,
+      ...report
     };
   }
 
-  async createReportWithHistory(reportData: CreateReportData, reporterHistory: ReporterHistory): Promise<CommunityReport> {
-    // Generate unique ID and timestamp
-    const id = uuidv4();
-    const created_at = new Date().toISOString();
-    
-    // SPEC Auto-approval rules: High confidence stock status changes auto-approve
-    const isEstablishedReporter = reporterHistory.approved_reports > 5;  // SPEC requirement
-    const isStockUpdate = reportData.report_type === 'stock_update';
-    
-    let status: ReportStatus = 'pending';
-    let confidence_level: ConfidenceLevel = 'medium';
-    
-    if (isEstablishedReporter && isStockUpdate) {
-      status = 'auto_approved';
-      confidence_level = 'high';
-    }
-    
+  async createReportWithHistory(reportData: CreateReportData, reporterHistory: ReporterHistoryData): Promise<CommunityReport> {
+    const { evidence_types: evidenceTypes = [], ...report } = reportData;
+
+    // SPEC confidence scoring; only high-confidence stock status changes auto-approve
+    const confidence_level = scoreReportConfidence(evidenceTypes, {
+      approvedReports: reporterHistory.approved_reports,
+      totalReports: reporterHistory.total_reports,
+      trustScore: reporterHistory.trust_score
+    });
+    const auto_approved = shouldAutoApprove(report.report_type, confidence_level);
+
     return {
-      id,
-      status,
-      created_at,
+      id: uuidv4(),
+      status: auto_approved ? 'approved' : 'pending',
+      created_at: new Date().toISOString(),
       confidence_level,
-      ...reportData
+      auto_approved,
+      ...report
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,195 @@
+/**
+ * Session Service
+ * HTTP-only cookie sessions persisted in PostgreSQL and cached in Valkey
+ *
+ * - Tokens are opaque; only their SHA-256 digest is stored or used as a cache key
+ * - Sessions record the role they were issued for and rotate when it changes
+ * - Every session for a user can be revoked at once ("log out all devices")
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Session,
+  SessionRepository,
+  User,
+  UserRepository
+} from '../types/service-interfaces.js';
+import type { ValkeyCacheService } from './valkey-cache.js';
+
+export const SESSION_COOKIE_NAME = 'mm_session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days per SPEC
+export const SESSION_CACHE_TTL_MS = 5 * 60 * 1000; // Bounds staleness of cached user data
+
+export type SessionCache = Pick<ValkeyCacheService, 'get' | 'set' | 'del'>;
+
+export interface CachedSession {
+  session: Session;
+  user: User;
+}
+
+export interface ResolvedSession {
+  user: User;
+  token: string;
+  // True when the presented token was replaced; callers must re-issue the cookie
+  rotated: boolean;
+}
+
+export interface SessionServiceOptions {
+  sessionTtlMs?: number;
+  cacheTtlMs?: number;
+}
+
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function sessionCacheKey(tokenHash: string): string {
+  return `session:${tokenHash}`;
+}
+
+export function userSessionsCacheKey(userId: string): string {
+  return `session:user:${userId}`;
+}
+
+/**
+ * Read a session straight from the cache without touching PostgreSQL.
+ * Returns null on a miss, on expiry, or when the session needs rotation.
+ */
+export async function readCachedSession(cache: SessionCache, token: string): Promise<User | null> {
+  const cached = await cache.get<CachedSession>(sessionCacheKey(hashSessionToken(token)));
+  if (!cached) {
+    return null;
+  }
+
+  const expiresAt = new Date(cached.session.expiresAt).getTime();
+  if (expiresAt <= Date.now() || cached.session.issuedRole !== cached.user.role) {
+    return null;
+  }
+
+  return cached.user;
+}
+
+export class SessionService {
+  private readonly sessionTtlMs: number;
+  private readonly cacheTtlMs: number;
+
+  constructor(
+    private sessionRepository: SessionRepository,
+    private userRepository: UserRepository,
+    private cache: SessionCache,
+    options: SessionServiceOptions = {}
+  ) {
+    this.sessionTtlMs = options.sessionTtlMs ?? SESSION_TTL_MS;
+    this.cacheTtlMs = options.cacheTtlMs ?? SESSION_CACHE_TTL_MS;
+  }
+
+  /**
+   * Persist a new session and return its opaque token
+   */
+  async createSession(user: User): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const session: Session = {
+      id: uuidv4(),
+      userId: user.id,
+      sessionToken: hashSessionToken(token),
+      issuedRole: user.role,
+      expiresAt: new Date(Date.now() + this.sessionTtlMs),
+      createdAt: new Date()
+    };
+
+    await this.sessionRepository.save(session);
+    await this.cacheSession(session, user);
+    return token;
+  }
+
+  /**
+   * Resolve a token to its user, falling back to PostgreSQL on a cache miss.
+   * A session issued for a different role than the user now holds is rotated.
+   */
+  async resolveSession(token: string): Promise<ResolvedSession | null> {
+    const tokenHash = hashSessionToken(token);
+    const cached = await this.cache.get<CachedSession>(sessionCacheKey(tokenHash));
+
+    let session: Session | null;
+    let user: User | null;
+
+    if (cached) {
+      session = { ...cached.session, expiresAt: new Date(cached.session.expiresAt) };
+      user = cached.user;
+    } else {
+      session = await this.sessionRepository.findByToken(tokenHash);
+      user = session ? await this.userRepository.findById(session.userId) : null;
+    }
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.expiresAt.getTime() <= Date.now() || !user?.isActive) {
+      await this.removeSession(session);
+      return null;
+    }
+
+    if (session.issuedRole !== user.role) {
+      const rotatedToken = await this.createSession(user);
+      await this.removeSession(session);
+      return { user, token: rotatedToken, rotated: true };
+    }
+
+    if (!cached) {
+      await this.cacheSession(session, user);
+    }
+
+    return { user, token, rotated: false };
+  }
+
+  async destroySession(token: string): Promise<void> {
+    const tokenHash = hashSessionToken(token);
+    await this.sessionRepository.deleteByToken(tokenHash);
+    await this.cache.del(sessionCacheKey(tokenHash));
+  }
+
+  /**
+   * Revoke every session belonging to a user ("log out all devices")
+   */
+  async destroyAllSessions(userId: string): Promise<void> {
+    await this.sessionRepository.deleteByUserId(userId);
+    await this.evictUser(userId);
+  }
+
+  /**
+   * Drop cached user data after a profile or role change so the next request
+   * re-reads PostgreSQL and rotates sessions whose privileges changed
+   */
+  async invalidateUser(userId: string): Promise<void> {
+    await this.evictUser(userId);
+  }
+
+  private async cacheSession(session: Session, user: User): Promise<void> {
+    const ttl = Math.min(this.cacheTtlMs, session.expiresAt.getTime() - Date.now());
+    if (ttl <= 0) {
+      return;
+    }
+
+    await this.cache.set<CachedSession>(sessionCacheKey(session.sessionToken), { session, user }, ttl);
+
+    const indexKey = userSessionsCacheKey(user.id);
+    const hashes = (await this.cache.get<string[]>(indexKey)) ?? [];
+    if (!hashes.includes(session.sessionToken)) {
+      await this.cache.set(indexKey, [...hashes, session.sessionToken], this.sessionTtlMs);
+    }
+  }
+
+  private async removeSession(session: Session): Promise<void> {
+    await this.sessionRepository.delete(session.id);
+    await this.cache.del(sessionCacheKey(session.sessionToken));
+  }
+
+  private async evictUser(userId: string): Promise<void> {
+    const indexKey = userSessionsCacheKey(userId);
+    const hashes = (await this.cache.get<string[]>(indexKey)) ?? [];
+    await Promise.all(hashes.map(hash => this.cache.del(sessionCacheKey(hash))));
+    await this.cache.del(indexKey);
+  }
+}
@@ -33,13 +33,22 @@ export interface Item {
   enchantments?: Record<string, number>;
   itemAttributes?: Record<string, any>; // BAML extracted
   stockQuantity: number;
+  reservedQuantity?: number; // Held by open trades; see availableStock
   isAvailable: boolean;
   serverName?: string;
   shopLocation?: string;
+  lastVerified?: Date;
+  verifiedBy?: string; // Username of the verifying moderator
+  confidenceLevel?: ConfidenceLevel;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// An item joined with its current price, as returned by listing searches
+export interface ItemListing extends Item {
+  currentPrice?: Price;
+}
+
 export interface Price {
   id: string;
   itemId: string;
@@ -47,22 +56,32 @@ export interface Price {
   tradingUnit: TradingUnitType;
   isCurrent: boolean;
   source: string;
+  confidenceLevel?: ConfidenceLevel; // Of the community report behind a 'community_report' price
   createdBy: string;
   createdAt: Date;
 }
 
+// A price with the attributes of its listing, which can override the stack size
+export interface ListingPrice extends Price {
+  itemAttributes?: Record<string, any>;
+}
+
 export interface CommunityReport {
   id: string;
   itemId: string;
   reporterId: string;
   reportType: ReportType;
   description: string;
+  claimedValues?: ClaimedValues; // Absent on incorrect_info and on reports that predate them
   status: ReportStatus;
   confidenceLevel?: ConfidenceLevel;
   autoApproved: boolean;
   reviewedBy?: string;
   reviewedAt?: Date;
   reviewNotes?: string;
+  // Oldest pending report of the same type on the item; see report-clusters.ts
+  clusterId?: string;
+  hasConflict?: boolean;
   createdAt: Date;
 }
 
@@ -80,6 +99,129 @@ export interface Evidence {
   createdAt: Date;
 }
 
+export interface Session {
+  id: string;
+  userId: string;
+  sessionToken: string;
+  issuedRole: UserRole; // Role held when issued; a mismatch forces rotation
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// Discord webhook a shop owner's notifications are posted to
+export interface ShopWebhook {
+  userId: string;
+  webhookUrl: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One attempt at delivering a notification; every attempt is logged
+export interface NotificationDelivery {
+  id: string;
+  notificationId: string;
+  recipientId: string;
+  notificationType: NotificationType;
+  attempt: number; // 1-based
+  status: DeliveryStatus;
+  httpStatus?: number; // Absent when the request never got a response
+  error?: string;
+  eventAt: Date; // When the notified event happened; SLA latency runs from here
+  attemptedAt: Date;
+}
+
+// Background work claimed by a worker under a lease; see database/015_job_queue.sql
+export interface Job<T = unknown> {
+  id: string;
+  queue: string;
+  payload: T;
+  idempotencyKey?: string; // Unique per queue, including completed jobs still retained
+  status: JobStatus;
+  attempts: number; // Incremented on every claim
+  maxAttempts: number;
+  runAt: Date;
+  lockedUntil?: Date; // Visibility timeout of the current lease
+  leaseToken?: string; // Proves the lease when completing, retrying or dead-lettering
+  lastError?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+// A job that used up its attempts, kept for inspection and manual replay
+export interface DeadLetterJob<T = unknown> {
+  id: string; // The original job id
+  queue: string;
+  payload: T;
+  idempotencyKey?: string;
+  attempts: number;
+  lastError: string;
+  createdAt: Date;
+  deadAt: Date;
+}
+
+// A purchase between two players, settled in game; see database/016_transactions.sql
+export interface Transaction {
+  id: string;
+  itemId?: string; // Unset once the listing is deleted
+  itemName: string;
+  buyerId: string;
+  sellerId: string;
+  quantity: number; // In the listing's trading unit, like stockQuantity
+  priceDiamonds: number; // Unit price when the trade was opened
+  tradingUnit: TradingUnitType;
+  totalDiamonds: number;
+  status: TransactionStatus;
+  note?: string; // Buyer's message to the seller
+  closedBy?: string; // Party who cancelled or disputed
+  closeReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  acceptedAt?: Date;
+  completedAt?: Date;
+}
+
+// Stock held for an open trade until it completes, is called off or expires;
+// see database/017_stock_reservations.sql
+export interface StockReservation {
+  id: string;
+  itemId: string;
+  transactionId: string;
+  holderId: string; // The buyer
+  quantity: number;
+  status: StockReservationStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  releasedAt?: Date; // Set when released or converted
+}
+
+// A standing offer to buy (WTB) on one server, matched against sell
+// listings; see database/018_buy_orders.sql
+export interface BuyOrder {
+  id: string;
+  ownerId: string;
+  minecraftId: string;
+  itemName: string;
+  serverName: string;
+  quantity: number; // In tradingUnit
+  maxPriceDiamonds: number; // Per tradingUnit
+  tradingUnit: TradingUnitType;
+  status: BuyOrderStatus;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A sell listing found at or below a buy order's price, recorded once per pair
+export interface BuyOrderMatch {
+  buyOrderId: string;
+  itemId: string;
+  buyerId: string;
+  sellerId: string;
+  priceDiamonds: number; // The listing's price when matched
+  tradingUnit: TradingUnitType;
+  matchedAt: Date;
+}
+
 // ============================================================================
 // Enum Types
 // ============================================================================
@@ -91,6 +233,12 @@ export type ReportType = 'price_change' | 'stock_status' | 'shop_closure' | 'inc
 export type ReportStatus = 'pending' | 'approved' | 'rejected' | 'under_review';
 export type ConfidenceLevel = 'low' | 'medium' | 'high';
 export type EvidenceType = 'screenshot' | 'transaction_record' | 'description' | 'external_link';
+export type NotificationType = 'community_report' | 'price_change' | 'low_stock' | 'buy_order_match';
+export type DeliveryStatus = 'delivered' | 'retrying' | 'failed';
+export type JobStatus = 'queued' | 'completed';
+export type TransactionStatus = 'pending' | 'accepted' | 'completed' | 'cancelled' | 'disputed';
+export type StockReservationStatus = 'active' | 'released' | 'converted';
+export type BuyOrderStatus = 'open' | 'filled' | 'cancelled';
 
 // ============================================================================
 // Repository Interfaces (Data Layer)
@@ -107,19 +255,31 @@ export interface StorageRepository<T> {
 export interface UserRepository extends StorageRepository<User> {
   findByDiscordId(discordId: string): Promise<User | null>;
   findByUsername(username: string): Promise<User | null>;
+  findByShopName(shopName: string): Promise<User | null>; // Case-insensitive
+  findByIds(ids: string[]): Promise<User[]>;
+}
+
+export interface SessionRepository extends StorageRepository<Session> {
+  findByToken(sessionToken: string): Promise<Session | null>;
+  deleteByToken(sessionToken: string): Promise<void>;
+  deleteByUserId(userId: string): Promise<void>;
 }
 
 export interface ItemRepository extends StorageRepository<Item> {
+  findByIds(ids: string[]): Promise<Item[]>;
   findByOwnerId(ownerId: string): Promise<Item[]>;
   findByCategory(category: ItemCategory): Promise<Item[]>;
   findByMinecraftId(minecraftId: string): Promise<Item[]>;
   searchItems(query: string): Promise<Item[]>;
   findAvailable(): Promise<Item[]>;
+  findListings(criteria: ListingSearchCriteria): Promise<ListingSearchResult>;
 }
 
 export interface PriceRepository extends StorageRepository<Price> {
   findByItemId(itemId: string): Promise<Price[]>;
+  findByMinecraftId(minecraftId: string): Promise<ListingPrice[]>; // History across all listings
   findCurrentPrices(): Promise<Price[]>;
+  findCurrentByItemIds(itemIds: string[]): Promise<Price[]>;
   updateCurrentPrice(itemId: string, newPrice: Price): Promise<void>;
 }
 
@@ -127,14 +287,73 @@ export interface CommunityReportRepository extends StorageRepository<CommunityRe
   findByItemId(itemId: string): Promise<CommunityReport[]>;
   findByReporterId(reporterId: string): Promise<CommunityReport[]>;
   findByStatus(status: ReportStatus): Promise<CommunityReport[]>;
-  findPendingReports(): Promise<CommunityReport[]>;
+  findPendingReports(ownerId?: string): Promise<CommunityReport[]>; // Oldest first; only on the owner's listings when given
+  getReporterReputation(reporterId: string): Promise<ReporterReputation>;
+  getReporterReputations(reporterIds: string[]): Promise<Map<string, ReporterReputation>>;
 }
 
 export interface EvidenceRepository extends StorageRepository<Evidence> {
   findByReportId(reportId: string): Promise<Evidence[]>;
+  findByReportIds(reportIds: string[]): Promise<Evidence[]>;
   findByType(evidenceType: EvidenceType): Promise<Evidence[]>;
 }
 
+export interface NotificationRepository {
+  findWebhook(userId: string): Promise<ShopWebhook | null>;
+  saveWebhook(userId: string, webhookUrl: string): Promise<ShopWebhook>;
+  deleteWebhook(userId: string): Promise<void>;
+  logDelivery(delivery: NotificationDelivery): Promise<void>;
+  findDeliveries(recipientId: string, limit?: number): Promise<NotificationDelivery[]>; // Newest first
+}
+
+/**
+ * Lease-based job storage. Lease-guarded calls resolve false when the job's
+ * lease has expired and it may have been claimed again.
+ */
+export interface JobRepository {
+  // Resolves to the existing job when the idempotency key is already taken
+  enqueue<T>(request: EnqueueJobRequest<T>): Promise<Job<T>>;
+  claim(queue: string, limit: number, visibilityTimeoutMs: number): Promise<Job[]>;
+  complete(job: Job): Promise<boolean>;
+  retry(job: Job, error: string, delayMs: number): Promise<boolean>;
+  deadLetter(job: Job, error: string): Promise<boolean>;
+  findDeadLetters(queue?: string, limit?: number): Promise<DeadLetterJob[]>; // Newest first
+  purgeCompleted(completedBefore: Date): Promise<number>;
+}
+
+export interface TransactionRepository extends StorageRepository<Transaction> {
+  findByParticipant(userId: string, limit?: number): Promise<Transaction[]>; // Newest first
+  // Resolves null when the transaction had already left the `from` states
+  transition(
+    id: string,
+    from: readonly TransactionStatus[],
+    to: TransactionStatus,
+    changes?: Pick<Transaction, 'closedBy' | 'closeReason'>
+  ): Promise<Transaction | null>;
+  // Completes an accepted trade, takes its quantity out of the listing's
+  // stock and converts its reservation together; null when the trade is not
+  // accepted or stock not held by other trades is short
+  complete(id: string): Promise<Transaction | null>;
+}
+
+export interface BuyOrderRepository extends StorageRepository<BuyOrder> {
+  findOpen(criteria?: BuyOrderSearchCriteria): Promise<BuyOrder[]>; // Highest per-item price first
+  findByOwnerId(ownerId: string): Promise<BuyOrder[]>; // Newest first
+  // False when the pair was already matched, so each pair notifies once
+  recordMatch(match: BuyOrderMatch): Promise<boolean>;
+  findMatches(buyOrderId: string): Promise<BuyOrderMatch[]>; // Newest first
+}
+
+// Each change also moves the item's reservedQuantity in the same statement
+export interface StockReservationRepository extends StorageRepository<StockReservation> {
+  // Null when the item's unreserved stock does not cover the quantity
+  reserve(reservation: StockReservation): Promise<StockReservation | null>;
+  findActiveByTransactionId(transactionId: string): Promise<StockReservation | null>;
+  // Null when the transaction holds no active reservation
+  release(transactionId: string): Promise<StockReservation | null>;
+  releaseExpired(now: Date): Promise<StockReservation[]>;
+}
+
 // ============================================================================
 // Service Interfaces (Business Logic Layer)
 // ============================================================================
@@ -149,9 +368,9 @@ export interface AuthenticationService {
 }
 
 export interface PricingService {
-  calculatePrice(item: Item, tradingUnit: TradingUnitType): Price;
+  calculatePrice(item: Item, tradingUnit: TradingUnitType): Promise<Price>;
   formatPriceDisplay(price: Price): string;
-  convertTradingUnits(price: Price, fromUnit: TradingUnitType, toUnit: TradingUnitType): Price;
+  convertTradingUnits(price: Price, fromUnit: TradingUnitType, toUnit: TradingUnitType, maxStackSize?: number): Price;
   validatePriceChange(oldPrice: Price, newPrice: Price): boolean;
 }
 
@@ -160,16 +379,17 @@ export interface ItemService {
   updateItem(itemId: string, updates: Partial<Item>, userId: string): Promise<Item>;
   deleteItem(itemId: string, userId: string): Promise<void>;
   getItem(itemId: string): Promise<Item | null>;
-  searchItems(query: SearchItemsRequest): Promise<Item[]>;
+  searchItems(query: SearchItemsRequest): Promise<ListingSearchResult>;
   getUserItems(userId: string): Promise<Item[]>;
 }
 
 export interface ReportingService {
   submitReport(report: CreateReportRequest, userId: string): Promise<CommunityReport>;
-  reviewReport(reportId: string, decision: ReportDecision, reviewerId: string): Promise<CommunityReport>;
-  calculateConfidence(evidence: Evidence[]): ConfidenceLevel;
+  reviewReport(reportId: string, decision: ReportDecision, reviewer: User): Promise<CommunityReport>;
+  calculateConfidence(evidence: Evidence[], reporterHistory?: ReporterHistory): ConfidenceLevel;
   getReportsForItem(itemId: string): Promise<CommunityReport[]>;
   getPendingReports(): Promise<CommunityReport[]>;
+  getReviewQueue(reviewer: User): Promise<ReviewQueueEntry[]>;
 }
 
 export interface NotificationService {
@@ -178,6 +398,46 @@ export interface NotificationService {
   scheduleNotification(notification: Notification, delay: number): Promise<void>;
 }
 
+export interface TransactionService {
+  createTransaction(request: CreateTransactionRequest, buyerId: string): Promise<Transaction>;
+  acceptTransaction(transactionId: string, userId: string): Promise<Transaction>;
+  completeTransaction(transactionId: string, userId: string): Promise<Transaction>;
+  cancelTransaction(transactionId: string, userId: string, reason?: string): Promise<Transaction>;
+  disputeTransaction(transactionId: string, userId: string, reason: string): Promise<Transaction>;
+  getTransaction(transactionId: string, userId: string): Promise<TransactionHistoryEntry>;
+  getTransactionHistory(userId: string, limit?: number): Promise<TransactionHistoryEntry[]>;
+}
+
+export interface BuyOrderService {
+  createBuyOrder(request: CreateBuyOrderRequest, ownerId: string): Promise<BuyOrder>;
+  cancelBuyOrder(buyOrderId: string, userId: string): Promise<BuyOrder>;
+  fillBuyOrder(buyOrderId: string, userId: string): Promise<BuyOrder>;
+  getOpenBuyOrders(criteria?: BuyOrderSearchCriteria): Promise<BuyOrder[]>;
+  getUserBuyOrders(userId: string): Promise<BuyOrderWithMatches[]>;
+  // Match one sell listing against open buy orders, notifying new pairs
+  matchListing(itemId: string): Promise<BuyOrderMatch[]>;
+  queueListingMatch(itemId: string): Promise<void>; // matchListing on the job queue
+}
+
+export interface OrderBookService {
+  getOrderBook(minecraftId: string, serverName: string, tradingUnit: TradingUnitType): Promise<OrderBook>;
+}
+
+export interface StockReservationService {
+  hold(transaction: Transaction): Promise<StockReservation | null>;
+  release(transactionId: string): Promise<StockReservation | null>;
+  releaseExpired(now?: Date): Promise<StockReservation[]>;
+}
+
+export type JobHandler<T = any> = (payload: T, job: Job<T>) => Promise<void>;
+
+// At-least-once background work; handlers must tolerate running twice
+export interface JobQueueService {
+  register<T>(queue: string, handler: JobHandler<T>): void;
+  enqueue<T>(queue: string, payload: T, options?: EnqueueJobOptions): Promise<Job<T>>;
+  runOnce(): Promise<number>;
+}
+
 export interface FileUploadService {
   uploadFile(file: FileUpload, userId: string): Promise<string>;
   validateFile(file: FileUpload): boolean;
@@ -214,18 +474,67 @@ export interface SearchItemsRequest {
   maxPrice?: number;
   tradingUnit?: TradingUnitType;
   serverName?: string;
+  ownerId?: string;
+  availableOnly?: boolean;
+  sortBy?: ListingSortOrder;
+  limit?: number;
+  offset?: number;
+}
+
+export type ListingSortOrder = 'relevance' | 'newest' | 'price_asc' | 'price_desc';
+
+// Repository-level search; each listing's price is converted to priceUnit
+// using that item's own max stack size before filtering and sorting
+export interface ListingSearchCriteria {
+  query?: string; // Full-text search over name and description
+  category?: ItemCategory;
+  serverName?: string;
+  ownerId?: string;
   availableOnly?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  priceUnit?: TradingUnitType; // Defaults to per_item; per_stack leaves out items that do not stack
+  sortBy?: ListingSortOrder;
   limit?: number;
   offset?: number;
 }
 
+export interface ListingSearchResult {
+  listings: ItemListing[];
+  total: number; // Matches across all pages
+}
+
 export interface CreateReportRequest {
   itemId: string;
   reportType: ReportType;
   description: string;
+  claimedValues?: ClaimedValues;
   evidence?: EvidenceData[];
 }
 
+// What a report says the listing should now show, typed per ReportType
+export interface PriceChangeClaim {
+  priceDiamonds: number;
+  tradingUnit: TradingUnitType;
+}
+
+export interface StockStatusClaim {
+  inStock: boolean;
+  stockQuantity?: number;
+}
+
+export interface ShopClosureClaim {
+  closedOn: string; // ISO date, YYYY-MM-DD
+}
+
+export interface ClaimedValuesByReportType {
+  price_change: PriceChangeClaim;
+  stock_status: StockStatusClaim;
+  shop_closure: ShopClosureClaim;
+}
+
+export type ClaimedValues = ClaimedValuesByReportType[keyof ClaimedValuesByReportType];
+
 export interface EvidenceData {
   evidenceType: EvidenceType;
   filePath?: string;
@@ -236,17 +545,197 @@ export interface EvidenceData {
   coordinates?: string;
 }
 
+export interface PriceSuggestion {
+  priceDiamonds: number;
+  tradingUnit: TradingUnitType;
+  range: { min: number; max: number }; // Interquartile range in the same unit
+  sampleSize: number;
+}
+
 export interface ReportDecision {
   approved: boolean;
   notes?: string;
+  // Current price to apply when approving a price_change; defaults to the claimed price
+  price?: {
+    priceDiamonds: number;
+    tradingUnit: TradingUnitType;
+  };
+}
+
+// Pending report with the listing and evidence a reviewer needs to decide
+export interface ReviewQueueEntry extends CommunityReport {
+  item: Item;
+  currentPrice?: Price; // Before side of a price_change diff
+  evidence: Evidence[];
+  reporter: {
+    id: string;
+    username: string;
+    reputation: ReporterReputation;
+  };
+  // Reports making the same claim, reviewed together with this one
+  cluster?: ReportCluster;
+}
+
+export interface ReportCluster {
+  id: string;
+  reportIds: string[];
+  reporterCount: number;
+  hasConflict: boolean;
+}
+
+// Reporter's prior reports, before the one being scored
+export interface ReporterHistory {
+  approvedReports: number;
+  totalReports: number;
+  // Decayed share of approved outcomes, 0-1; absent when only counts are known
+  trustScore?: number;
+}
+
+// Derived from community_reports; exposed on public_users
+export interface ReporterReputation extends ReporterHistory {
+  rejectedReports: number;
+  trustScore: number;
 }
 
 export interface Notification {
-  type: string;
-  recipient: string;
+  id?: string; // Assigned on send when absent; groups the logged attempts
+  type: NotificationType;
+  recipient: string; // User id of the shop owner, or of the buyer for buy order matches
   title: string;
   message: string;
-  data?: Record<string, any>;
+  data?: NotificationData;
+  createdAt?: Date; // When the event happened; defaults to when it is sent
+}
+
+// Event details carried by each NotificationType, shown as embed fields
+export interface NotificationDataByType {
+  community_report: {
+    reportId: string;
+    itemId: string;
+    itemName: string;
+    reportType: ReportType;
+    confidenceLevel?: ConfidenceLevel;
+    autoApproved: boolean;
+  };
+  price_change: {
+    itemId: string;
+    itemName: string;
+    minecraftId: string;
+    priceDiamonds: number;
+    tradingUnit: TradingUnitType;
+    source: string;
+    previousPrice?: PriceChangeClaim;
+  };
+  low_stock: {
+    itemId: string;
+    itemName: string;
+    stockQuantity: number;
+    threshold: number;
+  };
+  buy_order_match: {
+    buyOrderId: string;
+    itemId: string;
+    itemName: string;
+    minecraftId: string;
+    serverName: string;
+    role: 'buyer' | 'seller'; // The recipient's side of the match
+    priceDiamonds: number;
+    tradingUnit: TradingUnitType;
+    maxPriceDiamonds: number;
+    buyOrderUnit: TradingUnitType;
+    quantity: number; // Wanted, in buyOrderUnit
+    shopLocation?: string;
+  };
+}
+
+export type NotificationData = NotificationDataByType[NotificationType];
+
+export interface EnqueueJobOptions {
+  idempotencyKey?: string;
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface EnqueueJobRequest<T = unknown> {
+  queue: string;
+  payload: T;
+  idempotencyKey?: string;
+  delayMs: number; // Measured on the storage clock, like visibility timeouts
+  maxAttempts: number;
+}
+
+export interface CreateTransactionRequest {
+  itemId: string;
+  quantity: number;
+  note?: string;
+}
+
+export interface CreateBuyOrderRequest {
+  minecraftId: string;
+  itemName?: string; // Defaults to the vanilla display name
+  serverName: string;
+  quantity: number;
+  maxPriceDiamonds: number;
+  tradingUnit: TradingUnitType;
+  note?: string;
+}
+
+export interface BuyOrderSearchCriteria {
+  minecraftId?: string;
+  serverName?: string;
+}
+
+export interface BuyOrderWithMatches extends BuyOrder {
+  matches: BuyOrderMatch[];
+}
+
+// One price an item was listed at, converted to the history's unit
+export interface PriceHistoryPoint {
+  priceId: string;
+  priceDiamonds: number; // In the history's tradingUnit
+  listedPriceDiamonds: number; // As set, in listedTradingUnit
+  listedTradingUnit: TradingUnitType;
+  source: string; // 'owner' or 'community_report'
+  createdBy: string;
+  isCurrent: boolean;
+  createdAt: Date;
+}
+
+export interface PriceHistory {
+  itemId: string;
+  itemName: string;
+  tradingUnit: TradingUnitType;
+  points: PriceHistoryPoint[]; // Oldest first
+}
+
+// Sell listings (asks) or buy orders (bids) at one price, in the book's unit
+export interface OrderBookLevel {
+  priceDiamonds: number;
+  quantity: number;
+  orderCount: number;
+  cumulativeQuantity: number; // Depth from the best price down to this level
+}
+
+// Every open ask and bid for one item on one server, side by side
+export interface OrderBook {
+  minecraftId: string;
+  itemName: string;
+  serverName: string;
+  tradingUnit: TradingUnitType;
+  asks: OrderBookLevel[]; // Cheapest first
+  bids: OrderBookLevel[]; // Highest first
+  bestAsk: number | null;
+  bestBid: number | null;
+  spread: number | null; // bestAsk - bestBid; negative when the book is crossed
+  askDepth: number;
+  bidDepth: number;
+  generatedAt: Date;
+}
+
+// A transaction as one of its parties sees it
+export interface TransactionHistoryEntry extends Transaction {
+  role: 'buyer' | 'seller';
+  counterparty: Pick<User, 'id' | 'username' | 'shopName'>;
 }
 
 export interface FileUpload {
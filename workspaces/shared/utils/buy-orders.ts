@@ -0,0 +1,51 @@
+/**
+ * Buy Order Matching
+ * When a sell listing satisfies a standing buy order (WTB). The listing's
+ * price is converted to the buy order's trading unit and rounded to the
+ * hundredth prices are stored at, so a buy order for 2 diamonds per item
+ * matches a stack of cobblestone listed at 64 diamonds per stack but not at
+ * 130, and one for 64 per stack does not match a listing at 64.3. The
+ * listing must be on the buy order's server, for the same item, with stock
+ * not held by open trades, and from another player.
+ */
+
+import type { BuyOrder, Item, Price, TradingUnitType } from '../types/service-interfaces.js';
+import { availableStock } from './transaction-lifecycle.js';
+import { maxStackSizeFor, tradingUnitSize } from './trading-units.js';
+
+export function perItemPrice(priceDiamonds: number, tradingUnit: TradingUnitType, maxStackSize?: number): number {
+  return priceDiamonds / tradingUnitSize(tradingUnit, maxStackSize);
+}
+
+export function priceInUnit(
+  price: Pick<Price, 'priceDiamonds' | 'tradingUnit'>,
+  tradingUnit: TradingUnitType,
+  maxStackSize?: number
+): number {
+  const converted = perItemPrice(price.priceDiamonds, price.tradingUnit, maxStackSize) * tradingUnitSize(tradingUnit, maxStackSize);
+  return Math.round(converted * 100) / 100;
+}
+
+// Server names are typed by players; "Safe Survival" and "safe survival" are one server
+export function sameServer(a?: string, b?: string): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function matchesBuyOrder(
+  order: Pick<BuyOrder, 'ownerId' | 'minecraftId' | 'serverName' | 'maxPriceDiamonds' | 'tradingUnit' | 'status'>,
+  item: Pick<Item, 'ownerId' | 'minecraftId' | 'serverName' | 'isAvailable' | 'stockQuantity' | 'reservedQuantity' | 'itemAttributes'>,
+  price: Pick<Price, 'priceDiamonds' | 'tradingUnit'>
+): boolean {
+  if (order.status !== 'open' || order.ownerId === item.ownerId) {
+    return false;
+  }
+  if (order.minecraftId !== item.minecraftId || !sameServer(order.serverName, item.serverName)) {
+    return false;
+  }
+  if (!item.isAvailable || availableStock(item) === 0) {
+    return false;
+  }
+
+  const maxStackSize = maxStackSizeFor(item.minecraftId, item.itemAttributes);
+  return priceInUnit(price, order.tradingUnit, maxStackSize) <= order.maxPriceDiamonds;
+}
@@ -0,0 +1,184 @@
+/**
+ * Vanilla Minecraft Item Registry
+ * Bundled list of commonly traded vanilla item IDs with display names, max
+ * stack size and the marketplace category a new listing defaults to. Used for
+ * stack sizes in price normalisation and by the item creation form for
+ * autocomplete and category auto-fill.
+ *
+ * The list is not the full game registry, so IDs missing from it are allowed
+ * (any well-formed namespaced ID passes validation) and only flagged as
+ * unrecognised. Bump MINECRAFT_ITEM_REGISTRY_VERSION when adding items from a
+ * new release.
+ */
+
+import type { ItemCategory } from '../types/service-interfaces.js';
+
+export const MINECRAFT_ITEM_REGISTRY_VERSION = '1.21.4';
+export const MINECRAFT_NAMESPACE = 'minecraft';
+
+export interface VanillaItem {
+  id: string; // Namespaced, e.g. minecraft:diamond_sword
+  name: string;
+  maxStackSize: 1 | 16 | 64;
+  category: ItemCategory;
+}
+
+// Words that do not title-case cleanly from the ID
+const NAME_OVERRIDES: Record<string, string> = {
+  tnt: 'TNT',
+  'music_disc_pigstep': 'Music Disc (Pigstep)',
+  'music_disc_otherside': 'Music Disc (otherside)',
+  'music_disc_relic': 'Music Disc (Relic)'
+};
+
+const LOWERCASE_WORDS = new Set(['a', 'and', 'of', 'on', 'the']);
+
+const displayName = (id: string): string =>
+  NAME_OVERRIDES[id] ?? id.split('_')
+    .map((word, index) => index > 0 && LOWERCASE_WORDS.has(word) ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const group = (category: ItemCategory, maxStackSize: VanillaItem['maxStackSize'], ids: string[]): VanillaItem[] =>
+  ids.map(id => ({ id: `${MINECRAFT_NAMESPACE}:${id}`, name: displayName(id), maxStackSize, category }));
+
+const combine = (prefixes: string[], suffixes: string[]): string[] =>
+  prefixes.flatMap(prefix => suffixes.map(suffix => `${prefix}_${suffix}`));
+
+const WOOD_TYPES = ['oak', 'spruce', 'birch', 'jungle', 'acacia', 'dark_oak', 'mangrove', 'cherry', 'pale_oak'];
+const NETHER_WOOD_TYPES = ['crimson', 'warped'];
+const COLORS = [
+  'white', 'orange', 'magenta', 'light_blue', 'yellow', 'lime', 'pink', 'gray',
+  'light_gray', 'cyan', 'purple', 'blue', 'brown', 'green', 'red', 'black'
+];
+
+export const VANILLA_ITEMS: readonly VanillaItem[] = [
+  // Tools and weapons
+  ...group('tools', 1, [
+    ...combine(['wooden', 'stone', 'iron', 'golden', 'diamond', 'netherite'], ['sword', 'pickaxe', 'axe', 'shovel', 'hoe']),
+    'bow', 'crossbow', 'trident', 'mace', 'shield', 'fishing_rod', 'shears', 'flint_and_steel',
+    'brush', 'carrot_on_a_stick', 'warped_fungus_on_a_stick', 'spyglass'
+  ]),
+  ...group('tools', 64, [
+    'arrow', 'spectral_arrow', 'compass', 'recovery_compass', 'clock', 'lead', 'firework_rocket', 'wind_charge'
+  ]),
+  ...group('tools', 16, ['ender_pearl', 'bucket']),
+
+  // Armor
+  ...group('armor', 1, [
+    ...combine(['leather', 'chainmail', 'iron', 'golden', 'diamond', 'netherite'], ['helmet', 'chestplate', 'leggings', 'boots']),
+    'turtle_helmet', 'elytra', 'wolf_armor'
+  ]),
+
+  // Blocks
+  ...group('blocks', 64, [
+    ...combine(WOOD_TYPES, ['log', 'planks', 'wood']),
+    ...combine(NETHER_WOOD_TYPES, ['stem', 'planks', 'hyphae']),
+    ...combine([...WOOD_TYPES, ...NETHER_WOOD_TYPES], ['slab', 'stairs', 'fence', 'fence_gate', 'door', 'trapdoor']),
+    ...combine(COLORS, [
+      'wool', 'carpet', 'concrete', 'concrete_powder', 'terracotta', 'glazed_terracotta',
+      'stained_glass', 'stained_glass_pane', 'candle'
+    ]),
+    'stone_slab', 'stone_stairs', 'cobblestone_slab', 'cobblestone_stairs', 'cobblestone_wall',
+    'stone_brick_slab', 'stone_brick_stairs', 'stone_brick_wall', 'smooth_stone', 'smooth_stone_slab',
+    'stone', 'cobblestone', 'stone_bricks', 'deepslate', 'cobbled_deepslate', 'granite', 'diorite', 'andesite',
+    'dirt', 'grass_block', 'sand', 'red_sand', 'gravel', 'clay', 'glass', 'sandstone', 'bricks', 'terracotta',
+    'obsidian', 'crying_obsidian', 'netherrack', 'nether_bricks', 'blackstone', 'gilded_blackstone', 'basalt',
+    'end_stone', 'purpur_block', 'prismarine', 'sea_lantern', 'glowstone', 'quartz_block', 'mud', 'moss_block',
+    'iron_block', 'gold_block', 'diamond_block', 'emerald_block', 'lapis_block', 'redstone_block',
+    'copper_block', 'coal_block', 'netherite_block', 'amethyst_block', 'slime_block', 'honey_block',
+    'ice', 'packed_ice', 'blue_ice', 'snow_block', 'bookshelf', 'tnt', 'hay_block', 'beacon', 'conduit',
+    'glass_pane', 'iron_bars', 'ladder', 'scaffolding', 'pumpkin', 'melon', 'cactus', 'sugar_cane', 'bamboo'
+  ]),
+
+  // Food
+  ...group('food', 64, [
+    'apple', 'golden_apple', 'enchanted_golden_apple', 'bread', 'cookie', 'carrot', 'golden_carrot', 'potato',
+    'baked_potato', 'beetroot', 'melon_slice', 'sweet_berries', 'glow_berries', 'dried_kelp', 'pumpkin_pie',
+    'beef', 'cooked_beef', 'porkchop', 'cooked_porkchop', 'chicken', 'cooked_chicken', 'mutton', 'cooked_mutton',
+    'rabbit', 'cooked_rabbit', 'cod', 'cooked_cod', 'salmon', 'cooked_salmon', 'chorus_fruit'
+  ]),
+  ...group('food', 16, ['honey_bottle']),
+  ...group('food', 1, ['cake', 'mushroom_stew', 'rabbit_stew', 'beetroot_soup', 'suspicious_stew']),
+
+  // Materials and everything else
+  ...group('misc', 64, [
+    'diamond', 'emerald', 'iron_ingot', 'gold_ingot', 'copper_ingot', 'netherite_ingot', 'netherite_scrap',
+    'coal', 'charcoal', 'redstone', 'lapis_lazuli', 'quartz', 'amethyst_shard', 'iron_nugget', 'gold_nugget',
+    'stick', 'string', 'leather', 'feather', 'gunpowder', 'bone', 'bone_meal', 'slime_ball', 'blaze_rod',
+    'blaze_powder', 'ender_eye', 'ghast_tear', 'nether_star', 'phantom_membrane', 'shulker_shell',
+    'experience_bottle', 'name_tag', 'book', 'paper', 'chain', 'lantern', 'torch', 'rail', 'powered_rail',
+    'hopper', 'chest', 'trapped_chest', 'ender_chest', 'barrel', 'crafting_table', 'furnace', 'blast_furnace',
+    'smoker', 'anvil', 'chipped_anvil', 'damaged_anvil', 'enchanting_table', 'brewing_stand', 'cauldron',
+    'smithing_table', 'grindstone', 'stonecutter', 'loom', 'cartography_table', 'fletching_table', 'lectern',
+    'composter', 'jukebox', 'note_block', 'crafter', 'lodestone', 'respawn_anchor', 'piston', 'sticky_piston',
+    'observer', 'dispenser', 'dropper', 'repeater', 'comparator', 'lever', 'daylight_detector', 'target',
+    'detector_rail', 'activator_rail', 'item_frame', 'glow_item_frame', 'painting', 'flower_pot', 'nautilus_shell', 'heart_of_the_sea', 'breeze_rod', 'heavy_core',
+    'netherite_upgrade_smithing_template', 'rib_armor_trim_smithing_template', 'snout_armor_trim_smithing_template',
+    'bee_spawn_egg', 'skeleton_horse_spawn_egg', 'zombie_horse_spawn_egg'
+  ]),
+  ...group('misc', 16, [
+    ...combine([...WOOD_TYPES, ...NETHER_WOOD_TYPES], ['sign', 'hanging_sign']),
+    ...combine(COLORS, ['banner']),
+    'egg', 'snowball', 'armor_stand', 'written_book'
+  ]),
+  ...group('misc', 1, [
+    'totem_of_undying', 'enchanted_book', 'saddle', 'shulker_box', 'diamond_horse_armor', 'iron_horse_armor',
+    'golden_horse_armor', 'leather_horse_armor', 'music_disc_pigstep', 'music_disc_otherside', 'music_disc_relic',
+    'snout_banner_pattern', 'potion', 'splash_potion', 'lingering_potion', 'water_bucket', 'lava_bucket',
+    'milk_bucket', 'minecart', 'chest_minecart', 'hopper_minecart', 'bundle', 'writable_book',
+    ...combine(WOOD_TYPES, ['boat', 'chest_boat']),
+    ...combine(COLORS, ['bed', 'shulker_box'])
+  ])
+];
+
+const REGISTRY = new Map(VANILLA_ITEMS.map(item => [item.id, item]));
+
+/**
+ * Add the minecraft: namespace to bare IDs ("diamond_sword")
+ */
+export function normalizeMinecraftId(minecraftId: string): string {
+  const id = minecraftId.trim().toLowerCase();
+  return id.includes(':') ? id : `${MINECRAFT_NAMESPACE}:${id}`;
+}
+
+export function findVanillaItem(minecraftId: string): VanillaItem | undefined {
+  return REGISTRY.get(normalizeMinecraftId(minecraftId));
+}
+
+export function isVanillaItemId(minecraftId: string): boolean {
+  return findVanillaItem(minecraftId) !== undefined;
+}
+
+/**
+ * Shape check for namespaced IDs ("minecraft:oak_slab", "create:brass_ingot").
+ * Whether the ID is a known vanilla item is a separate question.
+ */
+export function isMinecraftItemId(minecraftId: string): boolean {
+  return /^[a-z0-9_.-]+:[a-z0-9_./-]+$/.test(normalizeMinecraftId(minecraftId));
+}
+
+/**
+ * Autocomplete by display name or ID. Prefix matches rank ahead of
+ * substring matches, then alphabetical.
+ */
+export function searchVanillaItems(query: string, limit = 10): VanillaItem[] {
+  const term = query.trim().toLowerCase().replace(`${MINECRAFT_NAMESPACE}:`, '');
+  if (!term) {
+    return [];
+  }
+
+  const score = (item: VanillaItem): number => {
+    const name = item.name.toLowerCase();
+    const path = item.id.slice(MINECRAFT_NAMESPACE.length + 1);
+    if (name.startsWith(term) || path.startsWith(term)) return 2;
+    if (name.includes(term) || path.includes(term)) return 1;
+    return 0;
+  };
+
+  return VANILLA_ITEMS
+    .map(item => ({ item, score: score(item) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.item.name.localeCompare(b.item.name))
+    .slice(0, limit)
+    .map(match => match.item);
+}
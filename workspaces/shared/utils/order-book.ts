@@ -0,0 +1,72 @@
+/**
+ * Order Book Aggregation
+ * Asks (sell listings) and bids (buy orders) converted to one trading unit
+ * are grouped into price levels: asks cheapest first, bids highest first,
+ * each level carrying the depth from the best price down to it. The spread
+ * is best ask minus best bid, so a negative spread means a buyer and a
+ * seller already agree on price.
+ */
+
+import type { OrderBook, OrderBookLevel, TradingUnitType } from '../types/service-interfaces.js';
+import { tradingUnitSize } from './trading-units.js';
+
+export type OrderBookSide = 'ask' | 'bid';
+
+export interface OrderBookEntry {
+  priceDiamonds: number; // Already in the book's unit
+  quantity: number;
+}
+
+// Quantities and prices are shown to the hundredth, as prices are stored
+function roundHundredths(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// 2 stacks of ender pearls are 32 pearls, or 2.67 dozen
+export function convertQuantity(
+  quantity: number,
+  fromUnit: TradingUnitType,
+  toUnit: TradingUnitType,
+  maxStackSize?: number
+): number {
+  return roundHundredths(quantity * tradingUnitSize(fromUnit, maxStackSize) / tradingUnitSize(toUnit, maxStackSize));
+}
+
+export function aggregateOrderBookLevels(entries: OrderBookEntry[], side: OrderBookSide): OrderBookLevel[] {
+  const levels = new Map<number, OrderBookLevel>();
+  for (const entry of entries) {
+    if (entry.quantity <= 0) continue;
+    const level = levels.get(entry.priceDiamonds)
+      ?? { priceDiamonds: entry.priceDiamonds, quantity: 0, orderCount: 0, cumulativeQuantity: 0 };
+    level.quantity = roundHundredths(level.quantity + entry.quantity);
+    level.orderCount += 1;
+    levels.set(entry.priceDiamonds, level);
+  }
+
+  const sorted = [...levels.values()].sort((a, b) =>
+    side === 'ask' ? a.priceDiamonds - b.priceDiamonds : b.priceDiamonds - a.priceDiamonds
+  );
+
+  let depth = 0;
+  for (const level of sorted) {
+    depth = roundHundredths(depth + level.quantity);
+    level.cumulativeQuantity = depth;
+  }
+  return sorted;
+}
+
+export function orderBookSummary(
+  asks: OrderBookLevel[],
+  bids: OrderBookLevel[]
+): Pick<OrderBook, 'bestAsk' | 'bestBid' | 'spread' | 'askDepth' | 'bidDepth'> {
+  const bestAsk = asks[0]?.priceDiamonds ?? null;
+  const bestBid = bids[0]?.priceDiamonds ?? null;
+
+  return {
+    bestAsk,
+    bestBid,
+    spread: bestAsk !== null && bestBid !== null ? roundHundredths(bestAsk - bestBid) : null,
+    askDepth: asks[asks.length - 1]?.cumulativeQuantity ?? 0,
+    bidDepth: bids[bids.length - 1]?.cumulativeQuantity ?? 0
+  };
+}
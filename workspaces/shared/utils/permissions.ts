@@ -0,0 +1,42 @@
+/**
+ * Permission Catalogue
+ * Single source of truth for what each role may do. Backend route guards,
+ * frontend HATEOAS links and the SQL generate_item_links() function all read
+ * from this mapping (mirrored in database/009_role_permissions.sql).
+ */
+
+import type { User, UserRole } from '../types/service-interfaces.js';
+
+export const PERMISSIONS = [
+  'SUBMIT_PRICE_DATA', // Report price and stock changes
+  'TRADE_ITEMS',       // Buy from and sell to other players
+  'EDIT_OWN_LISTINGS', // Create and manage own item listings
+  'VERIFY_PRICES',     // Mark any listing's price as verified
+  'REVIEW_REPORTS',    // Approve or reject community reports on any shop
+  'VIEW_ANALYTICS',    // Marketplace-wide analytics
+  'MANAGE_USERS'       // Change roles and deactivate accounts
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const USER_PERMISSIONS: readonly Permission[] = ['SUBMIT_PRICE_DATA', 'TRADE_ITEMS'];
+const SHOP_OWNER_PERMISSIONS: readonly Permission[] = [...USER_PERMISSIONS, 'EDIT_OWN_LISTINGS'];
+const MODERATOR_PERMISSIONS: readonly Permission[] = [...SHOP_OWNER_PERMISSIONS, 'VERIFY_PRICES', 'REVIEW_REPORTS'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: USER_PERMISSIONS,
+  shop_owner: SHOP_OWNER_PERMISSIONS,
+  moderator: MODERATOR_PERMISSIONS,
+  admin: [...MODERATOR_PERMISSIONS, 'VIEW_ANALYTICS', 'MANAGE_USERS']
+};
+
+export function permissionsForRole(role: UserRole): Set<Permission> {
+  return new Set(ROLE_PERMISSIONS[role] ?? []);
+}
+
+/**
+ * Anonymous and deactivated users hold no permissions
+ */
+export function hasPermission(user: Pick<User, 'role' | 'isActive'> | null | undefined, permission: Permission): boolean {
+  return !!user?.isActive && ROLE_PERMISSIONS[user.role].includes(permission);
+}
@@ -7,6 +7,7 @@
  */
 
 import { TradingUnitType } from '../types/service-interfaces.js';
+import { DEFAULT_MAX_STACK_SIZE, isTradingUnitAllowed, tradingUnitSize } from './trading-units.js';
 
 export interface PriceDisplay {
   text: string;
@@ -23,9 +24,20 @@ export interface PriceDisplay {
  * - 5 diamonds per item → "5 diamonds per item"
  * - 18 diamonds per stack → "2 diamond blocks per stack" (18/9=2)
  * - 1 diamond per item → "1 diamond per item"
+ *
+ * Stacks and shulkers are sized by `maxStackSize`; a "per stack" price for an
+ * item that does not stack is shown per item instead.
  */
-export function formatPrice(priceInDiamonds: number, tradingUnit: TradingUnitType = 'per_item'): PriceDisplay {
+export function formatPrice(
+  priceInDiamonds: number,
+  tradingUnit: TradingUnitType = 'per_item',
+  maxStackSize: number = DEFAULT_MAX_STACK_SIZE
+): PriceDisplay {
   const price = Number(priceInDiamonds);
+
+  if (!isTradingUnitAllowed(tradingUnit, maxStackSize)) {
+    return formatPrice(price, 'per_item', maxStackSize);
+  }
   
   // Handle special cases
   if (price === 0) {
@@ -51,8 +63,8 @@ export function formatPrice(priceInDiamonds: number, tradingUnit: TradingUnitTyp
   
   // For bulk units like shulkers, show per-diamond rates for clarity
   if (tradingUnit === 'per_shulker') {
-    // 1 shulker = 27 stacks = 27 × 64 = 1,728 items
-    const itemsPerShulker = 27 * 64;
+    // 1 shulker = 27 stacks, e.g. 27 × 64 = 1,728 items or 27 × 16 ender pearls
+    const itemsPerShulker = tradingUnitSize('per_shulker', maxStackSize);
     const itemsPerDiamond = Math.round(itemsPerShulker / diamondsPerUnit);
     
     return {
@@ -74,7 +86,7 @@ export function formatPrice(priceInDiamonds: number, tradingUnit: TradingUnitTyp
         text: `${diamonds} diamond${diamonds !== 1 ? 's' : ''} per stack`,
         icon: "diamonds",
         shortText: `${diamonds}dia/stack`,
-        fullText: `${diamonds} diamond${diamonds !== 1 ? 's' : ''} per stack (64 items)`
+        fullText: `${diamonds} diamond${diamonds !== 1 ? 's' : ''} per stack (${maxStackSize} items)`
       };
     } else {
       // Cheap items: show stacks per diamond
@@ -148,9 +160,14 @@ export function formatPrice(priceInDiamonds: number, tradingUnit: TradingUnitTyp
 /**
  * Format a price range for display in market stats
  */
-export function formatPriceRange(minPrice: number, maxPrice: number, tradingUnit: TradingUnitType = 'per_item'): PriceDisplay {
-  const minFormatted = formatPrice(minPrice, tradingUnit);
-  const maxFormatted = formatPrice(maxPrice, tradingUnit);
+export function formatPriceRange(
+  minPrice: number,
+  maxPrice: number,
+  tradingUnit: TradingUnitType = 'per_item',
+  maxStackSize: number = DEFAULT_MAX_STACK_SIZE
+): PriceDisplay {
+  const minFormatted = formatPrice(minPrice, tradingUnit, maxStackSize);
+  const maxFormatted = formatPrice(maxPrice, tradingUnit, maxStackSize);
   
   // If both are in the same category, show a combined range
   if (minFormatted.icon === maxFormatted.icon && minPrice > 0 && maxPrice > 0) {
@@ -217,8 +234,12 @@ export function formatTotalCost(unitPrice: number, quantity: number, tradingUnit
 /**
  * Format average price for market statistics
  */
-export function formatAveragePrice(averagePrice: number, tradingUnit: TradingUnitType = 'per_item'): PriceDisplay {
-  const display = formatPrice(averagePrice, tradingUnit);
+export function formatAveragePrice(
+  averagePrice: number,
+  tradingUnit: TradingUnitType = 'per_item',
+  maxStackSize: number = DEFAULT_MAX_STACK_SIZE
+): PriceDisplay {
+  const display = formatPrice(averagePrice, tradingUnit, maxStackSize);
   return {
     text: `Avg: ${display.text}`,
     icon: display.icon,
@@ -0,0 +1,65 @@
+/**
+ * Community Report Claimed Values
+ * The typed payload a report carries for its ReportType: the claimed price
+ * and trading unit, the claimed stock state, or the closure date. Incorrect
+ * info reports have none; the description says what is wrong.
+ */
+
+import type {
+  ClaimedValues,
+  ClaimedValuesByReportType,
+  ReportType
+} from '../types/service-interfaces.js';
+
+const CLAIM_TYPES: readonly ReportType[] = ['price_change', 'stock_status', 'shop_closure'];
+
+export function requiresClaim(reportType: ReportType): reportType is keyof ClaimedValuesByReportType {
+  return CLAIM_TYPES.includes(reportType);
+}
+
+// The report's claimed values, narrowed to its type
+export function claimedValuesFor<T extends keyof ClaimedValuesByReportType>(
+  report: { reportType: ReportType; claimedValues?: ClaimedValues },
+  reportType: T
+): ClaimedValuesByReportType[T] | undefined {
+  return report.reportType === reportType ? report.claimedValues as ClaimedValuesByReportType[T] | undefined : undefined;
+}
+
+/**
+ * Why the claimed values cannot be accepted for this report type, or null.
+ * Closure dates may be today in any timezone but not later.
+ */
+export function claimProblem(
+  report: { reportType: ReportType; claimedValues?: ClaimedValues },
+  now: Date = new Date()
+): string | null {
+  if (!requiresClaim(report.reportType)) {
+    return report.claimedValues === undefined ? null : 'Incorrect info reports do not take claimed values';
+  }
+  if (report.claimedValues === undefined) {
+    return `A ${report.reportType.replace('_', ' ')} report needs claimed values`;
+  }
+
+  const price = claimedValuesFor(report, 'price_change');
+  if (price && !(price.priceDiamonds > 0)) {
+    return 'Claimed price must be more than 0 diamonds';
+  }
+
+  const stock = claimedValuesFor(report, 'stock_status');
+  if (stock?.stockQuantity !== undefined && (stock.inStock !== stock.stockQuantity > 0)) {
+    return 'Claimed stock quantity does not match the claimed stock state';
+  }
+
+  const closure = claimedValuesFor(report, 'shop_closure');
+  if (closure) {
+    const closedOn = Date.parse(`${closure.closedOn}T00:00:00Z`);
+    if (Number.isNaN(closedOn)) {
+      return 'Closure date must be a YYYY-MM-DD date';
+    }
+    if (closedOn > now.getTime() + 24 * 60 * 60 * 1000) {
+      return 'Closure date cannot be in the future';
+    }
+  }
+
+  return null;
+}
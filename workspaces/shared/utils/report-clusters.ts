@@ -0,0 +1,53 @@
+/**
+ * Community Report Clusters
+ * Pending reports of the same type on the same item form a cluster. A new
+ * report whose claim agrees with earlier ones corroborates them; one that
+ * differs puts the whole cluster into conflict for a reviewer to settle.
+ *
+ * Claims are compared on their claimed values: the price in its trading
+ * unit, or the stock state. Shop closures agree whatever date each gives,
+ * as do stock reports without claimed values. Info corrections and price
+ * changes without claimed values are compared on their normalised
+ * description.
+ */
+
+import type { CommunityReport, ConfidenceLevel } from '../types/service-interfaces.js';
+import { claimedValuesFor } from './report-claims.js';
+
+const CONFIDENCE_ORDER: readonly ConfidenceLevel[] = ['low', 'medium', 'high'];
+
+type ClaimSource = Pick<CommunityReport, 'reportType' | 'description' | 'claimedValues'>;
+
+export function reportClaim(report: ClaimSource): string {
+  const price = claimedValuesFor(report, 'price_change');
+  if (price) {
+    return `${price.priceDiamonds} ${price.tradingUnit}`;
+  }
+
+  const stock = claimedValuesFor(report, 'stock_status');
+  if (stock) {
+    return stock.inStock ? 'in stock' : 'out of stock';
+  }
+
+  if (report.reportType === 'shop_closure' || report.reportType === 'stock_status') {
+    return report.reportType;
+  }
+
+  return report.description.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+}
+
+export function claimsAgree(a: ClaimSource, b: ClaimSource): boolean {
+  return a.reportType === b.reportType && reportClaim(a) === reportClaim(b);
+}
+
+// Each other player agreeing with a claim raises its confidence one level,
+// shown to reviewers and used to order the queue; auto-approval uses the
+// report's own score
+export function corroboratedConfidence(confidence: ConfidenceLevel, corroborations: number): ConfidenceLevel {
+  const index = CONFIDENCE_ORDER.indexOf(confidence) + Math.max(0, corroborations);
+  return CONFIDENCE_ORDER[Math.min(index, CONFIDENCE_ORDER.length - 1)];
+}
+
+export function maxConfidence(a: ConfidenceLevel | undefined, b: ConfidenceLevel): ConfidenceLevel {
+  return a && CONFIDENCE_ORDER.indexOf(a) > CONFIDENCE_ORDER.indexOf(b) ? a : b;
+}
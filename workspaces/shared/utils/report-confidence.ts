@@ -0,0 +1,65 @@
+/**
+ * Community Report Confidence Scoring
+ * The spec's evidence rules, shared by the backend ReportingService and the
+ * in-memory CommunityReportService.
+ *
+ * - High: screenshot + transaction record + established reporter (>5 approved)
+ * - Medium: screenshot OR transaction record, any reporter
+ * - Low: description only OR new reporter (<3 total reports)
+ *
+ * A reporter whose decayed trust score (see reporter-reputation.ts) has
+ * fallen below 0.25 is scored low as well, whatever their approved count.
+ *
+ * Only high-confidence stock status changes auto-approve; price changes and
+ * shop closures always go to manual review.
+ */
+
+import type {
+  ConfidenceLevel,
+  EvidenceType,
+  ReporterHistory,
+  ReportType
+} from '../types/service-interfaces.js';
+
+// Thresholds are exclusive, as worded in the spec
+export const ESTABLISHED_REPORTER_APPROVED_REPORTS = 5;
+export const NEW_REPORTER_TOTAL_REPORTS = 3;
+export const UNTRUSTED_REPORTER_TRUST_SCORE = 0.25;
+
+const AUTO_APPROVABLE_REPORT_TYPES: readonly ReportType[] = ['stock_status'];
+
+export function isEstablishedReporter(history: ReporterHistory): boolean {
+  return history.approvedReports > ESTABLISHED_REPORTER_APPROVED_REPORTS;
+}
+
+export function isNewReporter(history: ReporterHistory): boolean {
+  return history.totalReports < NEW_REPORTER_TOTAL_REPORTS;
+}
+
+export function isUntrustedReporter(history: ReporterHistory): boolean {
+  return history.trustScore !== undefined && history.trustScore < UNTRUSTED_REPORTER_TRUST_SCORE;
+}
+
+/**
+ * Score a report from its evidence types and the reporter's prior reports.
+ * Without a history the reporter can be neither new nor established, so the
+ * evidence alone decides between low and medium.
+ */
+export function scoreReportConfidence(evidenceTypes: readonly EvidenceType[], history?: ReporterHistory): ConfidenceLevel {
+  const hasScreenshot = evidenceTypes.includes('screenshot');
+  const hasTransaction = evidenceTypes.includes('transaction_record');
+
+  if ((!hasScreenshot && !hasTransaction) || (history && (isNewReporter(history) || isUntrustedReporter(history)))) {
+    return 'low';
+  }
+
+  if (hasScreenshot && hasTransaction && history && isEstablishedReporter(history)) {
+    return 'high';
+  }
+
+  return 'medium';
+}
+
+export function shouldAutoApprove(reportType: ReportType, confidence: ConfidenceLevel): boolean {
+  return confidence === 'high' && AUTO_APPROVABLE_REPORT_TYPES.includes(reportType);
+}
@@ -0,0 +1,69 @@
+/**
+ * Reporter Reputation
+ * Per-user report counts and a decayed trust score derived from report
+ * outcomes in community_reports. Mirrored by the reporter_reputation view in
+ * database/011_reporter_reputation.sql; keep both in sync.
+ *
+ * Trust is the share of decided reports that were approved, each weighted by
+ * age with a 90 day half-life and smoothed with one approved and one rejected
+ * pseudo-report, so a reporter with no decided reports sits at 0.5.
+ */
+
+import type { ReporterReputation, ReportStatus } from '../types/service-interfaces.js';
+import { isEstablishedReporter, isNewReporter, isUntrustedReporter } from './report-confidence.js';
+
+export const REPUTATION_HALF_LIFE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReputationTier = 'new' | 'untrusted' | 'established' | 'contributor';
+
+export const REPUTATION_TIER_LABELS: Record<ReputationTier, string> = {
+  new: 'New reporter',
+  untrusted: 'Often rejected',
+  established: 'Established reporter',
+  contributor: 'Contributor'
+};
+
+export function reputationWeight(createdAt: Date, now: Date = new Date()): number {
+  const ageDays = Math.max(0, now.getTime() - createdAt.getTime()) / DAY_MS;
+  return Math.pow(0.5, ageDays / REPUTATION_HALF_LIFE_DAYS);
+}
+
+export function computeReporterReputation(
+  reports: ReadonlyArray<{ status: ReportStatus; createdAt: Date }>,
+  now: Date = new Date()
+): ReporterReputation {
+  let approvedReports = 0;
+  let rejectedReports = 0;
+  let approvedWeight = 0;
+  let rejectedWeight = 0;
+
+  for (const report of reports) {
+    if (report.status === 'approved') {
+      approvedReports++;
+      approvedWeight += reputationWeight(report.createdAt, now);
+    } else if (report.status === 'rejected') {
+      rejectedReports++;
+      rejectedWeight += reputationWeight(report.createdAt, now);
+    }
+  }
+
+  return {
+    approvedReports,
+    rejectedReports,
+    totalReports: reports.length,
+    trustScore: (approvedWeight + 1) / (approvedWeight + rejectedWeight + 2)
+  };
+}
+
+// Badge shown next to reporter names; trust problems outrank experience
+export function reputationTier(reputation: ReporterReputation): ReputationTier {
+  if (isNewReporter(reputation)) {
+    return 'new';
+  }
+  if (isUntrustedReporter(reputation)) {
+    return 'untrusted';
+  }
+  return isEstablishedReporter(reputation) ? 'established' : 'contributor';
+}
@@ -0,0 +1,286 @@
+/**
+ * Shop Notifications
+ * Notifications sent to a shop owner's Discord webhook when one of their
+ * listings is reported, re-priced or running low, or to both players when a
+ * listing matches a buy order, and their Discord embed format. Delivery, retries and the delivery log live in the backend
+ * dispatcher.
+ *
+ * The spec asks for webhook delivery in under a minute; deliveries are
+ * measured from the event to the successful attempt, mirrored by the
+ * notification_delivery_sla view in database/014_shop_webhooks.sql.
+ */
+
+import type {
+  BuyOrder,
+  CommunityReport,
+  Item,
+  Notification,
+  NotificationDataByType,
+  NotificationDelivery,
+  NotificationType,
+  Price
+} from '../types/service-interfaces.js';
+import { formatPrice } from './price-display.js';
+import { maxStackSizeFor } from './trading-units.js';
+
+export const LOW_STOCK_THRESHOLD = 5;
+export const NOTIFICATION_DELIVERY_SLA_MS = 60 * 1000;
+// Discord rejects webhook messages with more embeds than this
+export const MAX_EMBEDS_PER_MESSAGE = 10;
+
+export const NOTIFICATION_COLORS: Record<NotificationType, number> = {
+  community_report: 0xe74c3c,
+  price_change: 0x3498db,
+  low_stock: 0xf39c12,
+  buy_order_match: 0x2ecc71
+};
+
+const REPORT_TYPE_LABELS: Record<CommunityReport['reportType'], string> = {
+  price_change: 'Price change',
+  stock_status: 'Stock status',
+  shop_closure: 'Shop closure',
+  incorrect_info: 'Incorrect info'
+};
+
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface DiscordEmbed {
+  title: string;
+  description: string;
+  color: number;
+  fields: DiscordEmbedField[];
+  timestamp: string;
+}
+
+export interface DiscordWebhookPayload {
+  username: string;
+  embeds: DiscordEmbed[];
+  allowed_mentions: { parse: string[] };
+}
+
+export interface DeliverySummary {
+  notifications: number;
+  delivered: number;
+  failed: number;
+  withinSla: number;
+}
+
+export function reportNotification(report: CommunityReport, item: Item): Notification {
+  return {
+    type: 'community_report',
+    recipient: item.ownerId,
+    title: `Community report on ${item.name}`,
+    message: report.description,
+    data: {
+      reportId: report.id,
+      itemId: item.id,
+      itemName: item.name,
+      reportType: report.reportType,
+      confidenceLevel: report.confidenceLevel,
+      autoApproved: report.autoApproved
+    },
+    createdAt: report.createdAt
+  };
+}
+
+export function priceChangeNotification(
+  item: Item,
+  price: Pick<Price, 'priceDiamonds' | 'tradingUnit' | 'source' | 'createdAt'>,
+  previous?: Pick<Price, 'priceDiamonds' | 'tradingUnit'>
+): Notification {
+  return {
+    type: 'price_change',
+    recipient: item.ownerId,
+    title: `Price changed for ${item.name}`,
+    message: price.source === 'community_report'
+      ? 'An approved community report updated the listing price.'
+      : 'The listing price was updated.',
+    data: {
+      itemId: item.id,
+      itemName: item.name,
+      minecraftId: item.minecraftId,
+      priceDiamonds: price.priceDiamonds,
+      tradingUnit: price.tradingUnit,
+      source: price.source,
+      previousPrice: previous && { priceDiamonds: previous.priceDiamonds, tradingUnit: previous.tradingUnit }
+    },
+    createdAt: price.createdAt
+  };
+}
+
+export function lowStockNotification(item: Item, now: Date = new Date()): Notification {
+  return {
+    type: 'low_stock',
+    recipient: item.ownerId,
+    title: item.stockQuantity > 0 ? `${item.name} is running low` : `${item.name} is out of stock`,
+    message: item.stockQuantity > 0
+      ? `Only ${item.stockQuantity} left in stock.`
+      : 'The listing has no stock left.',
+    data: {
+      itemId: item.id,
+      itemName: item.name,
+      stockQuantity: item.stockQuantity,
+      threshold: LOW_STOCK_THRESHOLD
+    },
+    createdAt: now
+  };
+}
+
+/**
+ * One notification each for the buyer who posted the order and the seller
+ * whose listing matched it
+ */
+export function buyOrderMatchNotifications(
+  order: BuyOrder,
+  item: Item,
+  price: Pick<Price, 'priceDiamonds' | 'tradingUnit'>,
+  now: Date = new Date()
+): [Notification, Notification] {
+  const data = (role: 'buyer' | 'seller') => ({
+    buyOrderId: order.id,
+    itemId: item.id,
+    itemName: item.name,
+    minecraftId: item.minecraftId,
+    serverName: order.serverName,
+    role,
+    priceDiamonds: price.priceDiamonds,
+    tradingUnit: price.tradingUnit,
+    maxPriceDiamonds: order.maxPriceDiamonds,
+    buyOrderUnit: order.tradingUnit,
+    quantity: order.quantity,
+    shopLocation: item.shopLocation
+  });
+
+  return [
+    {
+      type: 'buy_order_match',
+      recipient: order.ownerId,
+      title: `${item.name} for sale within your buy order`,
+      message: `A listing on ${order.serverName} meets your price.`,
+      data: data('buyer'),
+      createdAt: now
+    },
+    {
+      type: 'buy_order_match',
+      recipient: item.ownerId,
+      title: `A buyer wants your ${item.name}`,
+      message: `A player on ${order.serverName} has a buy order your listing meets.`,
+      data: data('seller'),
+      createdAt: now
+    }
+  ];
+}
+
+// Only the change that crosses into low stock notifies, not every sale after it
+export function isLowStockDrop(before: number, after: number, threshold: number = LOW_STOCK_THRESHOLD): boolean {
+  return before > threshold && after <= threshold;
+}
+
+// The notification's data, narrowed to its type
+export function notificationData<T extends NotificationType>(
+  notification: Notification,
+  type: T
+): NotificationDataByType[T] | undefined {
+  return notification.type === type ? notification.data as NotificationDataByType[T] | undefined : undefined;
+}
+
+export function discordEmbed(notification: Notification, now: Date = new Date()): DiscordEmbed {
+  return {
+    title: notification.title,
+    description: notification.message,
+    color: NOTIFICATION_COLORS[notification.type],
+    fields: embedFields(notification),
+    timestamp: (notification.createdAt ?? now).toISOString()
+  };
+}
+
+export function discordWebhookPayload(notifications: Notification[], now: Date = new Date()): DiscordWebhookPayload {
+  return {
+    username: 'Minecraft Marketplace',
+    embeds: notifications.map(notification => discordEmbed(notification, now)),
+    // Report descriptions are player-written; never let them ping anyone
+    allowed_mentions: { parse: [] }
+  };
+}
+
+/**
+ * Per-notification outcome of the logged attempts. A notification counts as
+ * within the SLA when its delivered attempt finished no later than
+ * NOTIFICATION_DELIVERY_SLA_MS after the event.
+ */
+export function summarizeDeliveries(deliveries: readonly NotificationDelivery[]): DeliverySummary {
+  const byNotification = new Map<string, NotificationDelivery[]>();
+  for (const delivery of deliveries) {
+    byNotification.set(delivery.notificationId, [...byNotification.get(delivery.notificationId) ?? [], delivery]);
+  }
+
+  const summary: DeliverySummary = { notifications: byNotification.size, delivered: 0, failed: 0, withinSla: 0 };
+  for (const attempts of byNotification.values()) {
+    const delivered = attempts.find(attempt => attempt.status === 'delivered');
+    if (delivered) {
+      summary.delivered++;
+      if (delivered.attemptedAt.getTime() - delivered.eventAt.getTime() <= NOTIFICATION_DELIVERY_SLA_MS) {
+        summary.withinSla++;
+      }
+    } else if (attempts.some(attempt => attempt.status === 'failed')) {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+function embedFields(notification: Notification): DiscordEmbedField[] {
+  const report = notificationData(notification, 'community_report');
+  if (report) {
+    return [
+      { name: 'Item', value: report.itemName, inline: true },
+      { name: 'Report type', value: REPORT_TYPE_LABELS[report.reportType], inline: true },
+      { name: 'Confidence', value: report.confidenceLevel ?? 'unscored', inline: true },
+      { name: 'Status', value: report.autoApproved ? 'Auto-approved' : 'Awaiting your review' }
+    ];
+  }
+
+  const price = notificationData(notification, 'price_change');
+  if (price) {
+    const maxStackSize = maxStackSizeFor(price.minecraftId);
+    const fields = [
+      { name: 'Item', value: price.itemName, inline: true },
+      { name: 'New price', value: formatPrice(price.priceDiamonds, price.tradingUnit, maxStackSize).text, inline: true }
+    ];
+    if (price.previousPrice) {
+      fields.push({
+        name: 'Previous price',
+        value: formatPrice(price.previousPrice.priceDiamonds, price.previousPrice.tradingUnit, maxStackSize).text,
+        inline: true
+      });
+    }
+    return fields;
+  }
+
+  const match = notificationData(notification, 'buy_order_match');
+  if (match) {
+    const maxStackSize = maxStackSizeFor(match.minecraftId);
+    return [
+      { name: 'Item', value: match.itemName, inline: true },
+      { name: 'Listed at', value: formatPrice(match.priceDiamonds, match.tradingUnit, maxStackSize).text, inline: true },
+      { name: 'Buy order', value: `${match.quantity} × up to ${formatPrice(match.maxPriceDiamonds, match.buyOrderUnit, maxStackSize).text}`, inline: true },
+      { name: 'Where', value: [match.serverName, match.shopLocation].filter(Boolean).join(', ') }
+    ];
+  }
+
+  const stock = notificationData(notification, 'low_stock');
+  if (stock) {
+    return [
+      { name: 'Item', value: stock.itemName, inline: true },
+      { name: 'Stock left', value: String(stock.stockQuantity), inline: true },
+      { name: 'Alert threshold', value: String(stock.threshold), inline: true }
+    ];
+  }
+
+  return [];
+}
@@ -0,0 +1,56 @@
+/**
+ * Trading Unit Sizes
+ * Items per trading unit, shared by price conversion in services and the
+ * per-item normalisation PostgreSQL applies when filtering and sorting.
+ *
+ * Stacks and shulkers depend on the item's max stack size: a stack of ender
+ * pearls is 16 and a shulker of swords is 27. Use tradingUnitSize() with the
+ * item's stack size; TRADING_UNIT_SIZES only holds for items that stack to 64.
+ */
+
+import type { TradingUnitType } from '../types/service-interfaces.js';
+import { findVanillaItem } from './minecraft-items.js';
+
+export const DEFAULT_MAX_STACK_SIZE = 64;
+export const SHULKER_BOX_SLOTS = 27;
+export const STACK_SIZES = [1, 16, 64] as const;
+
+export const TRADING_UNIT_SIZES: Record<TradingUnitType, number> = {
+  per_item: 1,
+  per_stack: DEFAULT_MAX_STACK_SIZE,
+  per_shulker: DEFAULT_MAX_STACK_SIZE * SHULKER_BOX_SLOTS, // 1728
+  per_dozen: 12
+};
+
+/**
+ * Max stack size from the vanilla registry, then the listing's extracted
+ * item attributes (for IDs outside the registry), else 64
+ */
+export function maxStackSizeFor(minecraftId?: string | null, itemAttributes?: Record<string, any> | null): number {
+  const registered = minecraftId ? findVanillaItem(minecraftId)?.maxStackSize : undefined;
+  if (registered) {
+    return registered;
+  }
+
+  const attribute = Number(itemAttributes?.maxStackSize);
+  return (STACK_SIZES as readonly number[]).includes(attribute) ? attribute : DEFAULT_MAX_STACK_SIZE;
+}
+
+export function tradingUnitSize(unit: TradingUnitType, maxStackSize: number = DEFAULT_MAX_STACK_SIZE): number {
+  switch (unit) {
+    case 'per_stack':
+      return maxStackSize;
+    case 'per_shulker':
+      return maxStackSize * SHULKER_BOX_SLOTS;
+    default:
+      return TRADING_UNIT_SIZES[unit] ?? 1;
+  }
+}
+
+/**
+ * "Per stack" is meaningless for items that do not stack. A shulker of
+ * unstackables (27 items) and a dozen remain valid bulk units.
+ */
+export function isTradingUnitAllowed(unit: TradingUnitType, maxStackSize: number = DEFAULT_MAX_STACK_SIZE): boolean {
+  return unit !== 'per_stack' || maxStackSize > 1;
+}
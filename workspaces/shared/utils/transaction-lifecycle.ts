@@ -0,0 +1,81 @@
+/**
+ * Transaction Lifecycle
+ * Which party may move a trade between which states. A buyer opens a trade
+ * as pending; the seller accepts it, meets the buyer in game and completes
+ * it, which takes the quantity out of the listing's stock. Either party may
+ * cancel before completion or dispute an accepted or completed trade.
+ * Cancelled and disputed trades are final. The backend enforces this table;
+ * the dashboard reads it to decide which buttons to show. While a trade is
+ * open its quantity is held against the listing, so listings show the stock
+ * that is still free to buy.
+ */
+
+import type { Item, Transaction, TransactionStatus } from '../types/service-interfaces.js';
+
+export type TransactionAction = 'accept' | 'complete' | 'cancel' | 'dispute';
+export type TransactionRole = 'buyer' | 'seller';
+
+export interface TransactionTransition {
+  from: readonly TransactionStatus[];
+  to: TransactionStatus;
+  by: readonly TransactionRole[];
+}
+
+export const TRANSACTION_TRANSITIONS: Record<TransactionAction, TransactionTransition> = {
+  accept: { from: ['pending'], to: 'accepted', by: ['seller'] },
+  complete: { from: ['accepted'], to: 'completed', by: ['seller'] },
+  cancel: { from: ['pending', 'accepted'], to: 'cancelled', by: ['buyer', 'seller'] },
+  dispute: { from: ['accepted', 'completed'], to: 'disputed', by: ['buyer', 'seller'] }
+};
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  pending: 'Awaiting seller',
+  accepted: 'Accepted',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  disputed: 'Disputed'
+};
+
+export function transactionRole(
+  transaction: Pick<Transaction, 'buyerId' | 'sellerId'>,
+  userId: string
+): TransactionRole | null {
+  if (transaction.buyerId === userId) return 'buyer';
+  if (transaction.sellerId === userId) return 'seller';
+  return null;
+}
+
+export function canTransition(
+  transaction: Pick<Transaction, 'status'>,
+  role: TransactionRole,
+  action: TransactionAction
+): boolean {
+  const transition = TRANSACTION_TRANSITIONS[action];
+  return transition.from.includes(transaction.status) && transition.by.includes(role);
+}
+
+/**
+ * Actions the user may take on the transaction right now, in lifecycle order
+ */
+export function availableTransactionActions(
+  transaction: Pick<Transaction, 'buyerId' | 'sellerId' | 'status'>,
+  userId: string
+): TransactionAction[] {
+  const role = transactionRole(transaction, userId);
+  if (!role) {
+    return [];
+  }
+
+  return (Object.keys(TRANSACTION_TRANSITIONS) as TransactionAction[])
+    .filter(action => canTransition(transaction, role, action));
+}
+
+// Trade value rounded to the hundredth of a diamond, as prices are stored
+export function transactionTotal(priceDiamonds: number, quantity: number): number {
+  return Math.round(priceDiamonds * quantity * 100) / 100;
+}
+
+// Stock not held by other players' open trades
+export function availableStock(item: Pick<Item, 'stockQuantity' | 'reservedQuantity'>): number {
+  return Math.max(0, item.stockQuantity - (item.reservedQuantity ?? 0));
+}